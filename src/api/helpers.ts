@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import { Request, RequestHandler, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { getComplianceRuleEngine } from '../compliance';
+import { Grant, Organization } from '../models/Grant';
+import {
+  organizationFromJSON,
+  RecipientOrganization,
+  recipientDetails,
+} from '../models/Organization';
+import { findOrganization, getGrantRepository, getOrganizationRepository } from '../repositories';
+import { AppError, NotFoundError, PreconditionRequiredError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface RequestUser {
+  id: string;
+  roles: string[];
+}
+
+/**
+ * Identity of the caller as attached by `requireAuth`. Falls back to `system`
+ * for internal callers that do not carry a user.
+ */
+export function getRequestUser(req: Request): RequestUser {
+  const user = (req as Request & { user?: Partial<RequestUser> }).user;
+  return { id: user?.id || 'system', roles: user?.roles || [] };
+}
+
+/**
+ * Sends a 400 with the express-validator errors, returning false, when the
+ * request failed validation.
+ */
+export function checkValidation(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Custom validator for compliance requirements in request bodies: they need a
+ * registered rule type or a valid condition of their own.
+ */
+export function checkComplianceRequirement(requirement: unknown): true {
+  const problems = getComplianceRuleEngine().validateRequirement(requirement);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  return true;
+}
+
+/**
+ * Adapts an async route handler to Express 4, which ignores the promise a
+ * handler returns: a rejection is answered through sendError instead of
+ * leaving the request hanging.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler {
+  return (req, res) => {
+    handler(req, res).catch((error: unknown) => sendError(res, error, 'Request failed'));
+  };
+}
+
+export function sendError(res: Response, error: unknown, message: string): void {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      ...error.details(),
+    });
+    return;
+  }
+
+  logger.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: message,
+  });
+}
+
+/**
+ * Reads the grant or organization version the client last saw from `If-Match`. Accepts a bare
+ * number or an entity tag as emitted in our `ETag` header (`"3"` or `W/"3"`).
+ */
+export function expectedVersionFrom(req: Request): number {
+  const header = req.get('If-Match');
+  const match = header?.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  if (!match) {
+    throw new PreconditionRequiredError('If-Match header with the current version is required');
+  }
+  return Number(match[1]);
+}
+
+export async function loadGrant(grantId: string): Promise<Grant> {
+  const grant = await getGrantRepository().findById(grantId);
+  if (!grant) {
+    throw new NotFoundError('Grant not found');
+  }
+  return grant;
+}
+
+export function sendGrant(res: Response, grant: Grant, status = 200): void {
+  res.set('ETag', `"${grant.version}"`);
+  res.status(status).json({
+    success: true,
+    data: grant,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function loadOrganization(organizationId: string): Promise<RecipientOrganization> {
+  const organization = await getOrganizationRepository().findById(organizationId);
+  if (!organization) {
+    throw new NotFoundError('Organization not found');
+  }
+  return organization;
+}
+
+/**
+ * Links a grant recipient to its registered organization, matched on ID or
+ * tax ID, registering the organization if it is new. Returns the registered
+ * details for the grant to embed.
+ */
+export async function registerRecipient(details: Organization): Promise<Organization> {
+  const existing = await findOrganization(details);
+  if (existing) {
+    return recipientDetails(existing);
+  }
+  const now = new Date();
+  const organization = await getOrganizationRepository().save(
+    organizationFromJSON({
+      ...details,
+      id: details.id || randomUUID(),
+      auditFindings: [],
+      createdAt: now,
+      updatedAt: now,
+    })
+  );
+  return recipientDetails(organization);
+}
@@ -0,0 +1,32 @@
+import { Express } from 'express';
+import metricsRoutes from './routes/metrics';
+import grantRoutes from './routes/grants';
+import budgetRoutes from './routes/budgets';
+import expenditureRoutes from './routes/expenditures';
+import approvalRoutes from './routes/approvals';
+import importProfileRoutes from './routes/importProfiles';
+import rulePackRoutes from './routes/rulePacks';
+import calendarRoutes from './routes/calendar';
+import correctiveActionRoutes from './routes/correctiveActions';
+import documentRoutes from './routes/documents';
+import kpiRoutes from './routes/kpis';
+import logicModelRoutes from './routes/logicModel';
+import organizationRoutes from './routes/organizations';
+import portfolioRoutes from './routes/portfolios';
+
+export function setupRoutes(app: Express): void {
+  app.use('/api/v1/metrics', metricsRoutes);
+  app.use('/api/v1/grants/:grantId/budget', budgetRoutes);
+  app.use('/api/v1/grants/:grantId/expenditures', expenditureRoutes);
+  app.use('/api/v1/grants/:grantId/corrective-actions', correctiveActionRoutes);
+  app.use('/api/v1/grants/:grantId/documents', documentRoutes);
+  app.use('/api/v1/grants/:grantId/kpis', kpiRoutes);
+  app.use('/api/v1/grants/:grantId/logic-model', logicModelRoutes);
+  app.use('/api/v1/approvals', approvalRoutes);
+  app.use('/api/v1/import-profiles', importProfileRoutes);
+  app.use('/api/v1/rule-packs', rulePackRoutes);
+  app.use('/api/v1/calendar', calendarRoutes);
+  app.use('/api/v1/organizations', organizationRoutes);
+  app.use('/api/v1/portfolios', portfolioRoutes);
+  app.use('/api/v1/grants', grantRoutes);
+}
@@ -0,0 +1,99 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { UnauthorizedError } from '../../utils/errors';
+import { RequestUser, sendError } from '../helpers';
+
+/** Audience of tokens that only open one feed, e.g. `feed:calendar/me` */
+const FEED_AUDIENCE_PREFIX = 'feed:';
+
+/**
+ * The caller a token signed with JWT_SECRET identifies: its subject as ID and
+ * its `roles` claim. Feed tokens are accepted only when `feed` names theirs.
+ * Answers 401 and returns undefined when the token is missing, expired, not
+ * validly signed or for another feed.
+ */
+function authenticate(
+  res: Response,
+  token: string | undefined,
+  feed?: string
+): RequestUser | undefined {
+  const reject = (message: string): void => sendError(res, new UnauthorizedError(message), message);
+
+  const secret = process.env.JWT_SECRET;
+  if (!token || !secret) {
+    reject('Authentication required');
+    return undefined;
+  }
+
+  let payload: string | jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, secret, feed ? { audience: `${FEED_AUDIENCE_PREFIX}${feed}` } : {});
+  } catch {
+    reject('Invalid or expired token');
+    return undefined;
+  }
+  if (typeof payload === 'string' || !payload.sub) {
+    reject('Token does not identify a user');
+    return undefined;
+  }
+  // Feed tokens sit in subscription URLs, so they must not open the rest of the API
+  if (!feed && payload.aud !== undefined) {
+    reject('Token is only valid for a feed');
+    return undefined;
+  }
+
+  const roles: unknown = payload.roles;
+  return {
+    id: payload.sub,
+    roles: Array.isArray(roles) ? roles.filter((r): r is string => typeof r === 'string') : [],
+  };
+}
+
+/**
+ * Verifies the bearer token, signed with JWT_SECRET, and attaches the caller
+ * to the request as `req.user`: the token subject as ID and its `roles` claim.
+ * Answers 401 when the token is missing, expired or not validly signed.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const user = authenticate(res, req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]);
+  if (user) {
+    (req as Request & { user?: RequestUser }).user = user;
+    next();
+  }
+}
+
+/**
+ * Signs a token that authenticates `user` on a single feed when passed as its
+ * `token` query parameter, for clients such as calendar apps that subscribe
+ * to a URL and cannot send an Authorization header.
+ */
+export function signFeedToken(user: RequestUser, feed: string): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return jwt.sign({ roles: user.roles }, secret, {
+    subject: user.id,
+    audience: `${FEED_AUDIENCE_PREFIX}${feed}`,
+  });
+}
+
+/**
+ * `requireAuth` for a feed: also accepts a `token` query parameter signed by
+ * `signFeedToken` for the feed `feedOf` names for the request.
+ */
+export function requireFeedAuth(feedOf: (req: Request) => string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { token } = req.query;
+    if (token === undefined) {
+      requireAuth(req, res, next);
+      return;
+    }
+
+    const user = authenticate(res, typeof token === 'string' ? token : undefined, feedOf(req));
+    if (user) {
+      (req as Request & { user?: RequestUser }).user = user;
+      next();
+    }
+  };
+}
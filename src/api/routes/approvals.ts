@@ -0,0 +1,83 @@
+import { Router, Request, Response } from 'express';
+import { query, matchedData } from 'express-validator';
+import { getGrantRepository } from '../../repositories';
+import { ExpenditureApprovalWorkflow } from '../../workflows/ExpenditureApproval';
+import { requireAuth } from '../middleware/validation';
+import { asyncHandler, checkValidation, getRequestUser, sendError } from '../helpers';
+
+const router = Router();
+const approvalWorkflow = new ExpenditureApprovalWorkflow();
+
+/**
+ * @swagger
+ * /api/v1/approvals/expenditures:
+ *   get:
+ *     summary: Expenditure approval queue
+ *     description: Pending expenditures across grants whose next approval step the caller's roles may decide, oldest submission first, with any allowability rule violations.
+ *     tags: [Expenditures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: grantId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: step
+ *         schema:
+ *           type: string
+ *         description: Only items waiting on this approval step
+ *       - in: query
+ *         name: allowable
+ *         schema:
+ *           type: boolean
+ *         description: true for items that pass every allowability rule, false for items with violations
+ *     responses:
+ *       200:
+ *         description: Queue retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/expenditures',
+  requireAuth,
+  [
+    query('grantId').optional().isString(),
+    query('step').optional().isString(),
+    query('allowable').optional().isBoolean().toBoolean(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { grantId, step, allowable } = matchedData<{
+        grantId?: string;
+        step?: string;
+        allowable?: boolean;
+      }>(req, { locations: ['query'] });
+      const grants = (await getGrantRepository().findAll()).filter(
+        (g) => !grantId || g.id === grantId
+      );
+      const items = approvalWorkflow
+        .queue(grants, getRequestUser(req).roles)
+        .filter(
+          (item) =>
+            (!step || item.nextStep.name === step) &&
+            (allowable === undefined || (item.allowabilityIssues.length === 0) === allowable)
+        );
+
+      res.json({
+        success: true,
+        data: items,
+        total: items.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch approval queue');
+    }
+  })
+);
+
+export default router;
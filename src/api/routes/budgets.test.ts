@@ -0,0 +1,106 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Grant } from '../../models/Grant';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const BUDGET = '/api/v1/grants/GR-2023-001/budget';
+
+const categories = [
+  { name: 'Personnel', amount: 60000, lineItems: [{ description: 'Coordinator', amount: 60000 }] },
+  { name: 'Travel', amount: 10000 },
+];
+
+describe('budget routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+  const officer = bearer('program.officer', ['program-officer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  async function setBudget(): Promise<Grant> {
+    const res = await request(app)
+      .put(BUDGET)
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ categories })
+      .expect(200);
+    return bodyOf<Grant>(res).data;
+  }
+
+  async function requestRevision(version: number, amount: number): Promise<Grant> {
+    const res = await request(app)
+      .post(`${BUDGET}/revisions`)
+      .set('Authorization', manager)
+      .set('If-Match', `"${version}"`)
+      .send({
+        reason: 'More site visits',
+        transfers: [{ fromCategory: 'Personnel', toCategory: 'Travel', amount }],
+      })
+      .expect(201);
+    return bodyOf<Grant>(res).data;
+  }
+
+  it('requires If-Match to set the budget and rejects stale versions', async () => {
+    await request(app).put(BUDGET).set('Authorization', manager).send({ categories }).expect(428);
+    await request(app)
+      .put(BUDGET)
+      .set('Authorization', manager)
+      .set('If-Match', '"2"')
+      .send({ categories })
+      .expect(409);
+  });
+
+  it('sets the budget with the original amounts and line item IDs', async () => {
+    const grant = await setBudget();
+
+    expect(grant.version).toBe(4);
+    expect(grant.budget?.categories[0]).toMatchObject({ amount: 60000, originalAmount: 60000 });
+    expect(grant.budget?.categories[0].lineItems[0].id).toEqual(expect.any(String));
+  });
+
+  it('rejects duplicate category names', async () => {
+    await request(app)
+      .put(BUDGET)
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ categories: [...categories, { name: 'travel', amount: 100 }] })
+      .expect(422);
+  });
+
+  it('lets only approvers decide revisions, applying approved transfers', async () => {
+    const grant = await requestRevision((await setBudget()).version, 5000);
+    const revision = grant.budget?.revisions[0];
+    const decide = (auth: string, version: number): request.Test =>
+      request(app)
+        .post(`${BUDGET}/revisions/${revision?.id}/decision`)
+        .set('Authorization', auth)
+        .set('If-Match', `"${version}"`)
+        .send({ decision: 'approved' });
+
+    await decide(manager, grant.version).expect(403);
+    const res = await decide(officer, grant.version).expect(200);
+
+    const decided = bodyOf<Grant>(res).data;
+    expect(decided.budget?.categories.map((c) => c.amount)).toEqual([55000, 15000]);
+    expect(decided.budget?.revisions[0]).toMatchObject({
+      status: 'approved',
+      decidedBy: 'program.officer',
+      grantorApproved: true,
+    });
+    await decide(officer, decided.version).expect(409);
+  });
+
+  it('refuses to approve transfers beyond a category budget', async () => {
+    const grant = await requestRevision((await setBudget()).version, 70000);
+    const revisionId = grant.budget?.revisions[0].id || '';
+
+    await request(app)
+      .post(`${BUDGET}/revisions/${revisionId}/decision`)
+      .set('Authorization', officer)
+      .set('If-Match', `"${grant.version}"`)
+      .send({ decision: 'approved' })
+      .expect(422);
+  });
+});
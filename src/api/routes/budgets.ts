@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData } from 'express-validator';
+import { BudgetCategory, BudgetTransfer } from '../../models/Budget';
+import { getGrantRepository } from '../../repositories';
+import { ForbiddenError, ValidationError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/budget
+const router = Router({ mergeParams: true });
+
+const REVISION_APPROVER_ROLES = ['admin', 'program-officer', 'finance'];
+// Roles acting for the grantor; their approval satisfies the rebudgeting cap
+const GRANTOR_ROLES = ['admin', 'program-officer'];
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/budget:
+ *   get:
+ *     summary: Get the budget of a grant
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Budget retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *   put:
+ *     summary: Set the approved budget of a grant
+ *     description: Replaces the budget categories, line items and period allocations. Requires `If-Match` with the grant version.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Budget saved
+ *       409:
+ *         description: Grant was modified since the given version
+ *       428:
+ *         description: If-Match header missing
+ */
+router.get(
+  '/',
+  requireAuth,
+  [grantIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: grant.budget || null,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch budget');
+    }
+  })
+);
+
+router.put(
+  '/',
+  requireAuth,
+  [
+    grantIdParam,
+    body('categories').isArray({ min: 1 }),
+    body('categories.*.name').isString().trim().notEmpty(),
+    body('categories.*.amount').isFloat({ min: 0 }).toFloat(),
+    body('categories.*.lineItems').optional().isArray(),
+    body('categories.*.lineItems.*.id').optional().isString(),
+    body('categories.*.lineItems.*.description').isString(),
+    body('categories.*.lineItems.*.amount').isFloat({ min: 0 }).toFloat(),
+    body('categories.*.lineItems.*.quantity').optional().isFloat({ min: 0 }).toFloat(),
+    body('categories.*.lineItems.*.unitCost').optional().isFloat({ min: 0 }).toFloat(),
+    body('categories.*.allocations').optional().isArray(),
+    body('categories.*.allocations.*.periodStart').isISO8601().toDate(),
+    body('categories.*.allocations.*.periodEnd').isISO8601().toDate(),
+    body('categories.*.allocations.*.amount').isFloat({ min: 0 }).toFloat(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const { categories } = matchedData<{
+        categories: Omit<BudgetCategory, 'originalAmount'>[];
+      }>(req, { locations: ['body'] });
+
+      const names = new Set(categories.map((c) => c.name.toLowerCase()));
+      if (names.size !== categories.length) {
+        throw new ValidationError('Budget category names must be unique');
+      }
+
+      grant.setBudget(
+        categories.map((c) => ({
+          ...c,
+          lineItems: (c.lineItems || []).map((item) => ({ ...item, id: item.id || randomUUID() })),
+        })),
+        getRequestUser(req).id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to save budget');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/budget/revisions:
+ *   post:
+ *     summary: Request a budget revision
+ *     description: Proposes transfers between budget categories. Requires `If-Match` with the grant version.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Revision requested
+ *       409:
+ *         description: Grant has no budget, or was modified since the given version
+ */
+router.post(
+  '/revisions',
+  requireAuth,
+  [
+    grantIdParam,
+    body('reason').isString().trim().notEmpty(),
+    body('transfers').isArray({ min: 1 }),
+    body('transfers.*.fromCategory').isString().trim().notEmpty(),
+    body('transfers.*.toCategory').isString().trim().notEmpty(),
+    body('transfers.*.amount').isFloat({ gt: 0 }).toFloat(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req).id;
+      const { reason, transfers } = matchedData<{ reason: string; transfers: BudgetTransfer[] }>(
+        req,
+        { locations: ['body'] }
+      );
+
+      grant.requestBudgetRevision(
+        {
+          id: randomUUID(),
+          reason,
+          transfers,
+          status: 'pending',
+          requestedBy: user,
+          requestedDate: new Date(),
+          grantorApproved: false,
+        },
+        user
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to request budget revision');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/budget/revisions/{revisionId}/decision:
+ *   post:
+ *     summary: Approve or reject a budget revision
+ *     description: Approval applies the transfers. Approval by a program officer counts as grantor approval. Requires `If-Match` with the grant version.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       403:
+ *         description: Caller may not decide budget revisions
+ *       409:
+ *         description: Revision already decided, or grant modified since the given version
+ *       422:
+ *         description: Transfers reference unknown categories or exceed a category's budget
+ */
+router.post(
+  '/revisions/:revisionId/decision',
+  requireAuth,
+  [
+    grantIdParam,
+    param('revisionId').trim().notEmpty(),
+    body('decision').isIn(['approved', 'rejected']),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const user = getRequestUser(req);
+      if (!user.roles.some((role) => REVISION_APPROVER_ROLES.includes(role))) {
+        throw new ForbiddenError(
+          `Deciding budget revisions requires one of the roles: ${REVISION_APPROVER_ROLES.join(', ')}`
+        );
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const { decision, notes } = matchedData<{
+        decision: 'approved' | 'rejected';
+        notes?: string;
+      }>(req, { locations: ['body'] });
+
+      grant.decideBudgetRevision(req.params.revisionId, decision, user.id, {
+        notes,
+        grantorApproved: user.roles.some((role) => GRANTOR_ROLES.includes(role)),
+      });
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to decide budget revision');
+    }
+  })
+);
+
+export default router;
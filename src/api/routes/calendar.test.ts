@@ -0,0 +1,75 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Holiday } from '../../calendar';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+describe('calendar routes', () => {
+  let app: Express;
+  const auth = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  it('lists the holidays of each calendar in a year', async () => {
+    const res = await request(app)
+      .get('/api/v1/calendar/holidays?year=2024')
+      .set('Authorization', auth)
+      .expect(200);
+
+    const calendars = bodyOf<{ id: string; holidays: Holiday[] }[]>(res).data;
+    expect(calendars.find((c) => c.id === 'us-federal')?.holidays).toHaveLength(11);
+  });
+
+  it('serves a grant deadline feed as iCalendar', async () => {
+    const res = await request(app)
+      .get('/api/v1/calendar/grant:GR-2023-001.ics')
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(res.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(res.text).toMatch(/^BEGIN:VCALENDAR\r\n/);
+    expect(res.text).toContain('BEGIN:VEVENT');
+  });
+
+  it('rejects unknown scopes and grants', async () => {
+    await request(app).get('/api/v1/calendar/team:a.ics').set('Authorization', auth).expect(400);
+    await request(app)
+      .get('/api/v1/calendar/grant:GR-UNKNOWN.ics')
+      .set('Authorization', auth)
+      .expect(404);
+  });
+
+  it('issues subscription URLs whose token opens only that feed', async () => {
+    const res = await request(app)
+      .post('/api/v1/calendar/feeds')
+      .set('Authorization', auth)
+      .send({ scope: 'me' })
+      .expect(201);
+    const url = new URL(bodyOf<{ url: string }>(res).data.url);
+    const token = url.searchParams.get('token') as string;
+
+    expect(url.pathname).toBe('/api/v1/calendar/me.ics');
+    const feed = await request(app).get(`${url.pathname}${url.search}`).expect(200);
+    expect(feed.text).toContain('BEGIN:VEVENT');
+    await request(app).get(`/api/v1/calendar/grant:GR-2023-001.ics?token=${token}`).expect(401);
+    await request(app).get('/api/v1/grants').set('Authorization', `Bearer ${token}`).expect(401);
+    await request(app).get('/api/v1/calendar/me.ics').expect(401);
+  });
+
+  it("serves other users' deadlines only to admins and program officers", async () => {
+    await request(app)
+      .get('/api/v1/calendar/user:dana.analyst.ics')
+      .set('Authorization', auth)
+      .expect(403);
+    await request(app)
+      .post('/api/v1/calendar/feeds')
+      .set('Authorization', auth)
+      .send({ scope: 'user:dana.analyst' })
+      .expect(403);
+    await request(app)
+      .get('/api/v1/calendar/user:sarah.johnson.ics')
+      .set('Authorization', bearer('program.officer', ['program-officer']))
+      .expect(200);
+  });
+});
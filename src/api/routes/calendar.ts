@@ -0,0 +1,247 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query, matchedData } from 'express-validator';
+import { CalendarEvent, getHolidayCalendars, toICalendar } from '../../calendar';
+import { complianceRequirementsFor, GrantDeadline, grantDeadlines } from '../../compliance';
+import { Grant } from '../../models/Grant';
+import { managedBy, portfolioMembers } from '../../models/Portfolio';
+import { getGrantRepository, getPortfolioRepository } from '../../repositories';
+import { toISODate } from '../../utils/dates';
+import { ForbiddenError, NotFoundError } from '../../utils/errors';
+import { requireAuth, requireFeedAuth, signFeedToken } from '../middleware/validation';
+import { asyncHandler, checkValidation, getRequestUser, sendError } from '../helpers';
+
+const router = Router();
+
+/** Roles that may follow the deadlines of grants managed by someone else */
+const OTHER_USER_FEED_ROLES = ['admin', 'program-officer'];
+
+const scopeParam = (field: ReturnType<typeof param>): ReturnType<typeof param> =>
+  field
+    .matches(/^(me|(user|portfolio|grant):.+)$/)
+    .withMessage('Scope must be me, user:<id>, portfolio:<id> or grant:<id>');
+
+/** Tokens are signed per feed, so one for `me` does not open `user:<id>` */
+const feedName = (scope: string): string => `calendar/${scope}`;
+
+/**
+ * Grants whose deadlines a feed scope covers: `me` or `user:<id>` for the
+ * grants a user manages, `portfolio:<id>` for the grants in a portfolio,
+ * and `grant:<id>` for a single grant. Only admins and program officers may
+ * name a user other than the caller.
+ */
+async function grantsInScope(scope: string, req: Request): Promise<Grant[]> {
+  const user = getRequestUser(req);
+  const [kind, id] = scope === 'me' ? ['user', user.id] : scope.split(/:(.*)/);
+  if (
+    kind === 'user' &&
+    id !== user.id &&
+    !user.roles.some((role) => OTHER_USER_FEED_ROLES.includes(role))
+  ) {
+    throw new ForbiddenError(
+      `Following another user's deadlines requires one of the roles: ${OTHER_USER_FEED_ROLES.join(', ')}`
+    );
+  }
+
+  const grants = await getGrantRepository().findAll();
+  switch (kind) {
+    case 'user':
+      return grants.filter((g) => managedBy(g, id));
+    case 'portfolio': {
+      const portfolio = await getPortfolioRepository().findById(id);
+      if (!portfolio) {
+        throw new NotFoundError(`Portfolio ${id} not found`);
+      }
+      return portfolioMembers(portfolio, grants);
+    }
+    default: {
+      const grant = grants.find((g) => g.id === id);
+      if (!grant) {
+        throw new NotFoundError(`Grant ${id} not found`);
+      }
+      return [grant];
+    }
+  }
+}
+
+function toEvent(deadline: GrantDeadline): CalendarEvent {
+  const details = [
+    deadline.grantTitle,
+    `Due ${toISODate(deadline.date)} 23:59 ${deadline.timeZone}`,
+    ...(deadline.rolledFrom
+      ? [`Moved from ${toISODate(deadline.rolledFrom)}, a weekend or holiday`]
+      : []),
+    ...(deadline.status ? [`Status: ${deadline.status}`] : []),
+  ];
+  return {
+    uid: `${deadline.id.replace(/\s+/g, '-')}@grantready`,
+    date: deadline.date,
+    summary: `${deadline.grantNumber}: ${deadline.title}`,
+    description: details.join('\n'),
+    categories: [deadline.kind],
+  };
+}
+
+/**
+ * @swagger
+ * /api/v1/calendar/holidays:
+ *   get:
+ *     summary: List holiday calendars
+ *     description: Calendars available for grant deadlines, with the holidays each observes in a year
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the current year
+ *     responses:
+ *       200:
+ *         description: Holiday calendars retrieved successfully
+ */
+router.get(
+  '/holidays',
+  requireAuth,
+  [query('year').optional().isInt({ min: 1900, max: 2200 }).toInt()],
+  (req: Request, res: Response): void => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { year = new Date().getUTCFullYear() } = matchedData<{ year?: number }>(req, {
+        locations: ['query'],
+      });
+      res.json({
+        success: true,
+        data: getHolidayCalendars().map((calendar) => ({
+          id: calendar.id,
+          name: calendar.definition.name,
+          holidays: calendar.holidays(year),
+        })),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list holiday calendars');
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/v1/calendar/feeds:
+ *   post:
+ *     summary: Get a subscription URL for a deadline feed
+ *     description: Calendar apps cannot send an Authorization header, so the URL carries a token that opens only this feed, as the caller
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [scope]
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 description: "`me`, `user:<userId>`, `portfolio:<portfolioId>` or `grant:<grantId>`"
+ *     responses:
+ *       201:
+ *         description: Subscription URL issued
+ *       403:
+ *         description: Caller may not follow another user's deadlines
+ *       404:
+ *         description: Grant or portfolio not found
+ */
+router.post(
+  '/feeds',
+  requireAuth,
+  [scopeParam(body('scope'))],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { scope } = matchedData<{ scope: string }>(req, { locations: ['body'] });
+      // Refuses scopes the caller may not see before signing a token for them
+      await grantsInScope(scope, req);
+      const token = signFeedToken(getRequestUser(req), feedName(scope));
+      const url = `${req.protocol}://${req.get('host')}${req.baseUrl}/${encodeURIComponent(scope)}.ics?token=${token}`;
+
+      res
+        .status(201)
+        .json({ success: true, data: { scope, url }, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to issue deadline feed URL');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/calendar/{scope}.ics:
+ *   get:
+ *     summary: Subscribe to grant deadlines
+ *     description: iCalendar feed of report, requirement and milestone deadlines, moved off weekends and holidays by each grant's deadline calendar
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     parameters:
+ *       - in: path
+ *         name: scope
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: "`me`, `user:<userId>` (grants the user manages), `portfolio:<portfolioId>` or `grant:<grantId>`"
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         description: Feed token from POST /api/v1/calendar/feeds, in place of a bearer token
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing token, or a feed token for another feed
+ *       403:
+ *         description: Caller may not follow another user's deadlines
+ *       404:
+ *         description: Grant or portfolio not found
+ */
+router.get(
+  '/:scope.ics',
+  requireFeedAuth((req) => feedName(req.params.scope)),
+  [scopeParam(param('scope'))],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { scope } = req.params;
+      const events: CalendarEvent[] = [];
+      for (const grant of await grantsInScope(scope, req)) {
+        const deadlines = grantDeadlines(grant, await complianceRequirementsFor(grant));
+        events.push(...deadlines.map(toEvent));
+      }
+
+      res
+        .type('text/calendar; charset=utf-8')
+        .set('Content-Disposition', `inline; filename="${scope.replace(/[^\w.-]+/g, '-')}.ics"`)
+        .send(toICalendar(`Grant deadlines (${scope})`, events));
+    } catch (error) {
+      sendError(res, error, 'Failed to build deadline calendar');
+    }
+  })
+);
+
+export default router;
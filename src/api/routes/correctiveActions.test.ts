@@ -0,0 +1,91 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { CorrectiveAction, CorrectiveActionStatus, Grant } from '../../models/Grant';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const ACTIONS = '/api/v1/grants/GR-2023-001/corrective-actions';
+
+describe('corrective action routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+  const viewer = bearer('vic.viewer', ['viewer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const open = (auth: string, version?: number): request.Test => {
+    const req = request(app).post(ACTIONS).set('Authorization', auth);
+    return (version === undefined ? req : req.set('If-Match', `"${version}"`)).send({
+      requirementId: 'COMP-003',
+      description: 'Upload the missing documents',
+      owner: 'olga.owner',
+      dueDate: '2024-09-30',
+      steps: [{ description: 'Collect signed forms' }],
+    });
+  };
+
+  it('opens an action against a non-compliant requirement, checking roles and versions', async () => {
+    await open(manager).expect(428);
+    await open(viewer, 3).expect(403);
+    await request(app)
+      .post(ACTIONS)
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ requirementId: 'COMP-003' })
+      .expect(400);
+
+    const res = await open(manager, 3).expect(201);
+    const grant = bodyOf<Grant>(res).data;
+    expect(grant.version).toBe(4);
+    expect(grant.correctiveActions).toHaveLength(1);
+    expect(grant.correctiveActions[0]).toMatchObject({
+      requirementId: 'COMP-003',
+      status: 'open',
+      owner: 'olga.owner',
+    });
+
+    await open(manager, 3).expect(409);
+    await open(manager, 4).expect(409);
+  });
+
+  it('lists actions with the transitions open to the caller', async () => {
+    await open(manager, 3).expect(201);
+
+    const list = async (auth: string): Promise<CorrectiveActionStatus[]> => {
+      const res = await request(app).get(ACTIONS).set('Authorization', auth).expect(200);
+      expect(res.headers.etag).toBe('"4"');
+      return bodyOf<(CorrectiveAction & { availableTransitions: CorrectiveActionStatus[] })[]>(res)
+        .data[0].availableTransitions;
+    };
+
+    expect(await list(bearer('olga.owner', ['finance']))).toEqual(['in-progress']);
+    expect(await list(bearer('otto.officer', ['program-officer']))).toEqual(['closed']);
+    expect(await list(viewer)).toEqual([]);
+  });
+
+  it('moves an action between statuses and rejects failing guards', async () => {
+    const opened = bodyOf<Grant>(await open(manager, 3).expect(201)).data;
+    const actionId = opened.correctiveActions[0].id;
+
+    const move = (version: number, status: string, notes?: string): request.Test =>
+      request(app)
+        .post(`${ACTIONS}/${actionId}/status`)
+        .set('Authorization', manager)
+        .set('If-Match', `"${version}"`)
+        .send({ status, notes });
+
+    await move(4, 'archived').expect(400);
+    const started = bodyOf<Grant>(await move(4, 'in-progress').expect(200)).data;
+    expect(started.correctiveActions[0].status).toBe('in-progress');
+
+    await move(started.version, 'submitted').expect(422);
+    await move(started.version, 'closed', 'Waived').expect(403);
+    await request(app)
+      .post(`${ACTIONS}/${actionId}/status`)
+      .set('Authorization', bearer('otto.officer', ['program-officer']))
+      .set('If-Match', '"4"')
+      .send({ status: 'closed', notes: 'Requirement waived by the grantor' })
+      .expect(409);
+  });
+});
@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData } from 'express-validator';
+import { complianceRequirementsFor } from '../../compliance';
+import { CorrectiveAction, CorrectiveActionStatus } from '../../models/Grant';
+import { getGrantRepository } from '../../repositories';
+import {
+  CorrectiveActionPlan,
+  CorrectiveActionWorkflow,
+} from '../../workflows/CorrectiveActionWorkflow';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/corrective-actions
+const router = Router({ mergeParams: true });
+
+const correctiveActionWorkflow = new CorrectiveActionWorkflow();
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+const actionIdParam = param('actionId').trim().notEmpty().withMessage('Valid action ID required');
+
+const STATUSES: CorrectiveActionStatus[] = [
+  'open',
+  'in-progress',
+  'submitted',
+  'verified',
+  'closed',
+];
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/corrective-actions:
+ *   get:
+ *     summary: List corrective actions of a grant
+ *     description: Each action includes the statuses the caller may move it to
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Corrective actions retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *   post:
+ *     summary: Open a corrective action
+ *     description: Opens a remediation plan against a requirement that currently evaluates to non-compliant. Requires `If-Match` with the grant version.
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Corrective action opened
+ *       403:
+ *         description: Caller may not open corrective actions
+ *       404:
+ *         description: Grant or requirement not found
+ *       409:
+ *         description: Requirement is not non-compliant, already has an unresolved action, or the grant was modified since the given version
+ */
+router.get(
+  '/',
+  requireAuth,
+  [grantIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: grant.correctiveActions.map((action) => ({
+          ...action,
+          availableTransitions: correctiveActionWorkflow.availableTransitions(action, {
+            user: user.id,
+            roles: user.roles,
+          }),
+        })),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch corrective actions');
+    }
+  })
+);
+
+router.post(
+  '/',
+  requireAuth,
+  [
+    grantIdParam,
+    body('requirementId').isString().trim().notEmpty(),
+    body('title').optional().isString().trim().notEmpty(),
+    body('description').isString().trim().notEmpty(),
+    body('owner').isString().trim().notEmpty(),
+    body('dueDate').isISO8601().toDate(),
+    body('steps').optional().isArray(),
+    body('steps.*.description').isString().trim().notEmpty(),
+    body('steps.*.dueDate').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const plan = matchedData<CorrectiveActionPlan>(req, { locations: ['body'] });
+
+      correctiveActionWorkflow.open(grant, plan, await complianceRequirementsFor(grant), {
+        user: user.id,
+        roles: user.roles,
+      });
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to open corrective action');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/corrective-actions/{actionId}:
+ *   patch:
+ *     summary: Edit a corrective action plan
+ *     description: Changes the title, description, owner, due date or steps of an unresolved action. Requires `If-Match` with the grant version.
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Corrective action updated
+ *       403:
+ *         description: Caller is not the owner and may not open corrective actions
+ *       409:
+ *         description: Action already verified or closed, or grant modified since the given version
+ */
+router.patch(
+  '/:actionId',
+  requireAuth,
+  [
+    grantIdParam,
+    actionIdParam,
+    body('title').optional().isString().trim().notEmpty(),
+    body('description').optional().isString().trim().notEmpty(),
+    body('owner').optional().isString().trim().notEmpty(),
+    body('dueDate').optional().isISO8601().toDate(),
+    body('steps').optional().isArray(),
+    body('steps.*.id').optional().isString(),
+    body('steps.*.description').isString().trim().notEmpty(),
+    body('steps.*.dueDate').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const action = grant.getCorrectiveAction(req.params.actionId);
+      correctiveActionWorkflow.assertCanWork(action, { user: user.id, roles: user.roles });
+
+      const { steps, ...changes } = matchedData<
+        Partial<Pick<CorrectiveAction, 'title' | 'description' | 'owner' | 'dueDate'>> & {
+          steps?: { id?: string; description: string; dueDate?: Date }[];
+        }
+      >(req, { locations: ['body'] });
+
+      grant.updateCorrectiveAction(
+        action.id,
+        {
+          ...changes,
+          // Steps keep their completion state when resubmitted with their ID
+          ...(steps && {
+            steps: steps.map((step) => {
+              const existing = action.steps.find((st) => st.id === step.id);
+              return existing
+                ? { ...existing, description: step.description, dueDate: step.dueDate }
+                : { ...step, id: randomUUID(), completed: false };
+            }),
+          }),
+        },
+        user.id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to update corrective action');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/corrective-actions/{actionId}/steps/{stepId}:
+ *   patch:
+ *     summary: Complete or reopen a corrective action step
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Step updated
+ *       404:
+ *         description: Grant, action or step not found
+ */
+router.patch(
+  '/:actionId/steps/:stepId',
+  requireAuth,
+  [
+    grantIdParam,
+    actionIdParam,
+    param('stepId').trim().notEmpty(),
+    body('completed').isBoolean().toBoolean(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const action = grant.getCorrectiveAction(req.params.actionId);
+      correctiveActionWorkflow.assertCanWork(action, { user: user.id, roles: user.roles });
+
+      const { completed } = matchedData<{ completed: boolean }>(req, { locations: ['body'] });
+      grant.completeCorrectiveActionStep(action.id, req.params.stepId, completed, user.id);
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to update corrective action step');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/corrective-actions/{actionId}/evidence:
+ *   post:
+ *     summary: Attach evidence to a corrective action
+ *     description: Evidence is required before the action can be submitted for verification
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Evidence attached
+ */
+router.post(
+  '/:actionId/evidence',
+  requireAuth,
+  [
+    grantIdParam,
+    actionIdParam,
+    body('name').isString().trim().notEmpty(),
+    body('url').isURL(),
+    body('documentId').optional().isString(),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const action = grant.getCorrectiveAction(req.params.actionId);
+      correctiveActionWorkflow.assertCanWork(action, { user: user.id, roles: user.roles });
+
+      const evidence = matchedData<{
+        name: string;
+        url: string;
+        documentId?: string;
+        notes?: string;
+      }>(req, { locations: ['body'] });
+      grant.addCorrectiveActionEvidence(
+        action.id,
+        { ...evidence, id: randomUUID(), uploadedBy: user.id, uploadDate: new Date() },
+        user.id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to attach corrective action evidence');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/corrective-actions/{actionId}/status:
+ *   post:
+ *     summary: Move a corrective action to a new status
+ *     description: >
+ *       Submitting needs every step completed and evidence attached. Verification
+ *       re-runs the requirement's check and is rejected while it still fails.
+ *       Requires `If-Match` with the grant version.
+ *     tags: [Corrective Actions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       403:
+ *         description: Caller may not make this transition
+ *       409:
+ *         description: Grant modified since the given version
+ *       422:
+ *         description: Transition not allowed or its guards failed
+ */
+router.post(
+  '/:actionId/status',
+  requireAuth,
+  [grantIdParam, actionIdParam, body('status').isIn(STATUSES), body('notes').optional().isString()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const { status, notes } = matchedData<{ status: CorrectiveActionStatus; notes?: string }>(
+        req,
+        { locations: ['body'] }
+      );
+
+      correctiveActionWorkflow.transition(
+        grant,
+        req.params.actionId,
+        status,
+        await complianceRequirementsFor(grant),
+        { user: user.id, roles: user.roles, notes }
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to change corrective action status');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,141 @@
+import { Express } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { LocalDocumentStore, setDocumentStore } from '../../documents';
+import type { Document, Grant } from '../../models/Grant';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const DOCUMENTS = '/api/v1/grants/GR-2023-001/documents';
+
+describe('document routes', () => {
+  let app: Express;
+  let root: string;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+  const officer = bearer('otto.officer', ['program-officer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    setDocumentStore(new LocalDocumentStore(root));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const upload = (version: number, content: string): request.Test =>
+    request(app)
+      .post(`${DOCUMENTS}/upload`)
+      .query({ type: 'Site Visit Report', name: 'visit.txt' })
+      .set('Authorization', manager)
+      .set('If-Match', `"${version}"`)
+      .set('Content-Type', 'text/plain')
+      .send(content);
+
+  const uploaded = (grant: Grant): Document =>
+    grant.documents.find((d) => d.type === 'Site Visit Report') as Document;
+
+  it('uploads content, checking versions, and serves it back', async () => {
+    await request(app)
+      .post(`${DOCUMENTS}/upload`)
+      .query({ type: 'Site Visit Report', name: 'visit.txt' })
+      .set('Authorization', manager)
+      .set('Content-Type', 'text/plain')
+      .send('findings')
+      .expect(428);
+
+    const grant = bodyOf<Grant>(await upload(3, 'findings').expect(201)).data;
+    const document = uploaded(grant);
+    expect(document).toMatchObject({ version: 1, status: 'pending', size: 8 });
+    await upload(3, 'revised findings').expect(409);
+    await upload(4, 'findings').expect(409);
+
+    const content = await request(app)
+      .get(`${DOCUMENTS}/${document.id}/content`)
+      .set('Authorization', manager)
+      .expect(200);
+    expect(content.text).toBe('findings');
+  });
+
+  it('records reviews from reviewers other than the uploader', async () => {
+    const grant = bodyOf<Grant>(await upload(3, 'findings').expect(201)).data;
+    const document = uploaded(grant);
+
+    const review = (auth: string, version: number): request.Test =>
+      request(app)
+        .post(`${DOCUMENTS}/${document.id}/review`)
+        .set('Authorization', auth)
+        .set('If-Match', `"${version}"`)
+        .send({ status: 'approved' });
+
+    await review(manager, 4).expect(403);
+    const approved = bodyOf<Grant>(await review(officer, 4).expect(200)).data;
+    expect(uploaded(approved).status).toBe('approved');
+    await review(officer, approved.version).expect(422);
+  });
+
+  it('renames uploaded documents but keeps their URL and type, returning them to review', async () => {
+    const grant = bodyOf<Grant>(await upload(3, 'findings').expect(201)).data;
+    const document = uploaded(grant);
+    const approved = bodyOf<Grant>(
+      await request(app)
+        .post(`${DOCUMENTS}/${document.id}/review`)
+        .set('Authorization', officer)
+        .set('If-Match', '"4"')
+        .send({ status: 'approved' })
+        .expect(200)
+    ).data;
+
+    const edit = (changes: Record<string, unknown>): request.Test =>
+      request(app)
+        .patch(`${DOCUMENTS}/${document.id}`)
+        .set('Authorization', manager)
+        .set('If-Match', `"${approved.version}"`)
+        .send(changes);
+
+    await edit({ url: 'https://example.org/elsewhere.txt' }).expect(409);
+    await edit({ name: 'visit-2.txt', type: 'Invoice' }).expect(409);
+    const renamed = uploaded(bodyOf<Grant>(await edit({ name: 'visit-2.txt' }).expect(200)).data);
+    expect(renamed).toMatchObject({
+      name: 'visit-2.txt',
+      url: document.url,
+      storageKey: document.storageKey,
+      status: 'pending',
+    });
+  });
+
+  it('keeps documents within retention or under legal hold', async () => {
+    const grant = bodyOf<Grant>(await upload(3, 'findings').expect(201)).data;
+    const document = uploaded(grant);
+
+    const res = await request(app)
+      .get(`${DOCUMENTS}/${document.id}`)
+      .set('Authorization', manager)
+      .expect(200);
+    expect(bodyOf<{ retention: { deletable: boolean } }>(res).data.retention.deletable).toBe(false);
+
+    await request(app)
+      .delete(`${DOCUMENTS}/${document.id}`)
+      .set('Authorization', manager)
+      .set('If-Match', '"4"')
+      .expect(409);
+    await request(app)
+      .put(`${DOCUMENTS}/${document.id}/legal-hold`)
+      .set('Authorization', bearer('vic.viewer', ['viewer']))
+      .set('If-Match', '"4"')
+      .send({ reason: 'Audit dispute' })
+      .expect(403);
+    const held = await request(app)
+      .put(`${DOCUMENTS}/${document.id}/legal-hold`)
+      .set('Authorization', officer)
+      .set('If-Match', '"4"')
+      .send({ reason: 'Audit dispute' })
+      .expect(200);
+    expect(uploaded(bodyOf<Grant>(held).data).legalHold).toMatchObject({
+      reason: 'Audit dispute',
+      placedBy: 'otto.officer',
+    });
+  });
+});
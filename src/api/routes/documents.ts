@@ -0,0 +1,413 @@
+import express, { Router, Request, Response } from 'express';
+import { body, param, query, matchedData } from 'express-validator';
+import {
+  getDocumentStore,
+  getRetentionPolicies,
+  readDocumentContent,
+  retentionStatus,
+  uploadDocument,
+} from '../../documents';
+import { Document, Grant } from '../../models/Grant';
+import { getGrantRepository } from '../../repositories';
+import { ConflictError, ForbiddenError, ValidationError } from '../../utils/errors';
+import { DocumentReviewWorkflow, ReviewDecision } from '../../workflows/DocumentReview';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/documents, ahead of the generic collection routes
+const router = Router({ mergeParams: true });
+
+const reviewWorkflow = new DocumentReviewWorkflow();
+
+const LEGAL_HOLD_ROLES = ['admin', 'program-officer'];
+const MAX_UPLOAD_SIZE = process.env.DOCUMENT_MAX_UPLOAD_SIZE || '25mb';
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+const documentIdParam = param('documentId')
+  .trim()
+  .notEmpty()
+  .withMessage('Valid document ID required');
+
+function withRetention(grant: Grant, document: Document): Record<string, unknown> {
+  return { ...document, retention: retentionStatus(document, grant, getRetentionPolicies()) };
+}
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/documents/upload:
+ *   post:
+ *     summary: Upload a document
+ *     description: >
+ *       Stores the request body as document content and records its SHA-256
+ *       checksum. Uploading a document of a type the grant already has adds a
+ *       new version of that document and returns it to pending review.
+ *       Requires `If-Match` with the grant version.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: File name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       201:
+ *         description: Document stored
+ *       409:
+ *         description: Content identical to the current version, or grant modified since the given version
+ *       413:
+ *         description: Document larger than the upload limit
+ */
+router.post(
+  '/upload',
+  requireAuth,
+  express.raw({ type: () => true, limit: MAX_UPLOAD_SIZE }),
+  [
+    grantIdParam,
+    query('type').isString().trim().notEmpty(),
+    query('name').isString().trim().notEmpty(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        throw new ValidationError('Send the document as the raw request body');
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const { type, name } = matchedData<{ type: string; name: string }>(req, {
+        locations: ['query'],
+      });
+
+      const { storageKey } = await uploadDocument(
+        grant,
+        {
+          type,
+          name,
+          contentType: req.get('Content-Type') || 'application/octet-stream',
+          content: req.body,
+        },
+        getRequestUser(req).id
+      );
+
+      try {
+        sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+      } catch (error) {
+        // The grant never referenced the content, so it must not outlive the failed save
+        await getDocumentStore().delete(storageKey);
+        throw error;
+      }
+    } catch (error) {
+      sendError(res, error, 'Failed to upload document');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/documents/{documentId}:
+ *   get:
+ *     summary: Get a document
+ *     description: The document with its versions, review history and retention status
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Document retrieved successfully
+ *       404:
+ *         description: Grant or document not found
+ *   delete:
+ *     summary: Delete a document
+ *     description: Removes the document and the stored content of all its versions once its retention period has passed. Requires `If-Match` with the grant version.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Document deleted
+ *       409:
+ *         description: Document under legal hold or still within its retention period
+ */
+router.get(
+  '/:documentId',
+  requireAuth,
+  [grantIdParam, documentIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const document = grant.getDocument(req.params.documentId);
+      const user = getRequestUser(req);
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: {
+          ...withRetention(grant, document),
+          availableDecisions: reviewWorkflow.availableDecisions(document, {
+            user: user.id,
+            roles: user.roles,
+          }),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch document');
+    }
+  })
+);
+
+router.delete(
+  '/:documentId',
+  requireAuth,
+  [grantIdParam, documentIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const document = grant.getDocument(req.params.documentId);
+      const retention = retentionStatus(document, grant, getRetentionPolicies());
+      if (!retention.deletable) {
+        throw new ConflictError(retention.reason as string);
+      }
+
+      grant.removeItem('documents', document.id, getRequestUser(req).id);
+      const saved = await getGrantRepository().save(grant, expectedVersion);
+      for (const version of [document, ...(document.previousVersions || [])]) {
+        if (version.storageKey) {
+          await getDocumentStore().delete(version.storageKey);
+        }
+      }
+      sendGrant(res, saved);
+    } catch (error) {
+      sendError(res, error, 'Failed to delete document');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/documents/{documentId}/content:
+ *   get:
+ *     summary: Download document content
+ *     description: Returns the stored content after checking it against the checksum recorded at upload
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: version
+ *         schema:
+ *           type: integer
+ *         description: Earlier version to download; defaults to the current one
+ *     responses:
+ *       200:
+ *         description: Document content
+ *       404:
+ *         description: Document, version or stored content not found
+ *       500:
+ *         description: Stored content does not match its checksum
+ */
+router.get(
+  '/:documentId/content',
+  requireAuth,
+  [grantIdParam, documentIdParam, query('version').optional().isInt({ min: 1 }).toInt()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const { version } = matchedData<{ version?: number }>(req, { locations: ['query'] });
+      const { content, source } = await readDocumentContent(
+        grant.getDocument(req.params.documentId),
+        version
+      );
+
+      res
+        .type(source.contentType || 'application/octet-stream')
+        .set('Content-Disposition', `attachment; filename="${source.name.replace(/"/g, '')}"`)
+        .set(
+          'Digest',
+          `sha-256=${Buffer.from(source.checksum as string, 'hex').toString('base64')}`
+        )
+        .send(content);
+    } catch (error) {
+      sendError(res, error, 'Failed to download document');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/documents/{documentId}/review:
+ *   post:
+ *     summary: Review a document
+ *     description: >
+ *       Marks the current version reviewed, approved or rejected; this is the
+ *       status documentation requirements check. Requires `If-Match` with the
+ *       grant version.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Review recorded
+ *       403:
+ *         description: Caller may not review documents
+ *       422:
+ *         description: Decision not allowed from the current status, or its guards failed
+ */
+router.post(
+  '/:documentId/review',
+  requireAuth,
+  [
+    grantIdParam,
+    documentIdParam,
+    body('status').isIn(['reviewed', 'approved', 'rejected']),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const { status, notes } = matchedData<{ status: ReviewDecision; notes?: string }>(req, {
+        locations: ['body'],
+      });
+
+      await reviewWorkflow.review(grant, req.params.documentId, status, {
+        user: user.id,
+        roles: user.roles,
+        notes,
+      });
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to review document');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/documents/{documentId}/legal-hold:
+ *   put:
+ *     summary: Place a legal hold
+ *     description: Prevents deletion of the document regardless of its retention period. Requires `If-Match` with the grant version.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Legal hold placed
+ *       403:
+ *         description: Caller may not manage legal holds
+ *   delete:
+ *     summary: Release a legal hold
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Legal hold released
+ */
+router.put(
+  '/:documentId/legal-hold',
+  requireAuth,
+  [grantIdParam, documentIdParam, body('reason').isString().trim().notEmpty()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      assertLegalHoldRole(user.roles);
+      const { reason } = matchedData<{ reason: string }>(req, { locations: ['body'] });
+
+      grant.setDocumentLegalHold(
+        req.params.documentId,
+        { reason, placedBy: user.id, placedDate: new Date() },
+        user.id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to place legal hold');
+    }
+  })
+);
+
+router.delete(
+  '/:documentId/legal-hold',
+  requireAuth,
+  [grantIdParam, documentIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      assertLegalHoldRole(user.roles);
+
+      grant.setDocumentLegalHold(req.params.documentId, undefined, user.id);
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to release legal hold');
+    }
+  })
+);
+
+function assertLegalHoldRole(roles: string[]): void {
+  if (!roles.some((role) => LEGAL_HOLD_ROLES.includes(role))) {
+    throw new ForbiddenError(
+      `Managing legal holds requires one of the roles: ${LEGAL_HOLD_ROLES.join(', ')}`
+    );
+  }
+}
+
+export default router;
@@ -0,0 +1,72 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Grant } from '../../models/Grant';
+import type { ApprovalStep, QueueItem } from '../../workflows/ExpenditureApproval';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const EXPENDITURE = '/api/v1/grants/GR-2023-001/expenditures/EXP-005';
+
+describe('expenditure approval routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+  const finance = bearer('frank.finance', ['finance']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const decide = (auth: string, version: number, decision = 'approved'): request.Test =>
+    request(app)
+      .post(`${EXPENDITURE}/decision`)
+      .set('Authorization', auth)
+      .set('If-Match', `"${version}"`)
+      .send({ decision });
+
+  it('reports the steps a large expenditure must pass', async () => {
+    const res = await request(app)
+      .get(`${EXPENDITURE}/approval`)
+      .set('Authorization', manager)
+      .expect(200);
+
+    const approval = bodyOf<{ requiredSteps: ApprovalStep[]; nextStep: ApprovalStep }>(res).data;
+    expect(approval.requiredSteps.map((s) => s.name)).toEqual([
+      'program-manager',
+      'finance',
+      'executive',
+    ]);
+    expect(approval.nextStep.name).toBe('program-manager');
+  });
+
+  it('records decisions step by step, checking roles and versions', async () => {
+    await request(app)
+      .post(`${EXPENDITURE}/decision`)
+      .set('Authorization', manager)
+      .send({ decision: 'approved' })
+      .expect(428);
+    await decide(finance, 3).expect(403);
+
+    const res = await decide(manager, 3).expect(200);
+    const grant = bodyOf<Grant>(res).data;
+    expect(grant.expenditures.find((e) => e.id === 'EXP-005')?.approvals).toHaveLength(1);
+
+    await decide(finance, 3).expect(409);
+    await decide(finance, grant.version, 'rejected').expect(200);
+  });
+
+  it('queues pending expenditures for the roles of their next step', async () => {
+    const queue = async (auth: string): Promise<string[]> => {
+      const res = await request(app)
+        .get('/api/v1/approvals/expenditures')
+        .set('Authorization', auth)
+        .expect(200);
+      return bodyOf<QueueItem[]>(res).data.map((item) => item.expenditure.id);
+    };
+
+    expect(await queue(manager)).toContain('EXP-005');
+    expect(await queue(finance)).not.toContain('EXP-005');
+
+    await decide(manager, 3).expect(200);
+    expect(await queue(manager)).not.toContain('EXP-005');
+    expect(await queue(finance)).toContain('EXP-005');
+  });
+});
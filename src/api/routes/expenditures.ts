@@ -0,0 +1,241 @@
+import express, { Router, Request, Response } from 'express';
+import { body, param, query, matchedData } from 'express-validator';
+import { ExpenditureImporter } from '../../imports/ExpenditureImporter';
+import { ImportFormat } from '../../imports/MappingProfile';
+import { getGrantRepository, getMappingProfileRepository } from '../../repositories';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { ExpenditureApprovalWorkflow } from '../../workflows/ExpenditureApproval';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/expenditures
+const router = Router({ mergeParams: true });
+const approvalWorkflow = new ExpenditureApprovalWorkflow();
+const importer = new ExpenditureImporter();
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+const expenditureIdParam = param('expenditureId').trim().notEmpty();
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/expenditures/import:
+ *   post:
+ *     summary: Import expenditures from a CSV or XLSX export
+ *     description: >
+ *       The request body is the file itself. Rows are mapped to expenditures through the given
+ *       mapping profile, validated and de-duplicated against existing expenditures. By default
+ *       this is a dry run that only reports accepted, rejected and duplicate rows; with
+ *       `dryRun=false` the accepted rows are added as pending expenditures, which requires
+ *       `If-Match` with the grant version.
+ *     tags: [Expenditures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: profile
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Mapping profile ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *         description: File format; inferred from Content-Type when omitted
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     requestBody:
+ *       content:
+ *         text/csv: {}
+ *         application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ *     responses:
+ *       200:
+ *         description: Dry-run report
+ *       201:
+ *         description: Accepted rows imported
+ *       404:
+ *         description: Grant or mapping profile not found
+ *       409:
+ *         description: Grant was modified since the given version
+ *       422:
+ *         description: File does not contain the columns the profile maps
+ */
+router.post(
+  '/import',
+  requireAuth,
+  express.raw({
+    type: ['text/csv', 'text/plain', XLSX_CONTENT_TYPE, 'application/octet-stream'],
+    limit: '10mb',
+  }),
+  [
+    grantIdParam,
+    query('profile').isString().trim().notEmpty(),
+    query('format').optional().isIn(['csv', 'xlsx']),
+    query('dryRun').optional().isBoolean().toBoolean(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const options = matchedData<{
+        profile: string;
+        format?: ImportFormat;
+        dryRun?: boolean;
+      }>(req, { locations: ['query'] });
+      const dryRun = options.dryRun ?? true;
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new ValidationError('Request body must contain the CSV or XLSX file');
+      }
+
+      const expectedVersion = dryRun ? undefined : expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const profile = await getMappingProfileRepository().findById(options.profile);
+      if (!profile) {
+        throw new NotFoundError(`Mapping profile ${options.profile} not found`);
+      }
+
+      const report = await importer.import(
+        grant,
+        req.body,
+        options.format || (req.is(XLSX_CONTENT_TYPE) ? 'xlsx' : 'csv'),
+        profile,
+        { user: getRequestUser(req).id, dryRun }
+      );
+
+      if (!dryRun) {
+        const saved = await getGrantRepository().save(grant, expectedVersion);
+        res.set('ETag', `"${saved.version}"`);
+      }
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        data: report,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to import expenditures');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/expenditures/{expenditureId}/approval:
+ *   get:
+ *     summary: Get the approval state of an expenditure
+ *     description: Returns the required approval steps, the next step awaiting a decision and any allowability rule violations.
+ *     tags: [Expenditures]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Approval state retrieved
+ *       404:
+ *         description: Grant or expenditure not found
+ */
+router.get(
+  '/:expenditureId/approval',
+  requireAuth,
+  [grantIdParam, expenditureIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const expenditure = grant.expenditures.find((e) => e.id === req.params.expenditureId);
+      if (!expenditure) {
+        throw new NotFoundError(`Expenditure ${req.params.expenditureId} not found`);
+      }
+
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: {
+          expenditureId: expenditure.id,
+          status: expenditure.status,
+          requiredSteps: approvalWorkflow.requiredSteps(grant, expenditure),
+          nextStep: approvalWorkflow.nextStep(grant, expenditure),
+          approvals: expenditure.approvals || [],
+          allowabilityIssues: approvalWorkflow.checkAllowability(grant, expenditure),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch expenditure approval');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/expenditures/{expenditureId}/decision:
+ *   post:
+ *     summary: Approve or reject the current approval step of an expenditure
+ *     description: Approving the last required step approves the expenditure; a rejection at any step rejects it. Requires `If-Match` with the grant version.
+ *     tags: [Expenditures]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       403:
+ *         description: Caller may not decide this step, submitted the expenditure, or decided an earlier step
+ *       409:
+ *         description: Expenditure already settled, or grant modified since the given version
+ *       422:
+ *         description: Expenditure violates the grant's allowability rules
+ */
+router.post(
+  '/:expenditureId/decision',
+  requireAuth,
+  [
+    grantIdParam,
+    expenditureIdParam,
+    body('decision').isIn(['approved', 'rejected']),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const { decision, notes } = matchedData<{
+        decision: 'approved' | 'rejected';
+        notes?: string;
+      }>(req, { locations: ['body'] });
+
+      approvalWorkflow.decide(grant, req.params.expenditureId, decision, {
+        user: user.id,
+        roles: user.roles,
+        notes,
+      });
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to record expenditure decision');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,286 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Grant } from '../../models/Grant';
+import { getOrganizationRepository } from '../../repositories';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const GRANT = '/api/v1/grants/GR-2023-001';
+
+describe('grant routes', () => {
+  let app: Express;
+  const auth = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  it('requires a valid bearer token', async () => {
+    await request(app).get(GRANT).expect(401);
+    await request(app).get(GRANT).set('Authorization', 'Bearer not-a-token').expect(401);
+  });
+
+  it('returns a grant with its version as ETag', async () => {
+    const res = await request(app).get(GRANT).set('Authorization', auth).expect(200);
+
+    expect(res.headers.etag).toBe('"3"');
+    expect(bodyOf<Grant>(res).data.id).toBe('GR-2023-001');
+    await request(app).get('/api/v1/grants/GR-UNKNOWN').set('Authorization', auth).expect(404);
+  });
+
+  it('creates a grant at version 1', async () => {
+    const res = await request(app)
+      .post('/api/v1/grants')
+      .set('Authorization', auth)
+      .send({
+        grantNumber: 'NEW-001',
+        title: 'New grant',
+        type: 'foundation',
+        totalFunding: 50000,
+        startDate: '2025-01-01',
+        endDate: '2025-12-31',
+        recipient: { id: 'ORG-001', name: 'Community Health Partners' },
+        grantor: { id: 'FND-9', name: 'Example Foundation' },
+      })
+      .expect(201);
+
+    expect(res.headers.etag).toBe('"1"');
+    expect(bodyOf<Grant>(res).data).toMatchObject({ status: 'draft', createdBy: 'sarah.johnson' });
+  });
+
+  describe('PATCH with If-Match', () => {
+    it('answers 428 without If-Match', async () => {
+      await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .send({ title: 'Renamed' })
+        .expect(428);
+    });
+
+    it('answers 409 with the current version when If-Match is stale', async () => {
+      const res = await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .set('If-Match', '"2"')
+        .send({ title: 'Renamed' })
+        .expect(409);
+
+      expect(res.body).toMatchObject({ expectedVersion: 2, currentVersion: 3 });
+    });
+
+    it('applies the change and bumps the version', async () => {
+      const res = await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .set('If-Match', '"3"')
+        .send({ title: 'Renamed' })
+        .expect(200);
+
+      expect(res.headers.etag).toBe('"4"');
+      expect(bodyOf<Grant>(res).data.title).toBe('Renamed');
+    });
+
+    it('keeps the recipient unless the change names one', async () => {
+      const organizations = (await getOrganizationRepository().findAll()).length;
+      const res = await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .set('If-Match', '"3"')
+        .send({ title: 'Renamed' })
+        .expect(200);
+
+      expect(bodyOf<Grant>(res).data.recipient).toMatchObject({
+        id: 'ORG-001',
+        name: 'Community Health Partners',
+      });
+      expect(await getOrganizationRepository().findAll()).toHaveLength(organizations);
+    });
+
+    it('links a changed recipient to a registered organization, or registers it', async () => {
+      const res = await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .set('If-Match', '"3"')
+        .send({ recipient: { name: 'Eastside Clinics', taxId: '98-7654321' } })
+        .expect(200);
+
+      const recipient = bodyOf<Grant>(res).data.recipient;
+      expect(recipient.name).toBe('Eastside Clinics');
+      expect(await getOrganizationRepository().findByTaxId('98-7654321')).toMatchObject({
+        id: recipient.id,
+      });
+      await request(app)
+        .patch(GRANT)
+        .set('Authorization', auth)
+        .set('If-Match', '"4"')
+        .send({ recipient: { taxId: '98-7654321' } })
+        .expect(400);
+    });
+  });
+
+  describe('DELETE with If-Match', () => {
+    it('answers 428 without If-Match and 409 when stale', async () => {
+      await request(app).delete(GRANT).set('Authorization', auth).expect(428);
+      await request(app).delete(GRANT).set('Authorization', auth).set('If-Match', '1').expect(409);
+      await request(app).get(GRANT).set('Authorization', auth).expect(200);
+    });
+
+    it('deletes the grant at the current version', async () => {
+      await request(app).delete(GRANT).set('Authorization', auth).set('If-Match', '3').expect(204);
+      await request(app).get(GRANT).set('Authorization', auth).expect(404);
+    });
+  });
+
+  describe('status changes', () => {
+    const changeStatus = (roles: string[], body: object): request.Test =>
+      request(app)
+        .post(`${GRANT}/status`)
+        .set('Authorization', bearer('po', roles))
+        .set('If-Match', '3')
+        .send(body);
+
+    it('answers 403 when the caller lacks the role for the transition', async () => {
+      await changeStatus(['applicant'], { status: 'suspended', reason: 'Audit' }).expect(403);
+    });
+
+    it('answers 422 with the failed guards', async () => {
+      const res = await changeStatus(['program-officer'], { status: 'suspended' }).expect(422);
+
+      expect(bodyOf(res)).toMatchObject({
+        from: 'active',
+        to: 'suspended',
+        failedGuards: [{ guard: 'reason-provided' }],
+      });
+    });
+
+    it('moves the grant when permitted and the guards pass', async () => {
+      const res = await changeStatus(['program-officer'], {
+        status: 'suspended',
+        reason: 'Audit',
+      }).expect(200);
+
+      expect(res.headers.etag).toBe('"4"');
+      expect(bodyOf<Grant>(res).data.status).toBe('suspended');
+    });
+  });
+
+  describe('sub-resources', () => {
+    it('adds a milestone as a versioned change', async () => {
+      const res = await request(app)
+        .post(`${GRANT}/milestones`)
+        .set('Authorization', auth)
+        .set('If-Match', '3')
+        .send({ name: 'Final evaluation', dueDate: '2025-06-30' })
+        .expect(201);
+
+      expect(res.headers.etag).toBe('"4"');
+      expect(bodyOf<Grant>(res).data.milestones).toHaveLength(6);
+    });
+
+    it('fixes the exchange rate of a foreign-currency expenditure at its date', async () => {
+      const res = await request(app)
+        .post(`${GRANT}/expenditures`)
+        .set('Authorization', auth)
+        .set('If-Match', '3')
+        .send({
+          id: 'EXP-EUR',
+          date: '2023-02-01',
+          category: 'Travel',
+          amount: 940,
+          currency: 'eur',
+        })
+        .expect(201);
+
+      const expenditure = bodyOf<Grant>(res).data.expenditures.find((e) => e.id === 'EXP-EUR');
+      expect(expenditure?.currency).toBe('EUR');
+      expect(expenditure?.exchangeRate).toBeCloseTo(1 / 0.94);
+    });
+
+    it('removes pending expenditures only', async () => {
+      const approved = await request(app)
+        .delete(`${GRANT}/expenditures/EXP-001`)
+        .set('Authorization', auth)
+        .set('If-Match', '3')
+        .expect(409);
+      expect(bodyOf(approved).error).toBe('Expenditure EXP-001 is approved');
+
+      const res = await request(app)
+        .delete(`${GRANT}/expenditures/EXP-005`)
+        .set('Authorization', auth)
+        .set('If-Match', '3')
+        .expect(200);
+      expect(bodyOf<Grant>(res).data.expenditures.map((e) => e.id)).not.toContain('EXP-005');
+    });
+  });
+
+  describe('matching contributions', () => {
+    const officer = bearer('program.officer', ['program-officer']);
+
+    async function addContribution(): Promise<Grant> {
+      const res = await request(app)
+        .post(`${GRANT}/matching-contributions`)
+        .set('Authorization', auth)
+        .set('If-Match', '"3"')
+        .send({
+          id: 'MC-NEW',
+          date: '2024-03-01',
+          type: 'cash',
+          source: 'County',
+          amount: 5000,
+          status: 'verified',
+          verifiedBy: 'sarah.johnson',
+        })
+        .expect(201);
+      return bodyOf<Grant>(res).data;
+    }
+
+    const contribution = (grant: Grant): Grant['matchingContributions'][number] | undefined =>
+      grant.matchingContributions.find((c) => c.id === 'MC-NEW');
+
+    it('starts every new contribution pending, whatever the client sends', async () => {
+      const added = contribution(await addContribution());
+
+      expect(added?.status).toBe('pending');
+      expect(added?.verifiedBy).toBeUndefined();
+    });
+
+    it('lets only grantor roles verify, recording the caller as verifier', async () => {
+      const grant = await addContribution();
+      const verify = (token: string): request.Test =>
+        request(app)
+          .put(`${GRANT}/matching-contributions/MC-NEW/verification`)
+          .set('Authorization', token)
+          .set('If-Match', `"${grant.version}"`)
+          .send({ status: 'verified' });
+
+      await verify(auth).expect(403);
+      const res = await verify(officer).expect(200);
+
+      expect(contribution(bodyOf<Grant>(res).data)).toMatchObject({
+        status: 'verified',
+        verifiedBy: 'program.officer',
+      });
+    });
+
+    it('sends an edited contribution back to pending', async () => {
+      const added = await addContribution();
+      const verified = await request(app)
+        .put(`${GRANT}/matching-contributions/MC-NEW/verification`)
+        .set('Authorization', officer)
+        .set('If-Match', `"${added.version}"`)
+        .send({ status: 'verified' })
+        .expect(200);
+
+      const res = await request(app)
+        .patch(`${GRANT}/matching-contributions/MC-NEW`)
+        .set('Authorization', auth)
+        .set('If-Match', `"${bodyOf<Grant>(verified).data.version}"`)
+        .send({ amount: 9000, status: 'verified' })
+        .expect(200);
+
+      expect(contribution(bodyOf<Grant>(res).data)).toMatchObject({
+        amount: 9000,
+        status: 'pending',
+      });
+    });
+  });
+});
@@ -0,0 +1,1092 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { body, param, query, matchedData, ValidationChain } from 'express-validator';
+import { getHolidayCalendar } from '../../calendar';
+import { reportingStatus } from '../../compliance';
+import { withExchangeRate } from '../../currency';
+import { Grant, GrantCollection, GrantStatus, Organization } from '../../models/Grant';
+import { getGrantRepository, getRulePackRepository } from '../../repositories';
+import { GrantLifecycle } from '../../workflows/GrantLifecycle';
+import { isValidTimeZone } from '../../utils/dates';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkComplianceRequirement,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  registerRecipient,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+const router = Router();
+const grantLifecycle = new GrantLifecycle();
+
+const GRANT_TYPES = ['federal', 'state', 'local', 'foundation', 'corporate', 'international'];
+const GRANT_STATUSES = [
+  'draft',
+  'submitted',
+  'under-review',
+  'approved',
+  'active',
+  'suspended',
+  'completed',
+  'terminated',
+  'closed',
+];
+const REPORTING_FREQUENCIES = ['monthly', 'quarterly', 'semi-annual', 'annual'];
+// Roles acting for the grantor, who confirm cost-share contributions
+const MATCHING_VERIFIER_ROLES = ['admin', 'program-officer'];
+
+type ValidationMode = 'create' | 'update';
+
+function fieldFor(
+  mode: ValidationMode
+): (name: string, requiredOnCreate?: boolean) => ValidationChain {
+  return (name: string, requiredOnCreate = false): ValidationChain =>
+    mode === 'create' && requiredOnCreate ? body(name) : body(name).optional();
+}
+
+async function checkPinnedVersions(pins: Record<string, unknown>): Promise<true> {
+  for (const [packId, version] of Object.entries(pins)) {
+    if (!(await getRulePackRepository().findVersion(packId, String(version)))) {
+      throw new Error(`Rule pack ${packId} has no version ${String(version)}`);
+    }
+  }
+  return true;
+}
+
+function grantValidators(mode: ValidationMode): ValidationChain[] {
+  const field = fieldFor(mode);
+  return [
+    field('grantNumber', true).isString().trim().notEmpty(),
+    field('title', true).isString().trim().notEmpty(),
+    field('description').isString(),
+    field('type', true).isIn(GRANT_TYPES),
+    field('currency').isString().toUpperCase().isISO4217(),
+    field('totalFunding', true).isFloat({ min: 0 }).toFloat(),
+    field('awardedAmount').isFloat({ min: 0 }).toFloat(),
+    field('matchingRequirement').isFloat({ min: 0 }).toFloat(),
+    field('fundingSource').isString(),
+    field('grantManager').isString(),
+    field('applicationDate').isISO8601(),
+    field('awardDate').isISO8601(),
+    field('startDate', true).isISO8601(),
+    field('endDate', true).isISO8601(),
+    field('reportingFrequency').isIn(REPORTING_FREQUENCIES),
+    field('reportingSchedule').isObject(),
+    body('reportingSchedule.frequency').optional().isIn(REPORTING_FREQUENCIES),
+    body('reportingSchedule.lagDays').optional().isInt({ min: 0 }).toInt(),
+    body('reportingSchedule.fiscalYearStartMonth').optional().isInt({ min: 1, max: 12 }).toInt(),
+    body('reportingSchedule.graceBusinessDays').optional().isInt({ min: 0 }).toInt(),
+    field('deadlineCalendar').isObject(),
+    body('deadlineCalendar.holidayCalendar')
+      .optional()
+      .custom((id: string) => Boolean(getHolidayCalendar(id)))
+      .withMessage('Unknown holiday calendar'),
+    body('deadlineCalendar.timeZone')
+      .optional()
+      .custom((timeZone: string) => typeof timeZone === 'string' && isValidTimeZone(timeZone))
+      .withMessage('Must be an IANA time zone such as America/New_York'),
+    body('deadlineCalendar.roll').optional().isIn(['following', 'preceding', 'none']),
+    field('recipient', true).isObject(),
+    body('recipient.id').if(body('recipient').exists()).optional().isString().trim().notEmpty(),
+    body('recipient.taxId').if(body('recipient').exists()).optional().isString().trim().notEmpty(),
+    body('recipient.name').if(body('recipient').exists()).isString().trim().notEmpty(),
+    field('grantor', true).isObject(),
+    field('objectives').isArray(),
+    field('targetBeneficiaries').isString(),
+    field('geographicScope').isString(),
+    field('complianceRequirements').isArray(),
+    body('complianceRequirements.*').custom(checkComplianceRequirement),
+    field('rulePacks').isObject(),
+    body('rulePacks.pinnedVersions').optional().isObject().custom(checkPinnedVersions),
+    body('rulePacks.overrides').optional().isObject(),
+    body('rulePacks.overrides.*.severity').optional().isIn(['high', 'medium', 'low']),
+    body('rulePacks.overrides.*.parameters').optional().isObject(),
+    body('rulePacks.overrides.*.applicableFrom').optional().isISO8601(),
+    body('rulePacks.overrides.*.dueDate').optional().isISO8601(),
+    body('rulePacks.overrides.*.disabled').optional().isBoolean().toBoolean(),
+    field('expenditurePolicy').isObject(),
+    body('expenditurePolicy.allowability.disallowedCategories').optional().isArray(),
+    body('expenditurePolicy.allowability.maxItemAmount').optional().isFloat({ min: 0 }).toFloat(),
+    body('expenditurePolicy.allowability.categoryItemCaps').optional().isObject(),
+    body('expenditurePolicy.allowability.receiptRequiredOver')
+      .optional()
+      .isFloat({ min: 0 })
+      .toFloat(),
+    body('expenditurePolicy.approvalSteps').optional().isArray(),
+    body('expenditurePolicy.approvalSteps.*.name').isString().trim().notEmpty(),
+    body('expenditurePolicy.approvalSteps.*.roles').isArray({ min: 1 }),
+    body('expenditurePolicy.approvalSteps.*.minAmount').optional().isFloat({ min: 0 }).toFloat(),
+    field('tags').isArray(),
+  ];
+}
+
+const itemValidators: Record<GrantCollection, (mode: ValidationMode) => ValidationChain[]> = {
+  milestones: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('name', true).isString().trim().notEmpty(),
+      field('description').isString(),
+      field('startDate').isISO8601().toDate(),
+      field('dueDate', true).isISO8601().toDate(),
+      field('completionDate').isISO8601().toDate(),
+      field('status').isIn(['pending', 'in-progress', 'completed', 'delayed']),
+      field('percentComplete').isFloat({ min: 0, max: 100 }).toFloat(),
+      field('weight').isFloat({ min: 0 }).toFloat(),
+      field('budgetedCost').isFloat({ min: 0 }).toFloat(),
+      field('deliverables').isArray(),
+      field('dependencies').isArray(),
+    ];
+  },
+  expenditures: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('date', true).isISO8601().toDate(),
+      field('category', true).isString().trim().notEmpty(),
+      field('description').isString(),
+      field('amount', true).isFloat({ min: 0 }).toFloat(),
+      field('currency').isString().toUpperCase().isISO4217(),
+      field('exchangeRate').isFloat({ gt: 0 }).toFloat(),
+      field('receiptUrl').isURL(),
+    ];
+  },
+  // Current value and status follow from measurements recorded through the KPI routes
+  kpis: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('name', true).isString().trim().notEmpty(),
+      field('description').isString(),
+      field('targetValue', true).isFloat().toFloat(),
+      field('direction').isIn(['higher-is-better', 'lower-is-better']),
+      field('baseline').isObject(),
+      body('baseline.value').if(body('baseline').exists()).isFloat().toFloat(),
+      body('baseline.date').if(body('baseline').exists()).isISO8601().toDate(),
+      body('baseline.source').optional().isString(),
+      field('interimTargets').isArray(),
+      body('interimTargets.*.period').isString().trim().notEmpty(),
+      body('interimTargets.*.start').isISO8601().toDate(),
+      body('interimTargets.*.end').isISO8601().toDate(),
+      body('interimTargets.*.value').isFloat().toFloat(),
+      field('unit').isString(),
+      field('measurementFrequency').isString(),
+      field('dataSource').isString(),
+      field('indicator').isString().trim().notEmpty(),
+    ];
+  },
+  // Links to externally held documents; status and review notes are only set
+  // through the review workflow, content through the upload endpoint
+  documents: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('type', true).isString().trim().notEmpty(),
+      field('name', true).isString().trim().notEmpty(),
+      field('url', true).isURL(),
+      field('uploadDate').isISO8601().toDate(),
+    ];
+  },
+  reports: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('type', true).isString().trim().notEmpty(),
+      field('period', true).isString().trim().notEmpty(),
+      field('submissionDate').isISO8601().toDate(),
+      field('status').isIn(['draft', 'submitted', 'reviewed']),
+      field('url').isURL(),
+      field('notes').isString(),
+      field('sections').isArray(),
+    ];
+  },
+  // Status is only set through the verification route
+  matchingContributions: (mode) => {
+    const field = fieldFor(mode);
+    return [
+      field('date', true).isISO8601().toDate(),
+      field('type', true).isIn(['cash', 'in-kind']),
+      field('source', true).isString().trim().notEmpty(),
+      field('description').isString(),
+      field('amount', true).isFloat({ min: 0 }).toFloat(),
+      field('valuationMethod').isString(),
+      field('documentation').isArray(),
+    ];
+  },
+};
+
+// URL segment for each collection
+const collectionPaths: Record<GrantCollection, string> = {
+  milestones: 'milestones',
+  expenditures: 'expenditures',
+  kpis: 'kpis',
+  documents: 'documents',
+  reports: 'reports',
+  matchingContributions: 'matching-contributions',
+};
+
+const itemDefaults: Record<GrantCollection, (user: string) => Record<string, unknown>> = {
+  milestones: () => ({ description: '', status: 'pending', deliverables: [], dependencies: [] }),
+  // Status and approvals are only set through the approval workflow
+  expenditures: (user) => ({
+    description: '',
+    status: 'pending',
+    submittedBy: user,
+    submittedDate: new Date(),
+    approvals: [],
+  }),
+  kpis: () => ({ direction: 'higher-is-better', interimTargets: [], measurements: [] }),
+  documents: (user) => ({ uploadDate: new Date(), uploadedBy: user, status: 'pending' }),
+  reports: (user) => ({ submissionDate: new Date(), submittedBy: user, status: 'draft' }),
+  matchingContributions: () => ({ description: '', documentation: [], status: 'pending' }),
+};
+
+function endOfDayIfDateOnly(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T23:59:59.999Z`) : new Date(value);
+}
+
+/**
+ * @swagger
+ * /api/v1/grants:
+ *   get:
+ *     summary: List grants
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Grants retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/',
+  requireAuth,
+  [
+    query('status').optional().isIn(GRANT_STATUSES),
+    query('type').optional().isIn(GRANT_TYPES),
+    query('tag').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { status, type, tag } = req.query;
+      const grants = (await getGrantRepository().findAll()).filter(
+        (g) =>
+          (!status || g.status === status) &&
+          (!type || g.type === type) &&
+          (!tag || g.tags.includes(tag as string))
+      );
+
+      res.json({
+        success: true,
+        data: grants,
+        total: grants.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list grants');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}:
+ *   get:
+ *     summary: Get a grant
+ *     description: Returns the grant with all sub-resources. The `ETag` header carries the version to send back in `If-Match` on updates.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Reconstruct the grant as it stood at this date (a bare date means end of that day, UTC)
+ *       - in: query
+ *         name: asOfVersion
+ *         schema:
+ *           type: integer
+ *         description: Reconstruct the grant as it stood at this version
+ *     responses:
+ *       200:
+ *         description: Grant retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/:grantId',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('asOf').optional().isISO8601(),
+    query('asOfVersion').optional().isInt({ min: 1 }).toInt(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const { asOf, asOfVersion } = matchedData<{
+        asOf?: string;
+        asOfVersion?: number;
+      }>(req, { locations: ['query'] });
+
+      if (asOf === undefined && asOfVersion === undefined) {
+        sendGrant(res, grant);
+        return;
+      }
+
+      const date = asOf ? endOfDayIfDateOnly(asOf) : undefined;
+      res.json({
+        success: true,
+        data: grant.asOf({ date, version: asOfVersion }),
+        asOf: { date, version: asOfVersion },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch grant');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants:
+ *   post:
+ *     summary: Create a grant
+ *     description: Creates a grant in `draft` status at version 1. The recipient is linked to the registered organization with the same ID or tax ID, whose details replace those given, or else registered as a new organization.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Grant created
+ *       400:
+ *         description: Invalid grant data
+ *       409:
+ *         description: A grant with this ID already exists
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/',
+  requireAuth,
+  [body('id').optional().isString().trim().notEmpty(), ...grantValidators('create')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const data = matchedData(req, { locations: ['body'] });
+      const user = getRequestUser(req).id;
+      const id = (data.id as string | undefined) || randomUUID();
+      const repository = getGrantRepository();
+
+      if (await repository.findById(id)) {
+        throw new ConflictError(`Grant ${id} already exists`);
+      }
+
+      const now = new Date();
+      const recipient = await registerRecipient(data.recipient as Organization);
+      const grant = Grant.fromJSON({
+        ...data,
+        recipient,
+        id,
+        status: 'draft',
+        createdBy: user,
+        createdAt: now,
+        updatedBy: user,
+        updatedAt: now,
+        version: 1,
+        history: [],
+      });
+
+      sendGrant(res, await repository.save(grant), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to create grant');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}:
+ *   patch:
+ *     summary: Update a grant
+ *     description: Partially updates grant fields. Status changes are not accepted here. A changed recipient is linked to, or registered as, an organization as on creation.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant version the change is based on
+ *     responses:
+ *       200:
+ *         description: Grant updated
+ *       404:
+ *         description: Grant not found
+ *       409:
+ *         description: Grant was modified since the given version
+ *       428:
+ *         description: If-Match header missing
+ */
+router.patch(
+  '/:grantId',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    ...grantValidators('update'),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const changes = matchedData(req, { locations: ['body'] });
+      // matchedData keeps `recipient` for its nested validators even when the client left it out
+      if ('recipient' in req.body) {
+        changes.recipient = await registerRecipient(changes.recipient as Organization);
+      } else {
+        delete changes.recipient;
+      }
+
+      // Revive dates inside the changed fields the same way a stored grant is read
+      const revived = Grant.fromJSON({ ...grant, ...changes });
+      grant.update(
+        Object.fromEntries(Object.keys(changes).map((key) => [key, revived[key as keyof Grant]])),
+        getRequestUser(req).id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to update grant');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}:
+ *   delete:
+ *     summary: Delete a grant
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Grant deleted
+ *       404:
+ *         description: Grant not found
+ *       409:
+ *         description: Grant was modified since the given version
+ *       428:
+ *         description: If-Match header missing
+ */
+router.delete(
+  '/:grantId',
+  requireAuth,
+  [param('grantId').trim().notEmpty().withMessage('Valid grant ID required')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      if (!(await getGrantRepository().delete(grant.id, expectedVersion))) {
+        throw new NotFoundError('Grant not found');
+      }
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error, 'Failed to delete grant');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/history:
+ *   get:
+ *     summary: Get the audit trail of a grant
+ *     description: Returns history entries with field-level diffs, most recent first
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: user
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: field
+ *         schema:
+ *           type: string
+ *         description: Only entries changing this field path or anything beneath it (e.g. `milestones` or `recipient.address`)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: History retrieved successfully
+ *       404:
+ *         description: Grant not found
+ */
+router.get(
+  '/:grantId/history',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('user').optional().isString(),
+    query('action').optional().isString(),
+    query('field').optional().isString(),
+    query('from').optional().isISO8601(),
+    query('to').optional().isISO8601(),
+    query('limit').optional().isInt({ min: 1, max: 1000 }).toInt(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const filters = matchedData<{
+        user?: string;
+        action?: string;
+        field?: string;
+        from?: string;
+        to?: string;
+        limit?: number;
+      }>(req, { locations: ['query'] });
+      const from = filters.from ? new Date(filters.from) : undefined;
+      const to = filters.to ? endOfDayIfDateOnly(filters.to) : undefined;
+      const touchesField = (path: string): boolean =>
+        !filters.field ||
+        path === filters.field ||
+        path.startsWith(`${filters.field}.`) ||
+        path.startsWith(`${filters.field}[`);
+
+      const entries = grant.history
+        .filter(
+          (entry) =>
+            (!filters.user || entry.user === filters.user) &&
+            (!filters.action || entry.action === filters.action) &&
+            (!from || entry.date >= from) &&
+            (!to || entry.date <= to) &&
+            (!filters.field ||
+              (entry.diff || []).some((change) => touchesField(change.path)) ||
+              Object.keys(entry.changes || {}).some(touchesField))
+        )
+        .reverse();
+
+      res.json({
+        success: true,
+        data: entries.slice(0, filters.limit ?? 100),
+        total: entries.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch grant history');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/transitions:
+ *   get:
+ *     summary: List lifecycle transitions available to the caller
+ *     description: Returns each status the caller's roles allow, with any guard conditions that currently block it
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transitions retrieved successfully
+ *       404:
+ *         description: Grant not found
+ */
+router.get(
+  '/:grantId/transitions',
+  requireAuth,
+  [param('grantId').trim().notEmpty().withMessage('Valid grant ID required')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      const transitions = grantLifecycle.availableTransitions(grant, user.roles).map((to) => ({
+        to,
+        blockedBy: grantLifecycle.evaluateGuards(grant, to, { user: user.id, roles: user.roles }),
+      }));
+
+      res.json({
+        success: true,
+        data: { status: grant.status, transitions },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch transitions');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/reporting-schedule:
+ *   get:
+ *     summary: Get the grant's reporting schedule
+ *     description: Reporting periods derived from the grant's reporting frequency and schedule settings, with each period's due date, grace period end and submission status
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reportType
+ *         schema:
+ *           type: string
+ *         description: Only count submitted reports of this type
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Date to report statuses at (a bare date means end of that day, UTC)
+ *     responses:
+ *       200:
+ *         description: Schedule retrieved successfully
+ *       404:
+ *         description: Grant not found
+ */
+router.get(
+  '/:grantId/reporting-schedule',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('reportType').optional().isString().trim().notEmpty(),
+    query('asOf').optional().isISO8601(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const { reportType, asOf } = matchedData<{ reportType?: string; asOf?: string }>(req, {
+        locations: ['query'],
+      });
+      const schedule = reportingStatus(
+        grant,
+        asOf ? endOfDayIfDateOnly(asOf) : new Date(),
+        undefined,
+        reportType
+      );
+
+      res.json({
+        success: true,
+        data: schedule,
+        total: schedule.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch reporting schedule');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/status:
+ *   post:
+ *     summary: Change grant status
+ *     description: Moves the grant through its lifecycle. The transition must be allowed for the caller's roles and pass all guard conditions.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: If-Match
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       403:
+ *         description: Caller's roles do not permit this transition
+ *       409:
+ *         description: Grant was modified since the given version
+ *       422:
+ *         description: Transition rejected; response lists the failed guards
+ */
+router.post(
+  '/:grantId/status',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    body('status').isIn(GRANT_STATUSES),
+    body('reason').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+
+      const { status, reason } = matchedData<{
+        status: GrantStatus;
+        reason?: string;
+      }>(req, { locations: ['body'] });
+
+      grantLifecycle.transition(grant, status, { user: user.id, roles: user.roles, reason });
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to change grant status');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/{collection}:
+ *   get:
+ *     summary: List a grant sub-resource
+ *     tags: [Grants]
+ *     parameters:
+ *       - in: path
+ *         name: collection
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [milestones, expenditures, kpis, documents, reports, matching-contributions]
+ *   post:
+ *     summary: Add an item to a grant sub-resource
+ *     description: Requires `If-Match` with the grant version; the grant version is incremented. Milestone dependencies must name existing milestones and may not form a cycle (422).
+ *     tags: [Grants]
+ * /api/v1/grants/{grantId}/{collection}/{itemId}:
+ *   patch:
+ *     summary: Update an item of a grant sub-resource
+ *     description: Requires `If-Match` with the grant version; the grant version is incremented. Moving a milestone's due date fixes the planned start of the milestones depending on it, so the slip shows in their projected dates. An edited matching contribution goes back to pending verification, and an edited document to pending review; only the name of an uploaded document can be changed (409).
+ *     tags: [Grants]
+ *   delete:
+ *     summary: Remove an item from a grant sub-resource
+ *     description: Requires `If-Match` with the grant version; the grant version is incremented. A milestone other milestones depend on, and an expenditure that is no longer pending, cannot be removed (409).
+ *     tags: [Grants]
+ */
+for (const collection of Object.keys(itemValidators) as GrantCollection[]) {
+  const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+  const itemIdParam = param('itemId').trim().notEmpty();
+
+  router.get(
+    `/:grantId/${collectionPaths[collection]}`,
+    requireAuth,
+    [grantIdParam],
+    asyncHandler(async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!checkValidation(req, res)) {
+          return;
+        }
+
+        const grant = await loadGrant(req.params.grantId);
+        res.set('ETag', `"${grant.version}"`);
+        res.json({
+          success: true,
+          data: grant[collection],
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        sendError(res, error, `Failed to fetch ${collection}`);
+      }
+    })
+  );
+
+  router.post(
+    `/:grantId/${collectionPaths[collection]}`,
+    requireAuth,
+    [
+      grantIdParam,
+      body('id').optional().isString().trim().notEmpty(),
+      ...itemValidators[collection]('create'),
+    ],
+    asyncHandler(async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!checkValidation(req, res)) {
+          return;
+        }
+
+        const expectedVersion = expectedVersionFrom(req);
+        const grant = await loadGrant(req.params.grantId);
+        const user = getRequestUser(req).id;
+        const data = matchedData(req, { locations: ['body'] });
+        let item: Record<string, unknown> = {
+          ...itemDefaults[collection](user),
+          ...data,
+          id: (data.id as string | undefined) || randomUUID(),
+        };
+        if (collection === 'expenditures') {
+          item = await withExchangeRate(grant, item);
+        }
+
+        if ((grant[collection] as { id: string }[]).some((i) => i.id === item.id)) {
+          throw new ConflictError(`Item ${String(item.id)} already exists in ${collection}`);
+        }
+
+        grant.addItem(collection, item as unknown as Grant[typeof collection][number], user);
+        sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+      } catch (error) {
+        sendError(res, error, `Failed to add to ${collection}`);
+      }
+    })
+  );
+
+  router.patch(
+    `/:grantId/${collectionPaths[collection]}/:itemId`,
+    requireAuth,
+    [grantIdParam, itemIdParam, ...itemValidators[collection]('update')],
+    asyncHandler(async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!checkValidation(req, res)) {
+          return;
+        }
+
+        const expectedVersion = expectedVersionFrom(req);
+        const grant = await loadGrant(req.params.grantId);
+        let changes = matchedData(req, { locations: ['body'] });
+
+        const existing = grant.expenditures.find((e) => e.id === req.params.itemId);
+        if (collection === 'expenditures' && existing) {
+          if (existing.status !== 'pending') {
+            throw new ConflictError(`Expenditure ${existing.id} is ${existing.status}`);
+          }
+          // An edited expenditure goes back through every approval step
+          changes = { ...changes, approvals: [] };
+
+          // A new currency or date needs a new rate unless one is given
+          if (changes.currency || changes.date) {
+            const { exchangeRate } = await withExchangeRate(grant, {
+              ...existing,
+              exchangeRate: undefined,
+              ...changes,
+            });
+            changes = { ...changes, exchangeRate };
+          }
+        }
+
+        if (collection === 'matchingContributions') {
+          // An edited contribution has to be verified again
+          changes = {
+            ...changes,
+            status: 'pending',
+            verifiedBy: undefined,
+            verifiedDate: undefined,
+          };
+        }
+
+        const document = grant.documents.find((d) => d.id === req.params.itemId);
+        if (collection === 'documents' && document) {
+          // Uploaded content only changes through a new version, which keeps its URL and type
+          const fixed = Object.keys(changes).filter((key) => key !== 'name');
+          if (document.storageKey && fixed.length > 0) {
+            throw new ConflictError(
+              `Document ${document.id} holds uploaded content; only its name can be changed, not ${fixed.join(', ')}`
+            );
+          }
+          // An edited document has to be reviewed again
+          changes = { ...changes, status: 'pending', reviewNotes: undefined };
+        }
+
+        if (!grant.updateItem(collection, req.params.itemId, changes, getRequestUser(req).id)) {
+          throw new NotFoundError(`Item ${req.params.itemId} not found in ${collection}`);
+        }
+
+        sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+      } catch (error) {
+        sendError(res, error, `Failed to update ${collection}`);
+      }
+    })
+  );
+
+  router.delete(
+    `/:grantId/${collectionPaths[collection]}/:itemId`,
+    requireAuth,
+    [grantIdParam, itemIdParam],
+    asyncHandler(async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!checkValidation(req, res)) {
+          return;
+        }
+
+        const expectedVersion = expectedVersionFrom(req);
+        const grant = await loadGrant(req.params.grantId);
+
+        const existing = grant.expenditures.find((e) => e.id === req.params.itemId);
+        if (collection === 'expenditures' && existing && existing.status !== 'pending') {
+          throw new ConflictError(`Expenditure ${existing.id} is ${existing.status}`);
+        }
+
+        if (!grant.removeItem(collection, req.params.itemId, getRequestUser(req).id)) {
+          throw new NotFoundError(`Item ${req.params.itemId} not found in ${collection}`);
+        }
+
+        sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+      } catch (error) {
+        sendError(res, error, `Failed to remove from ${collection}`);
+      }
+    })
+  );
+}
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/matching-contributions/{itemId}/verification:
+ *   put:
+ *     summary: Verify or reject a matching contribution
+ *     description: Only verified contributions count towards the matching requirement. The caller is recorded as verifier. Requires `If-Match` with the grant version.
+ *     tags: [Grants]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification recorded
+ *       403:
+ *         description: Caller may not verify matching contributions
+ *       404:
+ *         description: Grant or contribution not found
+ */
+router.put(
+  '/:grantId/matching-contributions/:itemId/verification',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    param('itemId').trim().notEmpty(),
+    body('status').isIn(['verified', 'rejected']),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const user = getRequestUser(req);
+      if (!user.roles.some((role) => MATCHING_VERIFIER_ROLES.includes(role))) {
+        throw new ForbiddenError(
+          `Verifying matching contributions requires one of the roles: ${MATCHING_VERIFIER_ROLES.join(', ')}`
+        );
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const { status } = matchedData<{ status: 'verified' | 'rejected' }>(req, {
+        locations: ['body'],
+      });
+      grant.verifyMatchingContribution(req.params.itemId, status, user.id);
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to verify matching contribution');
+    }
+  })
+);
+
+export default router;
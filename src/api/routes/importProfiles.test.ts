@@ -0,0 +1,62 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { MappingProfile } from '../../imports/MappingProfile';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const PROFILES = '/api/v1/import-profiles';
+
+const custom = {
+  name: 'Finance team export',
+  columns: { date: 'Posted', category: 'Account', amount: 'Total' },
+  dateFormat: 'DD.MM.YYYY',
+  decimalSeparator: ',',
+};
+
+describe('import profile routes', () => {
+  let app: Express;
+  const auth = bearer('frank.finance', ['finance']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  it('lists the built-in profiles', async () => {
+    const res = await request(app).get(PROFILES).set('Authorization', auth).expect(200);
+
+    expect(bodyOf<MappingProfile[]>(res).data.map((p) => p.id)).toContain('generic-csv');
+  });
+
+  it('saves and deletes custom profiles', async () => {
+    const res = await request(app)
+      .put(`${PROFILES}/finance-export`)
+      .set('Authorization', auth)
+      .send(custom)
+      .expect(200);
+    expect(bodyOf<MappingProfile>(res).data).toMatchObject({
+      id: 'finance-export',
+      builtIn: false,
+      skipRows: 0,
+      createdBy: 'frank.finance',
+    });
+
+    await request(app).delete(`${PROFILES}/finance-export`).set('Authorization', auth).expect(204);
+    await request(app).get(`${PROFILES}/finance-export`).set('Authorization', auth).expect(404);
+  });
+
+  it('requires an amount or debit column', async () => {
+    await request(app)
+      .put(`${PROFILES}/finance-export`)
+      .set('Authorization', auth)
+      .send({ ...custom, columns: { date: 'Posted', category: 'Account' } })
+      .expect(400);
+  });
+
+  it('refuses to change or delete built-in profiles', async () => {
+    await request(app)
+      .put(`${PROFILES}/generic-csv`)
+      .set('Authorization', auth)
+      .send(custom)
+      .expect(409);
+    await request(app).delete(`${PROFILES}/generic-csv`).set('Authorization', auth).expect(409);
+  });
+});
@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData } from 'express-validator';
+import { MappingProfile } from '../../imports/MappingProfile';
+import { getMappingProfileRepository } from '../../repositories';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import { asyncHandler, checkValidation, getRequestUser, sendError } from '../helpers';
+
+const router = Router();
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'DD MMM YYYY'];
+
+const profileIdParam = param('profileId')
+  .trim()
+  .matches(/^[a-z0-9][a-z0-9-]*$/)
+  .withMessage('Profile ID must be lowercase letters, digits and dashes');
+
+async function loadProfile(profileId: string): Promise<MappingProfile> {
+  const profile = await getMappingProfileRepository().findById(profileId);
+  if (!profile) {
+    throw new NotFoundError(`Mapping profile ${profileId} not found`);
+  }
+  return profile;
+}
+
+/**
+ * @swagger
+ * /api/v1/import-profiles:
+ *   get:
+ *     summary: List expenditure import mapping profiles
+ *     description: Built-in layouts for common accounting-system exports plus saved custom profiles
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profiles retrieved successfully
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const profiles = await getMappingProfileRepository().findAll();
+      res.json({
+        success: true,
+        data: profiles,
+        total: profiles.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list mapping profiles');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/import-profiles/{profileId}:
+ *   get:
+ *     summary: Get a mapping profile
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile retrieved successfully
+ *       404:
+ *         description: Profile not found
+ *   put:
+ *     summary: Create or replace a saved mapping profile
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile saved
+ *       409:
+ *         description: Built-in profiles cannot be changed
+ *   delete:
+ *     summary: Delete a saved mapping profile
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Profile deleted
+ *       404:
+ *         description: Profile not found
+ *       409:
+ *         description: Built-in profiles cannot be deleted
+ */
+router.get(
+  '/:profileId',
+  requireAuth,
+  [profileIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await loadProfile(req.params.profileId),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch mapping profile');
+    }
+  })
+);
+
+router.put(
+  '/:profileId',
+  requireAuth,
+  [
+    profileIdParam,
+    body('name').isString().trim().notEmpty(),
+    body('description').optional().isString(),
+    body('columns').isObject(),
+    body('columns.date').isString().trim().notEmpty(),
+    body('columns.category').isString().trim().notEmpty(),
+    body('columns.amount')
+      .if(body('columns.debit').not().exists())
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Map either columns.amount or columns.debit'),
+    body('columns.debit').optional().isString().trim().notEmpty(),
+    body('columns.credit').optional().isString().trim().notEmpty(),
+    body('columns.description').optional().isString(),
+    body('columns.externalRef').optional().isString(),
+    body('columns.currency').optional().isString(),
+    body('columns.receiptUrl').optional().isString(),
+    body('dateFormat').isIn(DATE_FORMATS),
+    body('decimalSeparator').optional().isIn(['.', ',']),
+    body('delimiter').optional().isString().isLength({ min: 1, max: 1 }),
+    body('sheet').optional().isString(),
+    body('skipRows').optional().isInt({ min: 0 }).toInt(),
+    body('categoryMap').optional().isObject(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const repository = getMappingProfileRepository();
+      const existing = await repository.findById(req.params.profileId);
+      if (existing?.builtIn) {
+        throw new ConflictError(`Built-in mapping profile ${existing.id} cannot be changed`);
+      }
+
+      const data = matchedData<
+        Omit<MappingProfile, 'id' | 'decimalSeparator' | 'skipRows' | 'categoryMap'> &
+          Partial<Pick<MappingProfile, 'decimalSeparator' | 'skipRows' | 'categoryMap'>>
+      >(req, { locations: ['body'] });
+      const profile = await repository.save({
+        ...data,
+        decimalSeparator: data.decimalSeparator || '.',
+        skipRows: data.skipRows ?? 0,
+        categoryMap: data.categoryMap || {},
+        id: req.params.profileId,
+        builtIn: false,
+        createdBy: existing?.createdBy || getRequestUser(req).id,
+        updatedAt: new Date(),
+      });
+
+      res.json({ success: true, data: profile, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to save mapping profile');
+    }
+  })
+);
+
+router.delete(
+  '/:profileId',
+  requireAuth,
+  [profileIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const profile = await loadProfile(req.params.profileId);
+      if (profile.builtIn) {
+        throw new ConflictError(`Built-in mapping profile ${profile.id} cannot be deleted`);
+      }
+      await getMappingProfileRepository().delete(profile.id);
+
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error, 'Failed to delete mapping profile');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,81 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Grant } from '../../models/Grant';
+import type { KPI, KPIAchievement, KPIMeasurement } from '../../models/KPI';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const KPI_002 = '/api/v1/grants/GR-2023-001/kpis/KPI-002';
+
+describe('KPI routes', () => {
+  let app: Express;
+  const analyst = bearer('dana.analyst', ['grant-manager']);
+  const officer = bearer('otto.officer', ['program-officer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const record = (version: number, value: number): request.Test =>
+    request(app)
+      .post(`${KPI_002}/measurements`)
+      .set('Authorization', analyst)
+      .set('If-Match', `"${version}"`)
+      .send({ value, date: '2024-03-31' });
+
+  const kpi002 = (grant: Grant): KPI => grant.kpis.find((k) => k.id === 'KPI-002') as KPI;
+
+  it('records measurements unverified and refreshes the current value', async () => {
+    await request(app)
+      .post(`${KPI_002}/measurements`)
+      .set('Authorization', analyst)
+      .send({ value: 33, date: '2024-03-31' })
+      .expect(428);
+    await record(3, Number.NaN).expect(400);
+
+    const kpi = kpi002(bodyOf<Grant>(await record(3, 33).expect(201)).data);
+    expect(kpi.currentValue).toBe(33);
+    expect(kpi.measurements[kpi.measurements.length - 1]).toMatchObject({
+      value: 33,
+      recordedBy: 'dana.analyst',
+      verificationStatus: 'unverified',
+      dataSource: 'Hospital Records Analysis',
+    });
+    await record(3, 32).expect(409);
+  });
+
+  it('lists measurements oldest first with achievement against their period target', async () => {
+    await record(3, 33).expect(201);
+
+    const res = await request(app)
+      .get(`${KPI_002}/measurements`)
+      .set('Authorization', analyst)
+      .expect(200);
+    const history = bodyOf<(KPIMeasurement & { targetPeriod: string })[]>(res).data;
+    expect(history[0].date).toBe('2023-09-30T00:00:00.000Z');
+    expect(history[history.length - 1]).toMatchObject({ value: 33, targetPeriod: 'Q1 2024' });
+  });
+
+  it('lets reviewers other than the recorder verify or dispute a measurement', async () => {
+    const grant = bodyOf<Grant>(await record(3, 20).expect(201)).data;
+    const { id } = kpi002(grant).measurements.slice(-1)[0];
+
+    const verify = (auth: string, status: string): request.Test =>
+      request(app)
+        .put(`${KPI_002}/measurements/${id}/verification`)
+        .set('Authorization', auth)
+        .set('If-Match', '"4"')
+        .send({ status, notes: 'Does not match hospital records' });
+
+    await verify(bearer('dana.analyst', ['program-officer']), 'verified').expect(403);
+    await verify(analyst, 'verified').expect(403);
+    const disputed = kpi002(bodyOf<Grant>(await verify(officer, 'disputed').expect(200)).data);
+    expect(disputed.currentValue).not.toBe(20);
+
+    const res = await request(app)
+      .get('/api/v1/grants/GR-2023-001/kpis')
+      .set('Authorization', analyst)
+      .expect(200);
+    const listed = bodyOf<(KPI & { achievement: KPIAchievement })[]>(res).data;
+    expect(listed.find((k) => k.id === 'KPI-002')?.achievement.current).not.toBe(20);
+  });
+});
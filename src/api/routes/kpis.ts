@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { body, param, query, matchedData } from 'express-validator';
+import { kpiAchievement, targetFor } from '../../models/KPI';
+import { getGrantRepository } from '../../repositories';
+import { ForbiddenError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/kpis, ahead of the generic collection routes
+const router = Router({ mergeParams: true });
+
+const VERIFIER_ROLES = ['admin', 'program-officer'];
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+const kpiIdParam = param('kpiId').trim().notEmpty().withMessage('Valid KPI ID required');
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/kpis:
+ *   get:
+ *     summary: List KPIs of a grant with their achievement
+ *     description: Achievement of each KPI's latest measurement against the target for the period it falls in
+ *     tags: [KPIs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Ignore measurements after this date
+ *     responses:
+ *       200:
+ *         description: KPIs retrieved successfully
+ *       404:
+ *         description: Grant not found
+ */
+router.get(
+  '/',
+  requireAuth,
+  [grantIdParam, query('asOf').optional().isISO8601().toDate()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const { asOf = new Date() } = matchedData<{ asOf?: Date }>(req, { locations: ['query'] });
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: grant.kpis.map((kpi) => ({ ...kpi, achievement: kpiAchievement(kpi, asOf) })),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch KPIs');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/kpis/{kpiId}/measurements:
+ *   get:
+ *     summary: Get the measurement history of a KPI
+ *     description: Measurements oldest first, each with its achievement against the target for its period
+ *     tags: [KPIs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Measurements retrieved successfully
+ *       404:
+ *         description: Grant or KPI not found
+ *   post:
+ *     summary: Record a KPI measurement
+ *     description: Adds a measurement, unverified, and refreshes the KPI's current value and status. Requires `If-Match` with the grant version.
+ *     tags: [KPIs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Measurement recorded
+ *       409:
+ *         description: Grant modified since the given version
+ */
+router.get(
+  '/:kpiId/measurements',
+  requireAuth,
+  [grantIdParam, kpiIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      const kpi = grant.getKPI(req.params.kpiId);
+      res.json({
+        success: true,
+        data: [...kpi.measurements]
+          .sort((a, b) => a.date.getTime() - b.date.getTime())
+          .map((measurement) => {
+            const target = targetFor(kpi, measurement.date);
+            return {
+              ...measurement,
+              target: target.value,
+              targetPeriod: target.period,
+              achievement:
+                measurement.verificationStatus === 'disputed'
+                  ? null
+                  : kpiAchievement({ ...kpi, measurements: [measurement] }, measurement.date)
+                      .achievement,
+            };
+          }),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch KPI measurements');
+    }
+  })
+);
+
+router.post(
+  '/:kpiId/measurements',
+  requireAuth,
+  [
+    grantIdParam,
+    kpiIdParam,
+    body('value').isFloat().toFloat(),
+    body('date').isISO8601().toDate(),
+    body('dataSource').optional().isString().trim().notEmpty(),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const kpi = grant.getKPI(req.params.kpiId);
+      const user = getRequestUser(req).id;
+      const { value, date, dataSource, notes } = matchedData<{
+        value: number;
+        date: Date;
+        dataSource?: string;
+        notes?: string;
+      }>(req, { locations: ['body'] });
+
+      grant.recordKPIMeasurement(
+        kpi.id,
+        {
+          id: randomUUID(),
+          value,
+          date,
+          dataSource: dataSource || kpi.dataSource,
+          recordedBy: user,
+          recordedDate: new Date(),
+          verificationStatus: 'unverified',
+          notes,
+        },
+        user
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to record KPI measurement');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/kpis/{kpiId}/measurements/{measurementId}/verification:
+ *   put:
+ *     summary: Verify or dispute a KPI measurement
+ *     description: Disputed measurements no longer count towards achievement. Measurements cannot be verified by whoever recorded them. Requires `If-Match` with the grant version.
+ *     tags: [KPIs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification recorded
+ *       403:
+ *         description: Caller may not verify measurements, or recorded this one
+ */
+router.put(
+  '/:kpiId/measurements/:measurementId/verification',
+  requireAuth,
+  [
+    grantIdParam,
+    kpiIdParam,
+    param('measurementId').trim().notEmpty(),
+    body('status').isIn(['verified', 'disputed']),
+    body('notes').optional().isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const user = getRequestUser(req);
+      if (!user.roles.some((role) => VERIFIER_ROLES.includes(role))) {
+        throw new ForbiddenError(
+          `Verifying measurements requires one of the roles: ${VERIFIER_ROLES.join(', ')}`
+        );
+      }
+      const measurement = grant
+        .getKPI(req.params.kpiId)
+        .measurements.find((m) => m.id === req.params.measurementId);
+      if (measurement?.recordedBy === user.id) {
+        throw new ForbiddenError('Measurements cannot be verified by whoever recorded them');
+      }
+
+      const { status, notes } = matchedData<{ status: 'verified' | 'disputed'; notes?: string }>(
+        req,
+        { locations: ['body'] }
+      );
+      grant.verifyKPIMeasurement(
+        req.params.kpiId,
+        req.params.measurementId,
+        status,
+        user.id,
+        notes
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to verify KPI measurement');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,72 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Grant } from '../../models/Grant';
+import type { LogicModel, Objective } from '../../models/LogicModel';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const LOGIC_MODEL = '/api/v1/grants/GR-2023-001/logic-model';
+
+describe('logic model routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const logicModel = {
+    activities: [{ id: 'ACT-1', description: 'Screening drives', leadsTo: ['OUT-1'] }],
+    outputs: [{ id: 'OUT-1', description: 'Residents screened', leadsTo: ['OC-1'] }],
+    outcomes: [
+      {
+        id: 'OC-1',
+        description: 'Earlier diagnosis',
+        term: 'short-term',
+        objectiveIds: ['OBJ-001'],
+      },
+    ],
+  };
+
+  const put = (version: number | undefined, model: unknown): request.Test => {
+    const req = request(app).put(LOGIC_MODEL).set('Authorization', manager);
+    return (version === undefined ? req : req.set('If-Match', `"${version}"`)).send({
+      logicModel: model,
+    });
+  };
+
+  it('returns the objectives and logic model with the grant version', async () => {
+    const res = await request(app).get(LOGIC_MODEL).set('Authorization', manager).expect(200);
+
+    expect(res.headers.etag).toBe('"3"');
+    const data = bodyOf<{ objectives: Objective[]; logicModel: LogicModel }>(res).data;
+    expect(data.objectives.map((o) => o.id)).toEqual(['OBJ-001', 'OBJ-002', 'OBJ-003', 'OBJ-004']);
+    expect(data.logicModel.outcomes.map((o) => o.term)).toEqual(['short-term', 'long-term']);
+  });
+
+  it('replaces the logic model, keeping the objectives when none are given', async () => {
+    const res = await put(3, logicModel).expect(200);
+
+    const grant = bodyOf<Grant>(res).data;
+    expect(grant.version).toBe(4);
+    expect(grant.objectives).toHaveLength(4);
+    expect(grant.logicModel?.inputs).toEqual([]);
+    expect(grant.logicModel?.outcomes[0]).toMatchObject({ id: 'OC-1', leadsTo: [] });
+  });
+
+  it('requires If-Match, rejects stale versions and links that skip a stage', async () => {
+    await put(undefined, logicModel).expect(428);
+    await put(3, logicModel).expect(200);
+    await put(3, logicModel).expect(409);
+
+    const skipping = {
+      ...logicModel,
+      activities: [{ id: 'ACT-1', description: 'Screening drives', leadsTo: ['OC-1'] }],
+    };
+    const res = await put(4, skipping).expect(422);
+    expect(bodyOf(res).error).toBeDefined();
+  });
+
+  it('rejects outcomes with an unknown term', async () => {
+    await put(3, { outcomes: [{ ...logicModel.outcomes[0], term: 'mid-term' }] }).expect(400);
+  });
+});
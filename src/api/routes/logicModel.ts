@@ -0,0 +1,138 @@
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData, ValidationChain } from 'express-validator';
+import {
+  LogicModel,
+  logicModelFromJSON,
+  Objective,
+  objectiveFromJSON,
+} from '../../models/LogicModel';
+import { getGrantRepository } from '../../repositories';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadGrant,
+  sendError,
+  sendGrant,
+} from '../helpers';
+
+// Mounted under /api/v1/grants/:grantId/logic-model
+const router = Router({ mergeParams: true });
+
+const grantIdParam = param('grantId').trim().notEmpty().withMessage('Valid grant ID required');
+
+const elementValidators = (stage: 'inputs' | 'activities' | 'outputs'): ValidationChain[] => [
+  body(`logicModel.${stage}`).optional().isArray(),
+  body(`logicModel.${stage}.*.id`).isString().trim().notEmpty(),
+  body(`logicModel.${stage}.*.description`).isString().trim().notEmpty(),
+  body(`logicModel.${stage}.*.leadsTo`).optional().isArray(),
+  body(`logicModel.${stage}.*.leadsTo.*`).isString(),
+];
+
+/**
+ * @swagger
+ * /api/v1/grants/{grantId}/logic-model:
+ *   get:
+ *     summary: Get the objectives and logic model of a grant
+ *     tags: [Outcomes]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Objectives and logic model retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *   put:
+ *     summary: Set the objectives and logic model of a grant
+ *     description: Replaces the logic model (inputs → activities → outputs → short-term outcomes → long-term outcomes) and, when given, the objectives, each linked to the KPIs and milestones that measure it. Each element may only lead to elements of the next stage, and outcomes may only refer to the grant's objectives. Requires `If-Match` with the grant version.
+ *     tags: [Outcomes]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logic model saved
+ *       409:
+ *         description: Grant was modified since the given version
+ *       422:
+ *         description: Links skip a stage or refer to unknown objectives, KPIs or milestones
+ *       428:
+ *         description: If-Match header missing
+ */
+router.get(
+  '/',
+  requireAuth,
+  [grantIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const grant = await loadGrant(req.params.grantId);
+      res.set('ETag', `"${grant.version}"`);
+      res.json({
+        success: true,
+        data: { objectives: grant.objectives, logicModel: grant.logicModel || null },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch logic model');
+    }
+  })
+);
+
+router.put(
+  '/',
+  requireAuth,
+  [
+    grantIdParam,
+    body('objectives').optional().isArray(),
+    body('objectives.*.id').isString().trim().notEmpty(),
+    body('objectives.*.description').isString().trim().notEmpty(),
+    body('objectives.*.kpiIds').optional().isArray(),
+    body('objectives.*.kpiIds.*').isString(),
+    body('objectives.*.milestoneIds').optional().isArray(),
+    body('objectives.*.milestoneIds.*').isString(),
+    body('objectives.*.weight').optional().isFloat({ min: 0 }).toFloat(),
+    body('logicModel').isObject(),
+    ...elementValidators('inputs'),
+    ...elementValidators('activities'),
+    ...elementValidators('outputs'),
+    body('logicModel.outcomes').optional().isArray(),
+    body('logicModel.outcomes.*.id').isString().trim().notEmpty(),
+    body('logicModel.outcomes.*.description').isString().trim().notEmpty(),
+    body('logicModel.outcomes.*.term').isIn(['short-term', 'long-term']),
+    body('logicModel.outcomes.*.objectiveIds').optional().isArray(),
+    body('logicModel.outcomes.*.objectiveIds.*').isString(),
+    body('logicModel.outcomes.*.leadsTo').optional().isArray(),
+    body('logicModel.outcomes.*.leadsTo.*').isString(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const expectedVersion = expectedVersionFrom(req);
+      const grant = await loadGrant(req.params.grantId);
+      const { objectives, logicModel } = matchedData<{
+        objectives?: Partial<Objective>[];
+        logicModel: Partial<LogicModel>;
+      }>(req, { locations: ['body'] });
+
+      grant.setLogicModel(
+        objectives ? objectives.map(objectiveFromJSON) : grant.objectives,
+        logicModelFromJSON(logicModel),
+        getRequestUser(req).id
+      );
+
+      sendGrant(res, await getGrantRepository().save(grant, expectedVersion));
+    } catch (error) {
+      sendError(res, error, 'Failed to save logic model');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,269 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { DerivedKPIValue } from '../../kpis';
+import type { ComplianceDrift } from '../../metrics/ComplianceHistory';
+import { ComplianceMetrics } from '../../metrics/ComplianceMetrics';
+import type { GrantProgressMetrics } from '../../metrics/GrantMetrics';
+import type { PortfolioMetricsSummary } from '../../metrics/PortfolioMetrics';
+import type { MilestoneSchedule } from '../../models/MilestoneSchedule';
+import { BUILT_IN_RISK_FACTORS, RiskAssessment, RiskModel, setRiskModel } from '../../risk';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const COMPLIANCE = '/api/v1/metrics/grants/GR-2023-001/compliance';
+
+describe('compliance metrics routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  type ComplianceBody = { changes?: ComplianceDrift; report?: Record<string, unknown> };
+
+  const snapshotVersions = async (): Promise<number[]> => {
+    const res = await request(app)
+      .get(`${COMPLIANCE}/history`)
+      .set('Authorization', manager)
+      .expect(200);
+    return bodyOf<{ snapshots: { grantVersion: number }[] }>(res).data.snapshots.map(
+      (s) => s.grantVersion
+    );
+  };
+
+  const record = (): request.Test =>
+    request(app).post(`${COMPLIANCE}/snapshots`).set('Authorization', manager);
+
+  it('keeps a snapshot only when the grant version or the outcome changed', async () => {
+    await record().expect(201);
+    const repeat = await record().expect(200);
+    expect((repeat.body as ComplianceBody).changes).toBeUndefined();
+    expect(await snapshotVersions()).toEqual([3]);
+
+    await request(app)
+      .patch('/api/v1/grants/GR-2023-001')
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ description: 'Updated scope' })
+      .expect(200);
+    const edited = await record().expect(201);
+
+    expect((edited.body as ComplianceBody).changes).toMatchObject({
+      from: { grantVersion: 3 },
+      to: { grantVersion: 4 },
+    });
+    expect(await snapshotVersions()).toEqual([3, 4]);
+  });
+
+  it('compares with the latest snapshot without recording one', async () => {
+    const first = await request(app).get(COMPLIANCE).set('Authorization', manager).expect(200);
+    expect((first.body as ComplianceBody).changes).toBeUndefined();
+    expect(await snapshotVersions()).toEqual([]);
+
+    await record().expect(201);
+    const res = await request(app).get(COMPLIANCE).set('Authorization', manager).expect(200);
+
+    expect((res.body as ComplianceBody).changes).toMatchObject({
+      from: { grantVersion: 3 },
+      to: { grantVersion: 3 },
+    });
+    expect(await snapshotVersions()).toEqual([3]);
+  });
+
+  it('adds the corrective action report on request, from the same assessment', async () => {
+    const assess = jest.spyOn(ComplianceMetrics.prototype, 'assessCompliance');
+    const res = await request(app)
+      .get(COMPLIANCE)
+      .query({ format: 'report' })
+      .set('Authorization', manager)
+      .expect(200);
+
+    const body = res.body as ComplianceBody;
+    expect(body.report).toBeDefined();
+    expect(body.report).not.toHaveProperty('summary');
+    expect(assess).toHaveBeenCalledTimes(1);
+    assess.mockRestore();
+  });
+
+  it('rejects an unknown format', async () => {
+    await request(app)
+      .get(COMPLIANCE)
+      .query({ format: 'xml' })
+      .set('Authorization', manager)
+      .expect(400);
+  });
+});
+
+describe('derived KPI routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  it('computes the requested KPIs to date and per period', async () => {
+    const res = await request(app)
+      .get('/api/v1/metrics/grants/GR-2023-001/kpis')
+      .query({ kpi: 'budget-utilization', frequency: 'quarterly', asOf: '2024-01-15' })
+      .set('Authorization', manager)
+      .expect(200);
+
+    const data = bodyOf<{ kpis: DerivedKPIValue[]; series: { kpis: DerivedKPIValue[] }[] }>(
+      res
+    ).data;
+    expect(data.kpis.map((k) => k.kpiId)).toEqual(['budget-utilization']);
+    expect(data.kpis[0].value).toEqual(expect.any(Number));
+    expect(data.series.length).toBeGreaterThan(1);
+    expect(data.series.every((s) => s.kpis.length === 1)).toBe(true);
+  });
+
+  it('rejects unknown KPIs', async () => {
+    await request(app)
+      .get('/api/v1/metrics/grants/GR-2023-001/kpis')
+      .query({ kpi: 'happiness' })
+      .set('Authorization', manager)
+      .expect(422);
+  });
+});
+
+describe('milestone schedule route', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const schedule = async (): Promise<MilestoneSchedule> => {
+    const res = await request(app)
+      .get('/api/v1/metrics/grants/GR-2023-001/schedule')
+      .query({ asOf: '2024-01-15' })
+      .set('Authorization', manager)
+      .expect(200);
+    return bodyOf<MilestoneSchedule>(res).data;
+  };
+
+  it('carries the late clinic opening over to the milestone depending on it', async () => {
+    const data = await schedule();
+
+    const mil004 = data.milestones.find((m) => m.milestoneId === 'MIL-004');
+    expect(mil004).toMatchObject({ drivenBy: 'MIL-002', slipDays: 15 });
+    expect(data.criticalPath).toEqual(['MIL-005']);
+  });
+
+  it('rejects cycles and removing a prerequisite, and pins dependents when it moves', async () => {
+    await request(app)
+      .patch('/api/v1/grants/GR-2023-001/milestones/MIL-002')
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ dependencies: ['MIL-004'] })
+      .expect(422);
+    await request(app)
+      .delete('/api/v1/grants/GR-2023-001/milestones/MIL-001')
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .expect(409);
+
+    await request(app)
+      .patch('/api/v1/grants/GR-2023-001/milestones/MIL-002')
+      .set('Authorization', manager)
+      .set('If-Match', '"3"')
+      .send({ dueDate: '2023-10-31' })
+      .expect(200);
+    const mil004 = (await schedule()).milestones.find((m) => m.milestoneId === 'MIL-004');
+    expect(mil004?.plannedStart).toBe('2023-09-30T00:00:00.000Z');
+  });
+});
+
+describe('progress route', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const progress = (method: string): request.Test =>
+    request(app)
+      .get('/api/v1/metrics/grants/GR-2023-001/progress')
+      .query({ method })
+      .set('Authorization', manager);
+
+  it('measures progress by the requested method', async () => {
+    const weighted = bodyOf<GrantProgressMetrics>(await progress('weighted').expect(200)).data;
+    expect(weighted).toMatchObject({ progressMethod: 'weighted', earnedValue: null });
+
+    const earned = bodyOf<GrantProgressMetrics>(await progress('earned-value').expect(200)).data;
+    expect(earned.progressMethod).toBe('earned-value');
+    expect(earned.earnedValue?.milestones).toHaveLength(5);
+    expect(earned.progress).toBeCloseTo(
+      (earned.earnedValue?.earnedValue ?? 0) / (earned.earnedValue?.budgetAtCompletion ?? 1)
+    );
+
+    await progress('guesswork').expect(400);
+  });
+});
+
+describe('risk route', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+    const model = new RiskModel();
+    for (const [factor, weight] of BUILT_IN_RISK_FACTORS) {
+      model.register(factor, weight);
+    }
+    setRiskModel(model.configure({ portfolios: { health: { thresholds: { medium: 0 } } } }));
+  });
+
+  const risk = async (query: Record<string, string>): Promise<RiskAssessment> => {
+    const res = await request(app)
+      .get('/api/v1/metrics/grants/GR-2023-001/risk')
+      .query({ asOf: '2024-01-15', ...query })
+      .set('Authorization', manager)
+      .expect(200);
+    return bodyOf<RiskAssessment>(res).data;
+  };
+
+  it('explains the score by factor under the profile of the grant portfolio', async () => {
+    const assessment = await risk({});
+
+    expect(assessment).toMatchObject({ grantId: 'GR-2023-001', profile: 'health' });
+    expect(assessment.thresholds.medium).toBe(0);
+    expect(assessment.factors.map((f) => f.factorId).sort()).toEqual(
+      BUILT_IN_RISK_FACTORS.map(([f]) => f.id).sort()
+    );
+    const contributions = assessment.factors.map((f) => f.contribution);
+    expect(contributions).toEqual([...contributions].sort((a, b) => b - a));
+    expect(assessment.score).toBeCloseTo(contributions.reduce((sum, c) => sum + c, 0));
+  });
+
+  it('uses the requested portfolio profile, or the default without one', async () => {
+    expect((await risk({ portfolio: 'federal-awards' })).profile).toBe('default');
+  });
+});
+
+describe('portfolio metrics route', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  it('aggregates the requested metrics across the members', async () => {
+    const res = await request(app)
+      .get('/api/v1/metrics/portfolio/health')
+      .query({ metrics: ['financial', 'compliance'] })
+      .set('Authorization', manager)
+      .expect(200);
+
+    const summary = bodyOf<PortfolioMetricsSummary>(res).data;
+    expect(summary.includedMetrics).toEqual(['financial', 'compliance']);
+    expect(summary.totalGrants).toBe(2);
+    expect(summary.financial?.totalFunding).toBe(1750000);
+    expect(summary.progress).toBeUndefined();
+  });
+});
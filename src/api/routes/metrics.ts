@@ -1,24 +1,36 @@
 import { Router, Request, Response } from 'express';
-import { body, param, query, validationResult } from 'express-validator';
-import { GrantMetrics } from '../../metrics/GrantMetrics';
+import { param, query, matchedData, validationResult } from 'express-validator';
+import { complianceRequirementsFor } from '../../compliance';
+import { GrantMetrics, ProgressMethod } from '../../metrics/GrantMetrics';
 import { ComplianceMetrics } from '../../metrics/ComplianceMetrics';
+import { complianceDrift, complianceTrend, ongoingNonCompliance } from '../../metrics/ComplianceHistory';
 import { OutcomeMetrics } from '../../metrics/OutcomeMetrics';
-import { FinancialMetrics } from '../../metrics/FinancialMetrics';
+import { PORTFOLIO_METRICS, PortfolioMetric, PortfolioMetrics } from '../../metrics/PortfolioMetrics';
+import { FinancialMetrics, RateBasis } from '../../metrics/FinancialMetrics';
+import { getKPIEngine, kpiPeriods } from '../../kpis';
+import { scheduleMilestones } from '../../models/MilestoneSchedule';
+import { portfolioMembers } from '../../models/Portfolio';
+import { getComplianceSnapshotRepository, getGrantRepository, getPortfolioRepository } from '../../repositories';
+import { assessGrantRisk, getRiskModel } from '../../risk';
+import { PeriodType } from '../../utils/dates';
 import logger from '../../utils/logger';
 import { requireAuth } from '../middleware/validation';
+import { asyncHandler, sendError } from '../helpers';
 
 const router = Router();
+const TIMEFRAME_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
 const grantMetrics = new GrantMetrics();
 const complianceMetrics = new ComplianceMetrics();
 const outcomeMetrics = new OutcomeMetrics();
 const financialMetrics = new FinancialMetrics();
+const portfolioMetrics = new PortfolioMetrics();
 
 /**
  * @swagger
  * /api/v1/metrics/grants/{grantId}/progress:
  *   get:
  *     summary: Get progress metrics for a grant
- *     description: Returns comprehensive progress metrics including timeline, financial, and milestone progress
+ *     description: Returns comprehensive progress metrics including timeline, financial, and milestone progress. `progress` is measured by the chosen method; `earned-value` adds planned value, earned value, actual cost, SPI, CPI, schedule and cost variance and estimate at completion.
  *     tags: [Metrics]
  *     security:
  *       - bearerAuth: []
@@ -34,7 +46,14 @@ const financialMetrics = new FinancialMetrics();
  *         schema:
  *           type: boolean
  *           default: false
- *         description: Include detailed breakdowns
+ *         description: Add recommendations from the risk factors and the reports and milestones due in the next 90 days or overdue
+ *       - in: query
+ *         name: method
+ *         schema:
+ *           type: string
+ *           enum: [simple, weighted, earned-value]
+ *           default: simple
+ *         description: Share of milestones completed, milestone weights times percent complete, or earned value over budget at completion
  *     responses:
  *       200:
  *         description: Progress metrics retrieved successfully
@@ -51,43 +70,36 @@ router.get(
   '/grants/:grantId/progress',
   requireAuth,
   [
-    param('grantId').isUUID().withMessage('Valid grant ID required'),
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
     query('includeDetails').optional().isBoolean(),
+    query('method').optional().isIn(['simple', 'weighted', 'earned-value']),
   ],
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+        res.status(400).json({ errors: errors.array() });
+        return;
       }
 
       const { grantId } = req.params;
       const includeDetails = req.query.includeDetails === 'true';
+      const method = (req.query.method as ProgressMethod | undefined) || 'simple';
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      const metrics = await grantMetrics.calculateProgress(grant, method);
       
-      // In a real implementation, this would fetch grant data from database
-      // For now, return sample metrics
-      const metrics = await grantMetrics.calculateProgress({
-        id: grantId,
-        totalFunding: 1500000,
-        expenditures: [],
-        milestones: [],
-        kpis: [],
-        status: 'active',
-        startDate: new Date('2023-04-01'),
-        endDate: new Date('2026-03-31'),
-      } as any);
-      
-      const response: any = {
+      res.json({
         success: true,
         data: metrics,
+        details: includeDetails ? grantMetrics.generateProgressReport(grant, metrics) : undefined,
         timestamp: new Date().toISOString(),
-      };
-      
-      if (includeDetails) {
-        response.details = await grantMetrics.generateProgressReport(grantId);
-      }
-      
-      res.json(response);
+      });
     } catch (error) {
       logger.error('Error fetching progress metrics:', error);
       res.status(500).json({
@@ -96,7 +108,7 @@ router.get(
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
-  }
+  })
 );
 
 /**
@@ -104,7 +116,7 @@ router.get(
  * /api/v1/metrics/grants/{grantId}/compliance:
  *   get:
  *     summary: Get compliance metrics for a grant
- *     description: Returns compliance status and detailed requirement assessments
+ *     description: Returns compliance status and detailed requirement assessments for the grant's own requirements and those of its rule packs, each with the evidence, clause-by-clause trace and pack version behind it. Nothing is recorded; `changes` lists the requirements that flipped status since the latest snapshot and is absent before the first.
  *     tags: [Metrics]
  *     security:
  *       - bearerAuth: []
@@ -121,7 +133,7 @@ router.get(
  *           type: string
  *           enum: [summary, detailed, report]
  *           default: summary
- *         description: Output format
+ *         description: Output format; `report` adds corrective action aging and a remediation timeline
  *     responses:
  *       200:
  *         description: Compliance metrics retrieved successfully
@@ -134,45 +146,534 @@ router.get(
   '/grants/:grantId/compliance',
   requireAuth,
   [
-    param('grantId').isUUID().withMessage('Valid grant ID required'),
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
     query('format').optional().isIn(['summary', 'detailed', 'report']),
   ],
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+        res.status(400).json({ errors: errors.array() });
+        return;
       }
 
       const { grantId } = req.params;
       const format = req.query.format || 'summary';
       
-      // In a real implementation, fetch compliance data
-      const complianceSummary = await complianceMetrics.assessCompliance(
-        { id: grantId } as any,
-        []
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      const requirements = await complianceRequirementsFor(grant);
+      const asOf = new Date();
+      const summary = await complianceMetrics.assessCompliance(grant, requirements, asOf);
+      
+      // Adds corrective action aging and requirements still without a remedy
+      const report =
+        format === 'report'
+          ? await complianceMetrics
+              .generateComplianceReport(grant, requirements, asOf, summary)
+              .then(({ summary: _summary, ...rest }) => rest)
+          : undefined;
+      
+      res.json({
+        success: true,
+        data: summary,
+        changes: await complianceMetrics.driftSinceLatestSnapshot(grant, summary),
+        report,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch compliance metrics');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/compliance/snapshots:
+ *   post:
+ *     summary: Record a compliance snapshot of a grant
+ *     description: Assesses the grant and keeps the result as a snapshot for its compliance history, unless the latest snapshot was taken of the same grant version with the same outcome. `changes` lists the requirements that flipped status since the previous snapshot and is absent when nothing was recorded.
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *     responses:
+ *       201:
+ *         description: Snapshot recorded
+ *       200:
+ *         description: Outcome unchanged; the latest snapshot is returned
+ *       404:
+ *         description: Grant not found
+ */
+router.post(
+  '/grants/:grantId/compliance/snapshots',
+  requireAuth,
+  [param('grantId').trim().notEmpty().withMessage('Valid grant ID required')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+      
+      const grant = await getGrantRepository().findById(req.params.grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      const { snapshot, recorded, drift } = await complianceMetrics.recordAssessment(
+        grant,
+        await complianceRequirementsFor(grant)
       );
+      res.status(recorded ? 201 : 200).json({
+        success: true,
+        data: snapshot,
+        recorded,
+        changes: drift,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to record compliance snapshot');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/compliance/history:
+ *   get:
+ *     summary: Get the compliance history of a grant
+ *     description: Recorded assessments, the requirements that flipped status between consecutive ones, and since when each currently non-compliant requirement has been non-compliant
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Compliance history retrieved successfully
+ *       404:
+ *         description: Grant not found
+ */
+router.get(
+  '/grants/:grantId/compliance/history',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('from').optional().isISO8601().toDate(),
+    query('to').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const { from, to } = matchedData<{ from?: Date; to?: Date }>(req, { locations: ['query'] });
       
-      let response: any = {
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      // Drift and "non-compliant since" need the whole history up to `to`
+      const history = await getComplianceSnapshotRepository().findByGrant(grantId, { to });
+      const inRange = history.filter(snapshot => !from || snapshot.takenAt >= from);
+      const drift = complianceDrift(history).filter(change => !from || change.to.takenAt >= from);
+      
+      res.json({
         success: true,
-        data: complianceSummary,
+        data: {
+          snapshots: inRange.map(({ summary, ...snapshot }) => ({
+            ...snapshot,
+            compliantRequirements: summary.compliantRequirements,
+            nonCompliantRequirements: summary.nonCompliantRequirements,
+            pendingRequirements: summary.pendingRequirements,
+          })),
+          drift,
+          nonCompliant: ongoingNonCompliance(history),
+        },
         timestamp: new Date().toISOString(),
-      };
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch compliance history');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/kpis:
+ *   get:
+ *     summary: Get derived KPIs for a grant
+ *     description: Computes the catalog KPIs from grant data to date, each rated green, yellow or red by its threshold bands. With `frequency`, also computes them as of the end of each period since the grant started.
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: kpi
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: KPI IDs to compute; all catalog KPIs when omitted
+ *       - in: query
+ *         name: frequency
+ *         schema:
+ *           type: string
+ *           enum: [monthly, quarterly, semi-annual, annual]
+ *         description: Adds a series with one evaluation per period
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: KPIs computed successfully
+ *       404:
+ *         description: Grant not found
+ *       422:
+ *         description: Unknown KPI
+ */
+router.get(
+  '/grants/:grantId/kpis',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('kpi').optional().toArray(),
+    query('kpi.*').isString().trim().notEmpty(),
+    query('frequency').optional().isIn(['monthly', 'quarterly', 'semi-annual', 'annual']),
+    query('asOf').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const { kpi, frequency, asOf = new Date() } = matchedData<{
+        kpi?: string[];
+        frequency?: PeriodType;
+        asOf?: Date;
+      }>(req, { locations: ['query'] });
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      const engine = getKPIEngine();
+      const requirements = await complianceRequirementsFor(grant);
+      const kpis = await engine.evaluate(
+        { grant, requirements, period: { label: 'to-date', start: grant.startDate, end: asOf } },
+        kpi
+      );
       
-      if (format === 'report') {
-        const report = await complianceMetrics.generateComplianceReport(grantId);
-        response.report = report;
+      const series = [];
+      for (const period of frequency ? kpiPeriods(grant, frequency, asOf) : []) {
+        series.push({ ...period, kpis: await engine.evaluate({ grant, requirements, period }, kpi) });
       }
       
-      res.json(response);
+      res.json({
+        success: true,
+        data: { grantId, asOf, kpis, ...(frequency && { frequency, series }) },
+        timestamp: new Date().toISOString(),
+      });
     } catch (error) {
-      logger.error('Error fetching compliance metrics:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch compliance metrics',
+      sendError(res, error, 'Failed to compute KPIs');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/kpi-definitions:
+ *   get:
+ *     summary: List KPI definitions
+ *     description: The KPI catalog, with the expression and threshold bands behind each KPI
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: KPI definitions retrieved successfully
+ */
+router.get('/kpi-definitions', requireAuth, (_req: Request, res: Response) => {
+  const engine = getKPIEngine();
+  res.json({
+    success: true,
+    data: engine.list(),
+    catalogs: engine.catalogNames(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * @swagger
+ * /api/v1/metrics/risk-model:
+ *   get:
+ *     summary: Get the risk model
+ *     description: The risk factors with their default weights and parameters, and the configured default and portfolio profiles
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Risk model retrieved successfully
+ */
+router.get('/risk-model', requireAuth, (_req: Request, res: Response) => {
+  const model = getRiskModel();
+  res.json({
+    success: true,
+    data: { factors: model.listFactors(), profiles: model.getConfig() },
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/outcomes:
+ *   get:
+ *     summary: Get the outcome scorecard of a grant
+ *     description: Rolls the achievement of each objective's KPIs (capped at 100%) and the completion of its due milestones up to an objective score, and objective scores up the grant's logic model to short- and long-term outcome scores. `gaps` lists objectives and outcomes with nothing to measure them by.
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Score the grant as it stood at this date; defaults to now
+ *     responses:
+ *       200:
+ *         description: Outcome scorecard retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/grants/:grantId/outcomes',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('asOf').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const { asOf = new Date() } = matchedData<{ asOf?: Date }>(req, { locations: ['query'] });
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: outcomeMetrics.calculateScorecard(grant, asOf),
+        timestamp: new Date().toISOString(),
       });
+    } catch (error) {
+      sendError(res, error, 'Failed to compute outcome scorecard');
     }
-  }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/schedule:
+ *   get:
+ *     summary: Get the milestone schedule of a grant
+ *     description: Places the milestones on a schedule by their dependencies with the critical path method. Each milestone gets its float and a projected date, which carries over slips of its prerequisites and is never before today for open milestones; `criticalPath` is the chain of milestones determining the projected finish.
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Date open milestones cannot finish before; defaults to now
+ *     responses:
+ *       200:
+ *         description: Milestone schedule retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/grants/:grantId/schedule',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('asOf').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const { asOf = new Date() } = matchedData<{ asOf?: Date }>(req, { locations: ['query'] });
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: { grantId, progress: grant.getProgress(), ...scheduleMilestones(grant.milestones, grant, asOf) },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to compute milestone schedule');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/risk:
+ *   get:
+ *     summary: Get the risk assessment of a grant
+ *     description: Scores the grant on each risk factor (timeline variance, budget variance, compliance issues, KPI achievement, reporting lateness, recipient history) and weighs the scores into an overall level. Each factor's contribution and explanation show why the grant is flagged. Progress ahead of the timeline does not count as risk. Weights and thresholds come from the default risk profile, overridden by the portfolio's.
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Date to assess the grant as of; defaults to now
+ *       - in: query
+ *         name: portfolio
+ *         schema:
+ *           type: string
+ *         description: Portfolio whose risk profile applies; defaults to the first portfolio the grant belongs to with a profile
+ *     responses:
+ *       200:
+ *         description: Risk assessment retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/grants/:grantId/risk',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('asOf').optional().isISO8601().toDate(),
+    query('portfolio').optional().trim().notEmpty(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const { asOf = new Date(), portfolio } = matchedData<{ asOf?: Date; portfolio?: string }>(req, {
+        locations: ['query'],
+      });
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: await assessGrantRisk(grant, { asOf, portfolioId: portfolio }),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to assess grant risk');
+    }
+  })
 );
 
 /**
@@ -198,11 +699,25 @@ router.get(
  *           enum: [monthly, quarterly, annual]
  *           default: quarterly
  *         description: Reporting period
+ *       - in: query
+ *         name: reportingCurrency
+ *         schema:
+ *           type: string
+ *         description: ISO 4217 code to restate funding and spend in; the `currencyReport` is included only when given
+ *       - in: query
+ *         name: rateBasis
+ *         schema:
+ *           type: string
+ *           enum: [transaction-date, period-end]
+ *           default: transaction-date
+ *         description: Exchange rates used for converted spend; the other basis is reported as FX gain/loss
  *     responses:
  *       200:
  *         description: Financial metrics retrieved successfully
  *       404:
  *         description: Grant not found
+ *       422:
+ *         description: A reporting currency was given and no exchange rate is available for a required currency pair
  *       401:
  *         description: Unauthorized
  */
@@ -210,20 +725,36 @@ router.get(
   '/grants/:grantId/financial',
   requireAuth,
   [
-    param('grantId').isUUID().withMessage('Valid grant ID required'),
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
     query('period').optional().isIn(['monthly', 'quarterly', 'annual']),
+    query('reportingCurrency').optional().isString().toUpperCase().isISO4217(),
+    query('rateBasis').optional().isIn(['transaction-date', 'period-end']),
   ],
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+        res.status(400).json({ errors: errors.array() });
+        return;
       }
 
       const { grantId } = req.params;
       const period = (req.query.period as string) || 'quarterly';
+      const reportingCurrency = req.query.reportingCurrency as string | undefined;
+      const rateBasis = req.query.rateBasis as RateBasis | undefined;
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
       
-      const financialMetricsData = await financialMetrics.calculateMetrics(grantId, period);
+      const financialMetricsData = await financialMetrics.calculateMetrics(
+        grant,
+        period,
+        new Date(),
+        { reportingCurrency, rateBasis }
+      );
       
       res.json({
         success: true,
@@ -232,13 +763,78 @@ router.get(
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
-      logger.error('Error fetching financial metrics:', error);
+      sendError(res, error, 'Failed to fetch financial metrics');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/metrics/grants/{grantId}/budget-variance:
+ *   get:
+ *     summary: Get budget-vs-actual variance for a grant
+ *     description: Compares approved spend per budget category with the amount expected to date and flags categories outside the threshold
+ *     tags: [Metrics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant identifier
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           default: 0.1
+ *         description: Relative variance beyond which a category is flagged
+ *     responses:
+ *       200:
+ *         description: Budget variance retrieved successfully
+ *       404:
+ *         description: Grant not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/grants/:grantId/budget-variance',
+  requireAuth,
+  [
+    param('grantId').trim().notEmpty().withMessage('Valid grant ID required'),
+    query('threshold').optional().isFloat({ min: 0 }),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { grantId } = req.params;
+      const threshold = req.query.threshold ? Number(req.query.threshold) : undefined;
+      
+      const grant = await getGrantRepository().findById(grantId);
+      if (!grant) {
+        res.status(404).json({ success: false, error: 'Grant not found' });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: financialMetrics.calculateBudgetVariance(grant, { threshold }),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error fetching budget variance:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to fetch financial metrics',
+        error: 'Failed to fetch budget variance',
       });
     }
-  }
+  })
 );
 
 /**
@@ -246,7 +842,7 @@ router.get(
  * /api/v1/metrics/portfolio/{portfolioId}:
  *   get:
  *     summary: Get aggregated metrics for a portfolio
- *     description: Returns aggregated metrics across all grants in a portfolio
+ *     description: Runs the grant progress, compliance, financial, risk and outcome metrics across the portfolio's grants - those it lists plus those matching its saved filter - and aggregates them. Only the requested metric sections are returned. Upcoming deadlines, top performers (low-risk, compliant grants in progress) and grants needing attention (high risk, non-compliant, overdue reports or milestones, or behind schedule, with the reasons) are always included.
  *     tags: [Metrics]
  *     security:
  *       - bearerAuth: []
@@ -263,8 +859,26 @@ router.get(
  *           type: array
  *           items:
  *             type: string
- *             enum: [progress, compliance, financial, outcomes]
- *         description: Specific metrics to include
+ *             enum: [progress, compliance, financial, outcomes, risk]
+ *         description: Specific metrics to include; all when omitted
+ *       - in: query
+ *         name: method
+ *         schema:
+ *           type: string
+ *           enum: [simple, weighted, earned-value]
+ *           default: simple
+ *         description: How grant progress is measured
+ *       - in: query
+ *         name: reportingCurrency
+ *         schema:
+ *           type: string
+ *         description: Currency to restate financial totals in; defaults to the portfolio's
+ *       - in: query
+ *         name: horizonDays
+ *         schema:
+ *           type: integer
+ *           default: 90
+ *         description: Days ahead to list upcoming deadlines for
  *     responses:
  *       200:
  *         description: Portfolio metrics retrieved successfully
@@ -277,52 +891,59 @@ router.get(
   '/portfolio/:portfolioId',
   requireAuth,
   [
-    param('portfolioId').isUUID().withMessage('Valid portfolio ID required'),
-    query('metrics').optional().isArray(),
+    param('portfolioId').trim().notEmpty().withMessage('Valid portfolio ID required'),
+    query('metrics').optional().toArray(),
+    query('metrics.*').isIn(PORTFOLIO_METRICS),
+    query('method').optional().isIn(['simple', 'weighted', 'earned-value']),
+    query('reportingCurrency').optional().isString().toUpperCase().isISO4217(),
+    query('horizonDays').optional().isInt({ min: 0, max: 730 }).toInt(),
   ],
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+        res.status(400).json({ errors: errors.array() });
+        return;
       }
 
       const { portfolioId } = req.params;
-      const requestedMetrics = req.query.metrics || ['progress', 'compliance', 'financial', 'outcomes'];
-      
-      // In a real implementation, aggregate metrics across portfolio grants
-      const portfolioMetrics = {
-        portfolioId,
-        totalGrants: 15,
-        activeGrants: 12,
-        totalFunding: 25000000,
-        utilizedFunding: 8500000,
-        averageProgress: 0.65,
-        complianceRate: 0.88,
-        atRiskGrants: 3,
-        highRiskGrants: 1,
-        upcomingDeadlines: [
-          { grantId: 'GR-2023-001', deadline: '2024-03-31', type: 'quarterly-report' },
-          { grantId: 'GR-2023-002', deadline: '2024-03-15', type: 'financial-statement' },
-        ],
-        topPerformers: ['GR-2023-001', 'GR-2023-005'],
-        needAttention: ['GR-2023-008'],
-      };
+      const { metrics, method, reportingCurrency, horizonDays } = matchedData<{
+        metrics?: PortfolioMetric[];
+        method?: ProgressMethod;
+        reportingCurrency?: string;
+        horizonDays?: number;
+      }>(req, { locations: ['query'] });
+      
+      const portfolio = await getPortfolioRepository().findById(portfolioId);
+      if (!portfolio) {
+        res.status(404).json({
+          success: false,
+          error: 'Portfolio not found',
+        });
+        return;
+      }
+      
+      const grants = [];
+      for (const grant of portfolioMembers(portfolio, await getGrantRepository().findAll())) {
+        grants.push({ grant, requirements: await complianceRequirementsFor(grant) });
+      }
+      const summary = await portfolioMetrics.calculatePortfolio(portfolio, grants, {
+        metrics,
+        progressMethod: method,
+        reportingCurrency,
+        horizonDays,
+      });
       
       res.json({
         success: true,
-        data: portfolioMetrics,
-        includedMetrics: requestedMetrics,
+        data: summary,
+        includedMetrics: summary.includedMetrics,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
-      logger.error('Error fetching portfolio metrics:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch portfolio metrics',
-      });
+      sendError(res, error, 'Failed to fetch portfolio metrics');
     }
-  }
+  })
 );
 
 /**
@@ -330,7 +951,7 @@ router.get(
  * /api/v1/metrics/trends:
  *   get:
  *     summary: Get trend metrics
- *     description: Returns trend analysis for metrics over time
+ *     description: Returns trend analysis for metrics over time. Compliance trends are the daily compliance rate from recorded assessments, averaged across grants when no grant is given.
  *     tags: [Metrics]
  *     security:
  *       - bearerAuth: []
@@ -366,18 +987,52 @@ router.get(
   '/trends',
   requireAuth,
   [
-    query('grantId').optional().isUUID(),
+    query('grantId').optional().trim().notEmpty(),
     query('metricType').isIn(['progress', 'compliance', 'financial', 'outcomes']),
     query('timeframe').optional().isIn(['7d', '30d', '90d', '1y']),
   ],
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
+        res.status(400).json({ errors: errors.array() });
+        return;
       }
 
       const { grantId, metricType, timeframe = '90d' } = req.query;
+      const to = new Date();
+      const from = new Date(to.getTime() - TIMEFRAME_DAYS[timeframe as string] * 86400000);
+      
+      if (metricType === 'compliance') {
+        const snapshots = grantId
+          ? await getComplianceSnapshotRepository().findByGrant(grantId as string, { to })
+          : await getComplianceSnapshotRepository().findAll({ to });
+        
+        res.json({
+          success: true,
+          data: { metricType, timeframe, ...complianceTrend(snapshots, from, to) },
+          grantId: grantId || 'all',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+      
+      if (metricType === 'outcomes') {
+        const grant = grantId ? await getGrantRepository().findById(grantId as string) : null;
+        if (grantId && !grant) {
+          res.status(404).json({ success: false, error: 'Grant not found' });
+          return;
+        }
+        const grants = grant ? [grant] : await getGrantRepository().findAll();
+        
+        res.json({
+          success: true,
+          data: { metricType, timeframe, ...outcomeMetrics.calculateTrend(grants, from, to) },
+          grantId: grantId || 'all',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
       
       // Generate sample trend data
       const trendData = {
@@ -414,7 +1069,7 @@ router.get(
         error: 'Failed to fetch trend metrics',
       });
     }
-  }
+  })
 );
 
 export default router;
@@ -0,0 +1,137 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { OrganizationProfile } from '../../metrics/OrganizationMetrics';
+import type { AuditFinding, RecipientOrganization } from '../../models/Organization';
+import type { PreAwardRiskAssessment } from '../../risk';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const ORGANIZATIONS = '/api/v1/organizations';
+
+describe('organization routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+  const officer = bearer('otto.officer', ['program-officer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const register = (details: Record<string, unknown>): request.Test =>
+    request(app)
+      .post(ORGANIZATIONS)
+      .set('Authorization', manager)
+      .send({
+        name: 'Westside Clinics',
+        type: 'non-profit',
+        address: { street: '1 Main St', city: 'Springfield', state: 'IL', postalCode: '62702' },
+        contact: { name: 'Ana Ruiz', email: 'ana@westside.org' },
+        registrationDate: '2021-03-01',
+        ...details,
+      });
+
+  it('registers organizations with a unique ID and tax ID', async () => {
+    const res = await register({ taxId: '55-5555555' }).expect(201);
+    expect(bodyOf<RecipientOrganization>(res).data).toMatchObject({ auditFindings: [] });
+
+    await register({ taxId: '12 3456789' }).expect(409);
+    await register({ id: 'ORG-002' }).expect(409);
+    await register({ type: 'charity' }).expect(400);
+
+    const found = await request(app)
+      .get(ORGANIZATIONS)
+      .query({ taxId: '555555555' })
+      .set('Authorization', manager)
+      .expect(200);
+    expect(bodyOf<RecipientOrganization[]>(found).data.map((o) => o.name)).toEqual([
+      'Westside Clinics',
+    ]);
+  });
+
+  const report = (
+    organizationId: string,
+    version: number | undefined,
+    auth = officer,
+    id = 'AF-9'
+  ): request.Test => {
+    const req = request(app)
+      .post(`${ORGANIZATIONS}/${organizationId}/audit-findings`)
+      .set('Authorization', auth);
+    return (version === undefined ? req : req.set('If-Match', `"${version}"`)).send({
+      id,
+      auditYear: 2024,
+      auditor: 'Baker & Lowe CPAs',
+      type: 'noncompliance',
+      description: 'Late single audit submission',
+      reportedDate: '2024-03-31',
+    });
+  };
+
+  it('records audit findings as open', async () => {
+    const res = await report('ORG-002', 1).expect(201);
+    expect(bodyOf<AuditFinding>(res).data.status).toBe('open');
+    expect(res.headers.etag).toBe('"2"');
+    await report('ORG-002', 2).expect(409);
+    await report('ORG-404', 1).expect(404);
+  });
+
+  it('records and updates audit findings only for grantor staff, at the version last seen', async () => {
+    await report('ORG-002', 1, manager).expect(403);
+    await report('ORG-002', undefined).expect(428);
+
+    // Two officers adding findings to the same version: the second must reload
+    await report('ORG-002', 1, officer, 'AF-9').expect(201);
+    await report('ORG-002', 1, officer, 'AF-10').expect(409);
+    await report('ORG-002', 2, officer, 'AF-10').expect(201);
+
+    const resolve = (auth: string, version: number): request.Test =>
+      request(app)
+        .patch(`${ORGANIZATIONS}/ORG-002/audit-findings/AF-9`)
+        .set('Authorization', auth)
+        .set('If-Match', `"${version}"`)
+        .send({ status: 'resolved', resolvedDate: '2024-06-30' });
+    await resolve(manager, 3).expect(403);
+    await resolve(officer, 2).expect(409);
+    await resolve(officer, 3).expect(200);
+
+    const res = await request(app)
+      .get(`${ORGANIZATIONS}/ORG-002`)
+      .set('Authorization', manager)
+      .expect(200);
+    expect(res.headers.etag).toBe('"4"');
+    expect(
+      bodyOf<RecipientOrganization>(res).data.auditFindings.map((f) => [f.id, f.status])
+    ).toEqual([
+      ['AF-9', 'resolved'],
+      ['AF-10', 'open'],
+    ]);
+  });
+
+  it("profiles the organization's record across its grants", async () => {
+    const res = await request(app)
+      .get(`${ORGANIZATIONS}/ORG-001/profile`)
+      .query({ asOf: '2024-01-15' })
+      .set('Authorization', manager)
+      .expect(200);
+
+    const profile = bodyOf<OrganizationProfile>(res).data;
+    expect(profile.grants.map((g) => g.grantId).sort()).toEqual(['GR-2020-007', 'GR-2023-001']);
+    expect(profile.auditFindings).toMatchObject({ total: 2, open: 1, questionedCosts: 12400 });
+  });
+
+  it('assesses pre-award risk for a proposed amount or a pending grant', async () => {
+    const risk = (query: Record<string, string>): request.Test =>
+      request(app)
+        .get(`${ORGANIZATIONS}/ORG-002/pre-award-risk`)
+        .query({ asOf: '2024-01-15', ...query })
+        .set('Authorization', manager);
+
+    const res = await risk({ amount: '250000' }).expect(200);
+    const assessment = bodyOf<PreAwardRiskAssessment>(res).data;
+    expect(assessment).toMatchObject({ organizationId: 'ORG-002', proposal: { amount: 250000 } });
+    expect(assessment.factors.find((f) => f.factorId === 'award-size')?.score).toBe(0.5);
+
+    await risk({}).expect(422);
+    await risk({ grantId: 'GR-2023-001' }).expect(422);
+    await risk({ grantId: 'GR-UNKNOWN' }).expect(404);
+  });
+});
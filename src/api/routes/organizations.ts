@@ -0,0 +1,524 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { body, param, query, matchedData, ValidationChain } from 'express-validator';
+import { complianceRequirementsFor } from '../../compliance';
+import { OrganizationMetrics } from '../../metrics/OrganizationMetrics';
+import {
+  AuditFinding,
+  grantsOf,
+  organizationFromJSON,
+  RecipientOrganization,
+} from '../../models/Organization';
+import {
+  getComplianceSnapshotRepository,
+  getGrantRepository,
+  getOrganizationRepository,
+} from '../../repositories';
+import { assessPreAwardRisk } from '../../risk';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkValidation,
+  expectedVersionFrom,
+  getRequestUser,
+  loadOrganization,
+  sendError,
+} from '../helpers';
+
+const router = Router();
+const organizationMetrics = new OrganizationMetrics();
+
+const ORGANIZATION_TYPES = ['non-profit', 'government', 'academic', 'private'];
+/** Audit findings weigh on every award to the organization, so only grantor staff record them */
+const AUDIT_FINDING_ROLES = ['admin', 'program-officer'];
+const AUDIT_FINDING_TYPES = [
+  'material-weakness',
+  'significant-deficiency',
+  'questioned-costs',
+  'noncompliance',
+];
+
+const organizationIdParam = param('organizationId')
+  .trim()
+  .notEmpty()
+  .withMessage('Valid organization ID required');
+
+type ValidationMode = 'create' | 'update';
+
+function organizationValidators(mode: ValidationMode): ValidationChain[] {
+  const field = (name: string): ValidationChain =>
+    mode === 'create' ? body(name) : body(name).optional();
+  return [
+    field('name').isString().trim().notEmpty(),
+    field('type').isIn(ORGANIZATION_TYPES),
+    body('taxId').optional().isString().trim().notEmpty(),
+    field('address').isObject(),
+    field('contact').isObject(),
+    field('registrationDate').isISO8601().toDate(),
+  ];
+}
+
+/** Throws when another organization is registered under the tax ID. */
+async function checkTaxIdAvailable(
+  taxId: string | undefined,
+  organizationId: string
+): Promise<void> {
+  const holder = taxId ? await getOrganizationRepository().findByTaxId(taxId) : null;
+  if (holder && holder.id !== organizationId) {
+    throw new ConflictError(`Tax ID ${taxId} is already registered to organization ${holder.id}`);
+  }
+}
+
+function sendOrganization(res: Response, organization: RecipientOrganization, status = 200): void {
+  res.set('ETag', `"${organization.version}"`);
+  res.status(status).json({
+    success: true,
+    data: organization,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function checkAuditFindingRole(req: Request): void {
+  if (!getRequestUser(req).roles.some((role) => AUDIT_FINDING_ROLES.includes(role))) {
+    throw new ForbiddenError(
+      `Recording or updating audit findings requires one of the roles: ${AUDIT_FINDING_ROLES.join(', ')}`
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/v1/organizations:
+ *   get:
+ *     summary: List organizations
+ *     description: Registered organizations, optionally only the one with a tax ID
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: taxId
+ *         schema:
+ *           type: string
+ *         description: Tax ID, compared ignoring punctuation
+ *     responses:
+ *       200:
+ *         description: Organizations retrieved successfully
+ *   post:
+ *     summary: Register an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Organization registered
+ *       400:
+ *         description: Invalid organization data
+ *       409:
+ *         description: An organization with this ID or tax ID already exists
+ */
+router.get(
+  '/',
+  requireAuth,
+  [query('taxId').optional().isString().trim().notEmpty()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { taxId } = matchedData<{ taxId?: string }>(req, { locations: ['query'] });
+      const repository = getOrganizationRepository();
+      let organizations: RecipientOrganization[];
+      if (taxId) {
+        const match = await repository.findByTaxId(taxId);
+        organizations = match ? [match] : [];
+      } else {
+        organizations = await repository.findAll();
+      }
+
+      res.json({
+        success: true,
+        data: organizations,
+        total: organizations.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list organizations');
+    }
+  })
+);
+
+router.post(
+  '/',
+  requireAuth,
+  [body('id').optional().isString().trim().notEmpty(), ...organizationValidators('create')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const data = matchedData(req, { locations: ['body'] });
+      const id = (data.id as string | undefined) || randomUUID();
+      const repository = getOrganizationRepository();
+      if (await repository.findById(id)) {
+        throw new ConflictError(`Organization ${id} already exists`);
+      }
+      await checkTaxIdAvailable(data.taxId as string | undefined, id);
+
+      const now = new Date();
+      const organization = organizationFromJSON({
+        ...data,
+        id,
+        auditFindings: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      sendOrganization(res, await repository.save(organization), 201);
+    } catch (error) {
+      sendError(res, error, 'Failed to register organization');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}:
+ *   get:
+ *     summary: Get an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organization retrieved successfully
+ *       404:
+ *         description: Organization not found
+ *   patch:
+ *     summary: Update an organization
+ *     description: Grants already awarded keep the recipient details they were awarded with.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organization updated
+ *       404:
+ *         description: Organization not found
+ *       409:
+ *         description: Another organization has this tax ID
+ */
+router.get(
+  '/:organizationId',
+  requireAuth,
+  [organizationIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      sendOrganization(res, await loadOrganization(req.params.organizationId));
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch organization');
+    }
+  })
+);
+
+router.patch(
+  '/:organizationId',
+  requireAuth,
+  [organizationIdParam, ...organizationValidators('update')],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const organization = await loadOrganization(req.params.organizationId);
+      const changes = matchedData<Partial<RecipientOrganization>>(req, { locations: ['body'] });
+      await checkTaxIdAvailable(changes.taxId, organization.id);
+
+      sendOrganization(
+        res,
+        await getOrganizationRepository().save({
+          ...organization,
+          ...changes,
+          updatedAt: new Date(),
+        })
+      );
+    } catch (error) {
+      sendError(res, error, 'Failed to update organization');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/audit-findings:
+ *   post:
+ *     summary: Record an audit finding against an organization
+ *     description: Requires `If-Match` with the organization version; the organization version is incremented.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Finding recorded
+ *       403:
+ *         description: Caller may not record audit findings
+ *       404:
+ *         description: Organization not found
+ *       409:
+ *         description: A finding with this ID already exists, or organization modified since the given version
+ *       428:
+ *         description: If-Match header missing
+ * /api/v1/organizations/{organizationId}/audit-findings/{findingId}:
+ *   patch:
+ *     summary: Resolve or reopen an audit finding
+ *     description: Requires `If-Match` with the organization version; the organization version is incremented.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Finding updated
+ *       403:
+ *         description: Caller may not update audit findings
+ *       404:
+ *         description: Organization or finding not found
+ *       409:
+ *         description: Organization modified since the given version
+ *       428:
+ *         description: If-Match header missing
+ */
+
+router.post(
+  '/:organizationId/audit-findings',
+  requireAuth,
+  [
+    organizationIdParam,
+    body('id').optional().isString().trim().notEmpty(),
+    body('auditYear').isInt({ min: 1900, max: 2100 }).toInt(),
+    body('auditor').isString().trim().notEmpty(),
+    body('type').isIn(AUDIT_FINDING_TYPES),
+    body('description').isString().trim().notEmpty(),
+    body('grantId').optional().isString().trim().notEmpty(),
+    body('questionedCosts').optional().isFloat({ min: 0 }).toFloat(),
+    body('reportedDate').isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      checkAuditFindingRole(req);
+      const expectedVersion = expectedVersionFrom(req);
+      const organization = await loadOrganization(req.params.organizationId);
+      const data = matchedData<Omit<AuditFinding, 'status'>>(req, { locations: ['body'] });
+      const finding: AuditFinding = { ...data, id: data.id || randomUUID(), status: 'open' };
+      if (organization.auditFindings.some((f) => f.id === finding.id)) {
+        throw new ConflictError(`Audit finding ${finding.id} already exists`);
+      }
+
+      organization.auditFindings.push(finding);
+      organization.updatedAt = new Date();
+      const saved = await getOrganizationRepository().save(organization, expectedVersion);
+      res.set('ETag', `"${saved.version}"`);
+      res.status(201).json({ success: true, data: finding, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to record audit finding');
+    }
+  })
+);
+
+router.patch(
+  '/:organizationId/audit-findings/:findingId',
+  requireAuth,
+  [
+    organizationIdParam,
+    param('findingId').trim().notEmpty(),
+    body('status').isIn(['open', 'resolved']),
+    body('resolvedDate').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      checkAuditFindingRole(req);
+      const expectedVersion = expectedVersionFrom(req);
+      const organization = await loadOrganization(req.params.organizationId);
+      const finding = organization.auditFindings.find((f) => f.id === req.params.findingId);
+      if (!finding) {
+        throw new NotFoundError(`Audit finding ${req.params.findingId} not found`);
+      }
+      const { status, resolvedDate } = matchedData<{
+        status: AuditFinding['status'];
+        resolvedDate?: Date;
+      }>(req, { locations: ['body'] });
+
+      finding.status = status;
+      finding.resolvedDate = status === 'resolved' ? resolvedDate || new Date() : undefined;
+      organization.updatedAt = new Date();
+      const saved = await getOrganizationRepository().save(organization, expectedVersion);
+      res.set('ETag', `"${saved.version}"`);
+      res.json({ success: true, data: finding, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to update audit finding');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/profile:
+ *   get:
+ *     summary: Get the risk profile of an organization across its grants
+ *     description: Aggregates every grant awarded to the organization, matched on ID or tax ID - compliance against each grant's requirements and its compliance history, funds utilized, late and overdue reports, corrective actions - together with the organization's audit findings.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Date to profile the organization as of; defaults to now
+ *     responses:
+ *       200:
+ *         description: Organization profile retrieved successfully
+ *       404:
+ *         description: Organization not found
+ */
+router.get(
+  '/:organizationId/profile',
+  requireAuth,
+  [organizationIdParam, query('asOf').optional().isISO8601().toDate()],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { asOf = new Date() } = matchedData<{ asOf?: Date }>(req, { locations: ['query'] });
+      const organization = await loadOrganization(req.params.organizationId);
+      const grants = [];
+      for (const grant of grantsOf(organization, await getGrantRepository().findAll())) {
+        grants.push({ grant, requirements: await complianceRequirementsFor(grant) });
+      }
+      const snapshots = await getComplianceSnapshotRepository().findAll({ to: asOf });
+
+      res.json({
+        success: true,
+        data: await organizationMetrics.calculateProfile(organization, grants, snapshots, asOf),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to compute organization profile');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/pre-award-risk:
+ *   get:
+ *     summary: Assess an organization before a grant is awarded to it
+ *     description: Scores the organization on its compliance and reporting history, audit findings and financial management across the grants awarded to it so far, the size of the proposed award against its largest so far, and its age. Each factor's contribution and explanation are reported. Give the proposed `amount`, or the `grantId` of a pending grant to take the amount from.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: amount
+ *         schema:
+ *           type: number
+ *         description: Proposed award amount
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *         description: Currency of the amount; defaults to that of the pending grant or of the organization's largest award
+ *       - in: query
+ *         name: grantId
+ *         schema:
+ *           type: string
+ *         description: Pending grant the assessment is for; left out of the organization's record
+ *       - in: query
+ *         name: portfolio
+ *         schema:
+ *           type: string
+ *         description: Portfolio whose pre-award risk profile applies
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Pre-award risk assessment retrieved successfully
+ *       404:
+ *         description: Organization or grant not found
+ *       422:
+ *         description: Neither an amount nor a grant given, or the grant is not the organization's
+ */
+router.get(
+  '/:organizationId/pre-award-risk',
+  requireAuth,
+  [
+    organizationIdParam,
+    query('amount').optional().isFloat({ min: 0 }).toFloat(),
+    query('currency').optional().isString().toUpperCase().isISO4217(),
+    query('grantId').optional().isString().trim().notEmpty(),
+    query('portfolio').optional().trim().notEmpty(),
+    query('asOf').optional().isISO8601().toDate(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { amount, currency, grantId, portfolio, asOf } = matchedData<{
+        amount?: number;
+        currency?: string;
+        grantId?: string;
+        portfolio?: string;
+        asOf?: Date;
+      }>(req, { locations: ['query'] });
+      const organization = await loadOrganization(req.params.organizationId);
+
+      const pending = grantId ? await getGrantRepository().findById(grantId) : null;
+      if (grantId && !pending) {
+        throw new NotFoundError('Grant not found');
+      }
+      if (pending && grantsOf(organization, [pending]).length === 0) {
+        throw new ValidationError(`Grant ${pending.id} is not for organization ${organization.id}`);
+      }
+      if (amount === undefined && !pending) {
+        throw new ValidationError('Give the proposed amount or the grantId of a pending grant');
+      }
+
+      const assessment = await assessPreAwardRisk(
+        organization,
+        {
+          amount: amount ?? (pending as NonNullable<typeof pending>).totalFunding,
+          currency: currency || pending?.currency,
+          grantId,
+        },
+        { asOf, portfolioId: portfolio }
+      );
+      res.json({ success: true, data: assessment, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to assess pre-award risk');
+    }
+  })
+);
+
+export default router;
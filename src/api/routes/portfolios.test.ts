@@ -0,0 +1,51 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { Portfolio } from '../../models/Portfolio';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const PORTFOLIOS = '/api/v1/portfolios';
+
+describe('portfolio routes', () => {
+  let app: Express;
+  const manager = bearer('sarah.johnson', ['grant-manager']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  type Members = Portfolio & { members: string[] };
+
+  const get = async (id: string): Promise<Members> =>
+    bodyOf<Members>(
+      await request(app).get(`${PORTFOLIOS}/${id}`).set('Authorization', manager).expect(200)
+    ).data;
+
+  it('lists the members selected by each saved filter', async () => {
+    expect((await get('health')).members.sort()).toEqual(['GR-2020-007', 'GR-2023-001']);
+    expect((await get('federal-awards')).members).toEqual(['GR-2023-001']);
+    await request(app).get(`${PORTFOLIOS}/unknown`).set('Authorization', manager).expect(404);
+  });
+
+  it('saves a portfolio by ID, rejecting unknown grants and empty selections', async () => {
+    const put = (body: Record<string, unknown>): request.Test =>
+      request(app)
+        .put(`${PORTFOLIOS}/foundations`)
+        .set('Authorization', manager)
+        .send({ name: 'Foundations', ...body });
+
+    await put({}).expect(422);
+    await put({ grantIds: ['GR-UNKNOWN'] }).expect(422);
+    await put({ filter: { types: ['lottery'] } }).expect(400);
+    await put({ filter: { types: ['foundation'] }, reportingCurrency: 'eur' }).expect(200);
+
+    const saved = await get('foundations');
+    expect(saved).toMatchObject({ createdBy: 'sarah.johnson', reportingCurrency: 'EUR' });
+    expect(saved.members).toEqual(['GR-2020-007']);
+
+    await request(app)
+      .delete(`${PORTFOLIOS}/foundations`)
+      .set('Authorization', manager)
+      .expect(204);
+    await request(app).get(`${PORTFOLIOS}/foundations`).set('Authorization', manager).expect(404);
+  });
+});
@@ -0,0 +1,208 @@
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData } from 'express-validator';
+import { Portfolio, portfolioMembers } from '../../models/Portfolio';
+import { getGrantRepository, getPortfolioRepository } from '../../repositories';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import { asyncHandler, checkValidation, getRequestUser, sendError } from '../helpers';
+
+const router = Router();
+
+const GRANT_TYPES = ['federal', 'state', 'local', 'foundation', 'corporate', 'international'];
+const GRANT_STATUSES = [
+  'draft',
+  'submitted',
+  'under-review',
+  'approved',
+  'active',
+  'suspended',
+  'completed',
+  'terminated',
+  'closed',
+];
+
+const portfolioIdParam = param('portfolioId')
+  .trim()
+  .matches(/^[a-z0-9][a-z0-9-]*$/)
+  .withMessage('Portfolio ID must be lowercase letters, digits and dashes');
+
+async function loadPortfolio(portfolioId: string): Promise<Portfolio> {
+  const portfolio = await getPortfolioRepository().findById(portfolioId);
+  if (!portfolio) {
+    throw new NotFoundError(`Portfolio ${portfolioId} not found`);
+  }
+  return portfolio;
+}
+
+/**
+ * @swagger
+ * /api/v1/portfolios:
+ *   get:
+ *     summary: List portfolios
+ *     description: Saved portfolios with the IDs of the grants currently in each
+ *     tags: [Portfolios]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Portfolios retrieved successfully
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const grants = await getGrantRepository().findAll();
+      const portfolios = (await getPortfolioRepository().findAll()).map((portfolio) => ({
+        ...portfolio,
+        members: portfolioMembers(portfolio, grants).map((g) => g.id),
+      }));
+      res.json({
+        success: true,
+        data: portfolios,
+        total: portfolios.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list portfolios');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/portfolios/{portfolioId}:
+ *   get:
+ *     summary: Get a portfolio with the IDs of its grants
+ *     tags: [Portfolios]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Portfolio retrieved successfully
+ *       404:
+ *         description: Portfolio not found
+ *   put:
+ *     summary: Create or replace a portfolio
+ *     description: A portfolio holds the grants it lists in `grantIds` plus those matching its saved `filter`. A grant matches the filter when it meets every criterion given - type, status, tag, grantor ID or name, grant manager - and a criterion when it matches any of its values.
+ *     tags: [Portfolios]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Portfolio saved
+ *       422:
+ *         description: Neither grants nor a filter given, or a listed grant does not exist
+ *   delete:
+ *     summary: Delete a portfolio
+ *     tags: [Portfolios]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Portfolio deleted
+ *       404:
+ *         description: Portfolio not found
+ */
+router.get(
+  '/:portfolioId',
+  requireAuth,
+  [portfolioIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const portfolio = await loadPortfolio(req.params.portfolioId);
+      const members = portfolioMembers(portfolio, await getGrantRepository().findAll());
+      res.json({
+        success: true,
+        data: { ...portfolio, members: members.map((g) => g.id) },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch portfolio');
+    }
+  })
+);
+
+router.put(
+  '/:portfolioId',
+  requireAuth,
+  [
+    portfolioIdParam,
+    body('name').isString().trim().notEmpty(),
+    body('description').optional().isString(),
+    body('grantIds').optional().isArray(),
+    body('grantIds.*').isString().trim().notEmpty(),
+    body('filter').optional().isObject(),
+    body('filter.types').optional().isArray(),
+    body('filter.types.*').isIn(GRANT_TYPES),
+    body('filter.statuses').optional().isArray(),
+    body('filter.statuses.*').isIn(GRANT_STATUSES),
+    body('filter.tags').optional().isArray(),
+    body('filter.tags.*').isString().trim().notEmpty(),
+    body('filter.grantors').optional().isArray(),
+    body('filter.grantors.*').isString().trim().notEmpty(),
+    body('filter.managers').optional().isArray(),
+    body('filter.managers.*').isString().trim().notEmpty(),
+    body('reportingCurrency').optional().isString().toUpperCase().isISO4217(),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const data = matchedData<Omit<Portfolio, 'id' | 'grantIds'> & { grantIds?: string[] }>(req, {
+        locations: ['body'],
+      });
+      const grantIds = [...new Set(data.grantIds || [])];
+      if (grantIds.length === 0 && !data.filter) {
+        throw new ValidationError('Give the grantIds of the portfolio, a filter, or both');
+      }
+      const grants = new Set((await getGrantRepository().findAll()).map((g) => g.id));
+      const unknown = grantIds.filter((id) => !grants.has(id));
+      if (unknown.length > 0) {
+        throw new ValidationError(`Unknown grants: ${unknown.join(', ')}`);
+      }
+
+      const repository = getPortfolioRepository();
+      const existing = await repository.findById(req.params.portfolioId);
+      const portfolio = await repository.save({
+        ...data,
+        grantIds,
+        id: req.params.portfolioId,
+        createdBy: existing?.createdBy || getRequestUser(req).id,
+        updatedAt: new Date(),
+      });
+
+      res.json({ success: true, data: portfolio, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to save portfolio');
+    }
+  })
+);
+
+router.delete(
+  '/:portfolioId',
+  requireAuth,
+  [portfolioIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const portfolio = await loadPortfolio(req.params.portfolioId);
+      await getPortfolioRepository().delete(portfolio.id);
+
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error, 'Failed to delete portfolio');
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,68 @@
+import { Express } from 'express';
+import request from 'supertest';
+import type { RulePack } from '../../compliance';
+import { bearer, bodyOf, createTestApp } from '../testing';
+
+const PACK = '/api/v1/rule-packs/county-health';
+
+const requirement = {
+  id: 'quarterly-report',
+  name: 'Quarterly report',
+  type: 'reporting',
+  severity: 'medium',
+};
+
+describe('rule pack routes', () => {
+  let app: Express;
+  const auth = bearer('program.officer', ['program-officer']);
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  const publish = (version: string, body: Record<string, unknown>): request.Test =>
+    request(app)
+      .put(`${PACK}/versions/${version}`)
+      .set('Authorization', auth)
+      .send({ name: 'County health', grantTypes: ['local'], ...body });
+
+  it('publishes versions once and lists the latest with all versions', async () => {
+    await publish('1.9.0', { requirements: [requirement] }).expect(201);
+    await publish('1.10.0', { requirements: [requirement] }).expect(201);
+    await publish('1.10.0', { requirements: [requirement] }).expect(409);
+
+    const res = await request(app).get('/api/v1/rule-packs').set('Authorization', auth).expect(200);
+    const listed = bodyOf<(RulePack & { versions: string[] })[]>(res).data.find(
+      (p) => p.id === 'county-health'
+    );
+    expect(listed).toMatchObject({
+      version: '1.10.0',
+      versions: ['1.10.0', '1.9.0'],
+      publishedBy: 'program.officer',
+    });
+  });
+
+  it('rejects unknown requirement types, unsafe patterns and duplicate IDs', async () => {
+    await publish('1.0.0', { requirements: [{ ...requirement, type: 'astrology' }] }).expect(400);
+    await publish('1.0.0', {
+      requirements: [
+        {
+          ...requirement,
+          condition: { fact: { path: 'grant.grantNumber' }, operator: 'matches', value: '(a+)+$' },
+        },
+      ],
+    }).expect(400);
+    await publish('1.0.0', { requirements: [requirement, requirement] }).expect(400);
+  });
+
+  it('publishes only for admins and program officers', async () => {
+    const res = await request(app)
+      .put(`${PACK}/versions/1.0.0`)
+      .set('Authorization', bearer('grantee', ['grantee']))
+      .send({ name: 'County health', requirements: [requirement] })
+      .expect(403);
+
+    expect(bodyOf(res).error).toMatch(/requires one of the roles: admin, program-officer/);
+    await request(app).get(`${PACK}/versions/1.0.0`).set('Authorization', auth).expect(404);
+  });
+});
@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { body, param, matchedData } from 'express-validator';
+import { compareVersions, RulePack } from '../../compliance';
+import { getRulePackRepository } from '../../repositories';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../utils/errors';
+import { requireAuth } from '../middleware/validation';
+import {
+  asyncHandler,
+  checkComplianceRequirement,
+  checkValidation,
+  getRequestUser,
+  sendError,
+} from '../helpers';
+
+const router = Router();
+
+const GRANT_TYPES = ['federal', 'state', 'local', 'foundation', 'corporate', 'international'];
+/** Rule packs decide how every matching grant is assessed, so only grantor staff publish them */
+const PUBLISHER_ROLES = ['admin', 'program-officer'];
+
+const packIdParam = param('packId')
+  .trim()
+  .matches(/^[a-z0-9][a-z0-9-]*$/)
+  .withMessage('Pack ID must be lowercase letters, digits and dashes');
+const versionParam = param('version')
+  .trim()
+  .matches(/^\d+(\.\d+)*$/)
+  .withMessage('Version must be dotted numbers, e.g. 1.2.0');
+
+/**
+ * @swagger
+ * /api/v1/rule-packs:
+ *   get:
+ *     summary: List compliance rule packs
+ *     description: Latest version of each pack, with the versions available for pinning
+ *     tags: [Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule packs retrieved successfully
+ */
+router.get(
+  '/',
+  requireAuth,
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const versions = new Map<string, RulePack[]>();
+      for (const pack of await getRulePackRepository().findAll()) {
+        versions.set(pack.id, [...(versions.get(pack.id) || []), pack]);
+      }
+      const packs = Array.from(versions.values()).map((candidates) => {
+        const sorted = candidates.sort((a, b) => compareVersions(b.version, a.version));
+        return { ...sorted[0], versions: sorted.map((p) => p.version) };
+      });
+
+      res.json({
+        success: true,
+        data: packs,
+        total: packs.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list rule packs');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/rule-packs/{packId}:
+ *   get:
+ *     summary: Get every version of a rule pack, newest first
+ *     tags: [Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pack versions retrieved successfully
+ *       404:
+ *         description: Pack not found
+ */
+router.get(
+  '/:packId',
+  requireAuth,
+  [packIdParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const versions = await getRulePackRepository().findVersions(req.params.packId);
+      if (versions.length === 0) {
+        throw new NotFoundError(`Rule pack ${req.params.packId} not found`);
+      }
+      res.json({ success: true, data: versions, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch rule pack');
+    }
+  })
+);
+
+/**
+ * @swagger
+ * /api/v1/rule-packs/{packId}/versions/{version}:
+ *   get:
+ *     summary: Get one version of a rule pack
+ *     tags: [Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pack version retrieved successfully
+ *       404:
+ *         description: Pack version not found
+ *   put:
+ *     summary: Publish a new version of a rule pack
+ *     description: Published versions are immutable so that grants pinned to them keep being assessed the same way; publish a higher version instead.
+ *     tags: [Compliance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Pack version published
+ *       400:
+ *         description: Invalid pack or requirement
+ *       403:
+ *         description: Caller may not publish rule packs
+ *       409:
+ *         description: Version already published
+ */
+router.get(
+  '/:packId/versions/:version',
+  requireAuth,
+  [packIdParam, versionParam],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const { packId, version } = req.params;
+      const pack = await getRulePackRepository().findVersion(packId, version);
+      if (!pack) {
+        throw new NotFoundError(`Rule pack ${packId} version ${version} not found`);
+      }
+      res.json({ success: true, data: pack, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch rule pack version');
+    }
+  })
+);
+
+router.put(
+  '/:packId/versions/:version',
+  requireAuth,
+  [
+    packIdParam,
+    versionParam,
+    body('name').isString().trim().notEmpty(),
+    body('description').optional().isString(),
+    body('grantTypes').optional().isArray(),
+    body('grantTypes.*').isIn(GRANT_TYPES),
+    body('tags').optional().isArray(),
+    body('tags.*').isString(),
+    body('requirements').isArray({ min: 1 }),
+    body('requirements.*.id').isString().trim().notEmpty(),
+    body('requirements.*.name').isString().trim().notEmpty(),
+    body('requirements.*.description').optional().isString(),
+    body('requirements.*.severity').isIn(['high', 'medium', 'low']),
+    body('requirements.*.applicableFrom').optional().isISO8601().toDate(),
+    body('requirements.*.dueDate').optional().isISO8601().toDate(),
+    body('requirements.*.parameters').optional().isObject(),
+    body('requirements.*').custom(checkComplianceRequirement),
+  ],
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!checkValidation(req, res)) {
+        return;
+      }
+
+      const user = getRequestUser(req);
+      if (!user.roles.some((role) => PUBLISHER_ROLES.includes(role))) {
+        throw new ForbiddenError(
+          `Publishing rule packs requires one of the roles: ${PUBLISHER_ROLES.join(', ')}`
+        );
+      }
+
+      const { packId, version } = req.params;
+      const repository = getRulePackRepository();
+      if (await repository.findVersion(packId, version)) {
+        throw new ConflictError(`Rule pack ${packId} version ${version} is already published`);
+      }
+
+      const data = matchedData<Omit<RulePack, 'id' | 'version'>>(req, { locations: ['body'] });
+      const ids = data.requirements.map((r) => r.id);
+      const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+      if (duplicate) {
+        res.status(400).json({
+          errors: [{ msg: `Duplicate requirement ID ${duplicate}`, path: 'requirements' }],
+        });
+        return;
+      }
+
+      const pack = await repository.save({
+        ...data,
+        requirements: data.requirements.map((r) => ({ ...r, description: r.description || '' })),
+        id: packId,
+        version,
+        builtIn: false,
+        publishedBy: user.id,
+        publishedAt: new Date(),
+      });
+
+      res.status(201).json({ success: true, data: pack, timestamp: new Date().toISOString() });
+    } catch (error) {
+      sendError(res, error, 'Failed to publish rule pack');
+    }
+  })
+);
+
+export default router;
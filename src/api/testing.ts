@@ -0,0 +1,59 @@
+/**
+ * Route test support: an app with the API routes mounted on fresh in-memory
+ * repositories, and bearer tokens for callers with given roles.
+ */
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { setupRoutes } from '.';
+import {
+  InMemoryComplianceSnapshotRepository,
+  InMemoryGrantRepository,
+  InMemoryMappingProfileRepository,
+  InMemoryOrganizationRepository,
+  InMemoryPortfolioRepository,
+  InMemoryRulePackRepository,
+  setComplianceSnapshotRepository,
+  setGrantRepository,
+  setMappingProfileRepository,
+  setOrganizationRepository,
+  setPortfolioRepository,
+  setRulePackRepository,
+} from '../repositories';
+
+const TEST_SECRET = 'route-test-secret';
+
+export function createTestApp(): Express {
+  process.env.JWT_SECRET = TEST_SECRET;
+  resetRepositories();
+  const app = express();
+  app.use(express.json());
+  setupRoutes(app);
+  return app;
+}
+
+/** Registers repositories seeded from sample-data, discarding earlier changes. */
+export function resetRepositories(): void {
+  setGrantRepository(InMemoryGrantRepository.fromSampleData());
+  setMappingProfileRepository(new InMemoryMappingProfileRepository());
+  setRulePackRepository(new InMemoryRulePackRepository());
+  setComplianceSnapshotRepository(new InMemoryComplianceSnapshotRepository());
+  setOrganizationRepository(InMemoryOrganizationRepository.fromSampleData());
+  setPortfolioRepository(InMemoryPortfolioRepository.fromSampleData());
+}
+
+/** Authorization header value for a user with the given roles. */
+export function bearer(userId: string, roles: string[] = []): string {
+  return `Bearer ${jwt.sign({ sub: userId, roles }, TEST_SECRET, { expiresIn: '5m' })}`;
+}
+
+export interface ResponseBody<T> {
+  success?: boolean;
+  data: T;
+  error?: string;
+  [field: string]: unknown;
+}
+
+/** The JSON body of a response, typed for assertions. */
+export function bodyOf<T = Record<string, unknown>>(res: { body: unknown }): ResponseBody<T> {
+  return res.body as ResponseBody<T>;
+}
@@ -0,0 +1,48 @@
+import { endOfDayIn } from '../utils/dates';
+import type { HolidayCalendar, RollConvention } from './HolidayCalendar';
+
+export interface DeadlineCalendarSettings {
+  /** ID of a registered holiday calendar; defaults to DEFAULT_HOLIDAY_CALENDAR or us-federal */
+  holidayCalendar?: string;
+  /** IANA time zone deadlines are observed in; defaults to UTC */
+  timeZone?: string;
+  /** How deadlines on non-working days move; defaults to the following business day */
+  roll?: RollConvention;
+}
+
+export interface NormalizedDeadline {
+  /** Business day the deadline falls on, at midnight UTC like other grant dates */
+  date: Date;
+  /** Last instant of that day in the calendar's time zone */
+  dueAt: Date;
+  /** The nominal date, when it fell on a weekend or holiday and was moved */
+  rolledFrom?: Date;
+}
+
+/**
+ * Turns nominal deadline dates into the instant they actually fall due: moved
+ * off weekends and holidays, and ending at midnight in the grant's time zone
+ * rather than the server's.
+ */
+export class DeadlineCalendar {
+  constructor(
+    readonly holidays: HolidayCalendar,
+    readonly timeZone = 'UTC',
+    readonly rollConvention: RollConvention = 'following'
+  ) {}
+
+  normalize(date: Date): NormalizedDeadline {
+    const rolled = this.holidays.roll(date, this.rollConvention);
+    const nominal = this.holidays.roll(date, 'none');
+    return {
+      date: rolled,
+      dueAt: endOfDayIn(rolled, this.timeZone),
+      ...(rolled.getTime() !== nominal.getTime() ? { rolledFrom: nominal } : {}),
+    };
+  }
+
+  /** End of the day `days` business days after `date`, in the calendar's time zone. */
+  addBusinessDays(date: Date, days: number): Date {
+    return endOfDayIn(this.holidays.addBusinessDays(date, days), this.timeZone);
+  }
+}
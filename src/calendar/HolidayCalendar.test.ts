@@ -0,0 +1,55 @@
+import { US_FEDERAL } from './builtInCalendars';
+import { HolidayCalendar } from './HolidayCalendar';
+import { toISODate } from '../utils/dates';
+
+const federal = new HolidayCalendar(US_FEDERAL);
+const day = (iso: string): Date => new Date(`${iso}T00:00:00Z`);
+
+describe('HolidayCalendar', () => {
+  it('expands weekday rules, including the last weekday of a month', () => {
+    const holidays = new Map(federal.holidays(2024).map((h) => [h.name, toISODate(h.date)]));
+
+    expect(holidays.get('Birthday of Martin Luther King, Jr.')).toBe('2024-01-15');
+    expect(holidays.get('Memorial Day')).toBe('2024-05-27');
+    expect(holidays.get('Thanksgiving Day')).toBe('2024-11-28');
+    expect(federal.holidays(2024)).toHaveLength(11);
+  });
+
+  it('observes weekend holidays on the nearest weekday, even across the year end', () => {
+    expect(federal.holidayOn(day('2026-07-03'))).toBe('Independence Day');
+    expect(federal.holidayOn(day('2023-01-02'))).toBe("New Year's Day");
+    expect(federal.holidayOn(day('2021-12-31'))).toBe("New Year's Day");
+    expect(federal.holidayOn(day('2022-01-01'))).toBeUndefined();
+  });
+
+  it('applies holidays only from the year they were established', () => {
+    expect(federal.holidayOn(day('2020-06-19'))).toBeUndefined();
+    expect(federal.holidayOn(day('2023-06-19'))).toBe('Juneteenth National Independence Day');
+  });
+
+  it('rolls dates off non-working days by convention', () => {
+    // Saturday 30 November, after Thanksgiving
+    expect(toISODate(federal.roll(day('2024-11-30'), 'following'))).toBe('2024-12-02');
+    expect(toISODate(federal.roll(day('2024-11-30'), 'preceding'))).toBe('2024-11-29');
+    expect(toISODate(federal.roll(day('2024-11-28'), 'preceding'))).toBe('2024-11-27');
+    expect(federal.roll(new Date('2024-11-30T15:30:00Z'), 'none')).toEqual(day('2024-11-30'));
+  });
+
+  it('counts business days past weekends and holidays', () => {
+    expect(toISODate(federal.addBusinessDays(day('2024-12-20'), 3))).toBe('2024-12-26');
+  });
+
+  it('supports other weekends and one-off closures', () => {
+    const calendar = new HolidayCalendar({
+      id: 'gulf',
+      name: 'Friday and Saturday weekend',
+      weekend: [5, 6],
+      holidays: [{ name: 'Office move', date: '2024-03-10' }],
+    });
+
+    expect(calendar.isBusinessDay(day('2024-03-08'))).toBe(false);
+    expect(calendar.isBusinessDay(day('2024-03-10'))).toBe(false);
+    expect(toISODate(calendar.roll(day('2024-03-08'), 'following'))).toBe('2024-03-11');
+    expect(calendar.holidays(2025)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { addBusinessDays, addDays, startOfDay, toISODate } from '../utils/dates';
+
+/** Holiday on the same date every year, e.g. July 4. */
+export interface FixedHoliday {
+  name: string;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** Observed on the Friday before when it falls on a Saturday, the Monday after on a Sunday */
+  observed?: boolean;
+  fromYear?: number;
+}
+
+/** Holiday on the nth weekday of a month, e.g. the fourth Thursday of November. */
+export interface WeekdayHoliday {
+  name: string;
+  month: number;
+  /** 0 (Sunday) to 6 (Saturday) */
+  weekday: number;
+  /** 1-5, or -1 for the last such weekday of the month */
+  nth: number;
+  fromYear?: number;
+}
+
+/** Holiday on one specific date, such as a closure declared by executive order. */
+export interface OneOffHoliday {
+  name: string;
+  date: string;
+}
+
+export type HolidayRule = FixedHoliday | WeekdayHoliday | OneOffHoliday;
+
+export interface HolidayCalendarDefinition {
+  id: string;
+  name: string;
+  /** Non-working days of the week, 0 (Sunday) to 6 (Saturday); defaults to Saturday and Sunday */
+  weekend?: number[];
+  holidays: HolidayRule[];
+}
+
+export interface Holiday {
+  date: Date;
+  name: string;
+}
+
+/** How a deadline that falls on a non-working day moves. */
+export type RollConvention = 'following' | 'preceding' | 'none';
+
+/**
+ * Working-day calendar built from declarative holiday rules. Dates are
+ * calendar days in UTC, matching how grant dates are stored.
+ */
+export class HolidayCalendar {
+  private readonly years = new Map<number, Map<string, string>>();
+
+  constructor(readonly definition: HolidayCalendarDefinition) {}
+
+  get id(): string {
+    return this.definition.id;
+  }
+
+  holidays(year: number): Holiday[] {
+    return Array.from(this.holidaysIn(year), ([date, name]) => ({
+      date: new Date(date),
+      name,
+    })).sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /** Name of the holiday observed on `date`, if any. */
+  holidayOn(date: Date): string | undefined {
+    return this.holidaysIn(date.getUTCFullYear()).get(toISODate(date));
+  }
+
+  isBusinessDay(date: Date): boolean {
+    const weekend = this.definition.weekend || [0, 6];
+    return !weekend.includes(date.getUTCDay()) && !this.holidayOn(date);
+  }
+
+  addBusinessDays(date: Date, days: number): Date {
+    return addBusinessDays(date, days, (d) => this.isBusinessDay(d));
+  }
+
+  /** Moves `date` to a business day by `convention`; returns the start of that day. */
+  roll(date: Date, convention: RollConvention): Date {
+    let day = startOfDay(date);
+    if (convention === 'none') {
+      return day;
+    }
+    const step = convention === 'following' ? 1 : -1;
+    while (!this.isBusinessDay(day)) {
+      day = addDays(day, step);
+    }
+    return day;
+  }
+
+  /**
+   * Holidays observed in `year`, keyed by ISO date. A fixed holiday observed
+   * on the Friday before can fall in the previous year (New Year's Day 2022
+   * was observed on 31 December 2021), so the following year's rules are
+   * expanded too.
+   */
+  private holidaysIn(year: number): Map<string, string> {
+    let holidays = this.years.get(year);
+    if (!holidays) {
+      holidays = new Map();
+      for (const ruleYear of [year, year + 1]) {
+        for (const rule of this.definition.holidays) {
+          const date = observedDate(rule, ruleYear);
+          if (date && date.getUTCFullYear() === year) {
+            holidays.set(toISODate(date), rule.name);
+          }
+        }
+      }
+      this.years.set(year, holidays);
+    }
+    return holidays;
+  }
+}
+
+function observedDate(rule: HolidayRule, year: number): Date | undefined {
+  if ('date' in rule) {
+    const date = new Date(rule.date);
+    return date.getUTCFullYear() === year ? date : undefined;
+  }
+  if (rule.fromYear && year < rule.fromYear) {
+    return undefined;
+  }
+
+  if ('weekday' in rule) {
+    if (rule.nth < 0) {
+      const last = new Date(Date.UTC(year, rule.month, 0));
+      return addDays(last, -((last.getUTCDay() - rule.weekday + 7) % 7));
+    }
+    const first = new Date(Date.UTC(year, rule.month - 1, 1));
+    return addDays(first, ((rule.weekday - first.getUTCDay() + 7) % 7) + (rule.nth - 1) * 7);
+  }
+
+  const date = new Date(Date.UTC(year, rule.month - 1, rule.day));
+  if (rule.observed && date.getUTCDay() === 6) {
+    return addDays(date, -1);
+  }
+  if (rule.observed && date.getUTCDay() === 0) {
+    return addDays(date, 1);
+  }
+  return date;
+}
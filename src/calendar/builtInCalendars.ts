@@ -0,0 +1,35 @@
+import type { HolidayCalendarDefinition } from './HolidayCalendar';
+
+/** Legal public holidays under 5 U.S.C. 6103, with federal observance rules. */
+export const US_FEDERAL: HolidayCalendarDefinition = {
+  id: 'us-federal',
+  name: 'U.S. federal holidays',
+  holidays: [
+    { name: "New Year's Day", month: 1, day: 1, observed: true },
+    { name: 'Birthday of Martin Luther King, Jr.', month: 1, weekday: 1, nth: 3 },
+    { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+    { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+    {
+      name: 'Juneteenth National Independence Day',
+      month: 6,
+      day: 19,
+      observed: true,
+      fromYear: 2021,
+    },
+    { name: 'Independence Day', month: 7, day: 4, observed: true },
+    { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+    { name: 'Columbus Day', month: 10, weekday: 1, nth: 2 },
+    { name: 'Veterans Day', month: 11, day: 11, observed: true },
+    { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: true },
+  ],
+};
+
+/** Weekends only, for grantors whose deadlines ignore public holidays. */
+export const WEEKENDS_ONLY: HolidayCalendarDefinition = {
+  id: 'weekends-only',
+  name: 'Weekends only',
+  holidays: [],
+};
+
+export const BUILT_IN_CALENDARS: HolidayCalendarDefinition[] = [US_FEDERAL, WEEKENDS_ONLY];
@@ -0,0 +1,56 @@
+import { toICalendar } from './ics';
+
+describe('toICalendar', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+
+  it('writes all-day events with CRLF line endings', () => {
+    const ics = toICalendar(
+      'Grant deadlines',
+      [
+        {
+          uid: 'GR-1/report/Q1-2024@grantready',
+          date: new Date('2024-04-30'),
+          summary: 'Q1 2024 report',
+          categories: ['report', 'GR-1'],
+        },
+      ],
+      now
+    );
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'BEGIN:VEVENT',
+        'DTSTAMP:20240501T120000Z',
+        'DTSTART;VALUE=DATE:20240430',
+        'DTEND;VALUE=DATE:20240501',
+        'CATEGORIES:report,GR-1',
+      ])
+    );
+  });
+
+  it('escapes text values and folds long lines', () => {
+    const ics = toICalendar(
+      'Deadlines',
+      [
+        {
+          uid: 'x',
+          date: new Date('2024-04-30'),
+          summary: 'Report; budget, narrative',
+          description: `Line one\n${'é'.repeat(60)}`,
+        },
+      ],
+      now
+    );
+
+    expect(ics).toContain('SUMMARY:Report\\; budget\\, narrative');
+    const description = ics.slice(ics.indexOf('DESCRIPTION:'), ics.indexOf('TRANSP:'));
+    const lines = description.split('\r\n').filter(Boolean);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+      `DESCRIPTION:Line one\\n${'é'.repeat(60)}`
+    );
+  });
+});
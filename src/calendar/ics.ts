@@ -0,0 +1,77 @@
+import { addDays } from '../utils/dates';
+
+export interface CalendarEvent {
+  /** Stable across feed refreshes so calendar apps update rather than duplicate events */
+  uid: string;
+  /** All-day event on this calendar day (UTC) */
+  date: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+}
+
+const PRODUCT_ID = '-//GrantReady Analytics//Deadline Calendar//EN';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+/** Splits content lines longer than 75 octets, as RFC 5545 section 3.1 requires. */
+function fold(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char) > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/** Serializes events as an RFC 5545 iCalendar document. */
+export function toICalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatTimestamp(now)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      ...(event.categories?.length
+        ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`]
+        : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
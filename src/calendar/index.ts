@@ -0,0 +1,78 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import type { Grant } from '../models/Grant';
+import { ValidationError } from '../utils/errors';
+import { BUILT_IN_CALENDARS } from './builtInCalendars';
+import { DeadlineCalendar } from './DeadlineCalendar';
+import { HolidayCalendar, HolidayCalendarDefinition } from './HolidayCalendar';
+
+export { BUILT_IN_CALENDARS, US_FEDERAL, WEEKENDS_ONLY } from './builtInCalendars';
+export { DeadlineCalendar, DeadlineCalendarSettings, NormalizedDeadline } from './DeadlineCalendar';
+export {
+  FixedHoliday,
+  Holiday,
+  HolidayCalendar,
+  HolidayCalendarDefinition,
+  HolidayRule,
+  OneOffHoliday,
+  RollConvention,
+  WeekdayHoliday,
+} from './HolidayCalendar';
+export { CalendarEvent, toICalendar } from './ics';
+
+let holidayCalendars: Map<string, HolidayCalendar> | null = null;
+
+/** Reads holiday calendar definitions from a YAML or JSON list. */
+export function loadHolidayCalendars(filePath: string): HolidayCalendarDefinition[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError(`Holiday calendar file ${filePath} must contain a list`);
+  }
+  for (const definition of parsed as Partial<HolidayCalendarDefinition>[]) {
+    if (!definition?.id || !Array.isArray(definition.holidays)) {
+      throw new ValidationError(`Holiday calendars in ${filePath} need an id and holidays`);
+    }
+  }
+  return parsed as HolidayCalendarDefinition[];
+}
+
+function registry(): Map<string, HolidayCalendar> {
+  if (!holidayCalendars) {
+    const definitions = [
+      ...BUILT_IN_CALENDARS,
+      ...(process.env.HOLIDAY_CALENDARS_PATH
+        ? loadHolidayCalendars(process.env.HOLIDAY_CALENDARS_PATH)
+        : []),
+    ];
+    holidayCalendars = new Map(definitions.map((d) => [d.id, new HolidayCalendar(d)]));
+  }
+  return holidayCalendars;
+}
+
+/**
+ * Built-in holiday calendars plus those in the file named by
+ * HOLIDAY_CALENDARS_PATH; a file calendar with a built-in ID replaces it.
+ */
+export function getHolidayCalendars(): HolidayCalendar[] {
+  return Array.from(registry().values());
+}
+
+export function getHolidayCalendar(id: string): HolidayCalendar | undefined {
+  return registry().get(id);
+}
+
+export function registerHolidayCalendar(definition: HolidayCalendarDefinition): void {
+  registry().set(definition.id, new HolidayCalendar(definition));
+}
+
+/** Deadline calendar for the grant's settings, falling back to the defaults. */
+export function deadlineCalendarFor(grant: Grant): DeadlineCalendar {
+  const settings = grant.deadlineCalendar || {};
+  const id = settings.holidayCalendar || process.env.DEFAULT_HOLIDAY_CALENDAR || 'us-federal';
+  const holidays = getHolidayCalendar(id);
+  if (!holidays) {
+    throw new ValidationError(`Grant ${grant.id} uses unknown holiday calendar ${id}`);
+  }
+  return new DeadlineCalendar(holidays, settings.timeZone, settings.roll);
+}
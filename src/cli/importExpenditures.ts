@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { initializeDatabase } from '../database';
+import { ExpenditureImporter, ImportReport } from '../imports/ExpenditureImporter';
+import { getGrantRepository, getMappingProfileRepository } from '../repositories';
+
+const USAGE = `Usage: npm run import:expenditures -- --grant <grantId> --file <path> --profile <profileId> [options]
+
+Imports expenditures from a CSV or XLSX export. Runs as a dry run unless --commit is given,
+and exits with status 1 when any row is rejected.
+
+Options:
+  --format csv|xlsx   File format (default: from the file extension)
+  --commit            Add the accepted rows to the grant (needs DB_HOST set)
+  --user <id>         User recorded as submitter (default: import-cli)
+  --json              Print the full report as JSON`;
+
+/** The report goes to stdout and problems to stderr, so the output can be piped. */
+function print(line: string): void {
+  process.stdout.write(`${line}\n`);
+}
+
+function printError(line: string): void {
+  process.stderr.write(`${line}\n`);
+}
+
+function printReport(report: ImportReport): void {
+  print(
+    `${report.dryRun ? 'Dry run' : 'Import'} for grant ${report.grantId} with profile ${report.profileId}`
+  );
+  print(`  Rows read:   ${report.totalRows}`);
+  print(`  Accepted:    ${report.accepted.length} (total ${report.acceptedAmount.toFixed(2)})`);
+  print(`  Duplicates:  ${report.duplicates.length}`);
+  print(`  Rejected:    ${report.rejected.length}`);
+  for (const duplicate of report.duplicates) {
+    print(`    row ${duplicate.row}: duplicate of ${duplicate.duplicateOf}`);
+  }
+  for (const rejected of report.rejected) {
+    print(`    row ${rejected.row}: ${rejected.errors.join('; ')}`);
+  }
+  if (report.dryRun && report.accepted.length > 0) {
+    print('Nothing was imported; re-run with --commit to add the accepted rows.');
+  }
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      grant: { type: 'string' },
+      file: { type: 'string' },
+      profile: { type: 'string' },
+      format: { type: 'string' },
+      commit: { type: 'boolean', default: false },
+      user: { type: 'string', default: 'import-cli' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || !values.grant || !values.file || !values.profile) {
+    print(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const format =
+    values.format || (path.extname(values.file).toLowerCase() === '.xlsx' ? 'xlsx' : 'csv');
+  if (format !== 'csv' && format !== 'xlsx') {
+    printError(`Unsupported format: ${format}`);
+    return 2;
+  }
+
+  const dataSource = await initializeDatabase();
+  // Without a database the repositories are in memory, so a commit would be lost on exit
+  if (values.commit && !dataSource) {
+    printError('No database is configured (set DB_HOST); --commit needs one to save the import.');
+    return 1;
+  }
+  try {
+    return await importFile(values.file, format, {
+      grantId: values.grant,
+      profileId: values.profile,
+      user: values.user || 'import-cli',
+      commit: Boolean(values.commit),
+      json: Boolean(values.json),
+    });
+  } finally {
+    await dataSource?.destroy();
+  }
+}
+
+async function importFile(
+  file: string,
+  format: 'csv' | 'xlsx',
+  options: { grantId: string; profileId: string; user: string; commit: boolean; json: boolean }
+): Promise<number> {
+  const grant = await getGrantRepository().findById(options.grantId);
+  if (!grant) {
+    printError(`Grant ${options.grantId} not found`);
+    return 1;
+  }
+  const profile = await getMappingProfileRepository().findById(options.profileId);
+  if (!profile) {
+    printError(`Mapping profile ${options.profileId} not found`);
+    return 1;
+  }
+
+  const expectedVersion = grant.version;
+  const report = await new ExpenditureImporter().import(
+    grant,
+    fs.readFileSync(file),
+    format,
+    profile,
+    { user: options.user, dryRun: !options.commit }
+  );
+  if (options.commit && report.accepted.length > 0) {
+    await getGrantRepository().save(grant, expectedVersion);
+  }
+
+  if (options.json) {
+    print(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+  return report.rejected.length > 0 ? 1 : 0;
+}
+
+// Setting the exit code rather than exiting lets piped output drain first
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    printError(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  });
@@ -0,0 +1,137 @@
+import { Grant, ReportSubmission } from '../models/Grant';
+import { toISODate } from '../utils/dates';
+import { generateReportingSchedule, reportingStatus, scheduleSettings } from './ReportingSchedule';
+
+function grant(overrides: Partial<Grant> = {}): Grant {
+  return new Grant({
+    id: 'GR-1',
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    reportingFrequency: 'quarterly',
+    ...overrides,
+  });
+}
+
+function report(
+  period: string,
+  submitted: string,
+  status: ReportSubmission['status'] = 'submitted'
+): ReportSubmission {
+  return {
+    id: `RPT-${period}-${submitted}`,
+    type: 'progress',
+    period,
+    submissionDate: new Date(submitted),
+    submittedBy: 'ana',
+    status,
+  };
+}
+
+describe('generateReportingSchedule', () => {
+  it('follows the fiscal year, cutting the first period at the grant start', () => {
+    const periods = generateReportingSchedule(grant({ startDate: new Date('2024-02-15') }), {
+      fiscalYearStartMonth: 10,
+    });
+
+    expect(periods.map((p) => p.label)).toEqual([
+      'Q2 FY2024',
+      'Q3 FY2024',
+      'Q4 FY2024',
+      'Q1 FY2025',
+    ]);
+    expect(toISODate(periods[0].start)).toBe('2024-02-15');
+    expect(periods[0].end.toISOString()).toBe('2024-03-31T23:59:59.999Z');
+    expect(periods.map((p) => toISODate(p.dueDate))).toEqual([
+      '2024-04-30',
+      '2024-07-30',
+      '2024-10-30',
+      '2025-01-30',
+    ]);
+  });
+
+  it('cuts the last period at the grant end', () => {
+    const periods = generateReportingSchedule(grant({ endDate: new Date('2024-08-15') }), {
+      frequency: 'semi-annual',
+    });
+
+    expect(periods.map((p) => p.label)).toEqual(['H1 2024', 'H2 2024']);
+    expect(periods[1].end.toISOString()).toBe('2024-08-15T23:59:59.999Z');
+  });
+
+  it('moves due dates off weekends and holidays to the next business day', () => {
+    const periods = generateReportingSchedule(grant(), { lagDays: 4 });
+    const q2 = periods[1];
+
+    // Q2 ends on 30 June; 4 July is Independence Day
+    expect(toISODate(q2.dueDate)).toBe('2024-07-05');
+    expect(toISODate(q2.rolledFrom as Date)).toBe('2024-07-04');
+    expect(periods[0].rolledFrom).toBeUndefined();
+
+    const weekend = generateReportingSchedule(grant(), { lagDays: 6 })[0];
+    expect(toISODate(weekend.dueDate)).toBe('2024-04-08');
+  });
+
+  it('keeps holiday deadlines when the grant follows a weekends-only calendar', () => {
+    const q2 = generateReportingSchedule(
+      grant({ deadlineCalendar: { holidayCalendar: 'weekends-only' } }),
+      { lagDays: 4 }
+    )[1];
+
+    expect(toISODate(q2.dueDate)).toBe('2024-07-04');
+  });
+
+  it('ends deadlines and grace periods at midnight in the grant time zone', () => {
+    const periods = generateReportingSchedule(
+      grant({ deadlineCalendar: { timeZone: 'America/New_York' } }),
+      { lagDays: 4, graceBusinessDays: 5 }
+    );
+
+    // Daylight saving time in July, standard time in January
+    expect(periods[1].dueAt.toISOString()).toBe('2024-07-06T03:59:59.999Z');
+    expect(periods[1].graceEndsAt.toISOString()).toBe('2024-07-13T03:59:59.999Z');
+    expect(periods[3].dueAt.toISOString()).toBe('2025-01-07T04:59:59.999Z');
+  });
+});
+
+describe('reportingStatus', () => {
+  const reported = grant({
+    reports: [
+      report('Q1 2024', '2024-04-10'),
+      report('Q2 2024', '2024-07-20'),
+      report('Q3 2024', '2024-10-01', 'draft'),
+    ],
+  });
+  const settings = { lagDays: 4, graceBusinessDays: 5 };
+
+  it('marks periods on time within the grace period, late after it, and overdue when missing', () => {
+    const statuses = reportingStatus(reported, new Date('2024-11-01'), settings).map(
+      (p) => p.status
+    );
+
+    expect(statuses).toEqual(['on-time', 'late', 'overdue', 'upcoming']);
+  });
+
+  it('ignores drafts and reports submitted after the as-of date', () => {
+    const schedule = reportingStatus(reported, new Date('2024-10-05'), settings);
+
+    expect(schedule[2]).toMatchObject({ label: 'Q3 2024', status: 'due', report: undefined });
+    expect(reportingStatus(reported, new Date('2024-07-10'), settings)[1].status).toBe('due');
+  });
+
+  it('counts only reports of the requested type', () => {
+    expect(reportingStatus(reported, new Date('2024-11-01'), settings, 'financial')[0].status).toBe(
+      'overdue'
+    );
+  });
+});
+
+describe('scheduleSettings', () => {
+  it('lets requirement parameters override the grant settings', () => {
+    const settings = scheduleSettings(
+      grant({ reportingSchedule: { lagDays: 45, fiscalYearStartMonth: 7 } }),
+      { frequency: 'monthly', lagDays: 10, graceBusinessDays: 'many', bogus: 1 }
+    );
+
+    expect(settings).toEqual({ frequency: 'monthly', lagDays: 10, fiscalYearStartMonth: 7 });
+  });
+});
@@ -0,0 +1,143 @@
+import { deadlineCalendarFor } from '../calendar';
+import type { Grant, ReportSubmission } from '../models/Grant';
+import {
+  addDays,
+  endOfPeriod,
+  monthsInPeriod,
+  PeriodType,
+  periodLabel,
+  startOfPeriod,
+} from '../utils/dates';
+
+const DEFAULT_LAG_DAYS = 30;
+/** Reporting Timeliness grace period, see docs/kpis.md */
+const DEFAULT_GRACE_BUSINESS_DAYS = 5;
+
+export interface ReportingScheduleSettings {
+  /** Overrides the grant's `reportingFrequency` */
+  frequency?: PeriodType;
+  /** Days after a period ends that its report is due; defaults to 30 */
+  lagDays?: number;
+  /** First month (1-12) of the grantor's fiscal year, which sets period boundaries */
+  fiscalYearStartMonth?: number;
+  /** Business days after the due date in which a report still counts as on time; defaults to 5 */
+  graceBusinessDays?: number;
+}
+
+export interface ReportingPeriod {
+  /** Matched against `ReportSubmission.period`, e.g. `Q3 2023` or `Q1 FY2024` */
+  label: string;
+  start: Date;
+  end: Date;
+  /** Business day the report is due, after moving off weekends and holidays */
+  dueDate: Date;
+  /** End of the due date in the grant's time zone */
+  dueAt: Date;
+  /** When the due date was moved, the day `lagDays` after the period end */
+  rolledFrom?: Date;
+  graceEndsAt: Date;
+}
+
+export type ScheduledReportStatus = 'upcoming' | 'due' | 'on-time' | 'late' | 'overdue';
+
+export interface ScheduledReport extends ReportingPeriod {
+  reportType?: string;
+  status: ScheduledReportStatus;
+  /** Earliest non-draft submission of the report for the period */
+  report?: ReportSubmission;
+}
+
+/**
+ * Expands the grant's reporting frequency into periods between its start and
+ * end dates, using the grant's own schedule settings unless others are given.
+ * The first and last periods are cut short at those dates; each is due
+ * `lagDays` after it ends, as observed by the grant's deadline calendar.
+ */
+export function generateReportingSchedule(
+  grant: Grant,
+  settings: ReportingScheduleSettings = grant.reportingSchedule || {}
+): ReportingPeriod[] {
+  const frequency = settings.frequency || grant.reportingFrequency;
+  const fiscalYearStartMonth = settings.fiscalYearStartMonth || 1;
+  const lagDays = settings.lagDays ?? DEFAULT_LAG_DAYS;
+  const graceBusinessDays = settings.graceBusinessDays ?? DEFAULT_GRACE_BUSINESS_DAYS;
+  const calendar = deadlineCalendarFor(grant);
+
+  const periods: ReportingPeriod[] = [];
+  let start = startOfPeriod(grant.startDate, frequency, fiscalYearStartMonth);
+  while (start <= grant.endDate) {
+    const periodEnd = endOfPeriod(start, frequency);
+    const end = periodEnd < grant.endDate ? periodEnd : endOfDay(grant.endDate);
+    const deadline = calendar.normalize(addDays(end, lagDays));
+    periods.push({
+      label: periodLabel(start, frequency, fiscalYearStartMonth),
+      start: start < grant.startDate ? grant.startDate : start,
+      end,
+      dueDate: deadline.date,
+      dueAt: deadline.dueAt,
+      rolledFrom: deadline.rolledFrom,
+      graceEndsAt: calendar.addBusinessDays(deadline.date, graceBusinessDays),
+    });
+    start = new Date(periodEnd.getTime() + 1);
+  }
+  return periods;
+}
+
+/**
+ * The grant's reporting schedule with the submission status of each period.
+ * Drafts do not count; when `reportType` is given only reports of that type do.
+ */
+export function reportingStatus(
+  grant: Grant,
+  asOf: Date = new Date(),
+  settings: ReportingScheduleSettings = grant.reportingSchedule || {},
+  reportType?: string
+): ScheduledReport[] {
+  return generateReportingSchedule(grant, settings).map((period) => {
+    const report = grant.reports
+      .filter(
+        (r) =>
+          r.period === period.label &&
+          r.status !== 'draft' &&
+          (!reportType || r.type === reportType) &&
+          r.submissionDate <= asOf
+      )
+      .sort((a, b) => a.submissionDate.getTime() - b.submissionDate.getTime())[0];
+
+    let status: ScheduledReportStatus;
+    if (report) {
+      status = report.submissionDate <= period.graceEndsAt ? 'on-time' : 'late';
+    } else if (asOf > period.graceEndsAt) {
+      status = 'overdue';
+    } else {
+      status = asOf > period.end ? 'due' : 'upcoming';
+    }
+    return { ...period, reportType, status, report };
+  });
+}
+
+/** Settings from a requirement's parameters, falling back to the grant's. */
+export function scheduleSettings(
+  grant: Grant,
+  parameters: Record<string, unknown> = {}
+): ReportingScheduleSettings {
+  const settings: ReportingScheduleSettings = { ...grant.reportingSchedule };
+  if (
+    typeof parameters.frequency === 'string' &&
+    monthsInPeriod(parameters.frequency as PeriodType)
+  ) {
+    settings.frequency = parameters.frequency as PeriodType;
+  }
+  for (const key of ['lagDays', 'fiscalYearStartMonth', 'graceBusinessDays'] as const) {
+    if (typeof parameters[key] === 'number') {
+      settings[key] = parameters[key] as number;
+    }
+  }
+  return settings;
+}
+
+function endOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setUTCHours(23, 59, 59, 999);
+  return result;
+}
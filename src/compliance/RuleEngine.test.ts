@@ -0,0 +1,261 @@
+import { ComplianceRequirement, Grant } from '../models/Grant';
+import { BUILT_IN_OPERATORS, ComplianceRuleEngine, Condition } from './RuleEngine';
+
+const asOf = new Date('2024-06-30');
+
+const grant = new Grant({
+  id: 'GR-1',
+  title: 'Clinic outreach',
+  grantNumber: 'HRSA-24-001',
+  totalFunding: 100000,
+  startDate: new Date('2024-01-01'),
+  endDate: new Date('2024-12-31'),
+  tags: ['health', 'rural'],
+  expenditures: [
+    {
+      id: 'EXP-1',
+      date: new Date('2024-02-01'),
+      category: 'Travel',
+      description: '',
+      amount: 300,
+      status: 'approved',
+    },
+    {
+      id: 'EXP-2',
+      date: new Date('2024-03-01'),
+      category: 'Supplies',
+      description: '',
+      amount: 700,
+      status: 'approved',
+    },
+    {
+      id: 'EXP-3',
+      date: new Date('2024-04-01'),
+      category: 'Supplies',
+      description: '',
+      amount: 5000,
+      status: 'pending',
+    },
+  ],
+});
+
+function requirement(
+  condition?: Condition,
+  overrides: Partial<ComplianceRequirement> = {}
+): ComplianceRequirement {
+  return {
+    id: 'REQ-1',
+    name: 'Requirement',
+    description: '',
+    type: 'custom',
+    severity: 'medium',
+    condition,
+    ...overrides,
+  };
+}
+
+describe('BUILT_IN_OPERATORS', () => {
+  const op = BUILT_IN_OPERATORS;
+
+  it('compares dates and ISO date strings by time', () => {
+    expect(op.eq(new Date('2024-01-01'), '2024-01-01')).toBe(true);
+    expect(op.lt('2024-01-01', new Date('2024-01-02'))).toBe(true);
+    expect(op.gte(5, 5)).toBe(true);
+    expect(op.gt('b', 'a')).toBe(true);
+    expect(op.gt(5, 'a')).toBe(false);
+  });
+
+  it('tests membership in lists and strings', () => {
+    expect(op.in('rural', ['urban', 'rural'])).toBe(true);
+    expect(op.notIn('rural', ['urban'])).toBe(true);
+    expect(op.contains(['health', 'rural'], 'rural')).toBe(true);
+    expect(op.contains('HRSA-24-001', '24')).toBe(true);
+    expect(op.containsAll(['health', 'rural'], ['rural', 'health'])).toBe(true);
+    expect(op.containsAll(['health'], ['rural', 'health'])).toBe(false);
+    expect(op.exists(0, undefined)).toBe(true);
+    expect(op.notExists(null, undefined)).toBe(true);
+  });
+
+  it('matches strings against safe patterns and refuses unsafe ones', () => {
+    expect(op.matches('HRSA-24-001', '^HRSA-\\d{2}-\\d{3}$')).toBe(true);
+    expect(op.matches(42, '42')).toBe(false);
+    expect(() => op.matches('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!', '^(a+)+$')).toThrow(
+      'may backtrack catastrophically'
+    );
+    expect(() => op.matches('a', 'a'.repeat(201))).toThrow('is longer than 200 characters');
+  });
+});
+
+describe('ComplianceRuleEngine', () => {
+  const engine = new ComplianceRuleEngine();
+
+  it('evaluates paths, aggregates and arithmetic against the grant', () => {
+    const approvedSpend = {
+      aggregate: 'sum' as const,
+      of: { path: 'grant.expenditures' },
+      as: 'e',
+      where: { fact: { path: 'e.status' }, operator: 'eq', value: 'approved' },
+      value: { path: 'e.amount' },
+    };
+    const result = engine.evaluate(
+      requirement(
+        {
+          all: [
+            { fact: approvedSpend, operator: 'eq', value: 1000 },
+            {
+              fact: { compute: 'divide', args: [approvedSpend, { path: 'grant.totalFunding' }] },
+              operator: 'lte',
+              value: { path: 'params.maxRate' },
+            },
+            { fact: { path: 'grant.tags' }, operator: 'contains', value: 'rural' },
+          ],
+        },
+        { parameters: { maxRate: 0.05 } }
+      ),
+      grant,
+      asOf
+    );
+
+    expect(result.status).toBe('compliant');
+    expect(result.trace.clauses?.[0]).toMatchObject({ outcome: 'passed', actual: 1000 });
+  });
+
+  it('quantifies over collections', () => {
+    const status = (condition: Condition): string =>
+      engine.evaluate(requirement(condition), grant, asOf).status;
+    const under = (amount: number): Condition => ({
+      fact: { path: 'item.amount' },
+      operator: 'lt',
+      value: amount,
+    });
+
+    expect(status({ every: { path: 'grant.expenditures' }, condition: under(1000) })).toBe(
+      'non-compliant'
+    );
+    expect(status({ some: { path: 'grant.expenditures' }, condition: under(500) })).toBe(
+      'compliant'
+    );
+    expect(status({ none: { path: 'grant.expenditures' }, condition: under(100) })).toBe(
+      'compliant'
+    );
+  });
+
+  it('skips clauses whose when condition fails, and labels them', () => {
+    const result = engine.evaluate(
+      requirement({
+        all: [
+          {
+            fact: { path: 'grant.totalFunding' },
+            operator: 'lt',
+            value: { path: 'params.cap' },
+            when: { fact: { path: 'params.cap' }, operator: 'exists' },
+          },
+          {
+            fact: { date: { path: 'grant.startDate' }, offsetDays: 30 },
+            operator: 'lt',
+            value: { path: 'now' },
+            label: 'Started a month before {{now}}',
+          },
+        ],
+      }),
+      grant,
+      asOf
+    );
+
+    expect(result.status).toBe('compliant');
+    expect(result.trace.clauses?.map((c) => c.outcome)).toEqual(['skipped', 'passed']);
+    expect(result.trace.clauses?.[1].description).toBe('Started a month before 2024-06-30');
+  });
+
+  it('gives the otherwise status when a rule does not apply', () => {
+    const gated = new ComplianceRuleEngine().use({
+      name: 'test',
+      rules: [
+        {
+          type: 'foundation-audit',
+          applies: { fact: { path: 'grant.type' }, operator: 'eq', value: 'foundation' },
+          otherwise: 'not-applicable',
+          condition: { fact: { path: 'grant.totalFunding' }, operator: 'gt', value: 0 },
+        },
+      ],
+    });
+
+    expect(
+      gated.evaluate(requirement(undefined, { type: 'foundation-audit' }), grant, asOf)
+    ).toMatchObject({
+      status: 'not-applicable',
+    });
+  });
+
+  it('uses plugin facts and operators', () => {
+    const extended = new ComplianceRuleEngine().use({
+      name: 'test',
+      facts: { pendingCount: (g) => g.expenditures.filter((e) => e.status === 'pending').length },
+      operators: { isOdd: (actual) => Number(actual) % 2 === 1 },
+    });
+
+    expect(
+      extended.evaluate(
+        requirement({ fact: { path: 'facts.pendingCount' }, operator: 'isOdd' }),
+        grant,
+        asOf
+      ).status
+    ).toBe('compliant');
+  });
+
+  it('reports unregistered types as pending', () => {
+    expect(engine.evaluate(requirement(undefined, { type: 'unknown' }), grant, asOf)).toMatchObject(
+      { status: 'pending', evidence: ['No rule registered for requirement type "unknown"'] }
+    );
+  });
+
+  describe('validation', () => {
+    it('locates structural problems', () => {
+      expect(
+        engine.validate({
+          all: [
+            { fact: { path: '' }, operator: 'approx' },
+            { every: 'x', condition: 'y' },
+          ],
+        })
+      ).toEqual([
+        expect.stringContaining('condition.all[0].operator must be one of eq'),
+        'condition.all[0].fact.path must be a non-empty string',
+        'condition.all[1].condition must be an object',
+      ]);
+    });
+
+    it('accepts only short, literal, safe patterns for matches', () => {
+      const matching = (value: unknown): string[] =>
+        engine.validate({ fact: { path: 'grant.grantNumber' }, operator: 'matches', value });
+
+      expect(matching('^HRSA-\\d{2}')).toEqual([]);
+      expect(matching('(x+x+)+y')).toEqual([
+        'condition.value may backtrack catastrophically (nested repetition)',
+      ]);
+      expect(matching('[')).toEqual(['condition.value is not a valid regular expression']);
+      expect(matching('a'.repeat(201))).toEqual(['condition.value is longer than 200 characters']);
+      expect(matching({ path: 'params.pattern' })).toEqual([
+        'condition.value must be a literal string pattern',
+      ]);
+    });
+
+    it('refuses plugins with unsafe patterns in their rules', () => {
+      expect(() =>
+        new ComplianceRuleEngine().use({
+          name: 'unsafe',
+          rules: [
+            {
+              type: 'grant-number',
+              condition: {
+                fact: { path: 'grant.grantNumber' },
+                operator: 'matches',
+                value: '(x+x+)+y',
+              },
+            },
+          ],
+        })
+      ).toThrow('Rule "grant-number" in plugin unsafe is invalid');
+    });
+  });
+});
@@ -0,0 +1,724 @@
+import safeRegex from 'safe-regex2';
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import { DAY_MS, toISODate } from '../utils/dates';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * A value in a condition. JSON scalars and arrays are literals; objects read
+ * from the evaluation scope (`grant`, `requirement`, `params`, `facts`, `now`
+ * and any `as` variables), shift dates, aggregate collections or do arithmetic.
+ */
+export type Operand =
+  | string
+  | number
+  | boolean
+  | null
+  | Operand[]
+  | PathOperand
+  | DateOperand
+  | AggregateOperand
+  | ComputeOperand;
+
+export interface PathOperand {
+  /** Dot path into the scope, e.g. `grant.totalFunding` or `params.maxUtilizationRate` */
+  path: string;
+  /** Used when the path resolves to undefined or null */
+  default?: unknown;
+}
+
+export interface DateOperand {
+  date: Operand;
+  offsetDays?: number;
+}
+
+export interface AggregateOperand {
+  aggregate: 'count' | 'sum' | 'min' | 'max' | 'avg';
+  of: Operand;
+  /** Name each item is bound to in `where` and `value`; defaults to `item` */
+  as?: string;
+  where?: Condition;
+  /** Per-item value to aggregate; the item itself when omitted */
+  value?: Operand;
+}
+
+export interface ComputeOperand {
+  compute: 'add' | 'subtract' | 'multiply' | 'divide';
+  args: Operand[];
+}
+
+interface ClauseOptions {
+  /** Explanation for the trace; `{{path}}`, `{{actual}}` and `{{expected}}` are filled in */
+  label?: string;
+  /** The clause is skipped unless this holds, e.g. when an optional parameter is set */
+  when?: Condition;
+}
+
+export interface ComparisonCondition extends ClauseOptions {
+  fact: Operand;
+  operator: string;
+  value?: Operand;
+}
+
+export interface AllCondition extends ClauseOptions {
+  all: Condition[];
+}
+
+export interface AnyCondition extends ClauseOptions {
+  any: Condition[];
+}
+
+export interface NotCondition extends ClauseOptions {
+  not: Condition;
+}
+
+export type Quantifier = 'every' | 'some' | 'none';
+
+export type QuantifiedCondition = ClauseOptions & {
+  as?: string;
+  where?: Condition;
+  condition: Condition;
+} & ({ every: Operand } | { some: Operand } | { none: Operand });
+
+export type Condition =
+  ComparisonCondition | AllCondition | AnyCondition | NotCondition | QuantifiedCondition;
+
+export type ClauseOutcome = 'passed' | 'failed' | 'skipped';
+
+/** How one clause of a condition evaluated, with the values it compared. */
+export interface ClauseResult {
+  description: string;
+  outcome: ClauseOutcome;
+  actual?: unknown;
+  expected?: unknown;
+  clauses?: ClauseResult[];
+}
+
+export type RuleStatus = 'compliant' | 'non-compliant' | 'pending' | 'not-applicable';
+
+/** Declarative definition of a compliance requirement type. */
+export interface ComplianceRule {
+  type: string;
+  description?: string;
+  /** When this does not hold the requirement gets the `otherwise` status instead */
+  applies?: Condition;
+  otherwise?: Exclude<RuleStatus, 'non-compliant'>;
+  /** Holds when the requirement is met */
+  condition: Condition;
+}
+
+export type Operator = (actual: unknown, expected: unknown) => boolean;
+
+/**
+ * Derived value exposed to conditions as `facts.<name>`; computed at most once
+ * per evaluation. Facts may read the requirement's parameters.
+ */
+export type FactResolver = (
+  grant: Grant,
+  asOf: Date,
+  requirement: ComplianceRequirement
+) => unknown;
+
+/** Bundle of rule types, facts and operators registered together. */
+export interface ComplianceRulePlugin {
+  name: string;
+  rules?: ComplianceRule[];
+  facts?: Record<string, FactResolver>;
+  operators?: Record<string, Operator>;
+}
+
+export interface RuleEvaluation {
+  ruleType: string;
+  status: RuleStatus;
+  evidence: string[];
+  trace: ClauseResult;
+}
+
+type Scope = Record<string, unknown>;
+
+const QUANTIFIERS: Quantifier[] = ['every', 'some', 'none'];
+const AGGREGATES = ['count', 'sum', 'min', 'max', 'avg'];
+const COMPUTATIONS = ['add', 'subtract', 'multiply', 'divide'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+/** Longest pattern the `matches` operator accepts */
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Why a `matches` pattern is refused, or null when it may be used. Rules and
+ * requirements come from API clients, so patterns open to catastrophic
+ * backtracking are rejected before they are ever run.
+ */
+function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'is not a valid regular expression';
+  }
+  return safeRegex(pattern) ? null : 'may backtrack catastrophically (nested repetition)';
+}
+
+function matchesPattern(actual: unknown, expected: unknown): boolean {
+  const pattern = String(expected);
+  const problem = patternProblem(pattern);
+  if (problem) {
+    throw new ValidationError(`Pattern "${pattern}" ${problem}`);
+  }
+  return typeof actual === 'string' && new RegExp(pattern).test(actual);
+}
+
+/** Dates and ISO date strings compare by timestamp; everything else as is. */
+function comparable(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? value : time;
+  }
+  return value;
+}
+
+function ordered(actual: unknown, expected: unknown, test: (a: number) => boolean): boolean {
+  const a = comparable(actual);
+  const b = comparable(expected);
+  if (typeof a === 'number' && typeof b === 'number') {
+    return test(a - b);
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return test(a.localeCompare(b));
+  }
+  return false;
+}
+
+function equal(actual: unknown, expected: unknown): boolean {
+  return comparable(actual) === comparable(expected);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export const BUILT_IN_OPERATORS: Record<string, Operator> = {
+  eq: equal,
+  ne: (actual, expected) => !equal(actual, expected),
+  gt: (actual, expected) => ordered(actual, expected, (d) => d > 0),
+  gte: (actual, expected) => ordered(actual, expected, (d) => d >= 0),
+  lt: (actual, expected) => ordered(actual, expected, (d) => d < 0),
+  lte: (actual, expected) => ordered(actual, expected, (d) => d <= 0),
+  in: (actual, expected) => asArray(expected).some((item) => equal(actual, item)),
+  notIn: (actual, expected) => !asArray(expected).some((item) => equal(actual, item)),
+  contains: (actual, expected) =>
+    typeof actual === 'string'
+      ? actual.includes(String(expected))
+      : asArray(actual).some((item) => equal(item, expected)),
+  containsAll: (actual, expected) =>
+    asArray(expected).every((wanted) => asArray(actual).some((item) => equal(item, wanted))),
+  exists: (actual) => actual !== undefined && actual !== null,
+  notExists: (actual) => actual === undefined || actual === null,
+  matches: matchesPattern,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function format(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'none';
+  }
+  if (value instanceof Date) {
+    return toISODate(value);
+  }
+  if (typeof value === 'number') {
+    return String(Number(value.toFixed(3)));
+  }
+  if (Array.isArray(value)) {
+    return value.map(format).join(', ');
+  }
+  return isObject(value) ? JSON.stringify(value) : String(value);
+}
+
+function readPath(scope: Scope, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        isObject(current) || Array.isArray(current)
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      scope
+    );
+}
+
+function quantifierOf(condition: QuantifiedCondition): [Quantifier, Operand] {
+  const quantifier = QUANTIFIERS.find((q) => q in condition) as Quantifier;
+  return [quantifier, (condition as unknown as Record<Quantifier, Operand>)[quantifier]];
+}
+
+/**
+ * Evaluates compliance requirements against declarative rules. Each
+ * requirement type maps to a registered ComplianceRule; a requirement may
+ * also carry its own `condition`, which replaces the rule's condition (or
+ * defines a custom type on its own). Every evaluation returns the full clause
+ * trace so reviewers can see why a requirement passed or failed.
+ */
+export class ComplianceRuleEngine {
+  private readonly rules = new Map<string, ComplianceRule>();
+  private readonly facts = new Map<string, FactResolver>();
+  private readonly operators = new Map<string, Operator>(Object.entries(BUILT_IN_OPERATORS));
+  private readonly plugins: string[] = [];
+  private readonly labelled = new WeakSet<ClauseResult>();
+
+  /** Registers a plugin's operators, facts and rules; later registrations replace earlier ones. */
+  use(plugin: ComplianceRulePlugin): this {
+    for (const [name, operator] of Object.entries(plugin.operators || {})) {
+      this.operators.set(name, operator);
+    }
+    for (const [name, resolver] of Object.entries(plugin.facts || {})) {
+      this.facts.set(name, resolver);
+    }
+    for (const rule of plugin.rules || []) {
+      const problems = [
+        ...(typeof rule.type === 'string' && rule.type ? [] : ['type must be a non-empty string']),
+        ...(rule.applies ? this.validate(rule.applies, 'applies') : []),
+        ...(rule.otherwise && !['compliant', 'pending', 'not-applicable'].includes(rule.otherwise)
+          ? ['otherwise must be compliant, pending or not-applicable']
+          : []),
+        ...this.validate(rule.condition),
+      ];
+      if (problems.length > 0) {
+        throw new ValidationError(
+          `Rule "${rule.type}" in plugin ${plugin.name} is invalid: ${problems.join('; ')}`
+        );
+      }
+      this.rules.set(rule.type, rule);
+    }
+    this.plugins.push(plugin.name);
+    return this;
+  }
+
+  pluginNames(): string[] {
+    return [...this.plugins];
+  }
+
+  ruleTypes(): string[] {
+    return [...this.rules.keys()];
+  }
+
+  getRule(type: string): ComplianceRule | undefined {
+    return this.rules.get(type);
+  }
+
+  /** Problems that stop a requirement from being evaluated: it needs a registered type or a valid condition. */
+  validateRequirement(requirement: unknown): string[] {
+    const { type, condition } = (isObject(requirement) ? requirement : {}) as {
+      type?: unknown;
+      condition?: unknown;
+    };
+    if (typeof type !== 'string' || !type) {
+      return ['Compliance requirement type is required'];
+    }
+    if (condition !== undefined) {
+      return this.validate(condition);
+    }
+    return this.rules.has(type)
+      ? []
+      : [
+          `Unknown requirement type "${type}"; use one of ${this.ruleTypes().join(', ')} or give a condition`,
+        ];
+  }
+
+  /** Structural problems in a condition, each prefixed with where it occurs; empty when valid. */
+  validate(condition: unknown, at = 'condition'): string[] {
+    if (!isObject(condition)) {
+      return [`${at} must be an object`];
+    }
+    const problems: string[] = [];
+    if (condition.when !== undefined) {
+      problems.push(...this.validate(condition.when, `${at}.when`));
+    }
+    if (condition.label !== undefined && typeof condition.label !== 'string') {
+      problems.push(`${at}.label must be a string`);
+    }
+
+    const quantifier = QUANTIFIERS.find((q) => q in condition);
+    if ('all' in condition || 'any' in condition) {
+      const key = 'all' in condition ? 'all' : 'any';
+      const clauses = condition[key];
+      if (!Array.isArray(clauses)) {
+        problems.push(`${at}.${key} must be an array`);
+      } else {
+        clauses.forEach((clause, i) =>
+          problems.push(...this.validate(clause, `${at}.${key}[${i}]`))
+        );
+      }
+    } else if ('not' in condition) {
+      problems.push(...this.validate(condition.not, `${at}.not`));
+    } else if (quantifier) {
+      problems.push(...this.validateOperand(condition[quantifier], `${at}.${quantifier}`));
+      if (condition.where !== undefined) {
+        problems.push(...this.validate(condition.where, `${at}.where`));
+      }
+      problems.push(...this.validate(condition.condition, `${at}.condition`));
+    } else if ('fact' in condition) {
+      if (typeof condition.operator !== 'string' || !this.operators.has(condition.operator)) {
+        problems.push(`${at}.operator must be one of ${[...this.operators.keys()].join(', ')}`);
+      }
+      problems.push(...this.validateOperand(condition.fact, `${at}.fact`));
+      if (condition.value !== undefined) {
+        problems.push(...this.validateOperand(condition.value, `${at}.value`));
+      }
+      if (condition.operator === 'matches') {
+        const problem =
+          typeof condition.value === 'string'
+            ? patternProblem(condition.value)
+            : 'must be a literal string pattern';
+        if (problem) {
+          problems.push(`${at}.value ${problem}`);
+        }
+      }
+    } else {
+      problems.push(`${at} must have one of all, any, not, every, some, none or fact`);
+    }
+    return problems;
+  }
+
+  /** Evaluates one requirement against the grant as of the given date. */
+  evaluate(
+    requirement: ComplianceRequirement,
+    grant: Grant,
+    asOf: Date = new Date()
+  ): RuleEvaluation {
+    const rule = this.rules.get(requirement.type);
+    const condition = requirement.condition || rule?.condition;
+    const ruleType = requirement.condition
+      ? `${requirement.type} (custom condition)`
+      : requirement.type;
+    if (!condition) {
+      const description = `No rule registered for requirement type "${requirement.type}"`;
+      return {
+        ruleType,
+        status: 'pending',
+        evidence: [description],
+        trace: { description, outcome: 'skipped' },
+      };
+    }
+
+    const scope = this.createScope(requirement, grant, asOf);
+    try {
+      if (rule?.applies) {
+        const gate = this.evaluateCondition(rule.applies, scope);
+        if (gate.outcome === 'failed') {
+          return {
+            ruleType,
+            status: rule.otherwise || 'pending',
+            evidence: this.evidence(gate).map((line) =>
+              line.replace(/^Not met: /, 'Not applied: ')
+            ),
+            trace: gate,
+          };
+        }
+      }
+
+      const trace = this.evaluateCondition(condition, scope);
+      return {
+        ruleType,
+        status: trace.outcome === 'failed' ? 'non-compliant' : 'compliant',
+        evidence: this.evidence(trace),
+        trace,
+      };
+    } catch (error) {
+      const description = `Could not evaluate requirement: ${error instanceof Error ? error.message : String(error)}`;
+      return {
+        ruleType,
+        status: 'pending',
+        evidence: [description],
+        trace: { description, outcome: 'skipped' },
+      };
+    }
+  }
+
+  /**
+   * Resolves an operand against a caller-built scope, for expressions outside
+   * requirements such as derived KPIs. Custom operators are available to its
+   * `where` conditions.
+   */
+  evaluateOperand(operand: Operand, scope: Record<string, unknown>): unknown {
+    return this.resolve(operand, scope);
+  }
+
+  private createScope(requirement: ComplianceRequirement, grant: Grant, asOf: Date): Scope {
+    const facts: Record<string, unknown> = {};
+    for (const [name, resolve] of this.facts) {
+      let cached: { value: unknown } | undefined;
+      Object.defineProperty(facts, name, {
+        enumerable: true,
+        get: () => (cached ??= { value: resolve(grant, asOf, requirement) }).value,
+      });
+    }
+    return { grant, requirement, params: requirement.parameters || {}, facts, now: asOf };
+  }
+
+  private evaluateCondition(condition: Condition, scope: Scope): ClauseResult {
+    const result = this.evaluateClause(condition, scope);
+    if (condition.label) {
+      this.labelled.add(result);
+    }
+    return result;
+  }
+
+  private evaluateClause(condition: Condition, scope: Scope): ClauseResult {
+    if (condition.when && this.evaluateCondition(condition.when, scope).outcome === 'failed') {
+      return { description: this.describe(condition, scope), outcome: 'skipped' };
+    }
+
+    if ('all' in condition || 'any' in condition) {
+      const clauses = ('all' in condition ? condition.all : condition.any).map((c) =>
+        this.evaluateCondition(c, scope)
+      );
+      const counted = clauses.filter((c) => c.outcome !== 'skipped');
+      const passed =
+        'all' in condition
+          ? counted.every((c) => c.outcome === 'passed')
+          : counted.some((c) => c.outcome === 'passed');
+      return {
+        description: this.describe(condition, scope),
+        outcome: counted.length === 0 ? 'skipped' : passed ? 'passed' : 'failed',
+        clauses,
+      };
+    }
+
+    if ('not' in condition) {
+      const inner = this.evaluateCondition(condition.not, scope);
+      const outcomes: Record<ClauseOutcome, ClauseOutcome> = {
+        passed: 'failed',
+        failed: 'passed',
+        skipped: 'skipped',
+      };
+      return {
+        description: this.describe(condition, scope),
+        outcome: outcomes[inner.outcome],
+        clauses: [inner],
+      };
+    }
+
+    if ('fact' in condition) {
+      const operator = this.operators.get(condition.operator);
+      if (!operator) {
+        throw new ValidationError(`Unknown operator "${condition.operator}"`);
+      }
+      const actual = this.resolve(condition.fact, scope);
+      const expected =
+        condition.value === undefined ? undefined : this.resolve(condition.value, scope);
+      return {
+        description: this.describe(condition, scope, actual, expected),
+        outcome: operator(actual, expected) ? 'passed' : 'failed',
+        actual,
+        expected,
+      };
+    }
+
+    const [quantifier, collection] = quantifierOf(condition);
+    const clauses = this.items(collection, condition.as, condition.where, scope).map((itemScope) =>
+      this.evaluateCondition(condition.condition, itemScope)
+    );
+    const passedCount = clauses.filter((c) => c.outcome === 'passed').length;
+    const failedCount = clauses.filter((c) => c.outcome === 'failed').length;
+    const passed =
+      quantifier === 'every'
+        ? failedCount === 0
+        : quantifier === 'some'
+          ? passedCount > 0
+          : passedCount === 0;
+    return {
+      description: this.describe(condition, scope),
+      outcome: passed ? 'passed' : 'failed',
+      clauses,
+    };
+  }
+
+  /** Scopes binding each item of a collection that matches `where`. */
+  private items(
+    collection: Operand,
+    as = 'item',
+    where: Condition | undefined,
+    scope: Scope
+  ): Scope[] {
+    const items = this.resolve(collection, scope) ?? [];
+    if (!Array.isArray(items)) {
+      throw new ValidationError(`${this.operandText(collection)} is not a list`);
+    }
+    return items
+      .map((item: unknown) => ({ ...scope, [as]: item }))
+      .filter(
+        (itemScope) => !where || this.evaluateCondition(where, itemScope).outcome !== 'failed'
+      );
+  }
+
+  private resolve(operand: Operand, scope: Scope): unknown {
+    if (operand === null || typeof operand !== 'object') {
+      return operand;
+    }
+    if (Array.isArray(operand)) {
+      return operand.map((o) => this.resolve(o, scope));
+    }
+    if ('path' in operand) {
+      return readPath(scope, operand.path) ?? operand.default;
+    }
+    if ('date' in operand) {
+      const value = this.resolve(operand.date, scope);
+      const date =
+        value instanceof Date || typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        return undefined;
+      }
+      return new Date(date.getTime() + (operand.offsetDays || 0) * DAY_MS);
+    }
+    if ('aggregate' in operand) {
+      const itemScopes = this.items(operand.of, operand.as, operand.where, scope);
+      if (operand.aggregate === 'count') {
+        return itemScopes.length;
+      }
+      const as = operand.as || 'item';
+      const values = itemScopes
+        .map((itemScope) =>
+          operand.value === undefined ? itemScope[as] : this.resolve(operand.value, itemScope)
+        )
+        .map(Number)
+        .filter(Number.isFinite);
+      const sum = values.reduce((total, v) => total + v, 0);
+      switch (operand.aggregate) {
+        case 'sum':
+          return sum;
+        case 'avg':
+          return values.length > 0 ? sum / values.length : undefined;
+        case 'min':
+          return values.length > 0 ? Math.min(...values) : undefined;
+        case 'max':
+          return values.length > 0 ? Math.max(...values) : undefined;
+      }
+    }
+    if ('compute' in operand) {
+      const args = operand.args.map((arg) => Number(this.resolve(arg, scope)));
+      if (args.length === 0 || !args.every(Number.isFinite)) {
+        return undefined;
+      }
+      const [first, ...rest] = args;
+      switch (operand.compute) {
+        case 'add':
+          return args.reduce((total, v) => total + v, 0);
+        case 'subtract':
+          return rest.reduce((total, v) => total - v, first);
+        case 'multiply':
+          return args.reduce((total, v) => total * v, 1);
+        case 'divide':
+          return rest.includes(0) ? undefined : rest.reduce((total, v) => total / v, first);
+      }
+    }
+    throw new ValidationError(`Unrecognised operand ${JSON.stringify(operand)}`);
+  }
+
+  /** Structural problems in an operand, each prefixed with where it occurs; empty when valid. */
+  validateOperand(operand: unknown, at = 'operand'): string[] {
+    if (operand === null || typeof operand !== 'object') {
+      return [];
+    }
+    if (Array.isArray(operand)) {
+      return operand.flatMap((o, i) => this.validateOperand(o, `${at}[${i}]`));
+    }
+    const o = operand as Record<string, unknown>;
+    if ('path' in o) {
+      return typeof o.path === 'string' && o.path ? [] : [`${at}.path must be a non-empty string`];
+    }
+    if ('date' in o) {
+      return this.validateOperand(o.date, `${at}.date`);
+    }
+    if ('aggregate' in o) {
+      return [
+        ...(AGGREGATES.includes(String(o.aggregate))
+          ? []
+          : [`${at}.aggregate must be one of ${AGGREGATES.join(', ')}`]),
+        ...this.validateOperand(o.of, `${at}.of`),
+        ...(o.where === undefined ? [] : this.validate(o.where, `${at}.where`)),
+        ...(o.value === undefined ? [] : this.validateOperand(o.value, `${at}.value`)),
+      ];
+    }
+    if ('compute' in o) {
+      return [
+        ...(COMPUTATIONS.includes(String(o.compute))
+          ? []
+          : [`${at}.compute must be one of ${COMPUTATIONS.join(', ')}`]),
+        ...(Array.isArray(o.args)
+          ? o.args.flatMap((arg, i) => this.validateOperand(arg, `${at}.args[${i}]`))
+          : [`${at}.args must be an array`]),
+      ];
+    }
+    return [`${at} must be a literal or have one of path, date, aggregate or compute`];
+  }
+
+  private describe(
+    condition: Condition,
+    scope: Scope,
+    actual?: unknown,
+    expected?: unknown
+  ): string {
+    if (condition.label) {
+      return condition.label.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) =>
+        format(path === 'actual' ? actual : path === 'expected' ? expected : readPath(scope, path))
+      );
+    }
+    if ('all' in condition) {
+      return 'All of';
+    }
+    if ('any' in condition) {
+      return 'Any of';
+    }
+    if ('not' in condition) {
+      return 'Not';
+    }
+    if ('fact' in condition) {
+      const value = condition.value === undefined ? '' : ` ${this.operandText(condition.value)}`;
+      return `${this.operandText(condition.fact)} ${condition.operator}${value} (actual ${format(actual)}${
+        condition.value === undefined ? '' : `, expected ${format(expected)}`
+      })`;
+    }
+    const [quantifier, collection] = quantifierOf(condition);
+    const subject: Record<Quantifier, string> = { every: 'Every', some: 'Some', none: 'No' };
+    return `${subject[quantifier]} item of ${this.operandText(collection)}`;
+  }
+
+  private operandText(operand: Operand): string {
+    if (!isObject(operand)) {
+      return JSON.stringify(operand);
+    }
+    if ('path' in operand) {
+      return String(operand.path);
+    }
+    if ('aggregate' in operand) {
+      return `${String(operand.aggregate)}(${this.operandText(operand.of as Operand)})`;
+    }
+    if ('compute' in operand) {
+      return `${String(operand.compute)}(${(operand.args as Operand[]).map((a) => this.operandText(a)).join(', ')})`;
+    }
+    return JSON.stringify(operand);
+  }
+
+  /**
+   * Evidence lines for a trace: a labelled clause or a comparison stands for
+   * itself, unlabelled combinators contribute their children. Skipped clauses
+   * are left out.
+   */
+  private evidence(result: ClauseResult): string[] {
+    if (result.outcome === 'skipped') {
+      return [];
+    }
+    if (this.labelled.has(result) || !result.clauses) {
+      return [result.outcome === 'failed' ? `Not met: ${result.description}` : result.description];
+    }
+    return result.clauses.flatMap((c) => this.evidence(c));
+  }
+}
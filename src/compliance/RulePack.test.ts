@@ -0,0 +1,120 @@
+import { getComplianceRuleEngine } from '.';
+import { Grant } from '../models/Grant';
+import { ValidationError } from '../utils/errors';
+import {
+  compareVersions,
+  resolveRequirements,
+  RulePack,
+  RulePackSettings,
+  selectPacks,
+  shippedRulePacks,
+} from './RulePack';
+
+function pack(version: string, overrides: Partial<RulePack> = {}): RulePack {
+  return {
+    id: 'audit',
+    name: 'Audit',
+    version,
+    grantTypes: ['federal'],
+    requirements: [
+      {
+        id: 'single-audit',
+        name: `Single audit ${version}`,
+        description: '',
+        type: 'financial',
+        severity: 'high',
+        parameters: { threshold: 750000, basis: 'expended' },
+      },
+      { id: 'records', name: 'Records', description: '', type: 'documentation', severity: 'low' },
+    ],
+    ...overrides,
+  };
+}
+
+function grant(overrides: { rulePacks?: RulePackSettings; tags?: string[] } = {}): Grant {
+  return new Grant({
+    id: 'GR-1',
+    type: 'federal',
+    complianceRequirements: [
+      { id: 'own', name: 'Own', description: '', type: 'reporting', severity: 'medium' },
+    ],
+    ...overrides,
+  });
+}
+
+describe('compareVersions', () => {
+  it('orders dotted versions numerically', () => {
+    expect(['1.10.0', '1.9.2', '2', '1.9'].sort(compareVersions)).toEqual([
+      '1.9',
+      '1.9.2',
+      '1.10.0',
+      '2',
+    ]);
+    expect(compareVersions('1.0', '1.0.0')).toBe(0);
+  });
+});
+
+describe('selectPacks', () => {
+  const packs = [
+    pack('1.10.0'),
+    pack('1.9.0'),
+    pack('1.0.0', { id: 'tagged', grantTypes: [], tags: ['rural'] }),
+  ];
+
+  it('picks the latest version of each pack attached by grant type or tag', () => {
+    expect(selectPacks(grant(), packs).map((p) => `${p.id}@${p.version}`)).toEqual([
+      'audit@1.10.0',
+    ]);
+    expect(selectPacks(grant({ tags: ['rural'] }), packs).map((p) => p.id)).toEqual([
+      'audit',
+      'tagged',
+    ]);
+  });
+
+  it('honours pinned versions and rejects pins to unknown versions', () => {
+    expect(
+      selectPacks(grant({ rulePacks: { pinnedVersions: { audit: '1.9.0' } } }), packs)[0].version
+    ).toBe('1.9.0');
+    expect(() =>
+      selectPacks(grant({ rulePacks: { pinnedVersions: { audit: '3.0.0' } } }), packs)
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('resolveRequirements', () => {
+  it('appends pack requirements with prefixed IDs, the pack version and grant overrides', () => {
+    const requirements = resolveRequirements(
+      grant({
+        rulePacks: {
+          overrides: {
+            'audit/single-audit': { severity: 'medium', parameters: { threshold: 1000000 } },
+            'audit/records': { disabled: true },
+          },
+        },
+      }),
+      [pack('1.0.0')]
+    );
+
+    expect(requirements.map((r) => r.id)).toEqual(['own', 'audit/single-audit']);
+    expect(requirements[1]).toMatchObject({
+      severity: 'medium',
+      parameters: { threshold: 1000000, basis: 'expended' },
+      pack: { id: 'audit', name: 'Audit', version: '1.0.0' },
+    });
+  });
+});
+
+describe('shippedRulePacks', () => {
+  it('loads every shipped pack version, with requirements the engine accepts', () => {
+    const packs = shippedRulePacks();
+
+    expect(packs.length).toBeGreaterThan(0);
+    for (const shipped of packs) {
+      expect(shipped.builtIn).toBe(true);
+      expect(shipped.version).toMatch(/^\d+(\.\d+)*$/);
+      for (const requirement of shipped.requirements) {
+        expect(getComplianceRuleEngine().validateRequirement(requirement)).toEqual([]);
+      }
+    }
+  });
+});
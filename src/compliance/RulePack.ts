@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { ComplianceRequirement, Grant, GrantType } from '../models/Grant';
+import { ValidationError } from '../utils/errors';
+
+const SHIPPED_PACKS_PATH = path.resolve(__dirname, '../../sample-data/rule-packs');
+
+export interface RulePackReference {
+  id: string;
+  name: string;
+  version: string;
+}
+
+/**
+ * A versioned set of compliance requirements shared by many grants, such as
+ * the federal Uniform Guidance. A pack attaches to every grant whose type is
+ * in `grantTypes` or that carries one of `tags`.
+ */
+export interface RulePack {
+  id: string;
+  name: string;
+  /** Dotted numeric version such as 1.2.0; a published version never changes */
+  version: string;
+  description?: string;
+  grantTypes?: GrantType[];
+  tags?: string[];
+  requirements: ComplianceRequirement[];
+  /** Shipped with the application rather than published through the API */
+  builtIn?: boolean;
+  publishedBy?: string;
+  publishedAt?: Date;
+}
+
+/** Per-grant change to one pack requirement. */
+export interface RequirementOverride {
+  severity?: ComplianceRequirement['severity'];
+  /** Merged over the pack requirement's parameters */
+  parameters?: Record<string, unknown>;
+  applicableFrom?: Date;
+  dueDate?: Date;
+  /** Leaves the requirement out of the grant's assessment */
+  disabled?: boolean;
+}
+
+export interface RulePackSettings {
+  /** Version to assess against instead of the latest, by pack ID */
+  pinnedVersions?: Record<string, string>;
+  /** Keyed by the resolved requirement ID, `<packId>/<requirementId>` */
+  overrides?: Record<string, RequirementOverride>;
+}
+
+/** Orders dotted numeric versions, so that 1.10.0 sorts after 1.9.2. */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+export function packReference(pack: RulePack): RulePackReference {
+  return { id: pack.id, name: pack.name, version: pack.version };
+}
+
+export function packApplies(pack: RulePack, grant: Grant): boolean {
+  return (
+    (pack.grantTypes || []).includes(grant.type) ||
+    (pack.tags || []).some((tag) => grant.tags.includes(tag))
+  );
+}
+
+/**
+ * The version of each pack attached to the grant that it is assessed against:
+ * the pinned version when the grant pins one, otherwise the latest.
+ */
+export function selectPacks(grant: Grant, packs: RulePack[]): RulePack[] {
+  const versions = new Map<string, RulePack[]>();
+  for (const pack of packs) {
+    versions.set(pack.id, [...(versions.get(pack.id) || []), pack]);
+  }
+
+  const selected: RulePack[] = [];
+  for (const [packId, candidates] of versions) {
+    const pinned = grant.rulePacks?.pinnedVersions?.[packId];
+    const pack = pinned
+      ? candidates.find((p) => p.version === pinned)
+      : [...candidates].sort((a, b) => compareVersions(b.version, a.version))[0];
+    if (!pack) {
+      throw new ValidationError(
+        `Grant ${grant.id} pins rule pack ${packId} to version ${pinned}, which does not exist`
+      );
+    }
+    if (packApplies(pack, grant)) {
+      selected.push(pack);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Requirements to assess a grant against: its own, followed by those of its
+ * attached packs with the grant's overrides applied. Pack requirement IDs are
+ * prefixed with the pack ID and each carries the pack version it came from.
+ */
+export function resolveRequirements(grant: Grant, packs: RulePack[]): ComplianceRequirement[] {
+  const overrides = grant.rulePacks?.overrides || {};
+  const requirements = [...grant.complianceRequirements];
+
+  for (const pack of selectPacks(grant, packs)) {
+    for (const requirement of pack.requirements) {
+      const id = `${pack.id}/${requirement.id}`;
+      const override = overrides[id] || {};
+      if (override.disabled) {
+        continue;
+      }
+      requirements.push({
+        ...requirement,
+        id,
+        severity: override.severity || requirement.severity,
+        applicableFrom: override.applicableFrom || requirement.applicableFrom,
+        dueDate: override.dueDate || requirement.dueDate,
+        parameters: { ...requirement.parameters, ...override.parameters },
+        pack: packReference(pack),
+      });
+    }
+  }
+  return requirements;
+}
+
+/** Reads one pack version from each YAML or JSON file in a directory. */
+export function loadRulePacks(directory: string): RulePack[] {
+  return fs
+    .readdirSync(directory)
+    .filter((file) => /\.(ya?ml|json)$/i.test(file))
+    .sort()
+    .map((file) => {
+      const filePath = path.join(directory, file);
+      const text = fs.readFileSync(filePath, 'utf8');
+      const pack = (/\.json$/i.test(file) ? JSON.parse(text) : yaml.load(text)) as RulePack;
+      if (!pack?.id || !pack.version || !Array.isArray(pack.requirements)) {
+        throw new ValidationError(`Rule pack file ${filePath} needs id, version and requirements`);
+      }
+      return { ...pack, version: String(pack.version), builtIn: true };
+    });
+}
+
+let shippedPacks: RulePack[] | null = null;
+
+/** Packs shipped in RULE_PACKS_PATH, or sample-data/rule-packs; read once. */
+export function shippedRulePacks(): RulePack[] {
+  if (!shippedPacks) {
+    shippedPacks = loadRulePacks(process.env.RULE_PACKS_PATH || SHIPPED_PACKS_PATH);
+  }
+  return shippedPacks;
+}
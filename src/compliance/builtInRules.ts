@@ -0,0 +1,261 @@
+import { deadlineCalendarFor } from '../calendar';
+import { findCategory, totalBudget, unapprovedTransferAmount } from '../models/Budget';
+import type { Grant } from '../models/Grant';
+import { kpiAchievement } from '../models/KPI';
+import { FinancialMetrics } from '../metrics/FinancialMetrics';
+import { reportingStatus, scheduleSettings } from './ReportingSchedule';
+import type { ComplianceRule, ComplianceRulePlugin, Condition } from './RuleEngine';
+
+function approvedSpend(grant: Grant): number {
+  return grant.expenditures
+    .filter((e) => e.status === 'approved')
+    .reduce((sum, e) => sum + grant.getAmountInGrantCurrency(e), 0);
+}
+
+/**
+ * Transfers between budget categories without grantor approval, as a share of
+ * the total budget. Spending over a category's budget counts as an unapproved
+ * transfer into it.
+ */
+function rebudgetRate(grant: Grant): number | undefined {
+  const budget = grant.budget;
+  if (!budget || budget.categories.length === 0) {
+    return undefined;
+  }
+
+  const spentByCategory = new Map<string, number>();
+  for (const expenditure of grant.expenditures.filter((e) => e.status === 'approved')) {
+    const name = findCategory(budget, expenditure.category)?.name;
+    if (name) {
+      spentByCategory.set(
+        name,
+        (spentByCategory.get(name) || 0) + grant.getAmountInGrantCurrency(expenditure)
+      );
+    }
+  }
+  const overspend = budget.categories.reduce(
+    (sum, c) => sum + Math.max((spentByCategory.get(c.name) || 0) - c.amount, 0),
+    0
+  );
+
+  const total = totalBudget(budget);
+  return total > 0 ? (unapprovedTransferAmount(budget) + overspend) / total : 0;
+}
+
+const approvedDocument: Condition = {
+  label: 'Document "{{doc}}" submitted and approved',
+  fact: {
+    aggregate: 'count',
+    of: { path: 'grant.documents', default: [] },
+    as: 'document',
+    where: {
+      all: [
+        { fact: { path: 'document.type' }, operator: 'eq', value: { path: 'doc' } },
+        { fact: { path: 'document.status' }, operator: 'eq', value: 'approved' },
+      ],
+    },
+  },
+  operator: 'gt',
+  value: 0,
+};
+
+const requiredDocumentsApproved: Condition = {
+  every: { path: 'params.requiredDocuments', default: [] },
+  as: 'doc',
+  condition: approvedDocument,
+};
+
+const reportSubmittedByDueDate: Condition = {
+  label: 'Report "{{params.reportType}}" submitted by {{facts.deadline.date}}',
+  some: { path: 'grant.reports', default: [] },
+  as: 'report',
+  condition: {
+    all: [
+      { fact: { path: 'report.type' }, operator: 'eq', value: { path: 'params.reportType' } },
+      {
+        fact: { path: 'report.submissionDate' },
+        operator: 'lte',
+        value: { path: 'facts.deadline.dueAt' },
+      },
+      {
+        when: { fact: { path: 'params.requiredSections' }, operator: 'exists' },
+        label: 'Report includes sections {{expected}}',
+        fact: { path: 'report.sections', default: [] },
+        operator: 'containsAll',
+        value: { path: 'params.requiredSections' },
+      },
+    ],
+  },
+};
+
+const dueDatePassed: Condition = {
+  label: 'Due date ({{facts.deadline.date}}) has passed',
+  fact: { path: 'facts.deadline.dueAt' },
+  operator: 'lt',
+  value: { path: 'now' },
+};
+
+/** The built-in requirement types, expressed as declarative rules. */
+export const BUILT_IN_RULE_TYPES: ComplianceRule[] = [
+  {
+    type: 'documentation',
+    description: 'Every document type in `requiredDocuments` has an approved document',
+    condition: requiredDocumentsApproved,
+  },
+  {
+    type: 'financial',
+    description:
+      'Approved spend stays within `maxUtilizationRate` of total funding; optionally requires ' +
+      '`requiredDocuments`, a `reportType` report by the due date and `minMatchingAmount` of verified match',
+    condition: {
+      all: [
+        {
+          label: 'Utilization rate ({{actual}}) within maximum ({{expected}})',
+          fact: { path: 'facts.utilizationRate' },
+          operator: 'lte',
+          value: { path: 'params.maxUtilizationRate', default: 1 },
+        },
+        {
+          when: { fact: { path: 'params.requiredDocuments' }, operator: 'exists' },
+          ...requiredDocumentsApproved,
+        },
+        {
+          when: {
+            all: [{ fact: { path: 'params.reportType' }, operator: 'exists' }, dueDatePassed],
+          },
+          ...reportSubmittedByDueDate,
+        },
+        {
+          when: { fact: { path: 'params.minMatchingAmount' }, operator: 'exists' },
+          label: 'Verified match ({{actual}}) at least {{expected}}',
+          fact: { path: 'facts.matching.secured', default: 0 },
+          operator: 'gte',
+          value: { path: 'params.minMatchingAmount' },
+        },
+      ],
+    },
+  },
+  {
+    type: 'reporting',
+    description:
+      'Once the due date has passed, a `reportType` report was submitted by it, with any `requiredSections`',
+    applies: dueDatePassed,
+    otherwise: 'compliant',
+    condition: reportSubmittedByDueDate,
+  },
+  {
+    type: 'reporting-schedule',
+    description:
+      'A `reportType` report was submitted for every period of the reporting schedule whose grace ' +
+      'period has ended, with any `requiredSections`; `frequency`, `lagDays`, `fiscalYearStartMonth` ' +
+      'and `graceBusinessDays` override the grant schedule',
+    condition: {
+      every: { path: 'facts.reportingSchedule' },
+      as: 'period',
+      where: { fact: { path: 'period.graceEndsAt' }, operator: 'lt', value: { path: 'now' } },
+      condition: {
+        all: [
+          {
+            label:
+              'Report for {{period.label}} due {{period.dueDate}} submitted within the grace period ({{actual}})',
+            fact: { path: 'period.status' },
+            operator: 'eq',
+            value: 'on-time',
+          },
+          {
+            when: {
+              all: [
+                { fact: { path: 'params.requiredSections' }, operator: 'exists' },
+                { fact: { path: 'period.report' }, operator: 'exists' },
+              ],
+            },
+            label: 'Report for {{period.label}} includes sections {{expected}}',
+            fact: { path: 'period.report.sections', default: [] },
+            operator: 'containsAll',
+            value: { path: 'params.requiredSections' },
+          },
+        ],
+      },
+    },
+  },
+  {
+    type: 'performance',
+    description:
+      'Every measured KPI reaches `minAchievementRate` of the target for its latest period',
+    condition: {
+      every: { path: 'facts.kpiAchievement', default: [] },
+      as: 'kpi',
+      condition: {
+        label:
+          'KPI "{{kpi.name}}" achievement ({{actual}}) against {{kpi.targetPeriod}} target at least {{expected}}',
+        fact: { path: 'kpi.achievement' },
+        operator: 'gte',
+        value: { path: 'params.minAchievementRate', default: 0.8 },
+      },
+    },
+  },
+  {
+    type: 'budget',
+    description: 'Transfers without grantor approval stay within `maxRebudgetRate` of the budget',
+    applies: {
+      label: 'Approved budget on file',
+      fact: { path: 'facts.rebudgetRate' },
+      operator: 'exists',
+    },
+    otherwise: 'pending',
+    condition: {
+      label:
+        'Transfers without grantor approval ({{actual}} of budget) within limit ({{expected}})',
+      fact: { path: 'facts.rebudgetRate' },
+      operator: 'lte',
+      value: { path: 'params.maxRebudgetRate', default: 0.1 },
+    },
+  },
+  {
+    type: 'matching',
+    description:
+      'Verified match keeps pace with the share of grant funds spent, within `tolerance`',
+    applies: {
+      label: 'Grant has a matching requirement',
+      fact: { path: 'grant.matchingRequirement' },
+      operator: 'gt',
+      value: 0,
+    },
+    otherwise: 'compliant',
+    condition: {
+      label:
+        'Verified match ({{facts.matching.achievementRate}} of required) lags grant spending ' +
+        '({{facts.matching.spendRatio}}) by {{actual}}, tolerance {{expected}}',
+      fact: {
+        compute: 'subtract',
+        args: [{ path: 'facts.matching.spendRatio' }, { path: 'facts.matching.achievementRate' }],
+      },
+      operator: 'lte',
+      value: { path: 'params.tolerance', default: 0 },
+    },
+  },
+];
+
+export const BUILT_IN_RULES: ComplianceRulePlugin = {
+  name: 'built-in',
+  facts: {
+    approvedSpend,
+    utilizationRate: (grant) =>
+      grant.totalFunding > 0 ? approvedSpend(grant) / grant.totalFunding : 0,
+    rebudgetRate,
+    deadline: (grant, _asOf, requirement) =>
+      requirement.dueDate ? deadlineCalendarFor(grant).normalize(requirement.dueDate) : undefined,
+    reportingSchedule: (grant, asOf, requirement) =>
+      reportingStatus(
+        grant,
+        asOf,
+        scheduleSettings(grant, requirement.parameters),
+        requirement.parameters?.reportType as string | undefined
+      ),
+    kpiAchievement: (grant, asOf) =>
+      grant.kpis.map((kpi) => kpiAchievement(kpi, asOf)).filter((a) => a.achievement !== null),
+    matching: (grant, asOf) =>
+      grant.matchingRequirement ? new FinancialMetrics().calculateMatching(grant, asOf) : undefined,
+  },
+  rules: BUILT_IN_RULE_TYPES,
+};
@@ -0,0 +1,96 @@
+import { deadlineCalendarFor } from '../calendar';
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import { reportingStatus, scheduleSettings } from './ReportingSchedule';
+
+export type DeadlineKind = 'report' | 'requirement' | 'milestone';
+
+export interface GrantDeadline {
+  /** Stable across recalculation: `<grantId>/<kind>/<source ID>` */
+  id: string;
+  grantId: string;
+  grantNumber: string;
+  grantTitle: string;
+  kind: DeadlineKind;
+  title: string;
+  /** Business day the deadline falls on */
+  date: Date;
+  /** End of that day in the grant's time zone */
+  dueAt: Date;
+  /** The nominal date, when it fell on a weekend or holiday and was moved */
+  rolledFrom?: Date;
+  timeZone: string;
+  /** Report or milestone status, where the deadline tracks one */
+  status?: string;
+}
+
+/**
+ * Every deadline of a grant, normalized by its deadline calendar: report due
+ * dates from the reporting schedule, requirement due dates and open
+ * milestones. Reports come from `reporting-schedule` requirements, or the
+ * grant's own schedule when it has none.
+ */
+export function grantDeadlines(
+  grant: Grant,
+  requirements: ComplianceRequirement[],
+  asOf: Date = new Date()
+): GrantDeadline[] {
+  const calendar = deadlineCalendarFor(grant);
+  const base = {
+    grantId: grant.id,
+    grantNumber: grant.grantNumber,
+    grantTitle: grant.title,
+    timeZone: calendar.timeZone,
+  };
+  const deadlines: GrantDeadline[] = [];
+
+  const scheduled = requirements.filter((r) => r.type === 'reporting-schedule');
+  const schedules = scheduled.length
+    ? scheduled.map((r) => ({
+        id: r.id,
+        name: r.name,
+        periods: reportingStatus(
+          grant,
+          asOf,
+          scheduleSettings(grant, r.parameters),
+          r.parameters?.reportType as string | undefined
+        ),
+      }))
+    : [{ id: 'schedule', name: 'Report', periods: reportingStatus(grant, asOf) }];
+  for (const schedule of schedules) {
+    for (const period of schedule.periods) {
+      deadlines.push({
+        ...base,
+        id: `${grant.id}/report/${schedule.id}/${period.label}`,
+        kind: 'report',
+        title: `${schedule.name} — ${period.label}`,
+        date: period.dueDate,
+        dueAt: period.dueAt,
+        rolledFrom: period.rolledFrom,
+        status: period.status,
+      });
+    }
+  }
+
+  for (const requirement of requirements.filter((r) => r.dueDate)) {
+    deadlines.push({
+      ...base,
+      ...calendar.normalize(requirement.dueDate as Date),
+      id: `${grant.id}/requirement/${requirement.id}`,
+      kind: 'requirement',
+      title: requirement.name,
+    });
+  }
+
+  for (const milestone of grant.milestones.filter((m) => m.status !== 'completed')) {
+    deadlines.push({
+      ...base,
+      ...calendar.normalize(milestone.dueDate),
+      id: `${grant.id}/milestone/${milestone.id}`,
+      kind: 'milestone',
+      title: milestone.name,
+      status: milestone.status,
+    });
+  }
+
+  return deadlines.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
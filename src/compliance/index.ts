@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import { getRulePackRepository } from '../repositories';
+import { ValidationError } from '../utils/errors';
+import { BUILT_IN_RULES } from './builtInRules';
+import { ComplianceRule, ComplianceRuleEngine, ComplianceRulePlugin } from './RuleEngine';
+import { resolveRequirements } from './RulePack';
+
+export {
+  ClauseResult,
+  ComplianceRule,
+  ComplianceRuleEngine,
+  ComplianceRulePlugin,
+  Condition,
+  FactResolver,
+  Operand,
+  Operator,
+  RuleEvaluation,
+  RuleStatus,
+} from './RuleEngine';
+export { BUILT_IN_RULES } from './builtInRules';
+export { DeadlineKind, GrantDeadline, grantDeadlines } from './deadlines';
+export {
+  generateReportingSchedule,
+  ReportingPeriod,
+  ReportingScheduleSettings,
+  reportingStatus,
+  ScheduledReport,
+  ScheduledReportStatus,
+  scheduleSettings,
+} from './ReportingSchedule';
+export {
+  compareVersions,
+  RequirementOverride,
+  RulePack,
+  RulePackReference,
+  RulePackSettings,
+  resolveRequirements,
+  selectPacks,
+  shippedRulePacks,
+} from './RulePack';
+
+let ruleEngine: ComplianceRuleEngine | null = null;
+
+/**
+ * Reads declarative rule types from a YAML or JSON file of the form
+ * `{ name, rules: ComplianceRule[] }`. Facts and operators need code, so
+ * they can only come from plugins registered with ComplianceRuleEngine.use().
+ */
+export function loadRulePlugin(filePath: string): ComplianceRulePlugin {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+  const file = (parsed || {}) as { name?: unknown; rules?: unknown };
+  if (!Array.isArray(file.rules)) {
+    throw new ValidationError(`Rule file ${filePath} must contain a "rules" list`);
+  }
+  return {
+    name: typeof file.name === 'string' ? file.name : path.basename(filePath),
+    rules: file.rules as ComplianceRule[],
+  };
+}
+
+/**
+ * Returns the active rule engine: the built-in rule types, plus those in the
+ * file named by COMPLIANCE_RULES_PATH, unless another engine is registered
+ * via setComplianceRuleEngine().
+ */
+export function getComplianceRuleEngine(): ComplianceRuleEngine {
+  if (!ruleEngine) {
+    ruleEngine = new ComplianceRuleEngine().use(BUILT_IN_RULES);
+    if (process.env.COMPLIANCE_RULES_PATH) {
+      ruleEngine.use(loadRulePlugin(process.env.COMPLIANCE_RULES_PATH));
+    }
+  }
+  return ruleEngine;
+}
+
+export function setComplianceRuleEngine(engine: ComplianceRuleEngine): void {
+  ruleEngine = engine;
+}
+
+/** The grant's own requirements plus those of the rule packs attached to it. */
+export async function complianceRequirementsFor(grant: Grant): Promise<ComplianceRequirement[]> {
+  return resolveRequirements(grant, await getRulePackRepository().findAll());
+}
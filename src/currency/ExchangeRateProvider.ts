@@ -0,0 +1,8 @@
+/**
+ * Source of exchange rates. Implementations return how many units of `to` one
+ * unit of `from` buys on `date`, and throw ExchangeRateUnavailableError when
+ * they have no rate for the pair.
+ */
+export interface ExchangeRateProvider {
+  getRate(from: string, to: string, date: Date): Promise<number>;
+}
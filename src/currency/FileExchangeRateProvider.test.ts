@@ -0,0 +1,43 @@
+import { ExchangeRateUnavailableError } from '../utils/errors';
+import { FileExchangeRateProvider } from './FileExchangeRateProvider';
+
+const provider = new FileExchangeRateProvider({
+  base: 'usd',
+  entries: [
+    { date: new Date('2024-04-01'), rates: { EUR: 0.8, KES: 130 } },
+    { date: new Date('2024-01-01'), rates: { EUR: 0.9, KES: 150 } },
+  ],
+});
+
+describe('FileExchangeRateProvider', () => {
+  it('quotes 1 between a currency and itself, even without rates', async () => {
+    await expect(provider.getRate('xyz', 'XYZ', new Date('2020-01-01'))).resolves.toBe(1);
+  });
+
+  it('uses the entry in force on the date, whatever order the table lists them in', async () => {
+    await expect(provider.getRate('USD', 'EUR', new Date('2024-03-31'))).resolves.toBe(0.9);
+    await expect(provider.getRate('USD', 'EUR', new Date('2024-04-01'))).resolves.toBe(0.8);
+    await expect(provider.getRate('eur', 'usd', new Date('2024-06-01'))).resolves.toBe(1.25);
+  });
+
+  it('derives cross rates through the base currency', async () => {
+    await expect(provider.getRate('EUR', 'KES', new Date('2024-02-01'))).resolves.toBeCloseTo(
+      150 / 0.9
+    );
+  });
+
+  it('rejects dates before the first entry and unknown currencies', async () => {
+    await expect(provider.getRate('USD', 'EUR', new Date('2023-12-31'))).rejects.toBeInstanceOf(
+      ExchangeRateUnavailableError
+    );
+    await expect(provider.getRate('USD', 'JPY', new Date('2024-02-01'))).rejects.toBeInstanceOf(
+      ExchangeRateUnavailableError
+    );
+  });
+
+  it('loads the sample rate table', async () => {
+    const sample = FileExchangeRateProvider.fromFile();
+
+    await expect(sample.getRate('USD', 'EUR', new Date('2023-02-01'))).resolves.toBe(0.94);
+  });
+});
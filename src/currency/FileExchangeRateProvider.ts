@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { ExchangeRateUnavailableError } from '../utils/errors';
+import { ExchangeRateProvider } from './ExchangeRateProvider';
+
+const SAMPLE_RATES_PATH = path.resolve(__dirname, '../../sample-data/exchange-rates.json');
+
+/** Rates quoted against the table's base currency, in force from `date`. */
+export interface RateTableEntry {
+  date: Date;
+  rates: Record<string, number>;
+}
+
+export interface RateTable {
+  base: string;
+  entries: RateTableEntry[];
+}
+
+/**
+ * Offline provider backed by a rate table: each entry holds the units of each
+ * currency per unit of the base currency, effective from its date until the
+ * next entry. Cross rates are derived through the base currency.
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  private readonly base: string;
+  private readonly entries: RateTableEntry[];
+
+  constructor(table: RateTable) {
+    this.base = table.base.toUpperCase();
+    this.entries = [...table.entries].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  static fromFile(filePath: string = SAMPLE_RATES_PATH): FileExchangeRateProvider {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+      base: string;
+      rates: { date: string; rates: Record<string, number> }[];
+    };
+    return new FileExchangeRateProvider({
+      base: raw.base,
+      entries: raw.rates.map((r) => ({ date: new Date(r.date), rates: r.rates })),
+    });
+  }
+
+  getRate(from: string, to: string, date: Date): Promise<number> {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    if (source === target) {
+      return Promise.resolve(1);
+    }
+
+    const entry = this.entryAt(date);
+    const perBase = (currency: string): number | undefined =>
+      currency === this.base ? 1 : entry?.rates[currency];
+    const fromRate = perBase(source);
+    const toRate = perBase(target);
+    if (!fromRate || !toRate) {
+      return Promise.reject(new ExchangeRateUnavailableError(source, target, date));
+    }
+    return Promise.resolve(toRate / fromRate);
+  }
+
+  private entryAt(date: Date): RateTableEntry | undefined {
+    let current: RateTableEntry | undefined;
+    for (const entry of this.entries) {
+      if (entry.date > date) {
+        break;
+      }
+      current = entry;
+    }
+    return current;
+  }
+}
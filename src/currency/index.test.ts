@@ -0,0 +1,45 @@
+import { Grant } from '../models/Grant';
+import { FileExchangeRateProvider, setExchangeRateProvider, withExchangeRate } from '.';
+
+describe('withExchangeRate', () => {
+  const grant = Grant.fromJSON({ id: 'GR-FX', currency: 'USD' });
+
+  beforeAll(() => {
+    setExchangeRateProvider(
+      new FileExchangeRateProvider({
+        base: 'USD',
+        entries: [{ date: new Date('2024-01-01'), rates: { EUR: 0.8 } }],
+      })
+    );
+  });
+
+  it('fixes the rate to the grant currency on the expenditure date', async () => {
+    const expenditure = await withExchangeRate(grant, {
+      amount: 100,
+      currency: 'EUR',
+      date: new Date('2024-02-01'),
+    });
+
+    expect(expenditure.exchangeRate).toBe(1.25);
+  });
+
+  it('keeps a rate the caller supplied', async () => {
+    const expenditure = await withExchangeRate(grant, {
+      currency: 'EUR',
+      exchangeRate: 1.1,
+      date: new Date('2024-02-01'),
+    });
+
+    expect(expenditure.exchangeRate).toBe(1.1);
+  });
+
+  it('drops the rate of an expenditure in the grant currency', async () => {
+    const expenditure = await withExchangeRate(grant, {
+      currency: 'USD',
+      exchangeRate: 1.1,
+      date: new Date('2024-02-01'),
+    });
+
+    expect(expenditure.exchangeRate).toBeUndefined();
+  });
+});
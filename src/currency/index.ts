@@ -0,0 +1,44 @@
+import type { Expenditure, Grant } from '../models/Grant';
+import { ExchangeRateProvider } from './ExchangeRateProvider';
+import { FileExchangeRateProvider } from './FileExchangeRateProvider';
+
+export { ExchangeRateProvider } from './ExchangeRateProvider';
+export { FileExchangeRateProvider, RateTable, RateTableEntry } from './FileExchangeRateProvider';
+
+let exchangeRateProvider: ExchangeRateProvider | null = null;
+
+/**
+ * Returns the active exchange-rate provider. Unless another provider is
+ * registered via setExchangeRateProvider(), rates come from the file named by
+ * EXCHANGE_RATES_PATH, or sample-data/exchange-rates.json.
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!exchangeRateProvider) {
+    exchangeRateProvider = FileExchangeRateProvider.fromFile(process.env.EXCHANGE_RATES_PATH);
+  }
+  return exchangeRateProvider;
+}
+
+export function setExchangeRateProvider(provider: ExchangeRateProvider): void {
+  exchangeRateProvider = provider;
+}
+
+/**
+ * Fixes the rate converting a foreign-currency expenditure into the grant
+ * currency at the expenditure date, unless the caller supplied one.
+ */
+export async function withExchangeRate(
+  grant: Grant,
+  expenditure: Partial<Expenditure>
+): Promise<Partial<Expenditure>> {
+  const currency = expenditure.currency || grant.currency;
+  if (currency === grant.currency) {
+    return { ...expenditure, exchangeRate: undefined };
+  }
+  if (expenditure.exchangeRate) {
+    return expenditure;
+  }
+  const date = new Date(expenditure.date as Date);
+  const exchangeRate = await getExchangeRateProvider().getRate(currency, grant.currency, date);
+  return { ...expenditure, exchangeRate };
+}
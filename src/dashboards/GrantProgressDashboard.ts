@@ -1,6 +1,13 @@
 import { BaseDashboard } from './BaseDashboard';
 import { GrantMetrics, GrantProgressMetrics } from '../metrics/GrantMetrics';
+import { FinancialMetrics, FinancialMetricsSummary } from '../metrics/FinancialMetrics';
+import { getGrantRepository } from '../repositories';
+import { NotFoundError } from '../utils/errors';
 import { KPI } from '../models/KPI';
+import type { Grant, Milestone } from '../models/Grant';
+import { fractionComplete, scheduleMilestones } from '../models/MilestoneSchedule';
+import { toISODate } from '../utils/dates';
+import { assessGrantRisk, RiskAssessment } from '../risk';
 
 export interface DashboardWidget {
   id: string;
@@ -22,23 +29,29 @@ export interface DashboardConfig {
 
 export class GrantProgressDashboard extends BaseDashboard {
   private metricsCalculator: GrantMetrics;
+  private financialCalculator: FinancialMetrics;
   
   constructor() {
     super();
     this.metricsCalculator = new GrantMetrics();
+    this.financialCalculator = new FinancialMetrics();
   }
   
   async generateDashboard(grantId: string, userId: string): Promise<DashboardConfig> {
-    // In a real implementation, this would fetch grant data
-    // For now, generate sample dashboard widgets
+    const grant = await getGrantRepository().findById(grantId);
+    if (!grant) {
+      throw new NotFoundError('Grant not found');
+    }
+    const financials = await this.financialCalculator.calculateMetrics(grant, 'monthly');
+    const risk = await assessGrantRisk(grant);
     
     const widgets: DashboardWidget[] = [
       this.createProgressWidget(grantId),
-      this.createFinancialWidget(grantId),
+      this.createFinancialWidget(financials),
       this.createMilestoneWidget(grantId),
-      this.createRiskWidget(grantId),
+      this.createRiskWidget(risk),
       this.createKPIWidget(grantId),
-      this.createTimelineWidget(grantId),
+      this.createTimelineWidget(grant),
       this.createAlertsWidget(grantId),
     ];
     
@@ -72,18 +85,19 @@ export class GrantProgressDashboard extends BaseDashboard {
     };
   }
   
-  private createFinancialWidget(grantId: string): DashboardWidget {
+  private createFinancialWidget(financials: FinancialMetricsSummary): DashboardWidget {
     return {
-      id: `financial-${grantId}`,
+      id: `financial-${financials.grantId}`,
       type: 'metric',
       title: 'Financial Utilization',
       data: {
-        total: 500000,
-        utilized: 325000,
-        remaining: 175000,
-        rate: 0.65,
-        burnRate: 12500, // per month
-        forecastCompletion: new Date('2024-12-31'),
+        total: financials.totalFunding,
+        utilized: financials.totalSpent,
+        remaining: financials.remainingBalance,
+        rate: financials.utilizationRate,
+        burnRate: financials.burnRate, // per month
+        forecastCompletion: financials.projectedExhaustionDate,
+        spendCurve: financials.spendCurve.map((b) => ({ label: b.label, value: b.cumulative })),
       },
       size: 'medium',
       priority: 2,
@@ -121,24 +135,26 @@ export class GrantProgressDashboard extends BaseDashboard {
     };
   }
   
-  private createRiskWidget(grantId: string): DashboardWidget {
+  private createRiskWidget(risk: RiskAssessment): DashboardWidget {
     return {
-      id: `risk-${grantId}`,
+      id: `risk-${risk.grantId}`,
       type: 'metric',
       title: 'Risk Assessment',
       data: {
-        level: 'medium',
-        score: 0.42,
-        factors: [
-          { name: 'Timeline Variance', value: 0.15, weight: 0.3 },
-          { name: 'Budget Variance', value: 0.08, weight: 0.4 },
-          { name: 'Compliance Issues', value: 0.02, weight: 0.2 },
-          { name: 'KPI Achievement', value: 0.17, weight: 0.1 },
-        ],
-        recommendations: [
-          'Accelerate milestone completion',
-          'Review expenditure approvals',
-        ],
+        level: risk.level,
+        score: risk.score,
+        profile: risk.profile,
+        factors: risk.factors.map(f => ({
+          name: f.name,
+          value: f.score,
+          weight: f.weight,
+          contribution: f.contribution,
+          explanation: f.explanation,
+        })),
+        drivers: risk.drivers,
+        recommendations: risk.factors
+          .filter(f => f.contribution > 0 && f.recommendation)
+          .map(f => f.recommendation as string),
       },
       size: 'small',
       priority: 4,
@@ -164,39 +180,33 @@ export class GrantProgressDashboard extends BaseDashboard {
     };
   }
   
-  private createTimelineWidget(grantId: string): DashboardWidget {
+  private createTimelineWidget(grant: Grant): DashboardWidget {
+    const schedule = scheduleMilestones(grant.milestones, grant);
+    const milestones = new Map(grant.milestones.map((m) => [m.id, m]));
+    
     return {
-      id: `timeline-${grantId}`,
+      id: `timeline-${grant.id}`,
       type: 'chart',
       title: 'Project Timeline',
       data: {
         type: 'gantt',
-        tasks: [
-          {
-            id: 'phase1',
-            name: 'Planning Phase',
-            start: '2023-01-01',
-            end: '2023-03-31',
-            progress: 1,
-            status: 'completed',
-          },
-          {
-            id: 'phase2',
-            name: 'Implementation',
-            start: '2023-04-01',
-            end: '2024-02-29',
-            progress: 0.7,
-            status: 'in-progress',
-          },
-          {
-            id: 'phase3',
-            name: 'Evaluation',
-            start: '2024-03-01',
-            end: '2024-06-30',
-            progress: 0,
-            status: 'pending',
-          },
-        ],
+        tasks: schedule.milestones.map((m) => ({
+          id: m.milestoneId,
+          name: m.name,
+          start: toISODate(m.plannedStart),
+          end: toISODate(m.dueDate),
+          projectedEnd: toISODate(m.projectedDate),
+          // Milestones in progress show their percent complete
+          progress: fractionComplete(milestones.get(m.milestoneId) as Milestone),
+          status: m.status,
+          dependencies: m.dependencies,
+          floatDays: m.totalFloatDays,
+          slipDays: m.slipDays,
+          critical: m.critical,
+        })),
+        criticalPath: schedule.criticalPath,
+        projectedFinish: schedule.projectedFinish && toISODate(schedule.projectedFinish),
+        grantEnd: toISODate(grant.endDate),
       },
       size: 'full',
       priority: 6,
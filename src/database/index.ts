@@ -0,0 +1,72 @@
+import { DataSource } from 'typeorm';
+import {
+  setComplianceSnapshotRepository,
+  setGrantRepository,
+  setMappingProfileRepository,
+  setOrganizationRepository,
+  setPortfolioRepository,
+  setRulePackRepository,
+  TypeOrmComplianceSnapshotRepository,
+  TypeOrmGrantRepository,
+  TypeOrmMappingProfileRepository,
+  TypeOrmOrganizationRepository,
+  TypeOrmPortfolioRepository,
+  TypeOrmRulePackRepository,
+} from '../repositories';
+import {
+  ComplianceSnapshotEntity,
+  GrantEntity,
+  MappingProfileEntity,
+  OrganizationEntity,
+  PortfolioEntity,
+  RulePackEntity,
+} from './schemas';
+
+let dataSource: DataSource | null = null;
+
+/** Whether a PostgreSQL database is configured through the DB_* environment variables. */
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.DB_HOST);
+}
+
+/**
+ * Connects to the configured database and registers the TypeORM-backed
+ * repositories in place of the in-memory ones. Without a database the
+ * in-memory repositories seeded from sample-data stay in use, as for local
+ * development and demos, and null is returned.
+ */
+export async function initializeDatabase(): Promise<DataSource | null> {
+  if (!isDatabaseConfigured()) {
+    return null;
+  }
+  if (dataSource?.isInitialized) {
+    return dataSource;
+  }
+
+  dataSource = new DataSource({
+    type: 'postgres',
+    host: process.env.DB_HOST,
+    port: Number(process.env.DB_PORT || 5432),
+    database: process.env.DB_NAME || 'grantready',
+    username: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    entities: [
+      GrantEntity,
+      MappingProfileEntity,
+      RulePackEntity,
+      ComplianceSnapshotEntity,
+      OrganizationEntity,
+      PortfolioEntity,
+    ],
+    synchronize: process.env.DB_SYNCHRONIZE === 'true',
+  });
+  await dataSource.initialize();
+
+  setGrantRepository(new TypeOrmGrantRepository(dataSource));
+  setMappingProfileRepository(new TypeOrmMappingProfileRepository(dataSource));
+  setRulePackRepository(new TypeOrmRulePackRepository(dataSource));
+  setComplianceSnapshotRepository(new TypeOrmComplianceSnapshotRepository(dataSource));
+  setOrganizationRepository(new TypeOrmOrganizationRepository(dataSource));
+  setPortfolioRepository(new TypeOrmPortfolioRepository(dataSource));
+  return dataSource;
+}
@@ -0,0 +1,147 @@
+import { EntitySchema } from 'typeorm';
+
+/**
+ * Row shape of the `grants` table. Searchable scalars are promoted to columns;
+ * the full grant document, including its child collections, lives in `data`.
+ */
+export interface GrantRecord {
+  id: string;
+  grantNumber: string;
+  title: string;
+  type: string;
+  status: string;
+  version: number;
+  data: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export const GrantEntity = new EntitySchema<GrantRecord>({
+  name: 'Grant',
+  tableName: 'grants',
+  columns: {
+    id: { type: String, primary: true },
+    grantNumber: { type: String, name: 'grant_number' },
+    title: { type: String },
+    type: { type: String },
+    status: { type: String },
+    version: { type: Number },
+    data: { type: 'jsonb' },
+    updatedAt: { type: 'timestamptz', name: 'updated_at' },
+  },
+  indices: [{ name: 'IDX_grants_status', columns: ['status'] }],
+});
+
+/** Row shape of the `mapping_profiles` table; the profile document lives in `data`. */
+export interface MappingProfileRecord {
+  id: string;
+  name: string;
+  data: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export const MappingProfileEntity = new EntitySchema<MappingProfileRecord>({
+  name: 'MappingProfile',
+  tableName: 'mapping_profiles',
+  columns: {
+    id: { type: String, primary: true },
+    name: { type: String },
+    data: { type: 'jsonb' },
+    updatedAt: { type: 'timestamptz', name: 'updated_at' },
+  },
+});
+
+/** Row shape of the `rule_packs` table, one row per published pack version. */
+export interface RulePackRecord {
+  id: string;
+  version: string;
+  name: string;
+  data: Record<string, unknown>;
+  publishedAt: Date;
+}
+
+export const RulePackEntity = new EntitySchema<RulePackRecord>({
+  name: 'RulePack',
+  tableName: 'rule_packs',
+  columns: {
+    id: { type: String, primary: true },
+    version: { type: String, primary: true },
+    name: { type: String },
+    data: { type: 'jsonb' },
+    publishedAt: { type: 'timestamptz', name: 'published_at' },
+  },
+});
+
+/**
+ * Row shape of the `compliance_snapshots` table, one row per assessment. The
+ * rate and status are promoted for trend queries; the assessment lives in `data`.
+ */
+export interface ComplianceSnapshotRecord {
+  id: string;
+  grantId: string;
+  grantVersion: number;
+  takenAt: Date;
+  complianceRate: number;
+  status: string;
+  data: Record<string, unknown>;
+}
+
+export const ComplianceSnapshotEntity = new EntitySchema<ComplianceSnapshotRecord>({
+  name: 'ComplianceSnapshot',
+  tableName: 'compliance_snapshots',
+  columns: {
+    id: { type: 'uuid', primary: true },
+    grantId: { type: String, name: 'grant_id' },
+    grantVersion: { type: Number, name: 'grant_version' },
+    takenAt: { type: 'timestamptz', name: 'taken_at' },
+    complianceRate: { type: 'double precision', name: 'compliance_rate' },
+    status: { type: String },
+    data: { type: 'jsonb' },
+  },
+  indices: [{ name: 'IDX_compliance_snapshots_grant_taken', columns: ['grantId', 'takenAt'] }],
+});
+
+/**
+ * Row shape of the `organizations` table. The tax ID is stored normalized for
+ * lookups; the organization, including its audit findings, lives in `data`.
+ */
+export interface OrganizationRecord {
+  id: string;
+  name: string;
+  taxId: string | null;
+  version: number;
+  data: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export const OrganizationEntity = new EntitySchema<OrganizationRecord>({
+  name: 'Organization',
+  tableName: 'organizations',
+  columns: {
+    id: { type: String, primary: true },
+    name: { type: String },
+    taxId: { type: String, name: 'tax_id', nullable: true },
+    version: { type: Number, default: 1 },
+    data: { type: 'jsonb' },
+    updatedAt: { type: 'timestamptz', name: 'updated_at' },
+  },
+  indices: [{ name: 'IDX_organizations_tax_id', columns: ['taxId'] }],
+});
+
+/** Row shape of the `portfolios` table; the grant list and saved filter live in `data`. */
+export interface PortfolioRecord {
+  id: string;
+  name: string;
+  data: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+export const PortfolioEntity = new EntitySchema<PortfolioRecord>({
+  name: 'Portfolio',
+  tableName: 'portfolios',
+  columns: {
+    id: { type: String, primary: true },
+    name: { type: String },
+    data: { type: 'jsonb' },
+    updatedAt: { type: 'timestamptz', name: 'updated_at' },
+  },
+});
@@ -0,0 +1,25 @@
+import { createHash } from 'crypto';
+
+/** Where and what was stored for one version of a document. */
+export interface StoredObject {
+  key: string;
+  size: number;
+  /** SHA-256 of the content, hex encoded */
+  checksum: string;
+}
+
+/**
+ * Blob storage for document content. Keys are chosen by the caller and each
+ * key is written once, so a stored version never changes; stores refuse to
+ * overwrite an existing key.
+ */
+export interface DocumentStore {
+  put(key: string, content: Buffer, contentType: string): Promise<StoredObject>;
+  /** Throws NotFoundError when nothing is stored under `key`. */
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export function sha256(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { sha256 } from './DocumentStore';
+import { LocalDocumentStore } from './LocalDocumentStore';
+
+describe('LocalDocumentStore', () => {
+  let root: string;
+  let store: LocalDocumentStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    store = new LocalDocumentStore(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('writes content once under its key and reads it back', async () => {
+    const content = Buffer.from('signed agreement');
+
+    await expect(store.put('GR-1/DOC-1/v1-agreement.pdf', content)).resolves.toEqual({
+      key: 'GR-1/DOC-1/v1-agreement.pdf',
+      size: content.length,
+      checksum: sha256(content),
+    });
+    expect(await store.get('GR-1/DOC-1/v1-agreement.pdf')).toEqual(content);
+    await expect(store.put('GR-1/DOC-1/v1-agreement.pdf', Buffer.from('other'))).rejects.toThrow(
+      ConflictError
+    );
+  });
+
+  it('reports missing content and deletes idempotently', async () => {
+    await store.put('GR-1/DOC-1/v1.txt', Buffer.from('x'));
+    await store.delete('GR-1/DOC-1/v1.txt');
+    await store.delete('GR-1/DOC-1/v1.txt');
+
+    await expect(store.get('GR-1/DOC-1/v1.txt')).rejects.toThrow(NotFoundError);
+  });
+
+  it('refuses keys outside its root directory', async () => {
+    await expect(store.put('../escape.txt', Buffer.from('x'))).rejects.toThrow(ValidationError);
+    await expect(store.get('../../etc/passwd')).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { DocumentStore, sha256, StoredObject } from './DocumentStore';
+
+/** Stores document content as files below a root directory, one file per key. */
+export class LocalDocumentStore implements DocumentStore {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, content: Buffer): Promise<StoredObject> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    try {
+      await fs.writeFile(file, content, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new ConflictError(`Document content ${key} already exists`);
+      }
+      throw error;
+    }
+    return { key, size: content.length, checksum: sha256(content) };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError(`Document content ${key} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new ValidationError(`Invalid document key ${key}`);
+    }
+    return file;
+  }
+}
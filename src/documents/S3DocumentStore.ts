@@ -0,0 +1,54 @@
+import { DocumentStore, sha256, StoredObject } from './DocumentStore';
+
+/**
+ * The object operations the S3 store needs, so that any S3-compatible
+ * service (AWS S3, MinIO, Ceph, R2) can be plugged in through a thin
+ * adapter over its SDK client.
+ */
+export interface S3CompatibleClient {
+  putObject(params: {
+    Bucket: string;
+    Key: string;
+    Body: Buffer;
+    ContentType: string;
+    /** Base64 SHA-256, verified by the service on upload */
+    ChecksumSHA256: string;
+    /** Refuses to overwrite an existing object when `*` */
+    IfNoneMatch?: string;
+  }): Promise<unknown>;
+  /** Resolves to the object body; rejects with NotFoundError when there is no such object. */
+  getObject(params: { Bucket: string; Key: string }): Promise<Uint8Array>;
+  deleteObject(params: { Bucket: string; Key: string }): Promise<unknown>;
+}
+
+/** Stores document content as objects in a bucket, below an optional key prefix. */
+export class S3DocumentStore implements DocumentStore {
+  constructor(
+    private readonly client: S3CompatibleClient,
+    private readonly bucket: string,
+    private readonly prefix = ''
+  ) {}
+
+  async put(key: string, content: Buffer, contentType: string): Promise<StoredObject> {
+    const checksum = sha256(content);
+    await this.client.putObject({
+      Bucket: this.bucket,
+      Key: this.prefix + key,
+      Body: content,
+      ContentType: contentType,
+      ChecksumSHA256: Buffer.from(checksum, 'hex').toString('base64'),
+      IfNoneMatch: '*',
+    });
+    return { key, size: content.length, checksum };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return Buffer.from(
+      await this.client.getObject({ Bucket: this.bucket, Key: this.prefix + key })
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.prefix + key });
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Grant } from '../models/Grant';
+import { ConflictError, IntegrityError, NotFoundError, ValidationError } from '../utils/errors';
+import { LocalDocumentStore, readDocumentContent, setDocumentStore, uploadDocument } from '.';
+
+describe('uploadDocument and readDocumentContent', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    setDocumentStore(new LocalDocumentStore(root));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const grant = (): Grant =>
+    new Grant({
+      id: 'GR-1',
+      title: 'Clinic outreach',
+      totalFunding: 100000,
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-12-31'),
+    });
+
+  const upload = (
+    content: string,
+    name = 'statement v1.pdf'
+  ): Parameters<typeof uploadDocument>[1] => ({
+    type: 'Financial Statement',
+    name,
+    contentType: 'application/pdf',
+    content: Buffer.from(content),
+  });
+
+  it('stores content under a safe key and links it from the grant', async () => {
+    const g = grant();
+    const { document, storageKey } = await uploadDocument(g, upload('first'), 'sam');
+
+    expect(storageKey).toBe(`GR-1/${document.id}/v1-statement_v1.pdf`);
+    expect(document).toMatchObject({
+      version: 1,
+      status: 'pending',
+      size: 5,
+      url: `/api/v1/grants/GR-1/documents/${document.id}/content`,
+    });
+    expect((await readDocumentContent(document)).content.toString()).toBe('first');
+  });
+
+  it('files content of a known type as the next version and keeps the earlier one', async () => {
+    const g = grant();
+    const first = (await uploadDocument(g, upload('first'), 'sam')).document;
+    const second = (await uploadDocument(g, upload('second', 'statement v2.pdf'), 'sam')).document;
+
+    expect(second.id).toBe(first.id);
+    expect(second.version).toBe(2);
+    expect(g.documents).toHaveLength(1);
+    expect((await readDocumentContent(second, 1)).content.toString()).toBe('first');
+    expect((await readDocumentContent(second)).content.toString()).toBe('second');
+    await expect(readDocumentContent(second, 3)).rejects.toThrow(NotFoundError);
+  });
+
+  it('refuses empty content and re-uploads of the current content', async () => {
+    const g = grant();
+    await expect(uploadDocument(g, upload(''), 'sam')).rejects.toThrow(ValidationError);
+    await uploadDocument(g, upload('same'), 'sam');
+    await expect(uploadDocument(g, upload('same'), 'sam')).rejects.toThrow(ConflictError);
+  });
+
+  it('detects content changed since the upload', async () => {
+    const { document, storageKey } = await uploadDocument(grant(), upload('original'), 'sam');
+    fs.writeFileSync(path.join(root, storageKey), 'tampered');
+
+    await expect(readDocumentContent(document)).rejects.toThrow(IntegrityError);
+  });
+
+  it('cannot read documents that are only linked', async () => {
+    await expect(
+      readDocumentContent({
+        id: 'DOC-1',
+        type: 'Grant Agreement',
+        name: 'agreement.pdf',
+        url: 'https://example.org/agreement.pdf',
+        uploadDate: new Date('2024-01-01'),
+        uploadedBy: 'sam',
+        status: 'approved',
+      })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
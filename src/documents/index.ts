@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+import type { Document, DocumentVersion, Grant } from '../models/Grant';
+import { ConflictError, IntegrityError, NotFoundError, ValidationError } from '../utils/errors';
+import { DocumentStore, sha256 } from './DocumentStore';
+import { LocalDocumentStore } from './LocalDocumentStore';
+import { DEFAULT_RETENTION_POLICIES, RetentionPolicy } from './retention';
+
+export { DocumentStore, sha256, StoredObject } from './DocumentStore';
+export { LocalDocumentStore } from './LocalDocumentStore';
+export { S3CompatibleClient, S3DocumentStore } from './S3DocumentStore';
+export {
+  DEFAULT_RETENTION_POLICIES,
+  RetentionPolicy,
+  retentionPolicyFor,
+  RetentionStatus,
+  retentionStatus,
+} from './retention';
+
+let documentStore: DocumentStore | null = null;
+let retentionPolicies: RetentionPolicy[] | null = null;
+
+/**
+ * Returns the active document store. Unless another store is registered via
+ * setDocumentStore(), content is kept on the local filesystem below
+ * DOCUMENT_STORE_PATH, or data/documents.
+ */
+export function getDocumentStore(): DocumentStore {
+  if (!documentStore) {
+    documentStore = new LocalDocumentStore(
+      process.env.DOCUMENT_STORE_PATH || path.resolve(process.cwd(), 'data/documents')
+    );
+  }
+  return documentStore;
+}
+
+export function setDocumentStore(store: DocumentStore): void {
+  documentStore = store;
+}
+
+/** Reads retention policies from a YAML or JSON list. */
+export function loadRetentionPolicies(filePath: string): RetentionPolicy[] {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new ValidationError(`Retention policy file ${filePath} must contain a list`);
+  }
+  for (const policy of parsed as Partial<RetentionPolicy>[]) {
+    if (!policy?.documentType || (!policy.permanent && typeof policy.years !== 'number')) {
+      throw new ValidationError(
+        `Retention policies in ${filePath} need a documentType and years or permanent`
+      );
+    }
+  }
+  return parsed as RetentionPolicy[];
+}
+
+/**
+ * The default policies overlaid with those in the file named by
+ * RETENTION_POLICIES_PATH; a file policy replaces the default for its type.
+ */
+export function getRetentionPolicies(): RetentionPolicy[] {
+  if (!retentionPolicies) {
+    const overrides = process.env.RETENTION_POLICIES_PATH
+      ? loadRetentionPolicies(process.env.RETENTION_POLICIES_PATH)
+      : [];
+    const types = new Set(overrides.map((p) => p.documentType.toLowerCase()));
+    retentionPolicies = [
+      ...overrides,
+      ...DEFAULT_RETENTION_POLICIES.filter((p) => !types.has(p.documentType.toLowerCase())),
+    ];
+  }
+  return retentionPolicies;
+}
+
+export interface DocumentUpload {
+  type: string;
+  name: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Stores uploaded content and files it on the grant, as a new document or as
+ * the next version of the grant's document of the same type. Returns the key
+ * written so the caller can remove it if saving the grant fails.
+ */
+export async function uploadDocument(
+  grant: Grant,
+  upload: DocumentUpload,
+  user: string
+): Promise<{ document: Document; storageKey: string }> {
+  if (upload.content.length === 0) {
+    throw new ValidationError('Uploaded document is empty');
+  }
+  const existing = grant.documents.find((d) => d.type === upload.type);
+  const checksum = sha256(upload.content);
+  if (existing?.checksum === checksum) {
+    throw new ConflictError(
+      `Content is identical to version ${existing.version || 1} of document ${existing.id}`
+    );
+  }
+
+  const id = existing?.id || randomUUID();
+  const version = existing ? (existing.version || 1) + 1 : 1;
+  const safeName = upload.name.replace(/[^\w.-]+/g, '_');
+  const storageKey = `${grant.id}/${id}/v${version}-${safeName}`;
+  const stored = await getDocumentStore().put(storageKey, upload.content, upload.contentType);
+
+  const document = grant.storeDocument(
+    {
+      id,
+      type: upload.type,
+      name: upload.name,
+      url: `/api/v1/grants/${grant.id}/documents/${id}/content`,
+      storageKey,
+      checksum: stored.checksum,
+      size: stored.size,
+      contentType: upload.contentType,
+    },
+    user
+  );
+  return { document, storageKey };
+}
+
+/**
+ * Reads the stored content of a document, or of one of its earlier versions,
+ * and checks it against the checksum recorded at upload.
+ */
+export async function readDocumentContent(
+  document: Document,
+  version?: number
+): Promise<{ content: Buffer; source: Document | DocumentVersion }> {
+  const source =
+    version === undefined || version === (document.version || 1)
+      ? document
+      : document.previousVersions?.find((v) => v.version === version);
+  if (!source) {
+    throw new NotFoundError(`Version ${version} of document ${document.id} not found`);
+  }
+  if (!source.storageKey || !source.checksum) {
+    throw new NotFoundError(`Document ${document.id} is linked at ${source.url}, not stored`);
+  }
+
+  const content = await getDocumentStore().get(source.storageKey);
+  const actual = sha256(content);
+  if (actual !== source.checksum) {
+    throw new IntegrityError(source.storageKey, source.checksum, actual);
+  }
+  return { content, source };
+}
@@ -0,0 +1,75 @@
+import { Document, Grant } from '../models/Grant';
+import { RetentionPolicy, retentionPolicyFor, retentionStatus } from './retention';
+
+const grant = new Grant({
+  id: 'GR-1',
+  title: 'Clinic outreach',
+  totalFunding: 100000,
+  startDate: new Date('2020-01-01'),
+  endDate: new Date('2020-12-31'),
+});
+
+function document(overrides: Partial<Document> = {}): Document {
+  return {
+    id: 'DOC-1',
+    type: 'Financial Statement',
+    name: 'statement.pdf',
+    url: 'https://example.org/statement.pdf',
+    uploadDate: new Date('2020-06-01'),
+    uploadedBy: 'sam',
+    status: 'approved',
+    ...overrides,
+  };
+}
+
+describe('retentionPolicyFor', () => {
+  it('matches the document type case-insensitively and falls back to the wildcard', () => {
+    expect(retentionPolicyFor('grant agreement')).toEqual({
+      documentType: 'Grant Agreement',
+      permanent: true,
+    });
+    expect(retentionPolicyFor('Receipt')).toEqual({ documentType: '*', years: 7 });
+    expect(retentionPolicyFor('Receipt', [])).toMatchObject({ permanent: true });
+  });
+});
+
+describe('retentionStatus', () => {
+  it('keeps documents for the policy years after the grant ends', () => {
+    const kept = retentionStatus(document(), grant, undefined, new Date('2027-06-01'));
+    expect(kept).toMatchObject({ policy: '*', deletable: false, legalHold: false });
+    expect(kept.retainUntil).toEqual(new Date('2027-12-31'));
+    expect(kept.reason).toContain('kept for 7 years');
+
+    expect(retentionStatus(document(), grant, undefined, new Date('2028-01-01')).deletable).toBe(
+      true
+    );
+  });
+
+  it('counts from the upload when it came after the grant ended', () => {
+    const late = retentionStatus(
+      document({ uploadDate: new Date('2021-03-01') }),
+      grant,
+      undefined,
+      new Date('2028-01-01')
+    );
+
+    expect(late.retainUntil).toEqual(new Date('2028-03-01'));
+    expect(late.deletable).toBe(false);
+  });
+
+  it('never releases permanent documents or those under legal hold', () => {
+    const policies: RetentionPolicy[] = [{ documentType: '*', years: 1 }];
+    const held = document({
+      legalHold: { reason: 'Audit dispute', placedBy: 'lee', placedDate: new Date('2024-01-01') },
+    });
+
+    expect(retentionStatus(held, grant, policies, new Date('2030-01-01'))).toMatchObject({
+      deletable: false,
+      legalHold: true,
+      reason: 'Document is under legal hold: Audit dispute',
+    });
+    expect(
+      retentionStatus(document({ type: 'Annual Report' }), grant, undefined, new Date('2090-01-01'))
+    ).toMatchObject({ permanent: true, deletable: false, retainUntil: undefined });
+  });
+});
@@ -0,0 +1,80 @@
+import type { Document, Grant } from '../models/Grant';
+import { addMonths } from '../utils/dates';
+
+/** How long documents of a type are kept once the grant has ended. */
+export interface RetentionPolicy {
+  /** Document type the policy applies to, matched case-insensitively; `*` for all others */
+  documentType: string;
+  /** Years to keep documents after the grant end date; ignored when `permanent` */
+  years?: number;
+  permanent?: boolean;
+}
+
+export interface RetentionStatus {
+  /** Document type of the policy that applied */
+  policy: string;
+  permanent: boolean;
+  /** Earliest date the document may be deleted; absent when kept permanently */
+  retainUntil?: Date;
+  legalHold: boolean;
+  deletable: boolean;
+  /** Why the document cannot be deleted yet */
+  reason?: string;
+}
+
+/**
+ * Seven years after the grant ends for audit, with agreements and the formal
+ * reports to funders kept permanently (docs/reporting-model.md).
+ */
+export const DEFAULT_RETENTION_POLICIES: RetentionPolicy[] = [
+  { documentType: '*', years: 7 },
+  { documentType: 'Grant Agreement', permanent: true },
+  { documentType: 'Quarterly Report', permanent: true },
+  { documentType: 'Annual Report', permanent: true },
+];
+
+export function retentionPolicyFor(
+  documentType: string,
+  policies: RetentionPolicy[] = DEFAULT_RETENTION_POLICIES
+): RetentionPolicy {
+  const type = documentType.toLowerCase();
+  return (
+    policies.find((p) => p.documentType.toLowerCase() === type) ||
+    policies.find((p) => p.documentType === '*') || { documentType: '*', permanent: true }
+  );
+}
+
+/**
+ * Whether a document may be deleted as of `now`. The retention period runs
+ * from the grant end date, or from the upload if that came later, so it
+ * follows the grant when its end date moves.
+ */
+export function retentionStatus(
+  document: Document,
+  grant: Grant,
+  policies: RetentionPolicy[] = DEFAULT_RETENTION_POLICIES,
+  now: Date = new Date()
+): RetentionStatus {
+  const policy = retentionPolicyFor(document.type, policies);
+  const permanent = Boolean(policy.permanent) || policy.years === undefined;
+  const start = new Date(Math.max(grant.endDate.getTime(), document.uploadDate.getTime()));
+  const retainUntil = permanent ? undefined : addMonths(start, (policy.years as number) * 12);
+
+  let reason: string | undefined;
+  if (document.legalHold) {
+    reason = `Document is under legal hold: ${document.legalHold.reason}`;
+  } else if (permanent) {
+    reason = `${document.type} documents are kept permanently`;
+  } else if (retainUntil && retainUntil > now) {
+    reason = `${document.type} documents are kept for ${policy.years} years after the grant ends`;
+  }
+
+  return {
+    policy: policy.documentType,
+    permanent,
+    retainUntil,
+    legalHold: Boolean(document.legalHold),
+    deletable: !reason,
+    reason,
+  };
+}
@@ -0,0 +1,197 @@
+import ExcelJS from 'exceljs';
+import { Grant } from '../models/Grant';
+import { ValidationError } from '../utils/errors';
+import { ExpenditureImporter } from './ExpenditureImporter';
+import { BUILT_IN_PROFILES, MappingProfile } from './MappingProfile';
+
+const importer = new ExpenditureImporter();
+
+function profile(id: string, overrides: Partial<MappingProfile> = {}): MappingProfile {
+  const builtIn = BUILT_IN_PROFILES.find((p) => p.id === id);
+  if (!builtIn) {
+    throw new Error(`No built-in profile ${id}`);
+  }
+  return { ...builtIn, ...overrides };
+}
+
+function grant(): Grant {
+  return new Grant({
+    id: 'GR-1',
+    title: 'Clinic outreach',
+    currency: 'USD',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    expenditures: [
+      {
+        id: 'EXP-1',
+        date: new Date('2024-02-01'),
+        category: 'Travel',
+        description: 'Site visit',
+        amount: 250,
+        externalRef: 'INV-1',
+        status: 'approved',
+      },
+    ],
+  });
+}
+
+const genericCsv = [
+  'Date,Category,Amount,Description,Reference',
+  '2024-03-01,Supplies,"1,200.50",Test kits,INV-2',
+  '2024-03-02,Supplies,abc,Broken amount,INV-3',
+  '2025-01-15,Travel,100,After the grant,INV-4',
+  '2024-03-05,Travel,80,Repeat of an existing expenditure,inv-1',
+  '2024-03-01,Supplies,"1,200.50",Test kits,',
+  ',,,,',
+].join('\n');
+
+describe('ExpenditureImporter', () => {
+  it('sorts rows into accepted, rejected and duplicate without touching the grant on a dry run', async () => {
+    const target = grant();
+    const report = await importer.import(
+      target,
+      Buffer.from(genericCsv),
+      'csv',
+      profile('generic-csv'),
+      { user: 'ana', dryRun: true }
+    );
+
+    expect(report.totalRows).toBe(5);
+    expect(report.accepted.map((a) => a.row)).toEqual([2]);
+    expect(report.accepted[0].expenditure).toMatchObject({
+      amount: 1200.5,
+      category: 'Supplies',
+      status: 'pending',
+      submittedBy: 'ana',
+    });
+    expect(report.rejected.map((r) => [r.row, r.errors])).toEqual([
+      [3, ['Invalid amount "abc"']],
+      [4, ['Date 2025-01-15 is outside the grant period']],
+    ]);
+    expect(report.duplicates).toEqual([
+      expect.objectContaining({ row: 5, duplicateOf: 'EXP-1' }),
+      expect.objectContaining({ row: 6, duplicateOf: 'row 2' }),
+    ]);
+    expect(report.acceptedAmount).toBe(1200.5);
+    expect(target.expenditures).toHaveLength(1);
+    expect(target.version).toBe(1);
+  });
+
+  it('adds the accepted rows as one change when committed', async () => {
+    const target = grant();
+    await importer.import(target, Buffer.from(genericCsv), 'csv', profile('generic-csv'), {
+      user: 'ana',
+      dryRun: false,
+    });
+
+    expect(target.expenditures).toHaveLength(2);
+    expect(target.version).toBe(2);
+    expect(target.history[0]).toMatchObject({
+      action: 'EXPENDITURES_IMPORTED',
+      changes: { source: 'generic-csv', count: 1 },
+    });
+  });
+
+  it('reads ledger exports: title rows, debit less credit, mapped categories', async () => {
+    const csv = [
+      'General Ledger',
+      'Clinic Outreach Inc.',
+      'January - December 2024',
+      '',
+      'Date,Num,Split,Memo/Description,Debit,Credit',
+      '03/15/2024,1001,6100 Office Supplies,Printer paper,45.00,',
+      '03/16/2024,1002,6100 Office Supplies,Refund,,20.00',
+    ].join('\n');
+
+    const report = await importer.import(
+      grant(),
+      Buffer.from(csv),
+      'csv',
+      profile('quickbooks-general-ledger', {
+        categoryMap: { '6100 office supplies': 'Supplies' },
+      }),
+      { user: 'ana', dryRun: true }
+    );
+
+    expect(report.accepted).toHaveLength(1);
+    expect(report.accepted[0].expenditure).toMatchObject({
+      date: new Date('2024-03-15'),
+      category: 'Supplies',
+      amount: 45,
+      externalRef: '1001',
+    });
+    expect(report.rejected[0].errors).toEqual([
+      'Credit and zero-amount entries are not imported as expenditures',
+    ]);
+  });
+
+  it('detects the delimiter and reads decimal commas and day-first dates', async () => {
+    const csv = 'Date;Category;Amount\n31/03/2024;Travel;1.234,56\n31/02/2024;Travel;10';
+
+    const report = await importer.import(
+      grant(),
+      Buffer.from(csv),
+      'csv',
+      profile('generic-csv', { dateFormat: 'DD/MM/YYYY', decimalSeparator: ',' }),
+      { user: 'ana', dryRun: true }
+    );
+
+    expect(report.accepted[0].expenditure.amount).toBe(1234.56);
+    expect(report.rejected[0].errors).toEqual(['Invalid date "31/02/2024" (expected DD/MM/YYYY)']);
+  });
+
+  it('reads XLSX workbooks, including date cells', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Export');
+    sheet.addRow(['Date', 'Category', 'Amount']);
+    sheet.addRow([new Date(Date.UTC(2024, 4, 2)), 'Supplies', 99.9]);
+    const file = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const report = await importer.import(grant(), file, 'xlsx', profile('generic-csv'), {
+      user: 'ana',
+      dryRun: true,
+    });
+
+    expect(report.accepted[0].expenditure).toMatchObject({
+      date: new Date('2024-05-02'),
+      amount: 99.9,
+    });
+  });
+
+  it('rejects files missing the columns the profile requires', async () => {
+    await expect(
+      importer.import(grant(), Buffer.from('When,What\n'), 'csv', profile('generic-csv'), {
+        user: 'ana',
+        dryRun: true,
+      })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects files that cannot be parsed as their format', async () => {
+    const options = { user: 'ana', dryRun: true };
+
+    await expect(
+      importer.import(
+        grant(),
+        Buffer.from('Date,Category,Amount\n2024-03-01,"Supplies,10\n'),
+        'csv',
+        profile('generic-csv'),
+        options
+      )
+    ).rejects.toThrow(
+      new ValidationError(
+        'File is not valid CSV: Quote Not Closed: the parsing is finished with an opening quote at line 2'
+      )
+    );
+    await expect(
+      importer.import(
+        grant(),
+        Buffer.from('not a workbook'),
+        'xlsx',
+        profile('generic-csv'),
+        options
+      )
+    ).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,386 @@
+import { randomUUID } from 'crypto';
+import { parse } from 'csv/sync';
+import ExcelJS from 'exceljs';
+import { withExchangeRate } from '../currency';
+import { findCategory } from '../models/Budget';
+import { Expenditure, Grant } from '../models/Grant';
+import { toISODate } from '../utils/dates';
+import { ValidationError } from '../utils/errors';
+import { ImportDateFormat, ImportFormat, MappingProfile } from './MappingProfile';
+
+export interface ImportRowResult {
+  /** 1-based record (CSV) or row (XLSX) number in the source file, header included */
+  row: number;
+  values: Record<string, string>;
+}
+
+export interface AcceptedRow extends ImportRowResult {
+  expenditure: Expenditure;
+}
+
+export interface RejectedRow extends ImportRowResult {
+  errors: string[];
+}
+
+export interface DuplicateRow extends ImportRowResult {
+  /** Existing expenditure, or earlier row of the same file, this row repeats */
+  duplicateOf: string;
+}
+
+export interface ImportReport {
+  grantId: string;
+  profileId: string;
+  dryRun: boolean;
+  totalRows: number;
+  accepted: AcceptedRow[];
+  rejected: RejectedRow[];
+  duplicates: DuplicateRow[];
+  acceptedAmount: number;
+}
+
+export interface ImportOptions {
+  user: string;
+  /** Report what would be imported without changing the grant */
+  dryRun: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_PATTERNS: Record<ImportDateFormat, RegExp> = {
+  'YYYY-MM-DD': /^(?<y>\d{4})-(?<m>\d{1,2})-(?<d>\d{1,2})/,
+  'MM/DD/YYYY': /^(?<m>\d{1,2})\/(?<d>\d{1,2})\/(?<y>\d{4})$/,
+  'DD/MM/YYYY': /^(?<d>\d{1,2})\/(?<m>\d{1,2})\/(?<y>\d{4})$/,
+  'DD.MM.YYYY': /^(?<d>\d{1,2})\.(?<m>\d{1,2})\.(?<y>\d{4})$/,
+  'DD MMM YYYY': /^(?<d>\d{1,2}) (?<mon>[A-Za-z]{3})[a-z]* (?<y>\d{4})$/,
+};
+
+/**
+ * Turns CSV or XLSX exports from accounting systems into grant expenditures.
+ * Rows are mapped through a MappingProfile, validated against the grant and
+ * de-duplicated against its existing expenditures; imported expenditures
+ * start as pending and go through the approval workflow.
+ */
+export class ExpenditureImporter {
+  async import(
+    grant: Grant,
+    file: Buffer,
+    format: ImportFormat,
+    profile: MappingProfile,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const rows = await this.readRows(file, format, profile);
+    const header = rows.shift();
+    if (!header) {
+      throw new ValidationError('Import file has no header row');
+    }
+
+    const columnIndex = this.resolveColumns(header.values, profile);
+    const report: ImportReport = {
+      grantId: grant.id,
+      profileId: profile.id,
+      dryRun: options.dryRun,
+      totalRows: 0,
+      accepted: [],
+      rejected: [],
+      duplicates: [],
+      acceptedAmount: 0,
+    };
+
+    const seen = new Map<string, string>();
+    for (const expenditure of grant.expenditures) {
+      for (const key of this.dedupeKeys(expenditure)) {
+        seen.set(key, expenditure.id);
+      }
+    }
+
+    for (const { row, values: cells } of rows) {
+      if (cells.every((cell) => !cell.trim())) {
+        continue;
+      }
+      report.totalRows++;
+      const values = Object.fromEntries(
+        Object.entries(columnIndex).map(([field, index]) => [field, (cells[index] ?? '').trim()])
+      );
+
+      const errors: string[] = [];
+      const expenditure = await this.toExpenditure(grant, values, profile, options.user, errors);
+      if (!expenditure) {
+        report.rejected.push({ row, values, errors });
+        continue;
+      }
+
+      const keys = this.dedupeKeys(expenditure);
+      const duplicateOf = keys.map((key) => seen.get(key)).find(Boolean);
+      if (duplicateOf) {
+        report.duplicates.push({ row, values, duplicateOf });
+        continue;
+      }
+      for (const key of keys) {
+        seen.set(key, `row ${row}`);
+      }
+
+      report.accepted.push({ row, values, expenditure });
+      report.acceptedAmount += grant.getAmountInGrantCurrency(expenditure);
+    }
+
+    if (!options.dryRun && report.accepted.length > 0) {
+      grant.importExpenditures(
+        report.accepted.map((a) => a.expenditure),
+        options.user,
+        profile.id
+      );
+    }
+    return report;
+  }
+
+  private async readRows(
+    file: Buffer,
+    format: ImportFormat,
+    profile: MappingProfile
+  ): Promise<{ row: number; values: string[] }[]> {
+    let rows: string[][];
+    if (format === 'xlsx') {
+      const workbook = new ExcelJS.Workbook();
+      try {
+        await workbook.xlsx.load(file);
+      } catch (error) {
+        throw new ValidationError(
+          `File is not a readable XLSX workbook: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      const sheet = profile.sheet ? workbook.getWorksheet(profile.sheet) : workbook.worksheets[0];
+      if (!sheet) {
+        throw new ValidationError(`Worksheet ${profile.sheet || '1'} not found in workbook`);
+      }
+      rows = [];
+      sheet.eachRow({ includeEmpty: true }, (row) => {
+        // row.values is 1-based and sparse, with holes for blank cells
+        const values = (row.values as ExcelJS.CellValue[]).slice(1);
+        rows.push(Array.from(values, (value) => this.cellText(value)));
+      });
+    } else {
+      const text = file.toString('utf8').replace(/^\uFEFF/, '');
+      try {
+        rows = parse(text, {
+          delimiter: profile.delimiter || this.detectDelimiter(text, profile.skipRows),
+          relaxColumnCount: true,
+          skipEmptyLines: false,
+        });
+      } catch (error) {
+        // csv/sync throws a CsvError, e.g. for an unclosed quote, naming the line
+        throw new ValidationError(
+          `File is not valid CSV: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return rows.map((values, index) => ({ row: index + 1, values })).slice(profile.skipRows);
+  }
+
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'object') {
+      if ('result' in value) {
+        return this.cellText(value.result as ExcelJS.CellValue);
+      }
+      if ('text' in value) {
+        return String(value.text);
+      }
+      if ('richText' in value) {
+        return value.richText.map((t) => t.text).join('');
+      }
+      return '';
+    }
+    return String(value);
+  }
+
+  private detectDelimiter(text: string, skipRows: number): string {
+    const headerLine = text.split(/\r?\n/)[skipRows] || '';
+    return [',', ';', '\t', '|'].reduce((best, candidate) =>
+      headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+  }
+
+  /** Index of each mapped field in the header row. */
+  private resolveColumns(header: string[], profile: MappingProfile): Record<string, number> {
+    const normalized = header.map((h) => h.trim().toLowerCase());
+    const index: Record<string, number> = {};
+    const missing: string[] = [];
+
+    for (const [field, column] of Object.entries(profile.columns) as [string, string?][]) {
+      if (!column) {
+        continue;
+      }
+      const position = normalized.indexOf(column.trim().toLowerCase());
+      if (position >= 0) {
+        index[field] = position;
+      } else if (['date', 'category', 'amount', 'debit'].includes(field)) {
+        missing.push(column);
+      }
+    }
+
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Columns required by mapping profile ${profile.id} not found: ${missing.join(', ')}`
+      );
+    }
+    return index;
+  }
+
+  private async toExpenditure(
+    grant: Grant,
+    values: Record<string, string>,
+    profile: MappingProfile,
+    user: string,
+    errors: string[]
+  ): Promise<Expenditure | null> {
+    const date = this.parseDate(values.date, profile.dateFormat);
+    if (!date) {
+      errors.push(`Invalid date "${values.date}" (expected ${profile.dateFormat})`);
+    } else if (date < new Date(grant.startDate) || date > new Date(grant.endDate)) {
+      errors.push(`Date ${values.date} is outside the grant period`);
+    }
+
+    const amount = this.parseAmount(values, profile, errors);
+
+    const category = this.mapCategory(grant, values.category, profile);
+    if (!category) {
+      errors.push(
+        values.category
+          ? `Category "${values.category}" does not match a budget category`
+          : 'Category is missing'
+      );
+    }
+
+    const currency = (values.currency || grant.currency).toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      errors.push(`Invalid currency "${values.currency}"`);
+    }
+
+    if (errors.length > 0 || !date || amount === null || !category) {
+      return null;
+    }
+
+    const expenditure: Expenditure = {
+      id: randomUUID(),
+      date,
+      category,
+      description: values.description || '',
+      amount,
+      currency: currency === grant.currency ? undefined : currency,
+      receiptUrl: values.receiptUrl || undefined,
+      externalRef: values.externalRef || undefined,
+      status: 'pending',
+      submittedBy: user,
+      submittedDate: new Date(),
+      approvals: [],
+    };
+
+    try {
+      return { ...expenditure, ...(await withExchangeRate(grant, expenditure)) };
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  private parseDate(value: string, format: ImportDateFormat): Date | null {
+    if (!value) {
+      return null;
+    }
+    // XLSX date cells arrive as ISO timestamps whatever the profile says
+    const match = DATE_PATTERNS['YYYY-MM-DD'].exec(value) || DATE_PATTERNS[format].exec(value);
+    if (!match?.groups) {
+      return null;
+    }
+
+    const { y, m, d, mon } = match.groups;
+    const month = mon ? MONTHS.indexOf(mon.toLowerCase()) + 1 : Number(m);
+    const date = new Date(Date.UTC(Number(y), month - 1, Number(d)));
+    return month >= 1 && date.getUTCMonth() === month - 1 && date.getUTCDate() === Number(d)
+      ? date
+      : null;
+  }
+
+  /** Amount from the amount column, or debit less credit for ledger layouts. */
+  private parseAmount(
+    values: Record<string, string>,
+    profile: MappingProfile,
+    errors: string[]
+  ): number | null {
+    const number = (raw: string | undefined): number | null => {
+      if (!raw) {
+        return 0;
+      }
+      let text = raw.replace(/[^\d.,()-]/g, '');
+      const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+      text = text.replace(/[()-]/g, '');
+      text =
+        profile.decimalSeparator === ','
+          ? text.replace(/\./g, '').replace(',', '.')
+          : text.replace(/,/g, '');
+      const parsed = Number(text);
+      return text && Number.isFinite(parsed) ? (negative ? -parsed : parsed) : null;
+    };
+
+    let amount: number | null;
+    if (profile.columns.amount) {
+      amount = number(values.amount);
+    } else {
+      const debit = number(values.debit);
+      const credit = number(values.credit);
+      amount = debit === null || credit === null ? null : debit - credit;
+    }
+
+    if (amount === null) {
+      errors.push(`Invalid amount "${values.amount ?? values.debit}"`);
+      return null;
+    }
+    if (amount <= 0) {
+      errors.push('Credit and zero-amount entries are not imported as expenditures');
+      return null;
+    }
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Applies the profile's category map, then matches the grant budget
+   * categories case-insensitively. Without a budget any category is accepted.
+   */
+  private mapCategory(grant: Grant, source: string, profile: MappingProfile): string | null {
+    if (!source) {
+      return null;
+    }
+    const mapped =
+      Object.entries(profile.categoryMap).find(
+        ([from]) => from.trim().toLowerCase() === source.toLowerCase()
+      )?.[1] || source;
+
+    if (!grant.budget || grant.budget.categories.length === 0) {
+      return mapped;
+    }
+    return findCategory(grant.budget, mapped)?.name || null;
+  }
+
+  /** Source reference when present, plus a fingerprint of date, amount and category. */
+  private dedupeKeys(expenditure: Expenditure): string[] {
+    const keys = [
+      [
+        toISODate(new Date(expenditure.date)),
+        expenditure.amount.toFixed(2),
+        expenditure.currency || '',
+        expenditure.category.trim().toLowerCase(),
+        (expenditure.description || '').trim().toLowerCase(),
+      ].join('|'),
+    ];
+    if (expenditure.externalRef) {
+      keys.unshift(`ref:${expenditure.externalRef.trim().toLowerCase()}`);
+    }
+    return keys;
+  }
+}
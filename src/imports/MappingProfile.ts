@@ -0,0 +1,121 @@
+export type ImportFormat = 'csv' | 'xlsx';
+
+export type ImportDateFormat =
+  'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'DD MMM YYYY';
+
+/**
+ * Source column (header text, matched case-insensitively) for each Expenditure
+ * field. Ledgers with separate debit and credit columns map those instead of
+ * `amount`; the imported amount is debit less credit.
+ */
+export interface ColumnMapping {
+  date: string;
+  category: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  description?: string;
+  /** Transaction ID in the source system, used to de-duplicate imports */
+  externalRef?: string;
+  currency?: string;
+  receiptUrl?: string;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  columns: ColumnMapping;
+  dateFormat: ImportDateFormat;
+  decimalSeparator: '.' | ',';
+  /** CSV field delimiter; detected from the header line when omitted */
+  delimiter?: string;
+  /** Worksheet to read from XLSX files; the first sheet when omitted */
+  sheet?: string;
+  /** Lines before the header row, such as report titles in GL exports */
+  skipRows: number;
+  /** Source category or GL account to grant expenditure category */
+  categoryMap: Record<string, string>;
+  /** Shipped with the application; cannot be changed or deleted */
+  builtIn?: boolean;
+  createdBy?: string;
+  updatedAt?: Date;
+}
+
+/** Layouts of common accounting-system exports. */
+export const BUILT_IN_PROFILES: MappingProfile[] = [
+  {
+    id: 'generic-csv',
+    name: 'Generic CSV',
+    description:
+      'One row per expenditure with Date, Category, Amount, Description and Reference columns',
+    columns: {
+      date: 'Date',
+      category: 'Category',
+      amount: 'Amount',
+      description: 'Description',
+      externalRef: 'Reference',
+      currency: 'Currency',
+      receiptUrl: 'Receipt URL',
+    },
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    skipRows: 0,
+    categoryMap: {},
+    builtIn: true,
+  },
+  {
+    id: 'quickbooks-general-ledger',
+    name: 'QuickBooks General Ledger',
+    description: 'QuickBooks Online "General Ledger" report exported to CSV or Excel',
+    columns: {
+      date: 'Date',
+      category: 'Split',
+      debit: 'Debit',
+      credit: 'Credit',
+      description: 'Memo/Description',
+      externalRef: 'Num',
+    },
+    dateFormat: 'MM/DD/YYYY',
+    decimalSeparator: '.',
+    skipRows: 4,
+    categoryMap: {},
+    builtIn: true,
+  },
+  {
+    id: 'xero-account-transactions',
+    name: 'Xero Account Transactions',
+    description: 'Xero "Account Transactions" report exported to CSV or Excel',
+    columns: {
+      date: 'Date',
+      category: 'Account',
+      debit: 'Debit',
+      credit: 'Credit',
+      description: 'Description',
+      externalRef: 'Reference',
+    },
+    dateFormat: 'DD MMM YYYY',
+    decimalSeparator: '.',
+    skipRows: 4,
+    categoryMap: {},
+    builtIn: true,
+  },
+  {
+    id: 'sage-50-nominal-activity',
+    name: 'Sage 50 Nominal Activity',
+    description: 'Sage 50 "Nominal Activity" report exported to CSV',
+    columns: {
+      date: 'Date',
+      category: 'N/C',
+      debit: 'Debit',
+      credit: 'Credit',
+      description: 'Details',
+      externalRef: 'Ref',
+    },
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: '.',
+    skipRows: 0,
+    categoryMap: {},
+    builtIn: true,
+  },
+];
@@ -0,0 +1,175 @@
+import { Grant } from '../models/Grant';
+import { ValidationError } from '../utils/errors';
+import { BUILT_IN_KPIS } from './builtInKPIs';
+import { KPICatalog, KPIContext, KPIEngine, kpiPeriods } from './KPIEngine';
+
+const grant = new Grant({
+  id: 'GR-1',
+  title: 'Clinic outreach',
+  totalFunding: 100000,
+  startDate: new Date('2024-01-01'),
+  endDate: new Date('2024-12-31'),
+  kpis: [
+    {
+      id: 'KPI-1',
+      name: 'Beneficiaries screened',
+      description: '',
+      unit: 'people',
+      measurementFrequency: 'monthly',
+      dataSource: 'Screening database',
+      indicator: 'reach',
+      direction: 'higher-is-better',
+      targetValue: 400,
+      interimTargets: [],
+      measurements: [
+        {
+          id: 'M-1',
+          value: 200,
+          date: new Date('2024-05-31'),
+          dataSource: 'Screening database',
+          recordedBy: 'sam',
+          recordedDate: new Date('2024-06-02'),
+          verificationStatus: 'verified',
+        },
+      ],
+    },
+  ],
+});
+
+const context: KPIContext = {
+  grant,
+  requirements: [],
+  period: { label: 'to-date', start: grant.startDate, end: new Date('2024-06-30') },
+};
+
+const catalog: KPICatalog = {
+  name: 'test',
+  facts: {
+    spend: () => 50000,
+    failing: () => {
+      throw new Error('ledger offline');
+    },
+  },
+  kpis: [
+    {
+      id: 'utilization',
+      name: 'Utilization',
+      category: 'financial',
+      expression: {
+        compute: 'multiply',
+        args: [
+          { compute: 'divide', args: [{ path: 'facts.spend' }, { path: 'grant.totalFunding' }] },
+          100,
+        ],
+      },
+      bands: [
+        { status: 'green', min: 40, max: 60 },
+        { status: 'yellow', min: 30 },
+      ],
+    },
+    {
+      id: 'cost-per-person',
+      name: 'Cost per person',
+      category: 'financial',
+      expression: {
+        compute: 'divide',
+        args: [{ path: 'facts.spend' }, { path: 'indicators.reach.current' }],
+      },
+      bands: [{ status: 'green', max: { path: 'params.maxCost' } }],
+      otherwise: 'yellow',
+      parameters: { maxCost: 200 },
+    },
+    {
+      id: 'utilization-share',
+      name: 'Utilization share',
+      category: 'financial',
+      expression: { compute: 'divide', args: [{ path: 'kpis.utilization' }, 100] },
+    },
+    {
+      id: 'broken',
+      name: 'Broken',
+      category: 'financial',
+      expression: { path: 'facts.failing' },
+    },
+  ],
+};
+
+describe('KPIEngine', () => {
+  const engine = new KPIEngine().use(catalog);
+
+  it('evaluates expressions with facts and rates them by the first matching band', async () => {
+    const [utilization, cost] = await engine.evaluate(context, ['utilization', 'cost-per-person']);
+
+    expect(utilization).toMatchObject({
+      value: 50,
+      status: 'green',
+      band: { status: 'green', min: 40, max: 60 },
+    });
+    expect(cost).toMatchObject({ value: 250, status: 'yellow' });
+  });
+
+  it('evaluates the KPIs a requested one builds on without returning them', async () => {
+    const results = await engine.evaluate(context, ['utilization-share']);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ value: 0.5, status: 'unrated' });
+  });
+
+  it('explains values that could not be computed', async () => {
+    const [broken] = await engine.evaluate(context, ['broken']);
+    expect(broken).toMatchObject({ value: null, status: 'no-data' });
+    expect(broken.error).toBe('Could not resolve fact "failing": ledger offline');
+
+    const unlinked = await new KPIEngine()
+      .use(catalog)
+      .evaluate({ ...context, grant: new Grant({ ...grant, kpis: [] }) }, ['cost-per-person']);
+    expect(unlinked[0].error).toBe('No grant KPI is linked to indicator "reach"');
+
+    await expect(engine.evaluate(context, ['missing'])).rejects.toThrow('Unknown KPIs: missing');
+  });
+
+  it('rejects invalid definitions, unknown references and cycles when registered', () => {
+    const kpi = { name: 'KPI', category: 'financial' as const };
+
+    expect(() =>
+      new KPIEngine().use({
+        name: 'bad',
+        kpis: [{ ...kpi, id: 'x', expression: { path: 1 } as never }],
+      })
+    ).toThrow(ValidationError);
+    expect(
+      new KPIEngine().validateDefinition({ id: 'x', name: 'X', category: 'social', expression: 1 })
+    ).toEqual(['category must be one of financial, programmatic, compliance, outcome']);
+    expect(() =>
+      new KPIEngine().use({
+        name: 'refs',
+        kpis: [{ ...kpi, id: 'a', expression: { path: 'kpis.b' } }],
+      })
+    ).toThrow('refers to unknown KPIs: b');
+    expect(() =>
+      new KPIEngine().use({
+        name: 'cycle',
+        kpis: [
+          { ...kpi, id: 'a', expression: { path: 'kpis.b' } },
+          { ...kpi, id: 'b', expression: { path: 'kpis.a' } },
+        ],
+      })
+    ).toThrow('KPI definitions form a cycle: a -> b -> a');
+  });
+
+  it('registers the built-in catalog', () => {
+    const builtIn = new KPIEngine().use(BUILT_IN_KPIS);
+
+    expect(builtIn.catalogNames()).toEqual([BUILT_IN_KPIS.name]);
+    expect(builtIn.getDefinition('budget-utilization')?.category).toBe('financial');
+  });
+});
+
+describe('kpiPeriods', () => {
+  it('cuts the reporting schedule at the as-of date', () => {
+    const periods = kpiPeriods(grant, 'quarterly', new Date('2024-05-15'));
+
+    expect(periods).toHaveLength(2);
+    expect(periods[1].end).toEqual(new Date('2024-05-15'));
+  });
+});
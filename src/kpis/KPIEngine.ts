@@ -0,0 +1,399 @@
+import { ComplianceRuleEngine, generateReportingSchedule, Operand } from '../compliance';
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import { kpiAchievement, KPIAchievement } from '../models/KPI';
+import { PeriodType } from '../utils/dates';
+import { ValidationError } from '../utils/errors';
+
+export type RAGStatus = 'green' | 'yellow' | 'red';
+
+export type KPICategory = 'financial' | 'programmatic' | 'compliance' | 'outcome';
+
+/** Range of values, inclusive at both ends, that gives a KPI a status. */
+export interface ThresholdBand {
+  status: RAGStatus;
+  min?: Operand;
+  max?: Operand;
+}
+
+/**
+ * A KPI computed from an expression. Expressions are operands of the
+ * compliance rule language, evaluated with `grant`, `period`, `now` (the end
+ * of the period), `params`, `facts.<name>`, `kpis.<id>` (other derived KPIs
+ * for the same period) and `indicators.<id>` (the achievement, as of the end
+ * of the period, of the grant's measured KPI linked to catalog KPI `id`) in
+ * scope.
+ */
+export interface KPIDefinition {
+  id: string;
+  name: string;
+  category: KPICategory;
+  description?: string;
+  /** The formula in words, e.g. `Total Expenditures / Number of Beneficiaries Served` */
+  formula?: string;
+  unit?: string;
+  /** How often the KPI is reported */
+  frequency?: PeriodType;
+  expression: Operand;
+  /** Checked in order; the first band containing the value gives the status */
+  bands?: ThresholdBand[];
+  /** Status of a value outside every band; defaults to red */
+  otherwise?: RAGStatus;
+  parameters?: Record<string, unknown>;
+}
+
+export interface KPIPeriod {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface KPIContext {
+  grant: Grant;
+  period: KPIPeriod;
+  /** The grant's compliance requirements, including those of its rule packs */
+  requirements: ComplianceRequirement[];
+}
+
+/** Derived value exposed to expressions as `facts.<name>`; may be async. */
+export type KPIFactResolver = (context: KPIContext) => unknown;
+
+/** Bundle of KPI definitions and facts registered together. */
+export interface KPICatalog {
+  name: string;
+  kpis?: KPIDefinition[];
+  facts?: Record<string, KPIFactResolver>;
+}
+
+/** No value could be computed, or the KPI has no bands to rate it against. */
+export type DerivedKPIStatus = RAGStatus | 'no-data' | 'unrated';
+
+export interface DerivedKPIValue {
+  kpiId: string;
+  name: string;
+  category: KPICategory;
+  unit?: string;
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  value: number | null;
+  status: DerivedKPIStatus;
+  /** Resolved bounds of the band the value fell in */
+  band?: { status: RAGStatus; min?: number; max?: number };
+  /** Why the value could not be computed or rated */
+  error?: string;
+}
+
+const CATEGORIES: KPICategory[] = ['financial', 'programmatic', 'compliance', 'outcome'];
+const STATUSES: RAGStatus[] = ['green', 'yellow', 'red'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Every `path` read anywhere in an operand, including nested conditions. */
+function paths(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(paths);
+  }
+  if (!isObject(value)) {
+    return [];
+  }
+  return [
+    ...(typeof value.path === 'string' ? [value.path] : []),
+    ...Object.values(value).flatMap(paths),
+  ];
+}
+
+/** Names a definition reads from one namespace of the scope, e.g. the KPIs behind `kpis.<id>`. */
+function referenced(definition: KPIDefinition, namespace: string): string[] {
+  const operands = [
+    definition.expression,
+    ...(definition.bands || []).flatMap((band) => [band.min, band.max]),
+  ];
+  const prefix = `${namespace}.`;
+  return [
+    ...new Set(
+      paths(operands)
+        .filter((path) => path.startsWith(prefix))
+        .map((path) => path.slice(prefix.length).split('.')[0])
+    ),
+  ];
+}
+
+function toNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Periods of the given frequency from the grant start up to `asOf`, on the
+ * boundaries of the grant's reporting schedule. The current period ends at
+ * `asOf`.
+ */
+export function kpiPeriods(grant: Grant, frequency: PeriodType, asOf: Date): KPIPeriod[] {
+  return generateReportingSchedule(grant, { ...grant.reportingSchedule, frequency })
+    .filter((period) => period.start <= asOf)
+    .map(({ label, start, end }) => ({ label, start, end: end < asOf ? end : asOf }));
+}
+
+/**
+ * Computes derived KPIs from declarative definitions. Definitions may build on
+ * each other; they are evaluated in dependency order and must not form a
+ * cycle. Each value is rated green, yellow or red by the definition's
+ * threshold bands.
+ */
+export class KPIEngine {
+  private definitions = new Map<string, KPIDefinition>();
+  private readonly facts = new Map<string, KPIFactResolver>();
+  private readonly catalogs: string[] = [];
+
+  /** `expressions` evaluates definitions; its custom operators are available to them. */
+  constructor(private readonly expressions: ComplianceRuleEngine = new ComplianceRuleEngine()) {}
+
+  /** Registers a catalog's facts and definitions; later registrations replace earlier ones. */
+  use(catalog: KPICatalog): this {
+    for (const [name, resolver] of Object.entries(catalog.facts || {})) {
+      this.facts.set(name, resolver);
+    }
+
+    const definitions = new Map(this.definitions);
+    for (const definition of catalog.kpis || []) {
+      const problems = this.validateDefinition(definition);
+      if (problems.length > 0) {
+        throw new ValidationError(
+          `KPI "${String((definition as Partial<KPIDefinition>)?.id)}" in catalog ${catalog.name} is invalid: ${problems.join('; ')}`
+        );
+      }
+      definitions.set(definition.id, definition);
+    }
+    for (const definition of definitions.values()) {
+      const unknown = referenced(definition, 'kpis').filter((id) => !definitions.has(id));
+      if (unknown.length > 0) {
+        throw new ValidationError(
+          `KPI "${definition.id}" in catalog ${catalog.name} refers to unknown KPIs: ${unknown.join(', ')}`
+        );
+      }
+    }
+    evaluationOrder(definitions, [...definitions.keys()]);
+
+    this.definitions = definitions;
+    this.catalogs.push(catalog.name);
+    return this;
+  }
+
+  catalogNames(): string[] {
+    return [...this.catalogs];
+  }
+
+  list(): KPIDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  getDefinition(id: string): KPIDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  /** Structural problems in a definition, each prefixed with where it occurs; empty when valid. */
+  validateDefinition(definition: unknown): string[] {
+    if (!isObject(definition)) {
+      return ['KPI definition must be an object'];
+    }
+    const problems: string[] = [];
+    for (const key of ['id', 'name']) {
+      if (typeof definition[key] !== 'string' || !definition[key]) {
+        problems.push(`${key} must be a non-empty string`);
+      }
+    }
+    if (!CATEGORIES.includes(definition.category as KPICategory)) {
+      problems.push(`category must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (definition.expression === undefined) {
+      problems.push('expression is required');
+    } else {
+      problems.push(...this.expressions.validateOperand(definition.expression, 'expression'));
+    }
+    if (
+      definition.otherwise !== undefined &&
+      !STATUSES.includes(definition.otherwise as RAGStatus)
+    ) {
+      problems.push(`otherwise must be one of ${STATUSES.join(', ')}`);
+    }
+    if (definition.bands !== undefined) {
+      if (!Array.isArray(definition.bands)) {
+        problems.push('bands must be an array');
+      } else {
+        definition.bands.forEach((band: unknown, i) => {
+          const at = `bands[${i}]`;
+          if (!isObject(band) || !STATUSES.includes(band.status as RAGStatus)) {
+            problems.push(`${at}.status must be one of ${STATUSES.join(', ')}`);
+            return;
+          }
+          for (const bound of ['min', 'max'] as const) {
+            if (band[bound] !== undefined) {
+              problems.push(...this.expressions.validateOperand(band[bound], `${at}.${bound}`));
+            }
+          }
+        });
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Evaluates the given KPIs, or all registered ones, for one grant and
+   * period. KPIs the requested ones build on are evaluated too but only
+   * returned when requested.
+   */
+  async evaluate(context: KPIContext, ids?: string[]): Promise<DerivedKPIValue[]> {
+    const requested = ids || [...this.definitions.keys()];
+    const unknown = requested.filter((id) => !this.definitions.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown KPIs: ${unknown.join(', ')}`);
+    }
+    const order = evaluationOrder(this.definitions, requested);
+
+    const facts: Record<string, unknown> = {};
+    const factErrors = new Map<string, string>();
+    for (const name of new Set(order.flatMap((definition) => referenced(definition, 'facts')))) {
+      const resolve = this.facts.get(name);
+      if (!resolve) {
+        factErrors.set(name, `Unknown fact "${name}"`);
+        continue;
+      }
+      try {
+        facts[name] = await resolve(context);
+      } catch (error) {
+        factErrors.set(
+          name,
+          `Could not resolve fact "${name}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const indicators: Record<string, KPIAchievement> = {};
+    for (const kpi of context.grant.kpis) {
+      if (kpi.indicator && !indicators[kpi.indicator]) {
+        indicators[kpi.indicator] = kpiAchievement(kpi, context.period.end);
+      }
+    }
+
+    const kpis: Record<string, number | undefined> = {};
+    const results = new Map<string, DerivedKPIValue>();
+    for (const definition of order) {
+      const scope = {
+        grant: context.grant,
+        period: context.period,
+        now: context.period.end,
+        params: definition.parameters || {},
+        facts,
+        kpis,
+        indicators,
+      };
+      const result = this.evaluateDefinition(definition, scope, context.period);
+      if (result.value === null && !result.error) {
+        const missing = [
+          ...referenced(definition, 'facts')
+            .filter((name) => factErrors.has(name))
+            .map((name) => factErrors.get(name) as string),
+          ...referenced(definition, 'indicators')
+            .filter((id) => !indicators[id])
+            .map((id) => `No grant KPI is linked to indicator "${id}"`),
+        ];
+        result.error = missing.length > 0 ? missing.join('; ') : undefined;
+      }
+      kpis[definition.id] = result.value ?? undefined;
+      results.set(definition.id, result);
+    }
+    return requested.map((id) => results.get(id) as DerivedKPIValue);
+  }
+
+  private evaluateDefinition(
+    definition: KPIDefinition,
+    scope: Record<string, unknown>,
+    period: KPIPeriod
+  ): DerivedKPIValue {
+    const result: DerivedKPIValue = {
+      kpiId: definition.id,
+      name: definition.name,
+      category: definition.category,
+      unit: definition.unit,
+      period: period.label,
+      periodStart: period.start,
+      periodEnd: period.end,
+      value: null,
+      status: 'no-data',
+    };
+
+    try {
+      result.value = toNumber(this.expressions.evaluateOperand(definition.expression, scope));
+      if (result.value === null) {
+        return result;
+      }
+      if (!definition.bands || definition.bands.length === 0) {
+        result.status = 'unrated';
+        return result;
+      }
+
+      for (const band of definition.bands) {
+        const min = band.min === undefined ? undefined : this.bound(band.min, scope);
+        const max = band.max === undefined ? undefined : this.bound(band.max, scope);
+        if (min === null || max === null) {
+          result.status = 'unrated';
+          result.error = `Thresholds of the ${band.status} band could not be resolved`;
+          return result;
+        }
+        if (
+          (min === undefined || result.value >= min) &&
+          (max === undefined || result.value <= max)
+        ) {
+          result.status = band.status;
+          result.band = { status: band.status, min, max };
+          return result;
+        }
+      }
+      result.status = definition.otherwise || 'red';
+      return result;
+    } catch (error) {
+      result.value = null;
+      result.status = 'no-data';
+      result.error = `Could not evaluate KPI: ${error instanceof Error ? error.message : String(error)}`;
+      return result;
+    }
+  }
+
+  private bound(operand: Operand, scope: Record<string, unknown>): number | null {
+    return toNumber(this.expressions.evaluateOperand(operand, scope));
+  }
+}
+
+/**
+ * The requested definitions and everything they build on, each after the KPIs
+ * it refers to. Throws on a reference cycle.
+ */
+function evaluationOrder(definitions: Map<string, KPIDefinition>, ids: string[]): KPIDefinition[] {
+  const order: KPIDefinition[] = [];
+  const done = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (id: string): void => {
+    if (done.has(id)) {
+      return;
+    }
+    if (visiting.includes(id)) {
+      throw new ValidationError(
+        `KPI definitions form a cycle: ${[...visiting.slice(visiting.indexOf(id)), id].join(' -> ')}`
+      );
+    }
+    const definition = definitions.get(id);
+    if (!definition) {
+      return;
+    }
+    visiting.push(id);
+    referenced(definition, 'kpis').forEach(visit);
+    visiting.pop();
+    done.add(id);
+    order.push(definition);
+  };
+
+  ids.forEach(visit);
+  return order;
+}
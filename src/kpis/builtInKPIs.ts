@@ -0,0 +1,306 @@
+import { Condition, Operand, reportingStatus } from '../compliance';
+import { ComplianceMetrics, SEVERITY_WEIGHTS } from '../metrics/ComplianceMetrics';
+import { FinancialMetrics } from '../metrics/FinancialMetrics';
+import type { KPICatalog, KPIContext, KPIDefinition } from './KPIEngine';
+
+function approvedSpend({ grant, period }: KPIContext): number {
+  return grant.expenditures
+    .filter((e) => e.status === 'approved' && e.date <= period.end)
+    .reduce((sum, e) => sum + grant.getAmountInGrantCurrency(e), 0);
+}
+
+/**
+ * Document types the grant's requirements in force by the end of the period
+ * ask for, and whether each has an approved document uploaded by then.
+ */
+function requiredDocuments({ grant, period, requirements }: KPIContext): {
+  type: string;
+  approved: boolean;
+}[] {
+  const types = new Set(
+    requirements
+      .filter((r) => !r.applicableFrom || new Date(r.applicableFrom) <= period.end)
+      .flatMap((r): unknown => r.parameters?.requiredDocuments)
+      .filter((type): type is string => typeof type === 'string')
+  );
+  return [...types].map((type) => ({
+    type,
+    approved: grant.documents.some(
+      (d) => d.type === type && d.status === 'approved' && d.uploadDate <= period.end
+    ),
+  }));
+}
+
+/** Share of assessed requirements met as of the end of the period, weighted by severity. */
+async function complianceScore({
+  grant,
+  period,
+  requirements,
+}: KPIContext): Promise<number | undefined> {
+  const summary = await new ComplianceMetrics().assessCompliance(grant, requirements, period.end);
+  let met = 0;
+  let assessed = 0;
+  for (const requirement of summary.requirements) {
+    if (requirement.status === 'compliant' || requirement.status === 'non-compliant') {
+      const weight = SEVERITY_WEIGHTS[requirement.severity];
+      assessed += weight;
+      met += requirement.status === 'compliant' ? weight : 0;
+    }
+  }
+  return assessed > 0 ? met / assessed : undefined;
+}
+
+const path = (p: string): Operand => ({ path: p });
+
+const percent = (numerator: Operand, denominator: Operand): Operand => ({
+  compute: 'multiply',
+  args: [{ compute: 'divide', args: [numerator, denominator] }, 100],
+});
+
+const scaled = (operand: Operand, factor: number): Operand => ({
+  compute: 'multiply',
+  args: [operand, factor],
+});
+
+const count = (of: string, as: string, where?: Condition): Operand => ({
+  aggregate: 'count',
+  of: { path: of, default: [] },
+  as,
+  where,
+});
+
+/** Bands for a KPI measured against its linked indicator's target, as for measured KPI status. */
+const targetBands = (indicator: string): KPIDefinition['bands'] => [
+  { status: 'green', min: scaled(path(`indicators.${indicator}.target`), 0.9) },
+  { status: 'yellow', min: scaled(path(`indicators.${indicator}.target`), 0.75) },
+];
+
+/** The KPIs defined in docs/kpis.md. */
+export const BUILT_IN_KPI_DEFINITIONS: KPIDefinition[] = [
+  {
+    id: 'budget-utilization',
+    name: 'Budget Utilization Rate',
+    category: 'financial',
+    description: 'Percentage of total grant funds utilized against total awarded amount',
+    formula: '(Total Expenditures / Total Awarded Amount) * 100',
+    unit: '%',
+    frequency: 'monthly',
+    expression: percent(path('facts.approvedSpend'), path('grant.totalFunding')),
+    bands: [
+      { status: 'green', min: 70, max: 110 },
+      { status: 'yellow', min: 50, max: 130 },
+    ],
+  },
+  {
+    id: 'cost-per-beneficiary',
+    name: 'Cost Per Beneficiary',
+    category: 'financial',
+    description:
+      'Average cost to serve one beneficiary; rated against the target of the grant KPI linked to it',
+    formula: 'Total Expenditures / Number of Beneficiaries Served',
+    unit: 'per beneficiary',
+    frequency: 'quarterly',
+    expression: {
+      compute: 'divide',
+      args: [path('facts.approvedSpend'), path('kpis.beneficiary-reach')],
+    },
+    bands: [
+      { status: 'green', max: path('indicators.cost-per-beneficiary.target') },
+      { status: 'yellow', max: scaled(path('indicators.cost-per-beneficiary.target'), 1.1) },
+    ],
+  },
+  {
+    id: 'matching-funds-achievement',
+    name: 'Matching Funds Achievement',
+    category: 'financial',
+    description:
+      'Percentage of required matching funds secured; green while it keeps pace with grant spending',
+    formula: '(Actual Matching Funds / Required Matching Funds) * 100',
+    unit: '%',
+    frequency: 'semi-annual',
+    expression: percent(path('facts.matching.secured'), path('facts.matching.required')),
+    bands: [
+      { status: 'green', min: scaled(path('facts.matching.spendRatio'), 100) },
+      {
+        status: 'yellow',
+        min: { compute: 'subtract', args: [scaled(path('facts.matching.spendRatio'), 100), 10] },
+      },
+    ],
+  },
+  {
+    id: 'beneficiary-reach',
+    name: 'Beneficiary Reach',
+    category: 'programmatic',
+    description: 'Number of unique beneficiaries served, from the grant KPI linked to it',
+    formula: 'Count of verified beneficiaries receiving services',
+    unit: 'beneficiaries',
+    frequency: 'quarterly',
+    expression: path('indicators.beneficiary-reach.current'),
+    bands: targetBands('beneficiary-reach'),
+  },
+  {
+    id: 'service-delivery-completion',
+    name: 'Service Delivery Completion',
+    category: 'programmatic',
+    description:
+      'Percentage of planned services delivered; the linked grant KPI counts services delivered against services planned',
+    formula: '(Services Delivered / Services Planned) * 100',
+    unit: '%',
+    frequency: 'monthly',
+    expression: percent(
+      path('indicators.service-delivery-completion.current'),
+      path('indicators.service-delivery-completion.target')
+    ),
+    bands: [
+      { status: 'green', min: 90 },
+      { status: 'yellow', min: 75 },
+    ],
+  },
+  {
+    id: 'quality-satisfaction',
+    name: 'Quality Satisfaction Score',
+    category: 'programmatic',
+    description: 'Average satisfaction rating from beneficiaries on a 5-point scale',
+    formula: 'Average 5-point Likert scale survey result',
+    unit: 'rating',
+    frequency: 'quarterly',
+    expression: path('indicators.quality-satisfaction.current'),
+    bands: [
+      { status: 'green', min: 4 },
+      { status: 'yellow', min: 3.5 },
+    ],
+  },
+  {
+    id: 'reporting-timeliness',
+    name: 'Reporting Timeliness',
+    category: 'compliance',
+    description:
+      'Percentage of reports submitted by their deadline plus the grace period, of those due by the end of the period',
+    formula: '(Reports Submitted On Time / Total Reports Due) * 100',
+    unit: '%',
+    frequency: 'quarterly',
+    expression: percent(
+      count('facts.reportingSchedule', 'report', {
+        fact: path('report.status'),
+        operator: 'eq',
+        value: 'on-time',
+      }),
+      count('facts.reportingSchedule', 'report', {
+        fact: path('report.status'),
+        operator: 'in',
+        value: ['on-time', 'late', 'overdue'],
+      })
+    ),
+    bands: [
+      { status: 'green', min: 100 },
+      { status: 'yellow', min: 80 },
+    ],
+  },
+  {
+    id: 'document-compliance-rate',
+    name: 'Document Compliance Rate',
+    category: 'compliance',
+    description:
+      "Percentage of document types required by the grant's compliance requirements that have an approved document",
+    formula: '(Approved Documents / Required Documents) * 100',
+    unit: '%',
+    frequency: 'monthly',
+    expression: percent(
+      count('facts.requiredDocuments', 'document', {
+        fact: path('document.approved'),
+        operator: 'eq',
+        value: true,
+      }),
+      count('facts.requiredDocuments', 'document')
+    ),
+    bands: [
+      { status: 'green', min: 100 },
+      { status: 'yellow', min: 90 },
+    ],
+  },
+  {
+    id: 'regulatory-compliance-score',
+    name: 'Regulatory Compliance Score',
+    category: 'compliance',
+    description:
+      'Compliance requirements met, weighted by severity (high 3, medium 2, low 1), as a percentage of those assessed',
+    formula: 'Weighted average of compliance check results',
+    unit: '%',
+    frequency: 'quarterly',
+    expression: scaled(path('facts.complianceScore'), 100),
+    bands: [
+      { status: 'green', min: 95 },
+      { status: 'yellow', min: 85 },
+    ],
+  },
+  {
+    id: 'program-impact',
+    name: 'Program Impact Score',
+    category: 'outcome',
+    description:
+      'Percentage of the planned change from the pre-program baseline achieved, from the grant KPI linked to it',
+    formula: '(Post-program - Pre-program) / (Target - Pre-program) * 100',
+    unit: '%',
+    frequency: 'annual',
+    expression: scaled(path('indicators.program-impact.achievement'), 100),
+    bands: [
+      { status: 'green', min: 90 },
+      { status: 'yellow', min: 75 },
+    ],
+  },
+  {
+    id: 'sustainability-index',
+    name: 'Sustainability Index',
+    category: 'outcome',
+    description:
+      'Average of the funding diversification, community support and capacity building scores (0-1) of the grant KPIs linked to them',
+    formula: 'Composite of funding diversification, community support and capacity building',
+    unit: 'index',
+    frequency: 'annual',
+    expression: {
+      aggregate: 'avg',
+      of: [
+        path('indicators.funding-diversification.current'),
+        path('indicators.community-support.current'),
+        path('indicators.capacity-building.current'),
+      ],
+    },
+    bands: [
+      { status: 'green', min: 0.7 },
+      { status: 'yellow', min: 0.5 },
+    ],
+  },
+  {
+    id: 'cost-effectiveness',
+    name: 'Cost-Effectiveness Ratio',
+    category: 'outcome',
+    description:
+      'Outcomes achieved, from the grant KPI linked to `outcomes-achieved`, per unit of spend; rated against the benchmark set as the target of the grant KPI linked to it',
+    formula: 'Total Outcomes Achieved / Total Expenditures',
+    unit: 'outcomes per currency unit',
+    frequency: 'annual',
+    expression: {
+      compute: 'divide',
+      args: [path('indicators.outcomes-achieved.current'), path('facts.approvedSpend')],
+    },
+    bands: [
+      { status: 'green', min: path('indicators.cost-effectiveness.target') },
+      { status: 'yellow', min: scaled(path('indicators.cost-effectiveness.target'), 0.9) },
+    ],
+  },
+];
+
+export const BUILT_IN_KPIS: KPICatalog = {
+  name: 'built-in',
+  facts: {
+    approvedSpend,
+    matching: ({ grant, period }) =>
+      grant.matchingRequirement
+        ? new FinancialMetrics().calculateMatching(grant, period.end)
+        : undefined,
+    reportingSchedule: ({ grant, period }) => reportingStatus(grant, period.end),
+    requiredDocuments,
+    complianceScore,
+  },
+  kpis: BUILT_IN_KPI_DEFINITIONS,
+};
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { getComplianceRuleEngine } from '../compliance';
+import { ValidationError } from '../utils/errors';
+import { BUILT_IN_KPIS } from './builtInKPIs';
+import { KPICatalog, KPIDefinition, KPIEngine } from './KPIEngine';
+
+export {
+  DerivedKPIStatus,
+  DerivedKPIValue,
+  KPICatalog,
+  KPICategory,
+  KPIContext,
+  KPIDefinition,
+  KPIEngine,
+  KPIFactResolver,
+  KPIPeriod,
+  kpiPeriods,
+  RAGStatus,
+  ThresholdBand,
+} from './KPIEngine';
+export { BUILT_IN_KPI_DEFINITIONS, BUILT_IN_KPIS } from './builtInKPIs';
+
+let kpiEngine: KPIEngine | null = null;
+
+/**
+ * Reads KPI definitions from a YAML or JSON file of the form
+ * `{ name, kpis: KPIDefinition[] }`. Facts need code, so they can only come
+ * from catalogs registered with KPIEngine.use().
+ */
+export function loadKPICatalog(filePath: string): KPICatalog {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+  const file = (parsed || {}) as { name?: unknown; kpis?: unknown };
+  if (!Array.isArray(file.kpis)) {
+    throw new ValidationError(`KPI catalog ${filePath} must contain a "kpis" list`);
+  }
+  return {
+    name: typeof file.name === 'string' ? file.name : path.basename(filePath),
+    kpis: file.kpis as KPIDefinition[],
+  };
+}
+
+/**
+ * Returns the active KPI engine: the built-in catalog, plus the definitions
+ * in the file named by KPI_CATALOG_PATH, evaluated with the active compliance
+ * rule engine, unless another engine is registered via setKPIEngine().
+ */
+export function getKPIEngine(): KPIEngine {
+  if (!kpiEngine) {
+    kpiEngine = new KPIEngine(getComplianceRuleEngine()).use(BUILT_IN_KPIS);
+    if (process.env.KPI_CATALOG_PATH) {
+      kpiEngine.use(loadKPICatalog(process.env.KPI_CATALOG_PATH));
+    }
+  }
+  return kpiEngine;
+}
+
+export function setKPIEngine(engine: KPIEngine): void {
+  kpiEngine = engine;
+}
@@ -0,0 +1,5 @@
+/**
+ * Common base of the metric calculators. Calculators work on the grants and
+ * requirements they are given; loading them is left to the caller.
+ */
+export abstract class BaseMetric {}
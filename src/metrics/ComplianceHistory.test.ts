@@ -0,0 +1,124 @@
+import {
+  ComplianceSnapshot,
+  complianceDrift,
+  complianceTrend,
+  ongoingNonCompliance,
+  toComplianceSnapshot,
+} from './ComplianceHistory';
+import type { ComplianceStatus, ComplianceSummary } from './ComplianceMetrics';
+
+type Status = ComplianceStatus['status'];
+
+/** Snapshot of GR-1 taken on `date` with the given requirement statuses. */
+function snapshot(date: string, statuses: Record<string, Status>, version = 1): ComplianceSnapshot {
+  const requirements = Object.entries(statuses).map(([id, status]): ComplianceStatus => ({
+    requirementId: id,
+    requirementName: `Requirement ${id}`,
+    description: '',
+    status,
+    evidence: [],
+    lastChecked: new Date(date),
+    severity: 'high',
+    ruleType: 'custom',
+    trace: { description: id, outcome: status === 'compliant' ? 'passed' : 'failed' },
+  }));
+  const compliant = requirements.filter((r) => r.status === 'compliant').length;
+  const nonCompliant = requirements.filter((r) => r.status === 'non-compliant').length;
+  const summary: ComplianceSummary = {
+    grantId: 'GR-1',
+    totalRequirements: requirements.length,
+    compliantRequirements: compliant,
+    nonCompliantRequirements: nonCompliant,
+    pendingRequirements: 0,
+    complianceRate: compliant / requirements.length,
+    highPriorityIssues: nonCompliant,
+    mediumPriorityIssues: 0,
+    lowPriorityIssues: 0,
+    status: nonCompliant > 0 ? 'non-compliant' : 'compliant',
+    requirements,
+    lastAssessment: new Date(date),
+    rulePacks: [],
+  };
+  return toComplianceSnapshot(summary, version);
+}
+
+describe('toComplianceSnapshot', () => {
+  it('keeps the assessment without the clause traces', () => {
+    const taken = snapshot('2024-03-01', { A: 'compliant' }, 4);
+
+    expect(taken).toMatchObject({ grantId: 'GR-1', grantVersion: 4, complianceRate: 1 });
+    expect(taken.summary.requirements[0].trace).toBeUndefined();
+  });
+});
+
+describe('complianceDrift', () => {
+  it('lists flips, added and removed requirements and skips unchanged pairs', () => {
+    const history = [
+      snapshot('2024-03-01', { A: 'compliant', B: 'compliant' }),
+      snapshot('2024-03-02', { A: 'compliant', B: 'compliant' }),
+      snapshot('2024-03-03', { A: 'non-compliant', C: 'compliant' }),
+    ];
+
+    const drift = complianceDrift(history);
+    expect(drift).toHaveLength(1);
+    expect(drift[0]).toMatchObject({
+      from: { snapshotId: history[1].id },
+      to: { snapshotId: history[2].id },
+      statusChange: { from: 'compliant', to: 'non-compliant' },
+      added: ['C'],
+      removed: ['B'],
+    });
+    expect(drift[0].flipped.map((f) => [f.requirementId, f.from, f.to])).toEqual([
+      ['A', 'compliant', 'non-compliant'],
+    ]);
+    expect(drift[0].rateChange).toBeCloseTo(-0.5);
+  });
+});
+
+describe('ongoingNonCompliance', () => {
+  it('dates each non-compliant requirement from the start of its unbroken run', () => {
+    const since = ongoingNonCompliance([
+      snapshot('2024-03-01', { A: 'non-compliant', B: 'compliant' }),
+      snapshot('2024-03-05', { A: 'compliant', B: 'non-compliant' }),
+      snapshot('2024-03-09', { A: 'non-compliant', B: 'non-compliant' }),
+    ]);
+
+    expect(since.map((r) => [r.requirementId, r.since.toISOString().slice(0, 10)])).toEqual([
+      ['B', '2024-03-05'],
+      ['A', '2024-03-09'],
+    ]);
+    expect(ongoingNonCompliance([])).toEqual([]);
+  });
+});
+
+describe('complianceTrend', () => {
+  it('carries each grant forward day by day and fits the direction', () => {
+    const trend = complianceTrend(
+      [
+        snapshot('2024-03-01', { A: 'non-compliant', B: 'non-compliant' }),
+        snapshot('2024-03-03', { A: 'compliant', B: 'non-compliant' }),
+        snapshot('2024-03-05', { A: 'compliant', B: 'compliant' }),
+      ],
+      new Date('2024-03-01'),
+      new Date('2024-03-05')
+    );
+
+    expect(trend.dataPoints.map((p) => p.value)).toEqual([0, 0, 0.5, 0.5, 1]);
+    expect(trend.trend).toBe('improving');
+    expect(trend.insights).toEqual([
+      'GR-1: Requirement A returned to compliance on 2024-03-03',
+      'GR-1: Requirement B returned to compliance on 2024-03-05',
+    ]);
+  });
+
+  it('needs more than one day of data to call a trend', () => {
+    const trend = complianceTrend(
+      [snapshot('2024-03-01', { A: 'compliant' })],
+      new Date('2024-02-01'),
+      new Date('2024-03-01')
+    );
+
+    expect(trend.dataPoints).toHaveLength(1);
+    expect(trend.trend).toBe('insufficient-data');
+  });
+});
@@ -0,0 +1,270 @@
+import { randomUUID } from 'crypto';
+import { addDays, startOfDay, toISODate } from '../utils/dates';
+import { linearFit } from '../utils/stats';
+import type { ComplianceStatus, ComplianceSummary } from './ComplianceMetrics';
+
+type RequirementStatus = ComplianceStatus['status'];
+
+/** A persisted compliance assessment of one grant. */
+export interface ComplianceSnapshot {
+  id: string;
+  grantId: string;
+  /** Grant version the assessment ran against */
+  grantVersion: number;
+  takenAt: Date;
+  complianceRate: number;
+  status: ComplianceSummary['status'];
+  /** The assessment, without the per-clause traces */
+  summary: ComplianceSummary;
+}
+
+/** A requirement whose status differs between two snapshots. */
+export interface RequirementFlip {
+  requirementId: string;
+  requirementName: string;
+  severity: ComplianceStatus['severity'];
+  from: RequirementStatus;
+  to: RequirementStatus;
+}
+
+/** What changed between two consecutive snapshots of a grant. */
+export interface ComplianceDrift {
+  grantId: string;
+  from: { snapshotId: string; takenAt: Date; grantVersion: number };
+  to: { snapshotId: string; takenAt: Date; grantVersion: number };
+  statusChange?: { from: ComplianceSummary['status']; to: ComplianceSummary['status'] };
+  rateChange: number;
+  flipped: RequirementFlip[];
+  /** Requirements assessed in the later snapshot only, e.g. from a newly attached rule pack */
+  added: string[];
+  /** Requirements assessed in the earlier snapshot only */
+  removed: string[];
+}
+
+export interface OngoingNonCompliance {
+  requirementId: string;
+  requirementName: string;
+  severity: ComplianceStatus['severity'];
+  /** First snapshot of the unbroken run of non-compliant assessments */
+  since: Date;
+}
+
+export interface ComplianceTrendPoint {
+  date: string;
+  value: number;
+  /** Grants with a snapshot on or before the date */
+  grants: number;
+}
+
+export interface ComplianceTrend {
+  dataPoints: ComplianceTrendPoint[];
+  trend: 'improving' | 'declining' | 'stable' | 'insufficient-data';
+  /** Coefficient of determination of the linear fit, 0-1 */
+  trendStrength: number;
+  /** Change in compliance rate per 30 days according to the fit */
+  slopePer30Days: number;
+  insights: string[];
+}
+
+/** Below this change in compliance rate per 30 days the trend counts as stable. */
+const STABLE_SLOPE = 0.01;
+
+export function toComplianceSnapshot(
+  summary: ComplianceSummary,
+  grantVersion: number
+): ComplianceSnapshot {
+  return {
+    id: randomUUID(),
+    grantId: summary.grantId,
+    grantVersion,
+    takenAt: summary.lastAssessment,
+    complianceRate: summary.complianceRate,
+    status: summary.status,
+    summary: {
+      ...summary,
+      requirements: summary.requirements.map(({ trace: _trace, ...requirement }) => requirement),
+    },
+  };
+}
+
+export function diffComplianceSnapshots(
+  previous: ComplianceSnapshot,
+  current: ComplianceSnapshot
+): ComplianceDrift {
+  const before = new Map(previous.summary.requirements.map((r) => [r.requirementId, r]));
+  const after = new Map(current.summary.requirements.map((r) => [r.requirementId, r]));
+
+  const flipped: RequirementFlip[] = [];
+  for (const [id, requirement] of after) {
+    const earlier = before.get(id);
+    if (earlier && earlier.status !== requirement.status) {
+      flipped.push({
+        requirementId: id,
+        requirementName: requirement.requirementName,
+        severity: requirement.severity,
+        from: earlier.status,
+        to: requirement.status,
+      });
+    }
+  }
+
+  return {
+    grantId: current.grantId,
+    from: snapshotRef(previous),
+    to: snapshotRef(current),
+    statusChange:
+      previous.status !== current.status
+        ? { from: previous.status, to: current.status }
+        : undefined,
+    rateChange: current.complianceRate - previous.complianceRate,
+    flipped,
+    added: [...after.keys()].filter((id) => !before.has(id)),
+    removed: [...before.keys()].filter((id) => !after.has(id)),
+  };
+}
+
+/** Whether any requirement or the overall status differs between the two snapshots. */
+export function hasChanges(drift: ComplianceDrift): boolean {
+  return (
+    Boolean(drift.statusChange) ||
+    drift.flipped.length > 0 ||
+    drift.added.length > 0 ||
+    drift.removed.length > 0
+  );
+}
+
+/**
+ * Changes between consecutive snapshots, oldest first, leaving out pairs in
+ * which nothing changed. `snapshots` must be of one grant, oldest first.
+ */
+export function complianceDrift(snapshots: ComplianceSnapshot[]): ComplianceDrift[] {
+  const drift: ComplianceDrift[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const change = diffComplianceSnapshots(snapshots[i - 1], snapshots[i]);
+    if (hasChanges(change)) {
+      drift.push(change);
+    }
+  }
+  return drift;
+}
+
+/**
+ * Requirements non-compliant in the latest snapshot, with when each became
+ * non-compliant. `snapshots` must be of one grant, oldest first; the answer
+ * is only as old as the history it is given.
+ */
+export function ongoingNonCompliance(snapshots: ComplianceSnapshot[]): OngoingNonCompliance[] {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) {
+    return [];
+  }
+
+  return latest.summary.requirements
+    .filter((r) => r.status === 'non-compliant')
+    .map((requirement) => {
+      let since = latest.takenAt;
+      for (let i = snapshots.length - 2; i >= 0; i--) {
+        const earlier = snapshots[i].summary.requirements.find(
+          (r) => r.requirementId === requirement.requirementId
+        );
+        if (earlier?.status !== 'non-compliant') {
+          break;
+        }
+        since = snapshots[i].takenAt;
+      }
+      return {
+        requirementId: requirement.requirementId,
+        requirementName: requirement.requirementName,
+        severity: requirement.severity,
+        since,
+      };
+    })
+    .sort((a, b) => a.since.getTime() - b.since.getTime());
+}
+
+/**
+ * Daily compliance rate between `from` and `to`, averaged over the grants in
+ * `snapshots`. Each grant counts with its latest assessment as of the day,
+ * carried forward across days it was not assessed; days before any grant was
+ * assessed are left out.
+ */
+export function complianceTrend(
+  snapshots: ComplianceSnapshot[],
+  from: Date,
+  to: Date
+): ComplianceTrend {
+  const byGrant = new Map<string, ComplianceSnapshot[]>();
+  for (const snapshot of [...snapshots].sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime())) {
+    byGrant.set(snapshot.grantId, [...(byGrant.get(snapshot.grantId) || []), snapshot]);
+  }
+
+  const dataPoints: ComplianceTrendPoint[] = [];
+  const cursors = new Map<string, number>();
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    const endOfDay = addDays(day, 1).getTime();
+    const rates: number[] = [];
+    for (const [grantId, history] of byGrant) {
+      let index = cursors.get(grantId) ?? -1;
+      while (index + 1 < history.length && history[index + 1].takenAt.getTime() < endOfDay) {
+        index++;
+      }
+      cursors.set(grantId, index);
+      if (index >= 0) {
+        rates.push(history[index].complianceRate);
+      }
+    }
+    if (rates.length > 0) {
+      dataPoints.push({
+        date: toISODate(day),
+        value: rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+        grants: rates.length,
+      });
+    }
+  }
+
+  const fit = linearFit(dataPoints.map((p) => [new Date(p.date).getTime() / 86400000, p.value]));
+  const slopePer30Days = fit ? fit.slope * 30 : 0;
+  let trend: ComplianceTrend['trend'] = 'insufficient-data';
+  if (fit) {
+    trend =
+      slopePer30Days > STABLE_SLOPE
+        ? 'improving'
+        : slopePer30Days < -STABLE_SLOPE
+          ? 'declining'
+          : 'stable';
+  }
+
+  const insights: string[] = [];
+  for (const history of byGrant.values()) {
+    const inWindow = history.filter((s) => s.takenAt >= from && s.takenAt <= to);
+    const baseline = history.filter((s) => s.takenAt < from).pop();
+    for (const change of complianceDrift(baseline ? [baseline, ...inWindow] : inWindow)) {
+      for (const flip of change.flipped.filter((f) => f.to === 'non-compliant')) {
+        insights.push(
+          `${change.grantId}: ${flip.requirementName} became non-compliant on ${toISODate(change.to.takenAt)}`
+        );
+      }
+      for (const flip of change.flipped.filter((f) => f.from === 'non-compliant')) {
+        insights.push(
+          `${change.grantId}: ${flip.requirementName} ${flip.to === 'compliant' ? 'returned to compliance' : `became ${flip.to}`} on ${toISODate(change.to.takenAt)}`
+        );
+      }
+    }
+  }
+
+  return {
+    dataPoints,
+    trend,
+    trendStrength: fit ? fit.r2 : 0,
+    slopePer30Days,
+    insights,
+  };
+}
+
+function snapshotRef(snapshot: ComplianceSnapshot): ComplianceDrift['from'] {
+  return {
+    snapshotId: snapshot.id,
+    takenAt: snapshot.takenAt,
+    grantVersion: snapshot.grantVersion,
+  };
+}
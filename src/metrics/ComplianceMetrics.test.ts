@@ -0,0 +1,109 @@
+import { ComplianceRequirement, Grant } from '../models/Grant';
+import {
+  getComplianceSnapshotRepository,
+  InMemoryComplianceSnapshotRepository,
+  setComplianceSnapshotRepository,
+} from '../repositories';
+import { ComplianceMetrics } from './ComplianceMetrics';
+
+const requirements: ComplianceRequirement[] = [
+  {
+    id: 'REQ-AUDIT',
+    name: 'Single audit filed',
+    description: '',
+    type: 'custom',
+    severity: 'high',
+    condition: { fact: { path: 'grant.tags' }, operator: 'contains', value: 'audited' },
+  },
+  {
+    id: 'REQ-TITLE',
+    name: 'Title given',
+    description: '',
+    type: 'custom',
+    severity: 'low',
+    condition: { fact: { path: 'grant.title' }, operator: 'exists' },
+  },
+];
+
+function grant(): Grant {
+  return new Grant({
+    id: 'GR-1',
+    title: 'Clinic outreach',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    version: 1,
+  });
+}
+
+describe('ComplianceMetrics.assessCompliance', () => {
+  it('counts requirements by status and issues by severity', async () => {
+    const summary = await new ComplianceMetrics().assessCompliance(
+      grant(),
+      requirements,
+      new Date('2024-06-30')
+    );
+
+    expect(summary).toMatchObject({
+      totalRequirements: 2,
+      compliantRequirements: 1,
+      nonCompliantRequirements: 1,
+      highPriorityIssues: 1,
+      complianceRate: 0.5,
+    });
+    expect(summary.requirements.map((r) => r.status)).toEqual(['non-compliant', 'compliant']);
+  });
+});
+
+describe('ComplianceMetrics.recordAssessment', () => {
+  const metrics = new ComplianceMetrics();
+
+  beforeEach(() => {
+    setComplianceSnapshotRepository(new InMemoryComplianceSnapshotRepository());
+  });
+
+  const history = (): Promise<unknown[]> => getComplianceSnapshotRepository().findByGrant('GR-1');
+
+  it('keeps the first assessment and skips repeats of the same version and outcome', async () => {
+    const g = grant();
+    const first = await metrics.recordAssessment(g, requirements, new Date('2024-06-01'));
+    const repeat = await metrics.recordAssessment(g, requirements, new Date('2024-06-02'));
+
+    expect(first).toMatchObject({ recorded: true, drift: undefined });
+    expect(repeat.recorded).toBe(false);
+    expect(repeat.drift).toBeUndefined();
+    expect(repeat.snapshot.id).toBe(first.snapshot.id);
+    expect(await history()).toHaveLength(1);
+  });
+
+  it('records a new grant version even when the outcome is unchanged', async () => {
+    const g = grant();
+    await metrics.recordAssessment(g, requirements, new Date('2024-06-01'));
+    g.version = 2;
+    const next = await metrics.recordAssessment(g, requirements, new Date('2024-06-02'));
+
+    expect(next.recorded).toBe(true);
+    expect(next.drift).toMatchObject({ flipped: [], rateChange: 0 });
+    expect(await history()).toHaveLength(2);
+  });
+
+  it('records a changed outcome of the same version and reports the flip', async () => {
+    const g = grant();
+    await metrics.recordAssessment(g, requirements, new Date('2024-06-01'));
+    g.tags.push('audited');
+    const next = await metrics.recordAssessment(g, requirements, new Date('2024-06-02'));
+
+    expect(next.recorded).toBe(true);
+    expect(next.drift?.flipped).toEqual([
+      {
+        requirementId: 'REQ-AUDIT',
+        requirementName: 'Single audit filed',
+        severity: 'high',
+        from: 'non-compliant',
+        to: 'compliant',
+      },
+    ]);
+    expect(next.drift?.statusChange).toBeDefined();
+    expect(await history()).toHaveLength(2);
+  });
+});
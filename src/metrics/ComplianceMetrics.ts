@@ -1,5 +1,16 @@
 import { BaseMetric } from './BaseMetric';
-import { Grant, ComplianceRequirement } from '../models/Grant';
+import { Grant, ComplianceRequirement, CorrectiveActionStatus } from '../models/Grant';
+import { ClauseResult, getComplianceRuleEngine, RulePackReference } from '../compliance';
+import { getComplianceSnapshotRepository } from '../repositories';
+import { daysBetween, startOfDay } from '../utils/dates';
+import { isUnresolved } from '../workflows/CorrectiveActionWorkflow';
+import {
+  ComplianceDrift,
+  ComplianceSnapshot,
+  diffComplianceSnapshots,
+  hasChanges,
+  toComplianceSnapshot,
+} from './ComplianceHistory';
 
 export interface ComplianceStatus {
   requirementId: string;
@@ -10,6 +21,11 @@ export interface ComplianceStatus {
   lastChecked: Date;
   dueDate?: Date;
   severity: 'high' | 'medium' | 'low';
+  ruleType: string;
+  /** Rule pack and version the requirement came from; absent for the grant's own requirements */
+  pack?: RulePackReference;
+  /** Which clauses of the rule passed or failed, and the values compared */
+  trace?: ClauseResult;
 }
 
 export interface ComplianceSummary {
@@ -24,15 +40,51 @@ export interface ComplianceSummary {
   lowPriorityIssues: number;
   status: 'compliant' | 'at-risk' | 'non-compliant';
   lastAssessment: Date;
+  /** Rule packs, with the version of each, that contributed requirements */
+  rulePacks: RulePackReference[];
   requirements: ComplianceStatus[];
 }
 
+export interface CorrectiveActionAging {
+  id: string;
+  requirementId: string;
+  title: string;
+  owner: string;
+  status: CorrectiveActionStatus;
+  openedDate: Date;
+  dueDate: Date;
+  ageDays: number;
+  overdueDays: number;
+  stepsCompleted: number;
+  totalSteps: number;
+}
+
+export interface ComplianceReport {
+  summary: ComplianceSummary;
+  /** Unresolved corrective actions, oldest first */
+  correctiveActions: CorrectiveActionAging[];
+  /** Unresolved actions by days open */
+  aging: Record<'0-30' | '31-60' | '61-90' | '90+', number>;
+  overdueActions: number;
+  /** Non-compliant requirements without an unresolved corrective action */
+  unaddressedRequirements: string[];
+  timeline: { actionId: string; action: string; deadline: Date; responsibleParty: string }[];
+}
+
+/** Weight of a requirement by its severity when compliance is scored as a whole. */
+export const SEVERITY_WEIGHTS: Record<ComplianceRequirement['severity'], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
 export class ComplianceMetrics extends BaseMetric {
-  async assessCompliance(
+  assessCompliance(
     grant: Grant,
-    requirements: ComplianceRequirement[]
+    requirements: ComplianceRequirement[],
+    asOf: Date = new Date()
   ): Promise<ComplianceSummary> {
-    const now = new Date();
+    const now = asOf;
     const complianceStatuses: ComplianceStatus[] = [];
     
     let compliantCount = 0;
@@ -41,10 +93,14 @@ export class ComplianceMetrics extends BaseMetric {
     let highPriority = 0;
     let mediumPriority = 0;
     let lowPriority = 0;
+    const rulePacks = new Map<string, RulePackReference>();
     
     for (const requirement of requirements) {
-      const status = this.evaluateRequirement(requirement, grant);
+      const status = this.evaluateRequirement(requirement, grant, now);
       complianceStatuses.push(status);
+      if (requirement.pack) {
+        rulePacks.set(requirement.pack.id, requirement.pack);
+      }
       
       switch (status.status) {
         case 'compliant':
@@ -52,9 +108,13 @@ export class ComplianceMetrics extends BaseMetric {
           break;
         case 'non-compliant':
           nonCompliantCount++;
-          if (status.severity === 'high') highPriority++;
-          if (status.severity === 'medium') mediumPriority++;
-          if (status.severity === 'low') lowPriority++;
+          if (status.severity === 'high') {
+            highPriority++;
+          } else if (status.severity === 'medium') {
+            mediumPriority++;
+          } else {
+            lowPriority++;
+          }
           break;
         case 'pending':
           pendingCount++;
@@ -73,7 +133,7 @@ export class ComplianceMetrics extends BaseMetric {
       overallStatus = 'at-risk';
     }
     
-    return {
+    return Promise.resolve({
       grantId: grant.id,
       totalRequirements,
       compliantRequirements: compliantCount,
@@ -85,18 +145,53 @@ export class ComplianceMetrics extends BaseMetric {
       lowPriorityIssues: lowPriority,
       status: overallStatus,
       lastAssessment: now,
+      rulePacks: Array.from(rulePacks.values()),
       requirements: complianceStatuses,
-    };
+    });
+  }
+  
+  /**
+   * Assesses the grant and keeps the result as a snapshot, returning what
+   * changed since the previous snapshot of the grant, if there is one. When
+   * the latest snapshot was taken of the same grant version with the same
+   * outcome nothing is saved: that snapshot is returned, without drift.
+   */
+  async recordAssessment(
+    grant: Grant,
+    requirements: ComplianceRequirement[],
+    asOf: Date = new Date()
+  ): Promise<{
+    summary: ComplianceSummary;
+    snapshot: ComplianceSnapshot;
+    recorded: boolean;
+    drift?: ComplianceDrift;
+  }> {
+    const summary = await this.assessCompliance(grant, requirements, asOf);
+    const snapshots = getComplianceSnapshotRepository();
+    const previous = await snapshots.findLatest(grant.id);
+    const current = toComplianceSnapshot(summary, grant.version);
+    const drift = previous ? diffComplianceSnapshots(previous, current) : undefined;
+    
+    if (previous && drift && previous.grantVersion === grant.version && !hasChanges(drift)) {
+      return { summary, snapshot: previous, recorded: false };
+    }
+    return { summary, snapshot: await snapshots.save(current), recorded: true, drift };
+  }
+  
+  /**
+   * What changed between the latest recorded snapshot of the grant and an
+   * assessment of it, without recording one; undefined before the first.
+   */
+  async driftSinceLatestSnapshot(grant: Grant, summary: ComplianceSummary): Promise<ComplianceDrift | undefined> {
+    const previous = await getComplianceSnapshotRepository().findLatest(grant.id);
+    return previous ? diffComplianceSnapshots(previous, toComplianceSnapshot(summary, grant.version)) : undefined;
   }
   
   private evaluateRequirement(
     requirement: ComplianceRequirement,
-    grant: Grant
+    grant: Grant,
+    now: Date
   ): ComplianceStatus {
-    const now = new Date();
-    let status: 'compliant' | 'non-compliant' | 'pending' | 'not-applicable' = 'pending';
-    const evidence: string[] = [];
-    
     // Check if requirement is applicable
     if (requirement.applicableFrom && new Date(requirement.applicableFrom) > now) {
       return {
@@ -108,153 +203,95 @@ export class ComplianceMetrics extends BaseMetric {
         lastChecked: now,
         dueDate: requirement.dueDate,
         severity: requirement.severity,
+        ruleType: requirement.type,
+        pack: requirement.pack,
       };
     }
     
-    // Evaluate based on requirement type
-    switch (requirement.type) {
-      case 'documentation':
-        status = this.checkDocumentation(requirement, grant, evidence);
-        break;
-      case 'financial':
-        status = this.checkFinancial(requirement, grant, evidence);
-        break;
-      case 'reporting':
-        status = this.checkReporting(requirement, grant, evidence);
-        break;
-      case 'performance':
-        status = this.checkPerformance(requirement, grant, evidence);
-        break;
-      default:
-        status = 'pending';
-    }
+    // Evaluate against the declarative rule registered for the requirement type
+    const result = getComplianceRuleEngine().evaluate(requirement, grant, now);
     
     return {
       requirementId: requirement.id,
       requirementName: requirement.name,
       description: requirement.description,
-      status,
-      evidence,
+      status: result.status,
+      evidence: result.evidence,
       lastChecked: now,
       dueDate: requirement.dueDate,
       severity: requirement.severity,
+      ruleType: result.ruleType,
+      pack: requirement.pack,
+      trace: result.trace,
     };
   }
   
-  private checkDocumentation(
-    requirement: ComplianceRequirement,
+  /**
+   * Compliance summary with the grant's unresolved corrective actions, how
+   * long each has been open, and non-compliant requirements nobody has
+   * opened an action against yet. Pass `summary` to reuse an assessment of
+   * the grant made at `asOf`.
+   */
+  async generateComplianceReport(
     grant: Grant,
-    evidence: string[]
-  ): 'compliant' | 'non-compliant' | 'pending' {
-    // Check if required documents are submitted
-    const requiredDocs = requirement.parameters?.requiredDocuments || [];
-    const submittedDocs = grant.documents || [];
+    requirements: ComplianceRequirement[],
+    asOf: Date = new Date(),
+    summary?: ComplianceSummary
+  ): Promise<ComplianceReport> {
+    summary = summary ?? await this.assessCompliance(grant, requirements, asOf);
+    const unresolved = grant.correctiveActions.filter(isUnresolved);
+    const today = startOfDay(asOf);
     
-    for (const doc of requiredDocs) {
-      const found = submittedDocs.find(d => d.type === doc && d.status === 'approved');
-      if (found) {
-        evidence.push(`Document "${doc}" submitted and approved`);
-      } else {
-        evidence.push(`Missing or unapproved document: ${doc}`);
-        return 'non-compliant';
-      }
-    }
+    const correctiveActions: CorrectiveActionAging[] = unresolved
+      .map(action => ({
+        id: action.id,
+        requirementId: action.requirementId,
+        title: action.title,
+        owner: action.owner,
+        status: action.status,
+        openedDate: action.openedDate,
+        dueDate: action.dueDate,
+        ageDays: Math.max(daysBetween(startOfDay(action.openedDate), today), 0),
+        overdueDays: Math.max(daysBetween(startOfDay(action.dueDate), today), 0),
+        stepsCompleted: action.steps.filter(st => st.completed).length,
+        totalSteps: action.steps.length,
+      }))
+      .sort((a, b) => b.ageDays - a.ageDays);
     
-    return 'compliant';
-  }
-  
-  private checkFinancial(
-    requirement: ComplianceRequirement,
-    grant: Grant,
-    evidence: string[]
-  ): 'compliant' | 'non-compliant' | 'pending' {
-    // Check financial compliance rules
-    const maxUtilization = requirement.parameters?.maxUtilizationRate || 1.0;
-    const actualUtilization = grant.expenditures.reduce((sum, exp) => sum + exp.amount, 0) / grant.totalFunding;
-    
-    if (actualUtilization > maxUtilization) {
-      evidence.push(`Utilization rate (${actualUtilization.toFixed(2)}) exceeds maximum (${maxUtilization})`);
-      return 'non-compliant';
-    }
-    
-    evidence.push(`Utilization rate (${actualUtilization.toFixed(2)}) within acceptable range`);
-    return 'compliant';
-  }
-  
-  private checkReporting(
-    requirement: ComplianceRequirement,
-    grant: Grant,
-    evidence: string[]
-  ): 'compliant' | 'non-compliant' | 'pending' {
-    // Check reporting deadlines
-    const now = new Date();
-    const dueDate = requirement.dueDate ? new Date(requirement.dueDate) : null;
-    
-    if (dueDate && dueDate < now) {
-      const reports = grant.reports || [];
-      const requiredReport = reports.find(r => 
-        r.type === requirement.parameters?.reportType && 
-        r.submissionDate <= dueDate
-      );
-      
-      if (!requiredReport) {
-        evidence.push(`Missing required report: ${requirement.parameters?.reportType}`);
-        return 'non-compliant';
-      }
-      
-      evidence.push(`Report "${requiredReport.type}" submitted on ${requiredReport.submissionDate}`);
+    const aging = { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+    for (const action of correctiveActions) {
+      const bucket = action.ageDays <= 30 ? '0-30' : action.ageDays <= 60 ? '31-60' : action.ageDays <= 90 ? '61-90' : '90+';
+      aging[bucket]++;
     }
     
-    return 'compliant';
-  }
-  
-  private checkPerformance(
-    requirement: ComplianceRequirement,
-    grant: Grant,
-    evidence: string[]
-  ): 'compliant' | 'non-compliant' | 'pending' {
-    // Check performance KPIs
-    const minAchievement = requirement.parameters?.minAchievementRate || 0.8;
+    const addressed = new Set(unresolved.map(a => a.requirementId));
+    const unaddressedRequirements = summary.requirements
+      .filter(r => r.status === 'non-compliant' && !addressed.has(r.requirementId))
+      .map(r => r.requirementId);
     
-    for (const kpi of grant.kpis) {
-      if (kpi.targetValue !== 0) {
-        const achievement = kpi.currentValue / kpi.targetValue;
-        if (achievement < minAchievement) {
-          evidence.push(`KPI "${kpi.name}" achievement (${achievement.toFixed(2)}) below minimum (${minAchievement})`);
-          return 'non-compliant';
+    // Outstanding steps, or the action itself once every step is done
+    const timeline = unresolved
+      .flatMap(action => {
+        const openSteps = action.steps.filter(st => !st.completed);
+        if (openSteps.length === 0) {
+          return [{ actionId: action.id, action: action.title, deadline: action.dueDate, responsibleParty: action.owner }];
         }
-        evidence.push(`KPI "${kpi.name}" achievement: ${achievement.toFixed(2)}`);
-      }
-    }
+        return openSteps.map(st => ({
+          actionId: action.id,
+          action: `${action.title}: ${st.description}`,
+          deadline: st.dueDate || action.dueDate,
+          responsibleParty: action.owner,
+        }));
+      })
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
     
-    return 'compliant';
-  }
-  
-  async generateComplianceReport(grantId: string): Promise<{
-    summary: ComplianceSummary;
-    correctiveActions: string[];
-    timeline: { action: string; deadline: Date; responsibleParty: string }[];
-  }> {
-    // This would fetch actual data from database
     return {
-      summary: {} as ComplianceSummary,
-      correctiveActions: [
-        'Submit missing quarterly financial report',
-        'Provide documentation for expenditure #2023-045',
-        'Update risk management plan with mitigation strategies',
-      ],
-      timeline: [
-        {
-          action: 'Submit corrective action plan',
-          deadline: new Date('2024-03-15'),
-          responsibleParty: 'Program Manager',
-        },
-        {
-          action: 'Schedule compliance review meeting',
-          deadline: new Date('2024-03-22'),
-          responsibleParty: 'Compliance Officer',
-        },
-      ],
+      summary,
+      correctiveActions,
+      aging,
+      overdueActions: correctiveActions.filter(a => a.overdueDays > 0).length,
+      unaddressedRequirements,
+      timeline,
     };
   }
       }
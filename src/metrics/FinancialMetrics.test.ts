@@ -0,0 +1,167 @@
+import { FileExchangeRateProvider, setExchangeRateProvider } from '../currency';
+import { Grant } from '../models/Grant';
+import { ExchangeRateUnavailableError } from '../utils/errors';
+import { FinancialMetrics } from './FinancialMetrics';
+
+const asOf = new Date('2024-07-01T00:00:00Z');
+
+function grant(overrides: Record<string, unknown> = {}): Grant {
+  return Grant.fromJSON({
+    id: 'GR-FIN',
+    title: 'Financial metrics',
+    currency: 'USD',
+    totalFunding: 120000,
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-12-31T00:00:00Z',
+    expenditures: [
+      {
+        id: 'EXP-1',
+        date: '2024-02-10',
+        category: 'Personnel',
+        description: 'Salaries',
+        amount: 10000,
+        status: 'approved',
+      },
+      {
+        id: 'EXP-2',
+        date: '2024-04-15',
+        category: 'Travel',
+        description: 'Site visit',
+        amount: 5000,
+        currency: 'EUR',
+        exchangeRate: 1.1,
+        status: 'approved',
+      },
+      {
+        id: 'EXP-3',
+        date: '2024-05-01',
+        category: 'Supplies',
+        description: 'Laptops',
+        amount: 2000,
+        status: 'pending',
+      },
+    ],
+    ...overrides,
+  });
+}
+
+function budgetCategory(name: string, amount: number): Record<string, unknown> {
+  return { name, originalAmount: amount, amount, lineItems: [], allocations: [] };
+}
+
+describe('FinancialMetrics.calculateMetrics', () => {
+  const metrics = new FinancialMetrics();
+
+  beforeEach(() => {
+    // No rates at all: nothing below may need one unless a report currency is asked for
+    setExchangeRateProvider(new FileExchangeRateProvider({ base: 'USD', entries: [] }));
+  });
+
+  it('totals approved spend in the grant currency at the recorded rates', async () => {
+    const summary = await metrics.calculateMetrics(grant(), 'quarterly', asOf);
+
+    expect(summary.totalSpent).toBeCloseTo(15500);
+    expect(summary.pendingAmount).toBe(2000);
+    expect(summary.remainingBalance).toBeCloseTo(104500);
+    expect(summary.utilizationRate).toBeCloseTo(15500 / 120000);
+  });
+
+  it('measures the burn rate over the elapsed months and projects the runway', async () => {
+    const summary = await metrics.calculateMetrics(grant(), 'quarterly', asOf);
+    const elapsedMonths = 182 / 30.4375;
+
+    expect(summary.burnRate).toBeCloseTo(15500 / elapsedMonths);
+    expect(summary.periodBurnRate).toBeCloseTo(summary.burnRate * 3);
+    expect(summary.runwayMonths).toBeCloseTo(104500 / summary.burnRate);
+  });
+
+  it('buckets spend into every period from the start, including empty ones', async () => {
+    const summary = await metrics.calculateMetrics(grant(), 'monthly', asOf);
+
+    expect(summary.spendCurve.map((b) => b.amount)).toEqual([0, 10000, 0, 5500, 0, 0, 0]);
+    expect(summary.spendCurve[6].cumulative).toBeCloseTo(15500);
+  });
+
+  it('omits the currency report unless a reporting currency is requested', async () => {
+    const summary = await metrics.calculateMetrics(grant(), 'quarterly', asOf);
+
+    expect(summary.currencyReport).toBeNull();
+  });
+
+  it('fails for a requested reporting currency without rates', async () => {
+    await expect(
+      metrics.calculateMetrics(grant(), 'quarterly', asOf, { reportingCurrency: 'USD' })
+    ).rejects.toBeInstanceOf(ExchangeRateUnavailableError);
+  });
+
+  it('flags budget categories spending off pace in either direction', async () => {
+    const summary = await metrics.calculateMetrics(
+      grant({
+        budget: {
+          categories: [budgetCategory('Personnel', 60000), budgetCategory('Travel', 8000)],
+          revisions: [],
+        },
+      }),
+      'quarterly',
+      asOf
+    );
+
+    const flags = Object.fromEntries(
+      (summary.budgetVariance?.categories || []).map((c) => [c.category, c.flag])
+    );
+    expect(flags).toEqual({ Personnel: 'under', Travel: 'over' });
+    expect(summary.budgetVariance?.flaggedCategories).toBe(2);
+  });
+});
+
+describe('FinancialMetrics.calculateMatching', () => {
+  it('counts verified contributions and projects the match to the grant end', () => {
+    const matching = new FinancialMetrics().calculateMatching(
+      grant({
+        matchingRequirement: 30000,
+        matchingContributions: [
+          { id: 'M-1', date: '2024-03-01', type: 'cash', amount: 6000, status: 'verified' },
+          { id: 'M-2', date: '2024-05-01', type: 'in-kind', amount: 2000, status: 'verified' },
+          { id: 'M-3', date: '2024-06-01', type: 'cash', amount: 4000, status: 'pending' },
+        ],
+      }),
+      asOf
+    );
+
+    expect(matching).toMatchObject({ secured: 8000, pending: 4000, cash: 6000, inKind: 2000 });
+    expect(matching.shortfallToDate).toBe(0);
+    expect(matching.projectedTotal).toBeCloseTo((8000 * 365) / 182);
+    expect(matching.onTrack).toBe(false);
+  });
+});
+
+describe('FinancialMetrics.calculateCurrencyReport', () => {
+  beforeEach(() => {
+    setExchangeRateProvider(
+      new FileExchangeRateProvider({
+        base: 'USD',
+        entries: [
+          { date: new Date('2024-01-01'), rates: { EUR: 0.9 } },
+          { date: new Date('2024-06-01'), rates: { EUR: 0.8 } },
+        ],
+      })
+    );
+  });
+
+  it('restates spend at both rate bases and reports the difference as FX gain or loss', async () => {
+    const report = await new FinancialMetrics().calculateCurrencyReport([grant()], {
+      reportingCurrency: 'usd',
+      asOf,
+    });
+
+    expect(report.reportingCurrency).toBe('USD');
+    expect(report.native).toEqual([
+      { currency: 'USD', funding: 120000, spent: 10000 },
+      { currency: 'EUR', funding: 0, spent: 5000 },
+    ]);
+    expect(report.spentAtTransactionRates).toBeCloseTo(10000 + 5000 / 0.9);
+    expect(report.spentAtPeriodEndRates).toBeCloseTo(10000 + 5000 / 0.8);
+    expect(report.totalSpent).toBeCloseTo(report.spentAtTransactionRates);
+    expect(report.fxGainLoss).toBeCloseTo(5000 / 0.8 - 5000 / 0.9);
+  });
+});
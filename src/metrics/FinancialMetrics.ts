@@ -0,0 +1,497 @@
+import { BaseMetric } from './BaseMetric';
+import { Expenditure, Grant } from '../models/Grant';
+import { BudgetCategory, findCategory, totalBudget } from '../models/Budget';
+import { getExchangeRateProvider } from '../currency';
+import {
+  addMonths,
+  DAY_MS,
+  endOfPeriod,
+  monthsBetween,
+  monthsInPeriod,
+  periodLabel,
+  startOfPeriod,
+  toISODate,
+} from '../utils/dates';
+
+export type FinancialPeriod = 'monthly' | 'quarterly' | 'annual';
+
+export interface SpendBucket {
+  label: string;
+  start: Date;
+  end: Date;
+  amount: number;
+  cumulative: number;
+  cumulativeRate: number;
+}
+
+/** Matches `financialSummary.expenditureByCategory` in generated reports. */
+export interface CategorySpend {
+  category: string;
+  budgeted: number;
+  actual: number;
+  variance: number;
+}
+
+export interface BudgetVarianceLine extends CategorySpend {
+  expectedToDate: number;
+  varianceAmount: number;
+  varianceRate: number;
+  flag: 'over' | 'under' | 'on-track';
+}
+
+export interface BudgetVarianceReport {
+  grantId: string;
+  threshold: number;
+  totalBudget: number;
+  totalActual: number;
+  categories: BudgetVarianceLine[];
+  /** Categories with approved spend but no budget line */
+  unbudgetedCategories: string[];
+  flaggedCategories: number;
+  asOf: Date;
+}
+
+export const DEFAULT_VARIANCE_THRESHOLD = 0.1;
+
+/** "Matching Funds Achievement" from docs/kpis.md, plus its trajectory. */
+export interface MatchingFundsSummary {
+  grantId: string;
+  required: number;
+  secured: number;
+  pending: number;
+  cash: number;
+  inKind: number;
+  achievementRate: number;
+  /** Share of grant funds spent; the match is expected to keep pace with it */
+  spendRatio: number;
+  expectedToDate: number;
+  shortfallToDate: number;
+  projectedTotal: number;
+  projectedAchievementRate: number;
+  onTrack: boolean;
+  curve: { label: string; cumulative: number; achievementRate: number }[];
+}
+
+/**
+ * Rates used to convert spend into the reporting currency: the rate on each
+ * expenditure date, or the rate at the end of the reported period.
+ */
+export type RateBasis = 'transaction-date' | 'period-end';
+
+export interface CurrencyTotal {
+  currency: string;
+  funding: number;
+  spent: number;
+}
+
+export interface CurrencyReport {
+  reportingCurrency: string;
+  rateBasis: RateBasis;
+  /** Funding and approved spend in the currencies they are denominated in */
+  native: CurrencyTotal[];
+  totalFunding: number;
+  totalSpent: number;
+  spentAtTransactionRates: number;
+  spentAtPeriodEndRates: number;
+  /** Spend at period-end rates less spend at transaction-date rates */
+  fxGainLoss: number;
+  asOf: Date;
+}
+
+export interface FinancialMetricsOptions {
+  /** ISO 4217 code to restate funding and spend in; no currency report without one */
+  reportingCurrency?: string;
+  rateBasis?: RateBasis;
+}
+
+export interface FinancialMetricsSummary {
+  grantId: string;
+  period: FinancialPeriod;
+  /** Currency of the amounts below: the grant currency */
+  currency: string;
+  totalFunding: number;
+  totalSpent: number;
+  pendingAmount: number;
+  remainingBalance: number;
+  utilizationRate: number;
+  burnRate: number;
+  periodBurnRate: number;
+  runwayMonths: number | null;
+  projectedExhaustionDate: Date | null;
+  timelineProgress: number;
+  spendVariance: number;
+  spendVarianceRate: number;
+  spendCurve: SpendBucket[];
+  expenditureByCategory: CategorySpend[];
+  budgetVariance: BudgetVarianceReport | null;
+  matching: MatchingFundsSummary | null;
+  /** Only when a reporting currency is requested, as it needs exchange rates */
+  currencyReport: CurrencyReport | null;
+  lastUpdated: Date;
+}
+
+export class FinancialMetrics extends BaseMetric {
+  /**
+   * Amounts are in the grant currency; foreign-currency expenditures count at
+   * the rate fixed when they were recorded. `currencyReport` restates funding
+   * and spend in the reporting currency, when one is requested.
+   */
+  async calculateMetrics(
+    grant: Grant,
+    period: string = 'quarterly',
+    asOf: Date = new Date(),
+    options: FinancialMetricsOptions = {}
+  ): Promise<FinancialMetricsSummary> {
+    const bucketPeriod = this.toPeriod(period);
+    const startDate = new Date(grant.startDate);
+    const endDate = new Date(grant.endDate);
+    const approved = this.approvedSpend(grant, asOf);
+
+    const totalFunding = grant.totalFunding;
+    const totalSpent = this.sum(approved);
+    const pendingAmount = this.sum(
+      this.inGrantCurrency(
+        grant,
+        grant.expenditures.filter((e) => e.status === 'pending')
+      )
+    );
+    const remainingBalance = totalFunding - totalSpent;
+    const utilizationRate = totalFunding > 0 ? totalSpent / totalFunding : 0;
+
+    // Burn rate is measured over the elapsed part of the grant, in months
+    const elapsedEnd = asOf < endDate ? asOf : endDate;
+    const elapsedMonths = Math.max(monthsBetween(startDate, elapsedEnd), 0);
+    const burnRate = elapsedMonths > 0 ? totalSpent / Math.max(elapsedMonths, 1) : 0;
+    const periodBurnRate = burnRate * monthsInPeriod(bucketPeriod);
+
+    const runwayMonths = burnRate > 0 ? Math.max(remainingBalance, 0) / burnRate : null;
+    const projectedExhaustionDate =
+      runwayMonths === null ? null : new Date(asOf.getTime() + runwayMonths * 30.4375 * DAY_MS);
+
+    const timelineProgress = this.timelineProgress(grant, asOf);
+    const spendVariance = totalSpent - totalFunding * timelineProgress;
+    const spendVarianceRate = utilizationRate - timelineProgress;
+
+    return {
+      grantId: grant.id,
+      period: bucketPeriod,
+      currency: grant.currency,
+      totalFunding,
+      totalSpent,
+      pendingAmount,
+      remainingBalance,
+      utilizationRate,
+      burnRate,
+      periodBurnRate,
+      runwayMonths,
+      projectedExhaustionDate,
+      timelineProgress,
+      spendVariance,
+      spendVarianceRate,
+      spendCurve: this.buildSpendCurve(approved, bucketPeriod, startDate, elapsedEnd, totalFunding),
+      expenditureByCategory: this.breakdownByCategory(grant, approved),
+      budgetVariance: grant.budget ? this.calculateBudgetVariance(grant, { asOf }) : null,
+      matching: grant.matchingRequirement ? this.calculateMatching(grant, asOf) : null,
+      currencyReport: options.reportingCurrency
+        ? await this.calculateCurrencyReport([grant], {
+            reportingCurrency: options.reportingCurrency,
+            rateBasis: options.rateBasis,
+            asOf,
+          })
+        : null,
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Buckets spend into consecutive calendar periods from the grant start up to
+   * `until`, so periods without spend still appear on the curve.
+   */
+  private buildSpendCurve(
+    expenditures: Pick<Expenditure, 'date' | 'amount'>[],
+    period: FinancialPeriod,
+    from: Date,
+    until: Date,
+    totalFunding: number
+  ): SpendBucket[] {
+    const buckets: SpendBucket[] = [];
+    let cumulative = 0;
+
+    for (
+      let start = startOfPeriod(from, period);
+      start <= until;
+      start = addMonths(start, monthsInPeriod(period))
+    ) {
+      const end = endOfPeriod(start, period);
+      const amount = this.sum(
+        expenditures.filter((e) => new Date(e.date) >= start && new Date(e.date) <= end)
+      );
+      cumulative += amount;
+      buckets.push({
+        label: periodLabel(start, period),
+        start,
+        end,
+        amount,
+        cumulative,
+        cumulativeRate: totalFunding > 0 ? cumulative / totalFunding : 0,
+      });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Compares approved spend per budget category with the amount expected to
+   * have been spent by `asOf` (from period allocations when present, otherwise
+   * pro rata over the grant timeline), flagging categories whose variance
+   * exceeds the threshold in either direction.
+   */
+  calculateBudgetVariance(
+    grant: Grant,
+    options: { threshold?: number; asOf?: Date } = {}
+  ): BudgetVarianceReport {
+    const threshold = options.threshold ?? DEFAULT_VARIANCE_THRESHOLD;
+    const asOf = options.asOf || new Date();
+    const budget = grant.budget || { categories: [], revisions: [] };
+    const approved = this.approvedSpend(grant, asOf);
+    const actuals = this.actualsByCategory(grant, approved);
+    const timelineProgress = this.timelineProgress(grant, asOf);
+
+    const categories = budget.categories.map((category): BudgetVarianceLine => {
+      const actual = actuals.get(category.name) || 0;
+      const expectedToDate = this.expectedSpend(category, asOf, timelineProgress);
+      const varianceAmount = actual - expectedToDate;
+      const varianceRate =
+        expectedToDate > 0 ? varianceAmount / expectedToDate : actual > 0 ? 1 : 0;
+
+      let flag: BudgetVarianceLine['flag'] = 'on-track';
+      if (varianceRate > threshold) {
+        flag = 'over';
+      } else if (varianceRate < -threshold) {
+        flag = 'under';
+      }
+
+      return {
+        category: category.name,
+        budgeted: category.amount,
+        actual,
+        variance: category.amount > 0 ? actual / category.amount : 0,
+        expectedToDate,
+        varianceAmount,
+        varianceRate,
+        flag,
+      };
+    });
+
+    return {
+      grantId: grant.id,
+      threshold,
+      totalBudget: totalBudget(budget),
+      totalActual: this.sum(approved),
+      categories,
+      unbudgetedCategories: Array.from(actuals.keys()).filter(
+        (name) => !findCategory(budget, name)
+      ),
+      flaggedCategories: categories.filter((c) => c.flag !== 'on-track').length,
+      asOf,
+    };
+  }
+
+  /**
+   * Measures verified cost-share contributions against `matchingRequirement`.
+   * The match is expected to keep pace with spending of grant funds; the
+   * projection extends the contribution rate so far to the grant end date.
+   */
+  calculateMatching(grant: Grant, asOf: Date = new Date()): MatchingFundsSummary {
+    const required = grant.matchingRequirement || 0;
+    const contributions = grant.matchingContributions.filter((c) => new Date(c.date) <= asOf);
+    const verified = contributions.filter((c) => c.status === 'verified');
+    const total = (items: typeof contributions): number =>
+      items.reduce((sum, c) => sum + c.amount, 0);
+
+    const secured = total(verified);
+    const spent = this.sum(this.approvedSpend(grant, asOf));
+    const spendRatio = grant.totalFunding > 0 ? Math.min(spent / grant.totalFunding, 1) : 0;
+    const expectedToDate = required * spendRatio;
+
+    const startDate = new Date(grant.startDate);
+    const endDate = new Date(grant.endDate);
+    const until = asOf < endDate ? asOf : endDate;
+    const elapsedMonths = monthsBetween(startDate, until);
+    const projectedTotal =
+      asOf >= endDate || elapsedMonths <= 0
+        ? secured
+        : (secured / elapsedMonths) * monthsBetween(startDate, endDate);
+
+    const curve = this.buildSpendCurve(verified, 'quarterly', startDate, until, required).map(
+      (bucket) => ({
+        label: bucket.label,
+        cumulative: bucket.cumulative,
+        achievementRate: bucket.cumulativeRate,
+      })
+    );
+
+    return {
+      grantId: grant.id,
+      required,
+      secured,
+      pending: total(contributions.filter((c) => c.status === 'pending')),
+      cash: total(verified.filter((c) => c.type === 'cash')),
+      inKind: total(verified.filter((c) => c.type === 'in-kind')),
+      achievementRate: required > 0 ? secured / required : 1,
+      spendRatio,
+      expectedToDate,
+      shortfallToDate: Math.max(expectedToDate - secured, 0),
+      projectedTotal,
+      projectedAchievementRate: required > 0 ? projectedTotal / required : 1,
+      onTrack: projectedTotal >= required,
+      curve,
+    };
+  }
+
+  /**
+   * Restates funding and approved spend of one or more grants in a single
+   * reporting currency. Funding converts at the `asOf` rate; spend converts at
+   * the chosen basis, with the difference between the two bases reported as
+   * FX gain or loss.
+   */
+  async calculateCurrencyReport(
+    grants: Grant[],
+    options: { reportingCurrency: string; rateBasis?: RateBasis; asOf?: Date }
+  ): Promise<CurrencyReport> {
+    const reportingCurrency = options.reportingCurrency.toUpperCase();
+    const rateBasis = options.rateBasis || 'transaction-date';
+    const asOf = options.asOf || new Date();
+    const rate = this.rateLookup();
+
+    const native = new Map<string, CurrencyTotal>();
+    const nativeTotal = (currency: string): CurrencyTotal => {
+      const total = native.get(currency) || { currency, funding: 0, spent: 0 };
+      native.set(currency, total);
+      return total;
+    };
+
+    let totalFunding = 0;
+    let spentAtTransactionRates = 0;
+    let spentAtPeriodEndRates = 0;
+    for (const grant of grants) {
+      nativeTotal(grant.currency).funding += grant.totalFunding;
+      totalFunding += grant.totalFunding * (await rate(grant.currency, reportingCurrency, asOf));
+
+      const approved = grant.expenditures.filter(
+        (e) => e.status === 'approved' && new Date(e.date) <= asOf
+      );
+      for (const expenditure of approved) {
+        const currency = expenditure.currency || grant.currency;
+        nativeTotal(currency).spent += expenditure.amount;
+        spentAtTransactionRates +=
+          expenditure.amount *
+          (await rate(currency, reportingCurrency, new Date(expenditure.date)));
+        spentAtPeriodEndRates +=
+          expenditure.amount * (await rate(currency, reportingCurrency, asOf));
+      }
+    }
+
+    return {
+      reportingCurrency,
+      rateBasis,
+      native: Array.from(native.values()),
+      totalFunding,
+      totalSpent: rateBasis === 'period-end' ? spentAtPeriodEndRates : spentAtTransactionRates,
+      spentAtTransactionRates,
+      spentAtPeriodEndRates,
+      fxGainLoss: spentAtPeriodEndRates - spentAtTransactionRates,
+      asOf,
+    };
+  }
+
+  /** Memoizes provider lookups by currency pair and day for one calculation. */
+  private rateLookup(): (from: string, to: string, date: Date) => Promise<number> {
+    const provider = getExchangeRateProvider();
+    const cache = new Map<string, Promise<number>>();
+    return (from, to, date) => {
+      const key = `${from}:${to}:${toISODate(date)}`;
+      let rate = cache.get(key);
+      if (!rate) {
+        rate = provider.getRate(from, to, date);
+        cache.set(key, rate);
+      }
+      return rate;
+    };
+  }
+
+  /** Approved expenditures up to `asOf`, with amounts in the grant currency. */
+  private approvedSpend(grant: Grant, asOf: Date): Expenditure[] {
+    return this.inGrantCurrency(
+      grant,
+      grant.expenditures.filter((e) => e.status === 'approved' && new Date(e.date) <= asOf)
+    );
+  }
+
+  private inGrantCurrency(grant: Grant, expenditures: Expenditure[]): Expenditure[] {
+    return expenditures.map((e) => ({ ...e, amount: grant.getAmountInGrantCurrency(e) }));
+  }
+
+  private breakdownByCategory(grant: Grant, expenditures: Expenditure[]): CategorySpend[] {
+    const actuals = this.actualsByCategory(grant, expenditures);
+    const budgeted = (grant.budget?.categories || []).map((category) => {
+      const actual = actuals.get(category.name) || 0;
+      return {
+        category: category.name,
+        budgeted: category.amount,
+        actual,
+        variance: category.amount > 0 ? actual / category.amount : 0,
+      };
+    });
+    const unbudgeted = Array.from(actuals.entries())
+      .filter(([name]) => !budgeted.some((b) => b.category === name))
+      .map(([category, actual]) => ({ category, budgeted: 0, actual, variance: 0 }));
+
+    return [...budgeted, ...unbudgeted];
+  }
+
+  /** Sums spend per category, keyed by the budget category name when one matches. */
+  private actualsByCategory(grant: Grant, expenditures: Expenditure[]): Map<string, number> {
+    const actuals = new Map<string, number>();
+    for (const expenditure of expenditures) {
+      const name = grant.budget
+        ? findCategory(grant.budget, expenditure.category)?.name || expenditure.category
+        : expenditure.category;
+      actuals.set(name, (actuals.get(name) || 0) + expenditure.amount);
+    }
+    return actuals;
+  }
+
+  private expectedSpend(category: BudgetCategory, asOf: Date, timelineProgress: number): number {
+    if (category.allocations.length === 0) {
+      return category.amount * timelineProgress;
+    }
+
+    return category.allocations.reduce((sum, allocation) => {
+      const start = new Date(allocation.periodStart).getTime();
+      const end = new Date(allocation.periodEnd).getTime();
+      if (asOf.getTime() >= end) {
+        return sum + allocation.amount;
+      }
+      if (asOf.getTime() <= start) {
+        return sum;
+      }
+      return sum + (allocation.amount * (asOf.getTime() - start)) / (end - start);
+    }, 0);
+  }
+
+  private timelineProgress(grant: Grant, asOf: Date): number {
+    const start = new Date(grant.startDate).getTime();
+    const totalDays = (new Date(grant.endDate).getTime() - start) / DAY_MS;
+    const elapsedDays = (asOf.getTime() - start) / DAY_MS;
+    return totalDays > 0 ? Math.min(Math.max(elapsedDays / totalDays, 0), 1) : 0;
+  }
+
+  private toPeriod(period: string): FinancialPeriod {
+    return period === 'monthly' || period === 'annual' ? period : 'quarterly';
+  }
+
+  private sum(expenditures: Pick<Expenditure, 'amount'>[]): number {
+    return expenditures.reduce((total, e) => total + e.amount, 0);
+  }
+}
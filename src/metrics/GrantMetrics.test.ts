@@ -0,0 +1,139 @@
+import { Grant } from '../models/Grant';
+import { GrantMetrics } from './GrantMetrics';
+
+/**
+ * M1 done on its own $40,000; the other $60,000 split 1:3 between M2, half
+ * done, and M3, not started. $50,000 spent by May.
+ */
+function grant(): Grant {
+  return Grant.fromJSON({
+    id: 'GR-EV',
+    title: 'Earned value',
+    currency: 'USD',
+    totalFunding: 100000,
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-12-31T00:00:00Z',
+    milestones: [
+      {
+        id: 'M1',
+        name: 'Plan',
+        dueDate: '2024-03-01',
+        completionDate: '2024-02-25',
+        status: 'completed',
+        budgetedCost: 40000,
+        weight: 2,
+      },
+      {
+        id: 'M2',
+        name: 'Pilot',
+        dueDate: '2024-07-01',
+        status: 'in-progress',
+        dependencies: ['M1'],
+        percentComplete: 50,
+        weight: 1,
+      },
+      {
+        id: 'M3',
+        name: 'Roll out',
+        dueDate: '2024-12-01',
+        status: 'pending',
+        dependencies: ['M1'],
+        weight: 3,
+      },
+    ],
+    expenditures: [
+      { id: 'E1', date: '2024-04-01', category: 'Personnel', amount: 50000, status: 'approved' },
+      { id: 'E2', date: '2024-04-15', category: 'Travel', amount: 5000, status: 'pending' },
+      { id: 'E3', date: '2024-06-01', category: 'Personnel', amount: 10000, status: 'approved' },
+    ],
+  });
+}
+
+describe('GrantMetrics.calculateEarnedValue', () => {
+  const metrics = new GrantMetrics();
+
+  it('plans value linearly over each milestone and spreads unassigned budget by weight', () => {
+    const ev = metrics.calculateEarnedValue(grant(), new Date('2024-05-01T00:00:00Z'));
+
+    expect(ev.milestones.map((m) => [m.milestoneId, m.budgetedCost, m.earnedValue])).toEqual([
+      ['M1', 40000, 40000],
+      ['M2', 15000, 7500],
+      ['M3', 45000, 0],
+    ]);
+    expect(ev.milestones[1].plannedComplete).toBeCloseTo(0.5);
+    expect(ev.milestones[2].plannedValue).toBeCloseTo((45000 * 61) / 275);
+    expect(ev).toMatchObject({ budgetAtCompletion: 100000, earnedValue: 47500, actualCost: 50000 });
+  });
+
+  it('derives variances, performance indices and the estimate at completion', () => {
+    const ev = metrics.calculateEarnedValue(grant(), new Date('2024-05-01T00:00:00Z'));
+
+    expect(ev.costVariance).toBe(-2500);
+    expect(ev.scheduleVariance).toBeCloseTo(47500 - ev.plannedValue);
+    expect(ev.schedulePerformanceIndex).toBeCloseTo(47500 / ev.plannedValue);
+    expect(ev.costPerformanceIndex).toBeCloseTo(0.95);
+    expect(ev.estimateAtCompletion).toBeCloseTo(100000 / 0.95);
+    expect(ev.estimateToComplete).toBeCloseTo(100000 / 0.95 - 50000);
+    expect(ev.varianceAtCompletion).toBeCloseTo(100000 - 100000 / 0.95);
+    expect(ev.toCompletePerformanceIndex).toBeCloseTo(1.05);
+  });
+
+  it('leaves the indices empty before value is planned or cost incurred', () => {
+    const ev = metrics.calculateEarnedValue(grant(), new Date('2023-12-01T00:00:00Z'));
+
+    expect(ev).toMatchObject({
+      plannedValue: 0,
+      actualCost: 0,
+      schedulePerformanceIndex: null,
+      costPerformanceIndex: null,
+      estimateAtCompletion: null,
+      estimateToComplete: null,
+      varianceAtCompletion: null,
+    });
+  });
+});
+
+describe('GrantMetrics.calculateProgress', () => {
+  const metrics = new GrantMetrics();
+
+  it('measures progress by the chosen method', async () => {
+    const g = grant();
+    const simple = await metrics.calculateProgress(g);
+    const weighted = await metrics.calculateProgress(g, 'weighted');
+    const earned = await metrics.calculateProgress(g, 'earned-value');
+
+    expect(simple).toMatchObject({ progressMethod: 'simple', earnedValue: null });
+    expect(simple.progress).toBeCloseTo(1 / 3);
+    expect(weighted.progress).toBeCloseTo((2 + 0.5) / 6);
+    expect(weighted.progress).toBeCloseTo(g.getProgress());
+    expect(earned.progress).toBeCloseTo(0.475);
+    expect(earned.earnedValue?.budgetAtCompletion).toBe(100000);
+  });
+});
+
+describe('GrantMetrics.generateProgressReport', () => {
+  const metrics = new GrantMetrics();
+
+  it('lists the reports and open milestones due within the horizon, soonest first', async () => {
+    const g = grant();
+    const progress = await metrics.calculateProgress(g);
+    const report = metrics.generateProgressReport(g, {
+      ...progress,
+      lastUpdated: new Date('2024-06-15T00:00:00Z'),
+    });
+
+    expect(report.nextSteps).toEqual([
+      'Submit the Q1 2024 report, overdue since 2024-04-30',
+      'Complete Pilot by 2024-07-01',
+      'Submit the Q2 2024 report by 2024-07-30',
+    ]);
+    expect(report.recommendations.length).toBeGreaterThan(0);
+    expect(report.recommendations).toEqual([
+      ...new Set(
+        progress.risk.factors
+          .filter((f) => f.contribution > 0 && f.recommendation)
+          .map((f) => f.recommendation)
+      ),
+    ]);
+  });
+});
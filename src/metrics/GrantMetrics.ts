@@ -1,6 +1,60 @@
 import { BaseMetric } from './BaseMetric';
 import { Grant, GrantStatus, Milestone } from '../models/Grant';
-import { KPI } from '../models/KPI';
+import { totalBudget } from '../models/Budget';
+import { KPIAchievement, kpiAchievement } from '../models/KPI';
+import {
+  fractionComplete,
+  milestoneProgress,
+  milestoneWeight,
+  plannedStart,
+} from '../models/MilestoneSchedule';
+import { assessGrantRisk, RiskAssessment, RiskLevel } from '../risk';
+import { reportingStatus } from '../compliance';
+import { addDays, toISODate } from '../utils/dates';
+
+/**
+ * `simple`: share of milestones completed; `weighted`: milestone weights
+ * times percent complete; `earned-value`: earned value over budget at completion.
+ */
+export type ProgressMethod = 'simple' | 'weighted' | 'earned-value';
+
+export interface MilestoneEarnedValue {
+  milestoneId: string;
+  name: string;
+  budgetedCost: number;
+  /** Share of the milestone that should be done by now, from its planned start to its due date */
+  plannedComplete: number;
+  /** Share of the milestone done */
+  complete: number;
+  plannedValue: number;
+  earnedValue: number;
+}
+
+/** Earned value analysis; amounts are in the grant currency. */
+export interface EarnedValueMetrics {
+  asOf: Date;
+  /** Sum of the milestones' budgeted costs */
+  budgetAtCompletion: number;
+  plannedValue: number;
+  earnedValue: number;
+  /** Approved expenditures to date */
+  actualCost: number;
+  /** EV - PV; negative when behind schedule */
+  scheduleVariance: number;
+  /** EV - AC; negative when over cost */
+  costVariance: number;
+  /** EV / PV; null before any value is planned */
+  schedulePerformanceIndex: number | null;
+  /** EV / AC; null before any cost is incurred */
+  costPerformanceIndex: number | null;
+  /** BAC / CPI; null while CPI is null or zero */
+  estimateAtCompletion: number | null;
+  estimateToComplete: number | null;
+  varianceAtCompletion: number | null;
+  /** CPI the remaining work must achieve to finish within budget */
+  toCompletePerformanceIndex: number | null;
+  milestones: MilestoneEarnedValue[];
+}
 
 export interface GrantProgressMetrics {
   grantId: string;
@@ -10,17 +64,35 @@ export interface GrantProgressMetrics {
   milestonesCompleted: number;
   totalMilestones: number;
   milestoneCompletionRate: number;
+  progressMethod: ProgressMethod;
+  /** Progress by the chosen method, 0-1 */
+  progress: number;
+  /** Present when progress is measured by earned value */
+  earnedValue: EarnedValueMetrics | null;
   daysElapsed: number;
   totalDays: number;
   timelineProgress: number;
   status: GrantStatus;
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
+  /** Risk score with each factor's contribution to it */
+  risk: RiskAssessment;
+  /** Achievement ratio by KPI name, for KPIs with data */
   kpiAchievement: Record<string, number>;
+  kpis: KPIAchievement[];
   lastUpdated: Date;
 }
 
 export class GrantMetrics extends BaseMetric {
-  async calculateProgress(grant: Grant): Promise<GrantProgressMetrics> {
+  /**
+   * Progress, spend, risk and KPI achievement of the grant as of now. Risk is
+   * scored with the profile of `portfolioId` when given, as when the grant is
+   * viewed as part of that portfolio.
+   */
+  async calculateProgress(
+    grant: Grant,
+    method: ProgressMethod = 'simple',
+    options: { portfolioId?: string } = {}
+  ): Promise<GrantProgressMetrics> {
     const now = new Date();
     const startDate = new Date(grant.startDate);
     const endDate = new Date(grant.endDate);
@@ -32,7 +104,9 @@ export class GrantMetrics extends BaseMetric {
     
     // Calculate financial metrics
     const totalFunding = grant.totalFunding;
-    const fundsUtilized = grant.expenditures.reduce((sum, exp) => sum + exp.amount, 0);
+    const fundsUtilized = grant.expenditures
+      .filter(exp => exp.status === 'approved')
+      .reduce((sum, exp) => sum + grant.getAmountInGrantCurrency(exp), 0);
     const utilizationRate = totalFunding > 0 ? fundsUtilized / totalFunding : 0;
     
     // Calculate milestone completion
@@ -40,15 +114,22 @@ export class GrantMetrics extends BaseMetric {
     const milestonesCompleted = grant.milestones.filter(m => m.status === 'completed').length;
     const milestoneCompletionRate = totalMilestones > 0 ? milestonesCompleted / totalMilestones : 0;
     
-    // Calculate risk level
-    const riskLevel = this.calculateRiskLevel(
-      timelineProgress,
-      utilizationRate,
-      milestoneCompletionRate
-    );
+    const earnedValue = method === 'earned-value' ? this.calculateEarnedValue(grant, now) : null;
+    let progress = milestoneCompletionRate;
+    if (earnedValue) {
+      progress = earnedValue.budgetAtCompletion > 0
+        ? earnedValue.earnedValue / earnedValue.budgetAtCompletion
+        : 0;
+    } else if (method === 'weighted') {
+      progress = milestoneProgress(grant.milestones, grant.startDate, 'weighted');
+    }
+    
+    // Assess risk with the shared risk model
+    const risk = await assessGrantRisk(grant, { asOf: now, portfolioId: options.portfolioId });
     
-    // Calculate KPI achievement
-    const kpiAchievement = this.calculateKPIAchievement(grant.kpis);
+    // Calculate KPI achievement against each KPI's target for the period
+    const kpis = grant.kpis.map(kpi => kpiAchievement(kpi, now));
+    const kpiAchievementByName = this.calculateKPIAchievement(kpis);
     
     return {
       grantId: grant.id,
@@ -58,65 +139,161 @@ export class GrantMetrics extends BaseMetric {
       milestonesCompleted,
       totalMilestones,
       milestoneCompletionRate,
+      progressMethod: method,
+      progress,
+      earnedValue,
       daysElapsed,
       totalDays,
       timelineProgress,
       status: grant.status,
-      riskLevel,
-      kpiAchievement,
+      riskLevel: risk.level,
+      risk,
+      kpiAchievement: kpiAchievementByName,
+      kpis,
       lastUpdated: now,
     };
   }
   
-  private calculateRiskLevel(
-    timelineProgress: number,
-    utilizationRate: number,
-    milestoneCompletionRate: number
-  ): 'low' | 'medium' | 'high' {
-    // Risk calculation based on progress alignment
-    const timelineVsMilestoneDiff = Math.abs(timelineProgress - milestoneCompletionRate);
-    const timelineVsFinancialDiff = Math.abs(timelineProgress - utilizationRate);
+  /**
+   * Earned value of the milestones as of `asOf`. Value is planned linearly
+   * from each milestone's planned start to its due date and earned by its
+   * percent complete. Budget not assigned to milestones through
+   * `budgetedCost` (the grant budget, or total funding without one) is
+   * spread over the other milestones by weight.
+   */
+  calculateEarnedValue(grant: Grant, asOf: Date = new Date()): EarnedValueMetrics {
+    const milestones = grant.milestones;
+    const assigned = milestones.reduce((sum, m) => sum + (m.budgetedCost ?? 0), 0);
+    const total = grant.budget ? totalBudget(grant.budget) : grant.totalFunding;
+    const unassigned = milestones.filter(m => m.budgetedCost === undefined);
+    const weights = new Map(unassigned.map(m => [m.id, milestoneWeight(m, milestones, grant.startDate)]));
+    const totalWeight = [...weights.values()].reduce((sum, w) => sum + w, 0);
+    const remaining = Math.max(total - assigned, 0);
+    
+    const breakdown = milestones.map(m => {
+      let budgetedCost = m.budgetedCost;
+      if (budgetedCost === undefined) {
+        budgetedCost = totalWeight > 0
+          ? remaining * (weights.get(m.id) as number) / totalWeight
+          : remaining / unassigned.length;
+      }
+      const plannedComplete = this.plannedComplete(m, plannedStart(m, milestones, grant.startDate), asOf);
+      const complete = fractionComplete(m);
+      return {
+        milestoneId: m.id,
+        name: m.name,
+        budgetedCost,
+        plannedComplete,
+        complete,
+        plannedValue: budgetedCost * plannedComplete,
+        earnedValue: budgetedCost * complete,
+      };
+    });
+    
+    const budgetAtCompletion = breakdown.reduce((sum, m) => sum + m.budgetedCost, 0);
+    const plannedValue = breakdown.reduce((sum, m) => sum + m.plannedValue, 0);
+    const earnedValue = breakdown.reduce((sum, m) => sum + m.earnedValue, 0);
+    const actualCost = grant.expenditures
+      .filter(e => e.status === 'approved' && e.date <= asOf)
+      .reduce((sum, e) => sum + grant.getAmountInGrantCurrency(e), 0);
     
-    const riskScore = (timelineVsMilestoneDiff + timelineVsFinancialDiff) / 2;
+    const schedulePerformanceIndex = plannedValue > 0 ? earnedValue / plannedValue : null;
+    const costPerformanceIndex = actualCost > 0 ? earnedValue / actualCost : null;
+    const estimateAtCompletion = costPerformanceIndex
+      ? budgetAtCompletion / costPerformanceIndex
+      : null;
     
-    if (riskScore < 0.2) return 'low';
-    if (riskScore < 0.4) return 'medium';
-    return 'high';
+    return {
+      asOf,
+      budgetAtCompletion,
+      plannedValue,
+      earnedValue,
+      actualCost,
+      scheduleVariance: earnedValue - plannedValue,
+      costVariance: earnedValue - actualCost,
+      schedulePerformanceIndex,
+      costPerformanceIndex,
+      estimateAtCompletion,
+      estimateToComplete: estimateAtCompletion === null ? null : estimateAtCompletion - actualCost,
+      varianceAtCompletion: estimateAtCompletion === null ? null : budgetAtCompletion - estimateAtCompletion,
+      toCompletePerformanceIndex: budgetAtCompletion > actualCost
+        ? (budgetAtCompletion - earnedValue) / (budgetAtCompletion - actualCost)
+        : null,
+      milestones: breakdown,
+    };
+  }
+  
+  /** Share of a milestone planned to be done by `asOf`, linear from its planned start to its due date. */
+  private plannedComplete(milestone: Milestone, start: Date, asOf: Date): number {
+    const span = milestone.dueDate.getTime() - start.getTime();
+    if (span <= 0) {
+      return asOf >= milestone.dueDate ? 1 : 0;
+    }
+    return Math.min(Math.max((asOf.getTime() - start.getTime()) / span, 0), 1);
   }
   
-  private calculateKPIAchievement(kpis: KPI[]): Record<string, number> {
+  private calculateKPIAchievement(kpis: KPIAchievement[]): Record<string, number> {
     const achievement: Record<string, number> = {};
     
     for (const kpi of kpis) {
-      if (kpi.targetValue !== 0) {
-        achievement[kpi.name] = kpi.currentValue / kpi.targetValue;
-      } else {
-        achievement[kpi.name] = kpi.currentValue;
+      if (kpi.achievement !== null) {
+        achievement[kpi.name] = kpi.achievement;
       }
     }
     
     return achievement;
   }
   
-  async generateProgressReport(grantId: string): Promise<{
+  /**
+   * Recommendations and next steps for a grant from its computed metrics:
+   * the recommendations of the risk factors adding to its score, and the
+   * reports and milestones due within `horizonDays` or already overdue,
+   * soonest first.
+   */
+  generateProgressReport(
+    grant: Grant,
+    metrics: GrantProgressMetrics,
+    horizonDays: number = 90
+  ): {
     metrics: GrantProgressMetrics;
     recommendations: string[];
     nextSteps: string[];
-  }> {
-    // This would typically fetch grant data from database
-    // For now, return a structured response
+  } {
+    const asOf = metrics.lastUpdated;
+    const horizon = addDays(asOf, horizonDays);
+    const recommendations = [
+      ...new Set(
+        metrics.risk.factors
+          .filter(f => f.contribution > 0 && f.recommendation)
+          .map(f => f.recommendation as string)
+      ),
+    ];
+    
+    const steps: { date: Date; text: string }[] = [];
+    for (const report of reportingStatus(grant, asOf)) {
+      if (report.status === 'overdue') {
+        steps.push({ date: report.dueDate, text: `Submit the ${report.label} report, overdue since ${toISODate(report.dueDate)}` });
+      } else if ((report.status === 'due' || report.status === 'upcoming') && report.dueDate <= horizon) {
+        steps.push({ date: report.dueDate, text: `Submit the ${report.label} report by ${toISODate(report.dueDate)}` });
+      }
+    }
+    for (const milestone of grant.milestones) {
+      if (milestone.status === 'completed' || milestone.dueDate > horizon) {
+        continue;
+      }
+      steps.push({
+        date: milestone.dueDate,
+        text: milestone.dueDate < asOf
+          ? `Complete ${milestone.name}, overdue since ${toISODate(milestone.dueDate)}`
+          : `Complete ${milestone.name} by ${toISODate(milestone.dueDate)}`,
+      });
+    }
+    
     return {
-      metrics: {} as GrantProgressMetrics,
-      recommendations: [
-        'Review milestone completion against timeline',
-        'Monitor expenditure rate relative to progress',
-        'Schedule compliance check for next quarter',
-      ],
-      nextSteps: [
-        'Submit Q3 progress report by deadline',
-        'Schedule site visit with program officer',
-        'Update risk mitigation plan',
-      ],
+      metrics,
+      recommendations,
+      nextSteps: steps.sort((a, b) => a.date.getTime() - b.date.getTime()).map(s => s.text),
     };
   }
+
   }
@@ -0,0 +1,88 @@
+import { ComplianceRequirement, Grant } from '../models/Grant';
+import { organizationFromJSON } from '../models/Organization';
+import { OrganizationMetrics } from './OrganizationMetrics';
+
+const asOf = new Date('2024-06-30T00:00:00Z');
+
+const requirements: ComplianceRequirement[] = [
+  {
+    id: 'REQ-AUDIT',
+    name: 'Single audit filed',
+    description: '',
+    type: 'custom',
+    severity: 'high',
+    condition: { fact: { path: 'grant.tags' }, operator: 'contains', value: 'audited' },
+  },
+];
+
+const organization = organizationFromJSON({
+  id: 'ORG-1',
+  name: 'Health Partners',
+  taxId: '12-3456789',
+  auditFindings: [
+    {
+      id: 'AF-1',
+      type: 'questioned-costs',
+      questionedCosts: 12400,
+      reportedDate: '2023-12-20',
+      status: 'open',
+    },
+    { id: 'AF-2', type: 'material-weakness', reportedDate: '2024-09-01', status: 'open' },
+  ],
+});
+
+function grant(id: string, currency: string, tags: string[], spent: number): Grant {
+  return Grant.fromJSON({
+    id,
+    title: id,
+    status: 'active',
+    currency,
+    totalFunding: 100000,
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-12-31T00:00:00Z',
+    tags,
+    expenditures: [
+      { id: `${id}-E1`, date: '2024-03-01', category: 'Staff', amount: spent, status: 'approved' },
+      { id: `${id}-E2`, date: '2024-08-01', category: 'Staff', amount: 5000, status: 'approved' },
+    ],
+  });
+}
+
+describe('OrganizationMetrics.calculateProfile', () => {
+  it("aggregates the organization's grants by currency and its compliance", async () => {
+    const profile = await new OrganizationMetrics().calculateProfile(
+      organization,
+      [
+        { grant: grant('GR-1', 'USD', ['audited'], 40000), requirements },
+        { grant: grant('GR-2', 'EUR', [], 20000), requirements },
+      ],
+      [],
+      asOf
+    );
+
+    expect(profile.grants.map((g) => [g.grantId, g.utilizationRate, g.complianceRate])).toEqual([
+      ['GR-1', 0.4, 1],
+      ['GR-2', 0.2, 0],
+    ]);
+    expect(profile.summary).toMatchObject({
+      totalGrants: 2,
+      activeGrants: 2,
+      totalFunding: { USD: 100000, EUR: 100000 },
+      fundsUtilized: { USD: 40000, EUR: 20000 },
+      complianceRate: 0.5,
+    });
+    expect(profile.summary.averageUtilization).toBeCloseTo(0.3);
+  });
+
+  it('counts only audit findings reported by the profile date', async () => {
+    const profile = await new OrganizationMetrics().calculateProfile(organization, [], [], asOf);
+
+    expect(profile.auditFindings).toMatchObject({
+      total: 1,
+      open: 1,
+      questionedCosts: 12400,
+      byType: { 'questioned-costs': 1, 'material-weakness': 0 },
+    });
+    expect(profile.summary).toMatchObject({ averageUtilization: null, complianceRate: null });
+  });
+});
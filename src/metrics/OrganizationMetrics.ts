@@ -0,0 +1,203 @@
+import { BaseMetric } from './BaseMetric';
+import { reportingStatus } from '../compliance';
+import type { ComplianceRequirement, Grant, GrantStatus } from '../models/Grant';
+import { AuditFinding, AuditFindingType, RecipientOrganization } from '../models/Organization';
+import { addDays } from '../utils/dates';
+import { isUnresolved } from '../workflows/CorrectiveActionWorkflow';
+import { ComplianceMetrics } from './ComplianceMetrics';
+import {
+  ComplianceSnapshot,
+  ComplianceTrend,
+  complianceTrend,
+  OngoingNonCompliance,
+  ongoingNonCompliance,
+} from './ComplianceHistory';
+
+export interface ReportTimeliness {
+  /** Scheduled reports due by the profile date */
+  due: number;
+  onTime: number;
+  late: number;
+  overdue: number;
+}
+
+export interface OrganizationGrantSummary {
+  grantId: string;
+  title: string;
+  status: GrantStatus;
+  currency: string;
+  totalFunding: number;
+  fundsUtilized: number;
+  utilizationRate: number;
+  complianceRate: number;
+  nonCompliantRequirements: number;
+  reports: ReportTimeliness;
+  openCorrectiveActions: number;
+  overdueCorrectiveActions: number;
+}
+
+export interface OrganizationProfile {
+  organizationId: string;
+  name: string;
+  taxId?: string;
+  asOf: Date;
+  grants: OrganizationGrantSummary[];
+  summary: {
+    totalGrants: number;
+    activeGrants: number;
+    /** Total funding by currency */
+    totalFunding: Record<string, number>;
+    fundsUtilized: Record<string, number>;
+    /** Mean utilization rate of the grants */
+    averageUtilization: number | null;
+    /** Requirements met over requirements assessed, across all grants */
+    complianceRate: number | null;
+    reports: ReportTimeliness;
+    /** Share of reports due that were submitted on time */
+    reportTimeliness: number | null;
+    openCorrectiveActions: number;
+    overdueCorrectiveActions: number;
+  };
+  auditFindings: {
+    total: number;
+    open: number;
+    questionedCosts: number;
+    byType: Record<AuditFindingType, number>;
+    findings: AuditFinding[];
+  };
+  /** Compliance rate across the grants over the year to the profile date */
+  complianceHistory: ComplianceTrend;
+  /** Requirements non-compliant at each grant's latest snapshot */
+  ongoingNonCompliance: (OngoingNonCompliance & { grantId: string })[];
+}
+
+export class OrganizationMetrics extends BaseMetric {
+  private complianceMetrics = new ComplianceMetrics();
+
+  /**
+   * Aggregates an organization's record across its grants as of `asOf`:
+   * compliance against each grant's requirements and its compliance
+   * snapshots, funds utilized, report timeliness, corrective actions and
+   * the organization's audit findings.
+   */
+  async calculateProfile(
+    organization: RecipientOrganization,
+    grants: { grant: Grant; requirements: ComplianceRequirement[] }[],
+    snapshots: ComplianceSnapshot[],
+    asOf: Date = new Date()
+  ): Promise<OrganizationProfile> {
+    const summaries: OrganizationGrantSummary[] = [];
+    let assessed = 0;
+    let met = 0;
+    for (const { grant, requirements } of grants) {
+      const compliance = await this.complianceMetrics.assessCompliance(grant, requirements, asOf);
+      assessed += compliance.compliantRequirements + compliance.nonCompliantRequirements;
+      met += compliance.compliantRequirements;
+      summaries.push(
+        this.summarizeGrant(
+          grant,
+          compliance.complianceRate,
+          compliance.nonCompliantRequirements,
+          asOf
+        )
+      );
+    }
+
+    const totalFunding: Record<string, number> = {};
+    const fundsUtilized: Record<string, number> = {};
+    const reports: ReportTimeliness = { due: 0, onTime: 0, late: 0, overdue: 0 };
+    for (const summary of summaries) {
+      totalFunding[summary.currency] = (totalFunding[summary.currency] || 0) + summary.totalFunding;
+      fundsUtilized[summary.currency] =
+        (fundsUtilized[summary.currency] || 0) + summary.fundsUtilized;
+      reports.due += summary.reports.due;
+      reports.onTime += summary.reports.onTime;
+      reports.late += summary.reports.late;
+      reports.overdue += summary.reports.overdue;
+    }
+
+    const findings = organization.auditFindings.filter((f) => f.reportedDate <= asOf);
+    const byType: Record<AuditFindingType, number> = {
+      'material-weakness': 0,
+      'significant-deficiency': 0,
+      'questioned-costs': 0,
+      noncompliance: 0,
+    };
+    for (const finding of findings) {
+      byType[finding.type]++;
+    }
+
+    const grantIds = new Set(grants.map((g) => g.grant.id));
+    const history = snapshots.filter((s) => grantIds.has(s.grantId) && s.takenAt <= asOf);
+
+    return {
+      organizationId: organization.id,
+      name: organization.name,
+      taxId: organization.taxId,
+      asOf,
+      grants: summaries,
+      summary: {
+        totalGrants: summaries.length,
+        activeGrants: summaries.filter((s) => s.status === 'active').length,
+        totalFunding,
+        fundsUtilized,
+        averageUtilization:
+          summaries.length > 0
+            ? summaries.reduce((sum, s) => sum + s.utilizationRate, 0) / summaries.length
+            : null,
+        complianceRate: assessed > 0 ? met / assessed : null,
+        reports,
+        reportTimeliness: reports.due > 0 ? reports.onTime / reports.due : null,
+        openCorrectiveActions: summaries.reduce((sum, s) => sum + s.openCorrectiveActions, 0),
+        overdueCorrectiveActions: summaries.reduce((sum, s) => sum + s.overdueCorrectiveActions, 0),
+      },
+      auditFindings: {
+        total: findings.length,
+        open: findings.filter((f) => f.status === 'open').length,
+        questionedCosts: findings.reduce((sum, f) => sum + (f.questionedCosts || 0), 0),
+        byType,
+        findings,
+      },
+      complianceHistory: complianceTrend(history, addDays(asOf, -365), asOf),
+      ongoingNonCompliance: [...grantIds].flatMap((grantId) =>
+        ongoingNonCompliance(history.filter((s) => s.grantId === grantId)).map((entry) => ({
+          grantId,
+          ...entry,
+        }))
+      ),
+    };
+  }
+
+  private summarizeGrant(
+    grant: Grant,
+    complianceRate: number,
+    nonCompliantRequirements: number,
+    asOf: Date
+  ): OrganizationGrantSummary {
+    const fundsUtilized = grant.expenditures
+      .filter((e) => e.status === 'approved' && e.date <= asOf)
+      .reduce((sum, e) => sum + grant.getAmountInGrantCurrency(e), 0);
+    const scheduled = reportingStatus(grant, asOf).filter((r) => r.status !== 'upcoming');
+    const unresolved = grant.correctiveActions.filter(isUnresolved);
+
+    return {
+      grantId: grant.id,
+      title: grant.title,
+      status: grant.status,
+      currency: grant.currency,
+      totalFunding: grant.totalFunding,
+      fundsUtilized,
+      utilizationRate: grant.totalFunding > 0 ? fundsUtilized / grant.totalFunding : 0,
+      complianceRate,
+      nonCompliantRequirements,
+      reports: {
+        due: scheduled.length,
+        onTime: scheduled.filter((r) => r.status === 'on-time').length,
+        late: scheduled.filter((r) => r.status === 'late').length,
+        overdue: scheduled.filter((r) => r.status === 'overdue').length,
+      },
+      openCorrectiveActions: unresolved.length,
+      overdueCorrectiveActions: unresolved.filter((a) => a.dueDate < asOf).length,
+    };
+  }
+}
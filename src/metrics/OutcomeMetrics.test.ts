@@ -0,0 +1,140 @@
+import { Grant, Milestone } from '../models/Grant';
+import type { KPI } from '../models/KPI';
+import { logicModelFromJSON } from '../models/LogicModel';
+import { OutcomeMetrics } from './OutcomeMetrics';
+
+const asOf = new Date('2024-06-30');
+
+function kpi(id: string, value: number, target: number): KPI {
+  return {
+    id,
+    name: id,
+    description: '',
+    unit: 'people',
+    measurementFrequency: 'monthly',
+    dataSource: 'Records',
+    direction: 'higher-is-better',
+    targetValue: target,
+    interimTargets: [],
+    measurements: [
+      {
+        id: `${id}-M1`,
+        value,
+        date: new Date('2024-05-31'),
+        dataSource: 'Records',
+        recordedBy: 'sam',
+        recordedDate: new Date('2024-06-01'),
+        verificationStatus: 'verified',
+      },
+    ],
+  };
+}
+
+function milestone(id: string, dueDate: string, completionDate?: string): Milestone {
+  return {
+    id,
+    name: id,
+    description: '',
+    dueDate: new Date(dueDate),
+    completionDate: completionDate ? new Date(completionDate) : undefined,
+    status: completionDate ? 'completed' : 'pending',
+    deliverables: [],
+  };
+}
+
+function grant(): Grant {
+  return new Grant({
+    id: 'GR-1',
+    title: 'Clinic outreach',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    kpis: [kpi('KPI-1', 300, 200), kpi('KPI-2', 50, 100), kpi('KPI-3', 10, 10)],
+    milestones: [
+      milestone('MIL-1', '2024-03-31', '2024-03-20'),
+      milestone('MIL-2', '2024-05-31'),
+      milestone('MIL-3', '2024-09-30'),
+    ],
+    objectives: [
+      { id: 'OBJ-1', description: 'Reach', kpiIds: ['KPI-1', 'KPI-2'], milestoneIds: ['MIL-1'] },
+      {
+        id: 'OBJ-2',
+        description: 'Clinics',
+        kpiIds: [],
+        milestoneIds: ['MIL-2', 'MIL-3'],
+        weight: 3,
+      },
+      { id: 'OBJ-3', description: 'Unmeasured', kpiIds: [], milestoneIds: [] },
+    ],
+    logicModel: logicModelFromJSON({
+      outcomes: [
+        {
+          id: 'ST-1',
+          description: 'Access',
+          term: 'short-term',
+          objectiveIds: ['OBJ-1', 'OBJ-2'],
+          leadsTo: ['LT-1'],
+        },
+        { id: 'LT-1', description: 'Health', term: 'long-term', objectiveIds: [], leadsTo: [] },
+        { id: 'LT-2', description: 'Orphan', term: 'long-term', objectiveIds: [], leadsTo: [] },
+      ],
+    }),
+  });
+}
+
+describe('OutcomeMetrics.calculateScorecard', () => {
+  const scorecard = new OutcomeMetrics().calculateScorecard(grant(), asOf);
+
+  it('scores objectives from capped KPI achievement and milestones completed on time', () => {
+    const [reach, clinics, unmeasured] = scorecard.objectives;
+
+    // KPI-1 capped at 1, KPI-2 at 0.5, MIL-1 done on time
+    expect(reach.score).toBeCloseTo((1 + 0.5 + 1) / 3);
+    expect(clinics.milestones).toEqual({
+      total: 2,
+      due: 1,
+      completedOnTime: 0,
+      overdue: ['MIL-2'],
+    });
+    expect(clinics.score).toBe(0);
+    expect(unmeasured).toMatchObject({ score: null, status: 'no-data' });
+  });
+
+  it('rolls weighted objective scores up through short-term to long-term outcomes', () => {
+    const [access, health, orphan] = scorecard.outcomes;
+
+    expect(access.score).toBeCloseTo((5 / 6) * (1 / 4));
+    expect(health).toMatchObject({ contributingOutcomes: ['ST-1'] });
+    expect(health.score).toBeCloseTo(access.score as number);
+    expect(orphan.score).toBeNull();
+    expect(scorecard.score).toBeCloseTo(access.score as number);
+  });
+
+  it('lists unlinked KPIs and gaps in the logic model', () => {
+    expect(scorecard.unlinkedKPIs).toEqual(['KPI-3']);
+    expect(scorecard.gaps).toEqual([
+      'Objective OBJ-3 has no KPIs or milestones to measure it by',
+      'Outcome LT-2 has no objectives or outcomes leading to it',
+    ]);
+  });
+});
+
+describe('OutcomeMetrics.summarizePortfolio', () => {
+  it('averages scored grants and lists objectives falling behind, worst first', () => {
+    const metrics = new OutcomeMetrics();
+    const scored = metrics.calculateScorecard(grant(), asOf);
+    const unscored = metrics.calculateScorecard(
+      new Grant({ id: 'GR-2', startDate: new Date('2024-01-01'), endDate: new Date('2024-12-31') }),
+      asOf
+    );
+
+    const summary = metrics.summarizePortfolio([unscored, scored]);
+    expect(summary).toMatchObject({ grants: 2, scoredGrants: 1 });
+    expect(summary.averageScore).toBeCloseTo(scored.score as number);
+    expect(summary.grantScores.map((g) => g.grantId)).toEqual(['GR-1', 'GR-2']);
+    expect(summary.objectivesNeedingAttention.map((o) => o.objectiveId)).toEqual([
+      'OBJ-2',
+      'OBJ-1',
+    ]);
+  });
+});
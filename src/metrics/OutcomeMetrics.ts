@@ -0,0 +1,318 @@
+import { BaseMetric } from './BaseMetric';
+import type { Grant } from '../models/Grant';
+import { KPIAchievement, kpiAchievement, KPIStatus, statusFor } from '../models/KPI';
+import type { Objective, OutcomeTerm } from '../models/LogicModel';
+import { addDays, startOfDay, toISODate } from '../utils/dates';
+import { linearFit } from '../utils/stats';
+
+export interface MilestoneProgress {
+  total: number;
+  /** Milestones due on or before the scorecard date */
+  due: number;
+  /** Due milestones completed by the scorecard date */
+  completedOnTime: number;
+  overdue: string[];
+}
+
+export interface ObjectiveScore {
+  objectiveId: string;
+  description: string;
+  weight: number;
+  kpis: KPIAchievement[];
+  milestones: MilestoneProgress;
+  /**
+   * Mean of the linked KPIs' achievement, each capped at 1, and the share of
+   * due milestones completed; null when none of them has anything to show yet.
+   */
+  score: number | null;
+  status: KPIStatus;
+}
+
+export interface OutcomeScore {
+  outcomeId: string;
+  description: string;
+  term: OutcomeTerm;
+  objectiveIds: string[];
+  /** Short-term outcomes leading to this long-term outcome */
+  contributingOutcomes: string[];
+  /** Weighted mean of its objectives' scores and its contributing outcomes' scores */
+  score: number | null;
+  status: KPIStatus;
+}
+
+export interface OutcomeScorecard {
+  grantId: string;
+  asOf: Date;
+  /**
+   * Mean score of the long-term outcomes, or of the short-term outcomes or
+   * objectives when the logic model stops short of them
+   */
+  score: number | null;
+  status: KPIStatus;
+  objectives: ObjectiveScore[];
+  outcomes: OutcomeScore[];
+  /** KPIs no objective is linked to; they count towards no outcome */
+  unlinkedKPIs: string[];
+  /** Objectives and outcomes with nothing to measure them by, and links to missing KPIs or milestones */
+  gaps: string[];
+}
+
+export interface OutcomePortfolioSummary {
+  grants: number;
+  /** Grants with a score, i.e. with some measured KPI or due milestone */
+  scoredGrants: number;
+  averageScore: number | null;
+  byStatus: Record<KPIStatus, number>;
+  grantScores: { grantId: string; score: number | null; status: KPIStatus }[];
+  objectivesNeedingAttention: {
+    grantId: string;
+    objectiveId: string;
+    description: string;
+    score: number;
+    status: KPIStatus;
+  }[];
+}
+
+export interface OutcomeTrendPoint {
+  date: string;
+  value: number;
+  /** Grants with a score on the date */
+  grants: number;
+}
+
+export interface OutcomeTrend {
+  dataPoints: OutcomeTrendPoint[];
+  trend: 'improving' | 'declining' | 'stable' | 'insufficient-data';
+  /** Coefficient of determination of the linear fit, 0-1 */
+  trendStrength: number;
+  /** Change in outcome score per 30 days according to the fit */
+  slopePer30Days: number;
+  insights: string[];
+}
+
+/** Below this change in outcome score per 30 days the trend counts as stable. */
+const STABLE_SLOPE = 0.01;
+
+export class OutcomeMetrics extends BaseMetric {
+  /**
+   * Rolls KPI achievement and milestone completion as of `asOf` up to the
+   * grant's objectives, and objective scores up its logic model to short-
+   * and long-term outcomes. KPI achievement is capped at 1 so one KPI far
+   * ahead of target cannot hide another falling behind.
+   */
+  calculateScorecard(grant: Grant, asOf: Date = new Date()): OutcomeScorecard {
+    const gaps: string[] = [];
+    const kpis = new Map(grant.kpis.map((k) => [k.id, k]));
+    const milestones = new Map(grant.milestones.map((m) => [m.id, m]));
+
+    const objectives = grant.objectives.map((objective) => {
+      for (const id of objective.kpiIds.filter((id) => !kpis.has(id))) {
+        gaps.push(`Objective ${objective.id} refers to missing KPI ${id}`);
+      }
+      for (const id of objective.milestoneIds.filter((id) => !milestones.has(id))) {
+        gaps.push(`Objective ${objective.id} refers to missing milestone ${id}`);
+      }
+      const score = this.scoreObjective(grant, objective, asOf);
+      if (objective.kpiIds.length === 0 && objective.milestoneIds.length === 0) {
+        gaps.push(`Objective ${objective.id} has no KPIs or milestones to measure it by`);
+      }
+      return score;
+    });
+    const objectiveById = new Map(objectives.map((o) => [o.objectiveId, o]));
+
+    const model = grant.logicModel;
+    const outcomes: OutcomeScore[] = [];
+    // Short-term outcomes first: long-term outcomes build on them
+    for (const term of ['short-term', 'long-term'] as OutcomeTerm[]) {
+      for (const outcome of (model?.outcomes || []).filter((o) => o.term === term)) {
+        const contributing = outcomes.filter((o) =>
+          model?.outcomes.some(
+            (source) => source.id === o.outcomeId && source.leadsTo.includes(outcome.id)
+          )
+        );
+        const parts = [
+          ...outcome.objectiveIds
+            .map((id) => objectiveById.get(id))
+            .filter((o): o is ObjectiveScore => o !== undefined)
+            .map((o) => ({ score: o.score, weight: o.weight })),
+          ...contributing.map((o) => ({ score: o.score, weight: 1 })),
+        ];
+        if (parts.length === 0) {
+          gaps.push(`Outcome ${outcome.id} has no objectives or outcomes leading to it`);
+        }
+        const score = weightedMean(parts);
+        outcomes.push({
+          outcomeId: outcome.id,
+          description: outcome.description,
+          term: outcome.term,
+          objectiveIds: outcome.objectiveIds,
+          contributingOutcomes: contributing.map((o) => o.outcomeId),
+          score,
+          status: statusFor(score),
+        });
+      }
+    }
+
+    const longTerm = outcomes.filter((o) => o.term === 'long-term');
+    const shortTerm = outcomes.filter((o) => o.term === 'short-term');
+    const top = longTerm.length > 0 ? longTerm : shortTerm.length > 0 ? shortTerm : objectives;
+    const score = weightedMean(top.map((o) => ({ score: o.score, weight: 1 })));
+
+    const linked = new Set(grant.objectives.flatMap((o) => o.kpiIds));
+    return {
+      grantId: grant.id,
+      asOf,
+      score,
+      status: statusFor(score),
+      objectives,
+      outcomes,
+      unlinkedKPIs: grant.kpis.filter((k) => !linked.has(k.id)).map((k) => k.id),
+      gaps,
+    };
+  }
+
+  summarizePortfolio(scorecards: OutcomeScorecard[]): OutcomePortfolioSummary {
+    const byStatus: Record<KPIStatus, number> = {
+      exceeding: 0,
+      'on-track': 0,
+      'at-risk': 0,
+      'off-track': 0,
+      'no-data': 0,
+    };
+    for (const scorecard of scorecards) {
+      byStatus[scorecard.status]++;
+    }
+    const scored = scorecards.filter((s) => s.score !== null);
+
+    return {
+      grants: scorecards.length,
+      scoredGrants: scored.length,
+      averageScore: weightedMean(scored.map((s) => ({ score: s.score, weight: 1 }))),
+      byStatus,
+      grantScores: scorecards
+        .map(({ grantId, score, status }) => ({ grantId, score, status }))
+        .sort((a, b) => (b.score ?? -1) - (a.score ?? -1)),
+      objectivesNeedingAttention: scorecards
+        .flatMap((s) =>
+          s.objectives
+            .filter((o) => o.status === 'at-risk' || o.status === 'off-track')
+            .map((o) => ({
+              grantId: s.grantId,
+              objectiveId: o.objectiveId,
+              description: o.description,
+              score: o.score as number,
+              status: o.status,
+            }))
+        )
+        .sort((a, b) => a.score - b.score),
+    };
+  }
+
+  /**
+   * Daily outcome score between `from` and `to`, averaged over the grants
+   * scored on the day. Insights name the objectives and outcomes whose status
+   * differs between the start and end of the window.
+   */
+  calculateTrend(grants: Grant[], from: Date, to: Date): OutcomeTrend {
+    const dataPoints: OutcomeTrendPoint[] = [];
+    for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+      const endOfDay = new Date(Math.min(addDays(day, 1).getTime() - 1, to.getTime()));
+      const scores = grants
+        .map((grant) => this.calculateScorecard(grant, endOfDay).score)
+        .filter((score): score is number => score !== null);
+      if (scores.length > 0) {
+        dataPoints.push({
+          date: toISODate(day),
+          value: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+          grants: scores.length,
+        });
+      }
+    }
+
+    const fit = linearFit(dataPoints.map((p) => [new Date(p.date).getTime() / 86400000, p.value]));
+    const slopePer30Days = fit ? fit.slope * 30 : 0;
+    let trend: OutcomeTrend['trend'] = 'insufficient-data';
+    if (fit) {
+      trend =
+        slopePer30Days > STABLE_SLOPE
+          ? 'improving'
+          : slopePer30Days < -STABLE_SLOPE
+            ? 'declining'
+            : 'stable';
+    }
+
+    const insights: string[] = [];
+    for (const grant of grants) {
+      const before = this.calculateScorecard(grant, from);
+      const after = this.calculateScorecard(grant, to);
+      const changes = [
+        ...after.objectives.map((o) => ({
+          name: o.description,
+          status: o.status,
+          was: before.objectives.find((b) => b.objectiveId === o.objectiveId)?.status,
+        })),
+        ...after.outcomes.map((o) => ({
+          name: `${o.term} outcome "${o.description}"`,
+          status: o.status,
+          was: before.outcomes.find((b) => b.outcomeId === o.outcomeId)?.status,
+        })),
+      ];
+      for (const change of changes.filter((c) => c.was && c.was !== c.status)) {
+        insights.push(`${grant.id}: ${change.name} moved from ${change.was} to ${change.status}`);
+      }
+    }
+
+    return {
+      dataPoints,
+      trend,
+      trendStrength: fit ? fit.r2 : 0,
+      slopePer30Days,
+      insights,
+    };
+  }
+
+  private scoreObjective(grant: Grant, objective: Objective, asOf: Date): ObjectiveScore {
+    const kpis = grant.kpis
+      .filter((k) => objective.kpiIds.includes(k.id))
+      .map((k) => kpiAchievement(k, asOf));
+    const linked = grant.milestones.filter((m) => objective.milestoneIds.includes(m.id));
+    const due = linked.filter((m) => m.dueDate <= asOf);
+    const completedOnTime = due.filter(
+      (m) => m.status === 'completed' && (!m.completionDate || m.completionDate <= asOf)
+    );
+    const milestones: MilestoneProgress = {
+      total: linked.length,
+      due: due.length,
+      completedOnTime: completedOnTime.length,
+      overdue: due.filter((m) => !completedOnTime.includes(m)).map((m) => m.id),
+    };
+
+    const parts = kpis
+      .filter((k) => k.achievement !== null)
+      .map((k) => ({ score: Math.min(Math.max(k.achievement as number, 0), 1), weight: 1 }));
+    if (due.length > 0) {
+      parts.push({ score: completedOnTime.length / due.length, weight: 1 });
+    }
+    const score = weightedMean(parts);
+
+    return {
+      objectiveId: objective.id,
+      description: objective.description,
+      weight: objective.weight ?? 1,
+      kpis,
+      milestones,
+      score,
+      status: statusFor(score),
+    };
+  }
+}
+
+/** Weighted mean of the scores that are not null; null when none are. */
+function weightedMean(parts: { score: number | null; weight: number }[]): number | null {
+  const scored = parts.filter((p) => p.score !== null && p.weight > 0);
+  const totalWeight = scored.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+  return scored.reduce((sum, p) => sum + (p.score as number) * p.weight, 0) / totalWeight;
+}
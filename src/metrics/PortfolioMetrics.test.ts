@@ -0,0 +1,143 @@
+import { generateReportingSchedule } from '../compliance';
+import { Grant } from '../models/Grant';
+import { BUILT_IN_RISK_FACTORS, getRiskModel, RiskModel, setRiskModel } from '../risk';
+import { addDays } from '../utils/dates';
+import { PortfolioMetrics } from './PortfolioMetrics';
+
+// The portfolio is measured as of now, so the grants are dated around today
+const now = new Date();
+
+/** Active foundation grant half way through its period, reporting on time. */
+function grant(id: string, done: boolean, spent: number): Grant {
+  const g = new Grant({
+    id,
+    title: id,
+    type: 'foundation',
+    status: 'active',
+    currency: 'USD',
+    totalFunding: 100000,
+    startDate: addDays(now, -180),
+    endDate: addDays(now, 180),
+    milestones: ['Kick-off', 'Pilot'].map((name, i) => ({
+      id: `${id}-M${i + 1}`,
+      name,
+      description: '',
+      dueDate: addDays(now, -90 + i * 120),
+      completionDate: done ? addDays(now, -100 + i * 90) : undefined,
+      status: done ? 'completed' : 'pending',
+      deliverables: [],
+    })),
+    expenditures: [
+      {
+        id: `${id}-E1`,
+        date: addDays(now, -30),
+        category: 'Staff',
+        description: '',
+        amount: spent,
+        status: 'approved',
+      },
+    ],
+  });
+  g.reports = generateReportingSchedule(g)
+    .filter((period) => period.end < now)
+    .map((period) => ({
+      id: `${id}-${period.label}`,
+      type: 'progress',
+      period: period.label,
+      submissionDate: period.end,
+      submittedBy: 'sam',
+      status: 'submitted',
+    }));
+  return g;
+}
+
+const portfolio = { id: 'P-1', name: 'Clinics', grantIds: [] };
+
+describe('PortfolioMetrics.calculatePortfolio', () => {
+  const calculate = (
+    options: Parameters<PortfolioMetrics['calculatePortfolio']>[2] = {}
+  ): ReturnType<PortfolioMetrics['calculatePortfolio']> =>
+    new PortfolioMetrics().calculatePortfolio(
+      portfolio,
+      [
+        { grant: grant('GR-ON', true, 50000), requirements: [] },
+        { grant: grant('GR-LATE', false, 0), requirements: [] },
+      ],
+      options
+    );
+
+  it('aggregates progress, funding and risk across the grants', async () => {
+    const summary = await calculate();
+
+    expect(summary).toMatchObject({
+      totalGrants: 2,
+      activeGrants: 2,
+      grantIds: ['GR-ON', 'GR-LATE'],
+    });
+    expect(summary.progress).toMatchObject({
+      averageProgress: 0.5,
+      milestonesCompleted: 2,
+      totalMilestones: 4,
+      behindSchedule: ['GR-LATE'],
+    });
+    expect(summary.financial).toMatchObject({
+      reportingCurrency: 'USD',
+      totalFunding: 200000,
+      utilizedFunding: 50000,
+      utilizationRate: 0.25,
+    });
+    expect(summary.risk?.byLevel).toEqual({ low: 1, medium: 1, high: 0 });
+  });
+
+  it('lists top performers and the grants needing attention with the reasons', async () => {
+    const summary = await calculate();
+
+    expect(summary.topPerformers.map((g) => g.grantId)).toEqual(['GR-ON']);
+    expect(summary.needAttention).toHaveLength(1);
+    expect(summary.needAttention[0]).toMatchObject({ grantId: 'GR-LATE', riskLevel: 'medium' });
+    expect(summary.needAttention[0].reasons).toEqual([
+      'Milestones overdue: Kick-off',
+      'Progress 0% against 50% of the timeline',
+    ]);
+    expect(summary.upcomingDeadlines.map((d) => d.title)).toContain('Pilot');
+  });
+
+  it("scores risk with the portfolio's own profile", async () => {
+    const original = getRiskModel();
+    const model = new RiskModel();
+    for (const [factor, weight] of BUILT_IN_RISK_FACTORS) {
+      model.register(factor, weight);
+    }
+    setRiskModel(model.configure({ portfolios: { 'P-STRICT': { thresholds: { medium: 0 } } } }));
+    try {
+      const grants = [
+        { grant: grant('GR-ON', true, 50000), requirements: [] },
+        { grant: grant('GR-LATE', false, 0), requirements: [] },
+      ];
+      const metrics = new PortfolioMetrics();
+      const lenient = await metrics.calculatePortfolio(portfolio, grants, { metrics: ['risk'] });
+      const strict = await metrics.calculatePortfolio({ ...portfolio, id: 'P-STRICT' }, grants, {
+        metrics: ['risk'],
+      });
+
+      expect(lenient.risk?.byLevel).toEqual({ low: 1, medium: 1, high: 0 });
+      expect(strict.risk?.byLevel).toEqual({ low: 0, medium: 2, high: 0 });
+      expect(strict.topPerformers).toEqual([]);
+    } finally {
+      setRiskModel(original);
+    }
+  });
+
+  it('returns only the requested metric sections', async () => {
+    const summary = await calculate({ metrics: ['compliance'], progressMethod: 'weighted' });
+
+    expect(summary.includedMetrics).toEqual(['compliance']);
+    expect(summary.compliance?.byStatus).toEqual({
+      compliant: 2,
+      'at-risk': 0,
+      'non-compliant': 0,
+    });
+    expect(summary.progress).toBeUndefined();
+    expect(summary.financial).toBeUndefined();
+  });
+});
@@ -0,0 +1,327 @@
+import { BaseMetric } from './BaseMetric';
+import { GrantDeadline, grantDeadlines } from '../compliance';
+import type { ComplianceRequirement, Grant, GrantStatus } from '../models/Grant';
+import type { Portfolio } from '../models/Portfolio';
+import type { RiskLevel } from '../risk';
+import { percent } from '../risk/measures';
+import { addDays, toISODate } from '../utils/dates';
+import { ComplianceMetrics, ComplianceSummary } from './ComplianceMetrics';
+import { CurrencyTotal, FinancialMetrics } from './FinancialMetrics';
+import { GrantMetrics, GrantProgressMetrics, ProgressMethod } from './GrantMetrics';
+import { OutcomeMetrics, OutcomePortfolioSummary } from './OutcomeMetrics';
+
+export const PORTFOLIO_METRICS = [
+  'progress',
+  'compliance',
+  'financial',
+  'outcomes',
+  'risk',
+] as const;
+
+export type PortfolioMetric = (typeof PORTFOLIO_METRICS)[number];
+
+export interface PortfolioMetricsOptions {
+  /** Metric sections to include; all when omitted */
+  metrics?: PortfolioMetric[];
+  progressMethod?: ProgressMethod;
+  /** Overrides the portfolio's reporting currency */
+  reportingCurrency?: string;
+  /** Days ahead to list deadlines for */
+  horizonDays?: number;
+  /** Most top performers to list */
+  limit?: number;
+}
+
+export interface PortfolioGrantHighlight {
+  grantId: string;
+  title: string;
+  status: GrantStatus;
+  progress: number;
+  complianceRate: number;
+  riskLevel: RiskLevel;
+  riskScore: number;
+}
+
+export interface PortfolioAttentionItem extends PortfolioGrantHighlight {
+  reasons: string[];
+}
+
+export interface PortfolioMetricsSummary {
+  portfolioId: string;
+  name: string;
+  asOf: Date;
+  includedMetrics: PortfolioMetric[];
+  totalGrants: number;
+  activeGrants: number;
+  grantIds: string[];
+  progress?: {
+    method: ProgressMethod;
+    averageProgress: number | null;
+    averageTimelineProgress: number | null;
+    milestonesCompleted: number;
+    totalMilestones: number;
+    /** Grants whose progress trails the timeline by more than the tolerance */
+    behindSchedule: string[];
+  };
+  compliance?: {
+    /** Requirements met over requirements assessed, across all grants */
+    complianceRate: number | null;
+    byStatus: Record<ComplianceSummary['status'], number>;
+    nonCompliantRequirements: number;
+    highPriorityIssues: number;
+  };
+  financial?: {
+    reportingCurrency: string;
+    totalFunding: number;
+    utilizedFunding: number;
+    utilizationRate: number;
+    fxGainLoss: number;
+    byCurrency: CurrencyTotal[];
+  };
+  risk?: {
+    averageScore: number | null;
+    byLevel: Record<RiskLevel, number>;
+    /** Grants at medium or high risk */
+    atRiskGrants: number;
+    highRiskGrants: number;
+  };
+  outcomes?: OutcomePortfolioSummary;
+  /** Open deadlines falling within the horizon, soonest first */
+  upcomingDeadlines: GrantDeadline[];
+  /** Low-risk, compliant grants in progress, lowest risk first */
+  topPerformers: PortfolioGrantHighlight[];
+  /** Grants in progress at high risk, out of compliance, or with overdue deadlines */
+  needAttention: PortfolioAttentionItem[];
+}
+
+interface GrantAnalysis {
+  grant: Grant;
+  progress: GrantProgressMetrics;
+  compliance: ComplianceSummary;
+  deadlines: GrantDeadline[];
+}
+
+/** Awarded grants still running, which top performers and attention lists cover */
+const IN_PROGRESS_STATUSES: GrantStatus[] = ['approved', 'active', 'suspended'];
+
+/** Progress may trail the timeline by this much before a grant counts as behind schedule. */
+const SCHEDULE_TOLERANCE = 0.1;
+
+const SUBMITTED_REPORT_STATUSES = ['on-time', 'late'];
+
+export class PortfolioMetrics extends BaseMetric {
+  private grantMetrics = new GrantMetrics();
+  private complianceMetrics = new ComplianceMetrics();
+  private financialMetrics = new FinancialMetrics();
+  private outcomeMetrics = new OutcomeMetrics();
+
+  /**
+   * Aggregates the grant, compliance, financial, risk and outcome metrics of
+   * the portfolio's grants as of now, scoring risk with the portfolio's
+   * profile. Only the requested metric sections are returned; deadlines, top
+   * performers and the attention list always are.
+   */
+  async calculatePortfolio(
+    portfolio: Portfolio,
+    grants: { grant: Grant; requirements: ComplianceRequirement[] }[],
+    options: PortfolioMetricsOptions = {}
+  ): Promise<PortfolioMetricsSummary> {
+    const asOf = new Date();
+    const metrics = options.metrics?.length ? options.metrics : [...PORTFOLIO_METRICS];
+    const method = options.progressMethod || 'simple';
+
+    const analyses: GrantAnalysis[] = [];
+    for (const { grant, requirements } of grants) {
+      analyses.push({
+        grant,
+        progress: await this.grantMetrics.calculateProgress(grant, method, {
+          portfolioId: portfolio.id,
+        }),
+        compliance: await this.complianceMetrics.assessCompliance(grant, requirements, asOf),
+        deadlines: grantDeadlines(grant, requirements, asOf),
+      });
+    }
+
+    const horizon = addDays(asOf, options.horizonDays ?? 90);
+    const upcomingDeadlines = analyses
+      .flatMap((a) => a.deadlines)
+      .filter(
+        (d) =>
+          d.dueAt >= asOf &&
+          d.dueAt <= horizon &&
+          !SUBMITTED_REPORT_STATUSES.includes(d.status || '')
+      )
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+
+    const inProgress = analyses.filter((a) => IN_PROGRESS_STATUSES.includes(a.grant.status));
+    const topPerformers = inProgress
+      .filter(
+        (a) =>
+          a.progress.risk.level === 'low' &&
+          a.compliance.status === 'compliant' &&
+          this.overdueDeadlines(a, asOf).length === 0
+      )
+      .sort(
+        (a, b) =>
+          a.progress.risk.score - b.progress.risk.score || b.progress.progress - a.progress.progress
+      )
+      .slice(0, options.limit ?? 5)
+      .map((a) => this.highlight(a));
+    const needAttention = inProgress
+      .map((a) => ({ ...this.highlight(a), reasons: this.attentionReasons(a, asOf) }))
+      .filter((item) => item.reasons.length > 0)
+      .sort((a, b) => b.reasons.length - a.reasons.length || b.riskScore - a.riskScore);
+
+    const summary: PortfolioMetricsSummary = {
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      asOf,
+      includedMetrics: metrics,
+      totalGrants: analyses.length,
+      activeGrants: analyses.filter((a) => a.grant.status === 'active').length,
+      grantIds: analyses.map((a) => a.grant.id),
+      upcomingDeadlines,
+      topPerformers,
+      needAttention,
+    };
+
+    if (metrics.includes('progress')) {
+      summary.progress = {
+        method,
+        averageProgress: this.mean(analyses.map((a) => a.progress.progress)),
+        averageTimelineProgress: this.mean(analyses.map((a) => a.progress.timelineProgress)),
+        milestonesCompleted: analyses.reduce((sum, a) => sum + a.progress.milestonesCompleted, 0),
+        totalMilestones: analyses.reduce((sum, a) => sum + a.progress.totalMilestones, 0),
+        behindSchedule: analyses.filter((a) => this.isBehindSchedule(a)).map((a) => a.grant.id),
+      };
+    }
+
+    if (metrics.includes('compliance')) {
+      const assessed = analyses.reduce(
+        (sum, a) =>
+          sum + a.compliance.compliantRequirements + a.compliance.nonCompliantRequirements,
+        0
+      );
+      const met = analyses.reduce((sum, a) => sum + a.compliance.compliantRequirements, 0);
+      const byStatus: Record<ComplianceSummary['status'], number> = {
+        compliant: 0,
+        'at-risk': 0,
+        'non-compliant': 0,
+      };
+      for (const { compliance } of analyses) {
+        byStatus[compliance.status]++;
+      }
+      summary.compliance = {
+        complianceRate: assessed > 0 ? met / assessed : null,
+        byStatus,
+        nonCompliantRequirements: analyses.reduce(
+          (sum, a) => sum + a.compliance.nonCompliantRequirements,
+          0
+        ),
+        highPriorityIssues: analyses.reduce((sum, a) => sum + a.compliance.highPriorityIssues, 0),
+      };
+    }
+
+    if (metrics.includes('financial')) {
+      const report = await this.financialMetrics.calculateCurrencyReport(
+        analyses.map((a) => a.grant),
+        {
+          reportingCurrency: options.reportingCurrency || portfolio.reportingCurrency || 'USD',
+          asOf,
+        }
+      );
+      summary.financial = {
+        reportingCurrency: report.reportingCurrency,
+        totalFunding: report.totalFunding,
+        utilizedFunding: report.totalSpent,
+        utilizationRate: report.totalFunding > 0 ? report.totalSpent / report.totalFunding : 0,
+        fxGainLoss: report.fxGainLoss,
+        byCurrency: report.native,
+      };
+    }
+
+    if (metrics.includes('risk')) {
+      const byLevel: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0 };
+      for (const { progress } of analyses) {
+        byLevel[progress.risk.level]++;
+      }
+      summary.risk = {
+        averageScore: this.mean(analyses.map((a) => a.progress.risk.score)),
+        byLevel,
+        atRiskGrants: byLevel.medium + byLevel.high,
+        highRiskGrants: byLevel.high,
+      };
+    }
+
+    if (metrics.includes('outcomes')) {
+      summary.outcomes = this.outcomeMetrics.summarizePortfolio(
+        analyses.map((a) => this.outcomeMetrics.calculateScorecard(a.grant, asOf))
+      );
+    }
+
+    return summary;
+  }
+
+  private highlight({ grant, progress, compliance }: GrantAnalysis): PortfolioGrantHighlight {
+    return {
+      grantId: grant.id,
+      title: grant.title,
+      status: grant.status,
+      progress: progress.progress,
+      complianceRate: compliance.complianceRate,
+      riskLevel: progress.risk.level,
+      riskScore: progress.risk.score,
+    };
+  }
+
+  private attentionReasons(analysis: GrantAnalysis, asOf: Date): string[] {
+    const { progress, compliance } = analysis;
+    const reasons: string[] = [];
+    if (progress.risk.level === 'high') {
+      reasons.push(
+        `High risk (${progress.risk.score.toFixed(2)})${
+          progress.risk.drivers.length > 0 ? `: ${progress.risk.drivers[0]}` : ''
+        }`
+      );
+    }
+    if (compliance.status === 'non-compliant') {
+      reasons.push(
+        `${compliance.nonCompliantRequirements} of ${compliance.totalRequirements} compliance requirements not met`
+      );
+    }
+    const overdue = this.overdueDeadlines(analysis, asOf);
+    const reports = overdue.filter((d) => d.kind === 'report');
+    if (reports.length === 1) {
+      reasons.push(`${reports[0].title} overdue since ${toISODate(reports[0].date)}`);
+    } else if (reports.length > 1) {
+      reasons.push(
+        `${reports.length} reports overdue, the oldest since ${toISODate(reports[0].date)}`
+      );
+    }
+    const milestones = overdue.filter((d) => d.kind === 'milestone');
+    if (milestones.length > 0) {
+      reasons.push(`Milestones overdue: ${milestones.map((d) => d.title).join(', ')}`);
+    }
+    if (this.isBehindSchedule(analysis)) {
+      reasons.push(
+        `Progress ${percent(progress.progress)} against ${percent(progress.timelineProgress)} of the timeline`
+      );
+    }
+    return reasons;
+  }
+
+  /** Reports past due and unsubmitted, and open milestones past their due date */
+  private overdueDeadlines({ deadlines }: GrantAnalysis, asOf: Date): GrantDeadline[] {
+    return deadlines.filter((d) =>
+      d.kind === 'report' ? d.status === 'overdue' : d.kind === 'milestone' && d.dueAt < asOf
+    );
+  }
+
+  private isBehindSchedule({ progress }: GrantAnalysis): boolean {
+    return progress.progress < progress.timelineProgress - SCHEDULE_TOLERANCE;
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  applyBudgetTransfers,
+  BudgetCategory,
+  BudgetRevision,
+  findCategory,
+  GrantBudget,
+  totalBudget,
+  unapprovedTransferAmount,
+} from './Budget';
+import { ValidationError } from '../utils/errors';
+
+function budget(): GrantBudget {
+  const category = (name: string, amount: number): BudgetCategory => ({
+    name,
+    originalAmount: amount,
+    amount,
+    lineItems: [],
+    allocations: [],
+  });
+  return {
+    categories: [category('Personnel', 60000), category('Travel', 10000)],
+    revisions: [],
+  };
+}
+
+describe('budget categories', () => {
+  it('finds categories ignoring case and surrounding spaces', () => {
+    expect(findCategory(budget(), ' personnel ')?.name).toBe('Personnel');
+    expect(findCategory(budget(), 'Equipment')).toBeUndefined();
+  });
+
+  it('totals the revised category amounts', () => {
+    expect(totalBudget(budget())).toBe(70000);
+  });
+});
+
+describe('applyBudgetTransfers', () => {
+  it('moves amounts between categories, keeping the total', () => {
+    const b = budget();
+    applyBudgetTransfers(b, [{ fromCategory: 'personnel', toCategory: 'Travel', amount: 5000 }]);
+
+    expect(b.categories.map((c) => c.amount)).toEqual([55000, 15000]);
+    expect(b.categories.map((c) => c.originalAmount)).toEqual([60000, 10000]);
+    expect(totalBudget(b)).toBe(70000);
+  });
+
+  it('applies nothing when any transfer is invalid', () => {
+    const b = budget();
+
+    expect(() =>
+      applyBudgetTransfers(b, [
+        { fromCategory: 'Personnel', toCategory: 'Travel', amount: 5000 },
+        { fromCategory: 'Travel', toCategory: 'Equipment', amount: 100 },
+      ])
+    ).toThrow(ValidationError);
+    expect(() =>
+      applyBudgetTransfers(b, [{ fromCategory: 'Travel', toCategory: 'Personnel', amount: 20000 }])
+    ).toThrow('Transfer exceeds remaining budget of category Travel');
+    expect(b.categories.map((c) => c.amount)).toEqual([60000, 10000]);
+  });
+
+  it('checks the total moved out of each category across the revision', () => {
+    const b = budget();
+
+    expect(() =>
+      applyBudgetTransfers(b, [
+        { fromCategory: 'Travel', toCategory: 'Personnel', amount: 8000 },
+        { fromCategory: 'Travel', toCategory: 'Personnel', amount: 8000 },
+      ])
+    ).toThrow('Transfer exceeds remaining budget of category Travel');
+    expect(b.categories.map((c) => c.amount)).toEqual([60000, 10000]);
+
+    applyBudgetTransfers(b, [
+      { fromCategory: 'Personnel', toCategory: 'Travel', amount: 5000 },
+      { fromCategory: 'Travel', toCategory: 'Personnel', amount: 14000 },
+    ]);
+    expect(b.categories.map((c) => c.amount)).toEqual([69000, 1000]);
+  });
+
+  it('rejects a transfer from a category to itself', () => {
+    expect(() =>
+      applyBudgetTransfers(budget(), [
+        { fromCategory: 'Travel', toCategory: 'travel', amount: 100 },
+      ])
+    ).toThrow('Transfer moves category Travel onto itself');
+  });
+});
+
+describe('unapprovedTransferAmount', () => {
+  it('sums approved revisions the grantor did not sign off on', () => {
+    const b = budget();
+    const revision = (
+      status: 'pending' | 'approved',
+      grantorApproved: boolean,
+      amount: number
+    ): BudgetRevision => ({
+      id: `REV-${b.revisions.length + 1}`,
+      reason: 'Rebudget',
+      transfers: [{ fromCategory: 'Personnel', toCategory: 'Travel', amount }],
+      status,
+      requestedBy: 'sarah.johnson',
+      requestedDate: new Date('2024-03-01'),
+      grantorApproved,
+    });
+    b.revisions.push(revision('approved', false, 1000));
+    b.revisions.push(revision('approved', true, 2000));
+    b.revisions.push(revision('pending', false, 4000));
+    b.revisions.push(revision('approved', false, 500));
+
+    expect(unapprovedTransferAmount(b)).toBe(1500);
+  });
+});
@@ -0,0 +1,103 @@
+import { ValidationError } from '../utils/errors';
+
+export interface BudgetLineItem {
+  id: string;
+  description: string;
+  amount: number;
+  quantity?: number;
+  unitCost?: number;
+}
+
+export interface BudgetAllocation {
+  periodStart: Date;
+  periodEnd: Date;
+  amount: number;
+}
+
+export interface BudgetCategory {
+  name: string;
+  /** Amount in the award as originally approved */
+  originalAmount: number;
+  /** Amount after approved revisions */
+  amount: number;
+  lineItems: BudgetLineItem[];
+  allocations: BudgetAllocation[];
+}
+
+export interface BudgetTransfer {
+  fromCategory: string;
+  toCategory: string;
+  amount: number;
+}
+
+export interface BudgetRevision {
+  id: string;
+  reason: string;
+  transfers: BudgetTransfer[];
+  status: 'pending' | 'approved' | 'rejected';
+  requestedBy: string;
+  requestedDate: Date;
+  decidedBy?: string;
+  decidedDate?: Date;
+  decisionNotes?: string;
+  /** Whether the grantor (not only the recipient's own staff) approved the change */
+  grantorApproved: boolean;
+}
+
+export interface GrantBudget {
+  categories: BudgetCategory[];
+  revisions: BudgetRevision[];
+}
+
+export function totalBudget(budget: GrantBudget): number {
+  return budget.categories.reduce((sum, c) => sum + c.amount, 0);
+}
+
+export function findCategory(budget: GrantBudget, name: string): BudgetCategory | undefined {
+  const key = name.trim().toLowerCase();
+  return budget.categories.find((c) => c.name.trim().toLowerCase() === key);
+}
+
+/**
+ * Moves amounts between categories for an approved revision. Throws when a
+ * transfer names an unknown category or moves a category onto itself, or when
+ * the revision's transfers out of a category, less those into it, exceed its
+ * amount.
+ */
+export function applyBudgetTransfers(budget: GrantBudget, transfers: BudgetTransfer[]): void {
+  const net = new Map<BudgetCategory, number>();
+  for (const transfer of transfers) {
+    const from = findCategory(budget, transfer.fromCategory);
+    const to = findCategory(budget, transfer.toCategory);
+    if (!from || !to) {
+      throw new ValidationError(
+        `Unknown budget category in transfer: ${!from ? transfer.fromCategory : transfer.toCategory}`
+      );
+    }
+    if (from === to) {
+      throw new ValidationError(`Transfer moves category ${from.name} onto itself`);
+    }
+    net.set(from, (net.get(from) ?? 0) - transfer.amount);
+    net.set(to, (net.get(to) ?? 0) + transfer.amount);
+  }
+  for (const [category, change] of net) {
+    if (category.amount + change < 0) {
+      throw new ValidationError(`Transfer exceeds remaining budget of category ${category.name}`);
+    }
+  }
+
+  for (const [category, change] of net) {
+    category.amount += change;
+  }
+}
+
+/**
+ * Cumulative amount moved between categories by approved revisions that the
+ * grantor did not sign off on.
+ */
+export function unapprovedTransferAmount(budget: GrantBudget): number {
+  return budget.revisions
+    .filter((r) => r.status === 'approved' && !r.grantorApproved)
+    .flatMap((r) => r.transfers)
+    .reduce((sum, t) => sum + t.amount, 0);
+}
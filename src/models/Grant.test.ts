@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { Grant } from './Grant';
+
+const sampleGrants = (
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../sample-data/grants.json'), 'utf8')) as {
+    grants: Record<string, unknown>[];
+  }
+).grants;
+
+function sampleGrant(id = 'GR-2023-001'): Grant {
+  const data = sampleGrants.find((g) => g.id === id);
+  if (!data) {
+    throw new Error(`No sample grant ${id}`);
+  }
+  return Grant.fromJSON(data);
+}
+
+describe('Grant.fromJSON', () => {
+  it('revives the date fields JSON flattens to strings', () => {
+    const grant = sampleGrant();
+
+    expect(grant.startDate).toBeInstanceOf(Date);
+    expect(grant.recipient.registrationDate).toBeInstanceOf(Date);
+    expect(grant.milestones[0].dueDate).toBeInstanceOf(Date);
+    expect(grant.expenditures[0].date).toBeInstanceOf(Date);
+  });
+
+  it('round-trips every sample grant through JSON unchanged', () => {
+    for (const data of sampleGrants) {
+      const grant = Grant.fromJSON(data);
+      const revived = Grant.fromJSON(JSON.parse(JSON.stringify(grant)) as Record<string, unknown>);
+
+      expect(revived).toEqual(grant);
+      expect(Object.keys(JSON.parse(JSON.stringify(grant)) as object)).toEqual(
+        expect.arrayContaining(Object.keys(data))
+      );
+    }
+  });
+
+  it('falls back to defaults for fields of the wrong type', () => {
+    const grant = Grant.fromJSON({
+      id: 'GR-X',
+      title: 42,
+      totalFunding: 'a lot',
+      milestones: 'none',
+      expenditures: [null, { id: 'EXP-1', amount: 10, date: '2024-01-05' }],
+      tags: ['health', 3],
+    });
+
+    expect(grant.title).toBe('');
+    expect(grant.totalFunding).toBe(0);
+    expect(grant.milestones).toEqual([]);
+    expect(grant.expenditures).toHaveLength(1);
+    expect(grant.expenditures[0].date).toEqual(new Date('2024-01-05'));
+    expect(grant.tags).toEqual(['health']);
+  });
+});
+
+describe('Grant audit trail', () => {
+  it('records field-level diffs with the resulting version', () => {
+    const grant = sampleGrant();
+    const version = grant.version;
+
+    grant.update({ title: 'Renamed' }, 'ana');
+
+    expect(grant.version).toBe(version + 1);
+    expect(grant.history[grant.history.length - 1]).toMatchObject({
+      action: 'GRANT_UPDATED',
+      user: 'ana',
+      version: version + 1,
+      diff: [{ path: 'title', before: sampleGrant().title, after: 'Renamed' }],
+    });
+  });
+
+  it('reconstructs earlier versions with list items back in their places', () => {
+    const grant = sampleGrant();
+    const original = grant.asOf({ version: grant.version });
+    const milestoneIds = grant.milestones.map((m) => m.id);
+    const expenditureIds = grant.expenditures.map((e) => e.id);
+
+    grant.removeItem('expenditures', expenditureIds[1], 'ana');
+    grant.updateItem('milestones', milestoneIds[2], { status: 'completed' }, 'ana');
+    grant.removeItem('expenditures', expenditureIds[0], 'ana');
+    grant.update({ title: 'Renamed' }, 'ana');
+
+    const restored = grant.asOf({ version: original.version });
+    expect(restored.milestones.map((m) => m.id)).toEqual(milestoneIds);
+    expect(restored.expenditures.map((e) => e.id)).toEqual(expenditureIds);
+    expect(restored.milestones[2].status).toBe(original.milestones[2].status);
+    expect(restored.title).toBe(original.title);
+    expect(restored.version).toBe(original.version);
+
+    const middle = grant.asOf({ version: original.version + 2 });
+    expect(middle.expenditures.map((e) => e.id)).toEqual(
+      expenditureIds.filter((id) => id !== expenditureIds[1])
+    );
+    expect(middle.milestones[2].status).toBe('completed');
+  });
+
+  it('reconstructs the grant as of a date', () => {
+    const grant = sampleGrant();
+    const before = new Date();
+    grant.history.forEach((entry) => {
+      entry.date = new Date(before.getTime() - 1000);
+    });
+
+    grant.update({ title: 'Renamed' }, 'ana');
+    grant.history[grant.history.length - 1].date = new Date(before.getTime() + 1000);
+
+    expect(grant.asOf({ date: before }).title).toBe(sampleGrant().title);
+    expect(grant.asOf({ date: new Date(before.getTime() + 1000) }).title).toBe('Renamed');
+  });
+
+  it('undoes status changes of entries recorded before diffs were kept', () => {
+    const grant = sampleGrant();
+    grant.history.push({
+      date: new Date(),
+      action: 'STATUS_CHANGE',
+      user: 'legacy',
+      changes: { status: { from: 'approved', to: 'active' } },
+    });
+
+    expect(grant.asOf({ date: new Date(Date.now() - 60000) }).status).toBe('approved');
+  });
+});
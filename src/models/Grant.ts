@@ -1,3 +1,32 @@
+import { findTransition } from '../workflows/GrantLifecycle';
+import type { ExpenditurePolicy } from '../workflows/ExpenditureApproval';
+import type { Condition } from '../compliance/RuleEngine';
+import type { RulePackReference, RulePackSettings } from '../compliance/RulePack';
+import type { ReportingScheduleSettings } from '../compliance/ReportingSchedule';
+import type { DeadlineCalendarSettings } from '../calendar/DeadlineCalendar';
+import {
+  ConflictError,
+  NotFoundError,
+  TransitionRejectedError,
+  ValidationError,
+} from '../utils/errors';
+import { applyChanges, diffValues, FieldChange } from '../utils/diff';
+import { applyBudgetTransfers, BudgetCategory, BudgetRevision, GrantBudget } from './Budget';
+import { KPI, kpiFromJSON, KPIMeasurement, latestMeasurement, kpiAchievement } from './KPI';
+import {
+  assertValidMilestoneGraph,
+  milestoneProgress,
+  MilestoneProgressMethod,
+  pinDependentStarts,
+} from './MilestoneSchedule';
+import {
+  assertValidLogicModel,
+  LogicModel,
+  logicModelFromJSON,
+  Objective,
+  objectiveFromJSON,
+} from './LogicModel';
+
 export type GrantStatus = 
   | 'draft'
   | 'submitted'
@@ -46,11 +75,19 @@ export interface Milestone {
   id: string;
   name: string;
   description: string;
+  /** Planned start of the work; defaults to the latest prerequisite due date or the grant start */
+  startDate?: Date;
   dueDate: Date;
   completionDate?: Date;
   status: 'pending' | 'in-progress' | 'completed' | 'delayed';
+  /** Share of the work done, 0-100, while not completed */
+  percentComplete?: number;
+  /** Relative size in weighted progress; defaults to the planned duration in days */
+  weight?: number;
+  /** Budget the milestone earns when completed, in the grant currency; unassigned budget is spread by weight */
+  budgetedCost?: number;
   deliverables: string[];
-  dependencies?: string[]; // IDs of dependent milestones
+  dependencies?: string[]; // IDs of prerequisite milestones
 }
 
 export interface Expenditure {
@@ -59,32 +96,162 @@ export interface Expenditure {
   category: string;
   description: string;
   amount: number;
+  /** ISO 4217 code of `amount`; the grant currency when omitted */
+  currency?: string;
+  /** Units of grant currency per unit of `currency`, fixed at the expenditure date */
+  exchangeRate?: number;
   receiptUrl?: string;
+  /** Transaction ID in the accounting system the expenditure was imported from */
+  externalRef?: string;
   status: 'pending' | 'approved' | 'rejected';
+  submittedBy?: string;
+  submittedDate?: Date;
+  /** Decisions on each approval step, in order */
+  approvals?: ExpenditureApproval[];
   approvedBy?: string;
   approvedDate?: Date;
+  rejectedBy?: string;
+  rejectionReason?: string;
 }
 
-export interface Document {
+export interface ExpenditureApproval {
+  step: string;
+  user: string;
+  decision: 'approved' | 'rejected';
+  date: Date;
+  notes?: string;
+}
+
+export type DocumentStatus = 'pending' | 'reviewed' | 'approved' | 'rejected';
+
+/** Stored content of a document; linked documents only have a `url`. */
+export interface DocumentContent {
+  /** Key of the content in the document store */
+  storageKey: string;
+  /** SHA-256 of the content, hex encoded */
+  checksum: string;
+  size: number;
+  contentType: string;
+}
+
+/** A superseded version of a document, kept for the retention period. */
+export interface DocumentVersion extends Partial<DocumentContent> {
+  version: number;
+  name: string;
+  url: string;
+  uploadDate: Date;
+  uploadedBy: string;
+  /** Review outcome the version had when it was superseded */
+  status: DocumentStatus;
+  reviewNotes?: string;
+}
+
+export interface DocumentReview {
+  status: Exclude<DocumentStatus, 'pending'>;
+  reviewer: string;
+  date: Date;
+  /** Document version the decision applies to */
+  version: number;
+  notes?: string;
+}
+
+/** Suspends retention-based deletion, e.g. during an audit or litigation. */
+export interface LegalHold {
+  reason: string;
+  placedBy: string;
+  placedDate: Date;
+}
+
+export interface Document extends Partial<DocumentContent> {
   id: string;
   type: string;
   name: string;
   url: string;
   uploadDate: Date;
   uploadedBy: string;
-  status: 'pending' | 'reviewed' | 'approved' | 'rejected';
+  /** Set only by the review workflow */
+  status: DocumentStatus;
   reviewNotes?: string;
+  /** Current version, counting from 1; re-uploading a document of the same type adds one */
+  version?: number;
+  previousVersions?: DocumentVersion[];
+  reviews?: DocumentReview[];
+  legalHold?: LegalHold;
 }
 
 export interface ComplianceRequirement {
   id: string;
   name: string;
   description: string;
-  type: 'documentation' | 'financial' | 'reporting' | 'performance';
+  /** Rule type: documentation, financial, reporting, performance, budget, matching or a plugin type */
+  type: string;
   severity: 'high' | 'medium' | 'low';
   applicableFrom?: Date;
   dueDate?: Date;
   parameters?: Record<string, any>;
+  /** Declarative condition replacing the one of the rule registered for `type` */
+  condition?: Condition;
+  /** Rule pack the requirement was resolved from; absent for the grant's own requirements */
+  pack?: RulePackReference;
+}
+
+export type CorrectiveActionStatus = 'open' | 'in-progress' | 'submitted' | 'verified' | 'closed';
+
+export interface CorrectiveActionStep {
+  id: string;
+  description: string;
+  dueDate?: Date;
+  completed: boolean;
+  completedBy?: string;
+  completedDate?: Date;
+}
+
+export interface CorrectiveActionEvidence {
+  id: string;
+  name: string;
+  url: string;
+  /** Grant document the evidence refers to, if it was filed as one */
+  documentId?: string;
+  uploadedBy: string;
+  uploadDate: Date;
+  notes?: string;
+}
+
+export interface CorrectiveActionTransition {
+  from: CorrectiveActionStatus;
+  to: CorrectiveActionStatus;
+  user: string;
+  date: Date;
+  notes?: string;
+}
+
+/** Outcome of re-running the requirement's check when the action was verified. */
+export interface CorrectiveActionVerification {
+  status: 'compliant' | 'non-compliant' | 'pending' | 'not-applicable';
+  evidence: string[];
+  checkedBy: string;
+  checkedAt: Date;
+}
+
+/** Plan to remedy a requirement that was assessed non-compliant. */
+export interface CorrectiveAction {
+  id: string;
+  requirementId: string;
+  requirementName: string;
+  title: string;
+  description: string;
+  owner: string;
+  dueDate: Date;
+  status: CorrectiveActionStatus;
+  steps: CorrectiveActionStep[];
+  evidence: CorrectiveActionEvidence[];
+  /** Evidence of the failed assessment the action was opened against */
+  finding: string[];
+  openedBy: string;
+  openedDate: Date;
+  transitions: CorrectiveActionTransition[];
+  verification?: CorrectiveActionVerification;
+  closedDate?: Date;
 }
 
 export interface ReportSubmission {
@@ -96,6 +263,97 @@ export interface ReportSubmission {
   status: 'draft' | 'submitted' | 'reviewed';
   url?: string;
   notes?: string;
+  /** Section headings the report contains, checked against `requiredSections` */
+  sections?: string[];
+}
+
+export interface MatchingContribution {
+  id: string;
+  date: Date;
+  type: 'cash' | 'in-kind';
+  source: string;
+  description: string;
+  amount: number;
+  /** How an in-kind contribution was valued, e.g. fair-market-value or volunteer-hourly-rate */
+  valuationMethod?: string;
+  /** Document IDs or URLs substantiating the contribution */
+  documentation: string[];
+  status: 'pending' | 'verified' | 'rejected';
+  verifiedBy?: string;
+  verifiedDate?: Date;
+}
+
+export type GrantCollection =
+  | 'milestones'
+  | 'expenditures'
+  | 'kpis'
+  | 'documents'
+  | 'reports'
+  | 'matchingContributions';
+
+export interface GrantHistoryEntry {
+  date: Date;
+  action: string;
+  user: string;
+  /** Grant version produced by this change; absent on entries predating the audit trail */
+  version?: number;
+  changes: Record<string, unknown>;
+  diff?: FieldChange[];
+}
+
+const ITEM_ACTIONS: Record<GrantCollection, string> = {
+  milestones: 'MILESTONE',
+  expenditures: 'EXPENDITURE',
+  kpis: 'KPI',
+  documents: 'DOCUMENT',
+  reports: 'REPORT',
+  matchingContributions: 'MATCHING_CONTRIBUTION',
+};
+
+// Bookkeeping fields that every change touches; recorded on the entry itself
+const AUDIT_EXCLUDED_FIELDS = ['history', 'version', 'updatedAt', 'updatedBy'];
+
+function toDate(value: unknown): Date | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  return value instanceof Date ? value : new Date(value as string);
+}
+
+/** A serialized object, whose fields are narrowed as they are read. */
+type JSONObject = Record<string, unknown>;
+
+function isJSONObject(value: unknown): value is JSONObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function objectOf(value: unknown): JSONObject | undefined {
+  return isJSONObject(value) ? value : undefined;
+}
+
+/** The objects of a serialized list; anything that is not a list reads as empty. */
+function objectsOf(value: unknown): JSONObject[] {
+  return Array.isArray(value) ? value.filter(isJSONObject) : [];
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberOf(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Copies a serialized object with the named date fields revived. The other
+ * fields are taken as written: they were validated when the grant was saved.
+ */
+function revive<T = JSONObject>(value: JSONObject, ...dateFields: string[]): T {
+  const revived: JSONObject = { ...value };
+  for (const field of dateFields) {
+    revived[field] = toDate(value[field]);
+  }
+  return revived as T;
 }
 
 export class Grant {
@@ -107,11 +365,16 @@ export class Grant {
   status: GrantStatus;
   
   // Funding information
+  /** ISO 4217 code of totalFunding, awardedAmount and matchingRequirement */
+  currency: string;
   totalFunding: number;
   awardedAmount: number;
   matchingRequirement?: number;
   fundingSource: string;
   grantManager: string;
+  budget?: GrantBudget;
+  /** Allowability rules and approval chain for expenditures; defaults apply when absent */
+  expenditurePolicy?: ExpenditurePolicy;
   
   // Timeline
   applicationDate: Date;
@@ -119,13 +382,19 @@ export class Grant {
   startDate: Date;
   endDate: Date;
   reportingFrequency: 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
+  /** Lag, fiscal year and grace period used to derive report due dates */
+  reportingSchedule?: ReportingScheduleSettings;
+  /** Holiday calendar, time zone and roll convention deadlines are observed with */
+  deadlineCalendar?: DeadlineCalendarSettings;
   
   // Organization
   recipient: Organization;
   grantor: Organization;
   
   // Project details
-  objectives: string[];
+  objectives: Objective[];
+  /** Inputs, activities, outputs and outcomes the objectives contribute to */
+  logicModel?: LogicModel;
   targetBeneficiaries: string;
   geographicScope: string;
   
@@ -135,7 +404,11 @@ export class Grant {
   kpis: KPI[];
   documents: Document[];
   reports: ReportSubmission[];
+  matchingContributions: MatchingContribution[];
   complianceRequirements: ComplianceRequirement[];
+  correctiveActions: CorrectiveAction[];
+  /** Pinned versions of, and overrides to, the rule packs attached to the grant */
+  rulePacks?: RulePackSettings;
   
   // Metadata
   createdBy: string;
@@ -146,12 +419,7 @@ export class Grant {
   tags: string[];
   
   // Audit trail
-  history: {
-    date: Date;
-    action: string;
-    user: string;
-    changes: Record<string, any>;
-  }[];
+  history: GrantHistoryEntry[];
   
   constructor(data: Partial<Grant> = {}) {
     this.id = data.id || '';
@@ -161,22 +429,28 @@ export class Grant {
     this.type = data.type || 'federal';
     this.status = data.status || 'draft';
     
+    this.currency = data.currency || 'USD';
     this.totalFunding = data.totalFunding || 0;
     this.awardedAmount = data.awardedAmount || 0;
     this.matchingRequirement = data.matchingRequirement;
     this.fundingSource = data.fundingSource || '';
     this.grantManager = data.grantManager || '';
+    this.budget = data.budget;
+    this.expenditurePolicy = data.expenditurePolicy;
     
     this.applicationDate = data.applicationDate || new Date();
     this.awardDate = data.awardDate || new Date();
     this.startDate = data.startDate || new Date();
     this.endDate = data.endDate || new Date();
     this.reportingFrequency = data.reportingFrequency || 'quarterly';
+    this.reportingSchedule = data.reportingSchedule;
+    this.deadlineCalendar = data.deadlineCalendar;
     
     this.recipient = data.recipient || {} as Organization;
     this.grantor = data.grantor || {} as Organization;
     
     this.objectives = data.objectives || [];
+    this.logicModel = data.logicModel;
     this.targetBeneficiaries = data.targetBeneficiaries || '';
     this.geographicScope = data.geographicScope || '';
     
@@ -185,7 +459,10 @@ export class Grant {
     this.kpis = data.kpis || [];
     this.documents = data.documents || [];
     this.reports = data.reports || [];
+    this.matchingContributions = data.matchingContributions || [];
     this.complianceRequirements = data.complianceRequirements || [];
+    this.correctiveActions = data.correctiveActions || [];
+    this.rulePacks = data.rulePacks;
     
     this.createdBy = data.createdBy || '';
     this.createdAt = data.createdAt || new Date();
@@ -197,44 +474,734 @@ export class Grant {
     this.history = data.history || [];
   }
   
-  addMilestone(milestone: Milestone): void {
-    this.milestones.push(milestone);
-    this.updatedAt = new Date();
-    this.version++;
+  /**
+   * Builds a Grant from its serialized form (JSON file, JSONB column or request body),
+   * reviving the date fields that JSON flattens to strings.
+   */
+  static fromJSON(data: Record<string, unknown>): Grant {
+    const organization = (value: unknown): Organization =>
+      revive<Organization>(objectOf(value) || {}, 'registrationDate');
+    const budget = objectOf(data.budget);
+    const logicModel = objectOf(data.logicModel);
+    const rulePacks = objectOf(data.rulePacks);
+
+    return new Grant({
+      id: stringOf(data.id),
+      grantNumber: stringOf(data.grantNumber),
+      title: stringOf(data.title),
+      description: stringOf(data.description),
+      type: stringOf(data.type) as GrantType | undefined,
+      status: stringOf(data.status) as GrantStatus | undefined,
+      currency: stringOf(data.currency),
+      totalFunding: numberOf(data.totalFunding),
+      awardedAmount: numberOf(data.awardedAmount),
+      matchingRequirement: numberOf(data.matchingRequirement),
+      fundingSource: stringOf(data.fundingSource),
+      grantManager: stringOf(data.grantManager),
+      budget: budget
+        ? {
+            categories: objectsOf(budget.categories).map((c) =>
+              revive<BudgetCategory>({
+                ...c,
+                lineItems: Array.isArray(c.lineItems) ? c.lineItems : [],
+                allocations: objectsOf(c.allocations).map((a) =>
+                  revive(a, 'periodStart', 'periodEnd')
+                ),
+              })
+            ),
+            revisions: objectsOf(budget.revisions).map((r) =>
+              revive<BudgetRevision>(r, 'requestedDate', 'decidedDate')
+            ),
+          }
+        : undefined,
+      expenditurePolicy: objectOf(data.expenditurePolicy) as ExpenditurePolicy | undefined,
+      applicationDate: toDate(data.applicationDate),
+      awardDate: toDate(data.awardDate),
+      startDate: toDate(data.startDate),
+      endDate: toDate(data.endDate),
+      reportingFrequency: stringOf(data.reportingFrequency) as
+        | Grant['reportingFrequency']
+        | undefined,
+      reportingSchedule: objectOf(data.reportingSchedule) as ReportingScheduleSettings | undefined,
+      deadlineCalendar: objectOf(data.deadlineCalendar) as DeadlineCalendarSettings | undefined,
+      recipient: organization(data.recipient),
+      grantor: organization(data.grantor),
+      objectives: (Array.isArray(data.objectives) ? data.objectives : [])
+        .filter((o): o is string | JSONObject => typeof o === 'string' || isJSONObject(o))
+        .map((o, index) => objectiveFromJSON(typeof o === 'string' ? o : revive(o), index)),
+      logicModel: logicModel ? logicModelFromJSON(revive(logicModel)) : undefined,
+      targetBeneficiaries: stringOf(data.targetBeneficiaries),
+      geographicScope: stringOf(data.geographicScope),
+      milestones: objectsOf(data.milestones).map((m) =>
+        revive<Milestone>(m, 'startDate', 'dueDate', 'completionDate')
+      ),
+      expenditures: objectsOf(data.expenditures).map((e) =>
+        revive<Expenditure>(
+          {
+            ...e,
+            approvals: Array.isArray(e.approvals)
+              ? objectsOf(e.approvals).map((a) => revive(a, 'date'))
+              : undefined,
+            approvedBy: stringOf(e.approvedBy),
+          },
+          'date',
+          'submittedDate',
+          'approvedDate'
+        )
+      ),
+      kpis: objectsOf(data.kpis).map((k) => kpiFromJSON(revive<KPI>(k))),
+      documents: objectsOf(data.documents).map((d) => {
+        const legalHold = objectOf(d.legalHold);
+        return revive<Document>(
+          {
+            ...d,
+            previousVersions: Array.isArray(d.previousVersions)
+              ? objectsOf(d.previousVersions).map((v) => revive(v, 'uploadDate'))
+              : undefined,
+            reviews: Array.isArray(d.reviews)
+              ? objectsOf(d.reviews).map((r) => revive(r, 'date'))
+              : undefined,
+            legalHold: legalHold && revive(legalHold, 'placedDate'),
+          },
+          'uploadDate'
+        );
+      }),
+      reports: objectsOf(data.reports).map((r) =>
+        revive<ReportSubmission>(r, 'submissionDate')
+      ),
+      matchingContributions: objectsOf(data.matchingContributions).map((m) =>
+        revive<MatchingContribution>(m, 'date', 'verifiedDate')
+      ),
+      complianceRequirements: objectsOf(data.complianceRequirements).map((c) =>
+        revive<ComplianceRequirement>(c, 'applicableFrom', 'dueDate')
+      ),
+      correctiveActions: objectsOf(data.correctiveActions).map((a) => {
+        const verification = objectOf(a.verification);
+        return revive<CorrectiveAction>(
+          {
+            ...a,
+            steps: objectsOf(a.steps).map((st) => revive(st, 'dueDate', 'completedDate')),
+            evidence: objectsOf(a.evidence).map((e) => revive(e, 'uploadDate')),
+            transitions: objectsOf(a.transitions).map((t) => revive(t, 'date')),
+            verification: verification ? revive(verification, 'checkedAt') : undefined,
+          },
+          'dueDate',
+          'openedDate',
+          'closedDate'
+        );
+      }),
+      rulePacks: rulePacks
+        ? revive<RulePackSettings>({
+            ...rulePacks,
+            overrides: Object.fromEntries(
+              Object.entries(objectOf(rulePacks.overrides) || {})
+                .filter((entry): entry is [string, JSONObject] => isJSONObject(entry[1]))
+                .map(([id, o]) => [id, revive(o, 'applicableFrom', 'dueDate')])
+            ),
+          })
+        : undefined,
+      createdBy: stringOf(data.createdBy),
+      createdAt: toDate(data.createdAt),
+      updatedBy: stringOf(data.updatedBy),
+      updatedAt: toDate(data.updatedAt),
+      version: numberOf(data.version),
+      tags: Array.isArray(data.tags)
+        ? data.tags.filter((t): t is string => typeof t === 'string')
+        : undefined,
+      history: objectsOf(data.history).map((h) => revive<GrantHistoryEntry>(h, 'date')),
+    });
   }
   
-  addExpenditure(expenditure: Expenditure): void {
-    this.expenditures.push(expenditure);
-    this.updatedAt = new Date();
-    this.version++;
+  addMilestone(milestone: Milestone, user: string = 'system'): void {
+    assertValidMilestoneGraph([...this.milestones, milestone]);
+    this.recordChange('MILESTONE_ADDED', user, () => {
+      this.milestones.push(milestone);
+    });
+  }
+  
+  addExpenditure(expenditure: Expenditure, user: string = 'system'): void {
+    this.recordChange('EXPENDITURE_ADDED', user, () => {
+      this.expenditures.push(expenditure);
+    });
+  }
+  
+  update(changes: Partial<Grant>, user: string): void {
+    // Recorded exchange rates are relative to the grant currency
+    if (changes.currency && changes.currency !== this.currency && this.expenditures.length > 0) {
+      throw new ConflictError('Grant currency cannot change once expenditures are recorded');
+    }
+    this.recordChange('GRANT_UPDATED', user, () => {
+      Object.assign(this, changes);
+    });
+  }
+  
+  addItem<K extends GrantCollection>(collection: K, item: Grant[K][number], user: string): void {
+    if (collection === 'milestones') {
+      assertValidMilestoneGraph([...this.milestones, item as Milestone]);
+    }
+    this.recordChange(`${ITEM_ACTIONS[collection]}_ADDED`, user, () => {
+      (this[collection] as Grant[K][number][]).push(item);
+    });
+  }
+  
+  /** Adds a batch of imported expenditures as a single audited change. */
+  importExpenditures(expenditures: Expenditure[], user: string, source: string): void {
+    this.recordChange(
+      'EXPENDITURES_IMPORTED',
+      user,
+      () => {
+        this.expenditures.push(...expenditures);
+      },
+      { source, count: expenditures.length }
+    );
   }
   
-  updateStatus(newStatus: GrantStatus, user: string): void {
+  updateItem<K extends GrantCollection>(
+    collection: K,
+    itemId: string,
+    changes: Partial<Grant[K][number]>,
+    user: string
+  ): Grant[K][number] | undefined {
+    const item = (this[collection] as Grant[K][number][]).find((i) => i.id === itemId);
+    if (!item) {
+      return undefined;
+    }
+    const rescheduled = collection === 'milestones' && 'dueDate' in changes;
+    if (collection === 'milestones') {
+      const updated = { ...item, ...changes, id: itemId } as Milestone;
+      assertValidMilestoneGraph(this.milestones.map((m) => (m.id === itemId ? updated : m)));
+    }
+    this.recordChange(`${ITEM_ACTIONS[collection]}_UPDATED`, user, () => {
+      if (rescheduled) {
+        // Dependents keep their planned duration, so a slip shows in their projected dates
+        pinDependentStarts(this.milestones, itemId, this.startDate);
+      }
+      Object.assign(item, changes, { id: itemId });
+    });
+    return item;
+  }
+  
+  removeItem(collection: GrantCollection, itemId: string, user: string): boolean {
+    const items = this[collection] as { id: string }[];
+    const index = items.findIndex((i) => i.id === itemId);
+    if (index === -1) {
+      return false;
+    }
+    if (collection === 'milestones') {
+      const dependents = this.milestones.filter((m) => m.dependencies?.includes(itemId));
+      if (dependents.length > 0) {
+        throw new ConflictError(
+          `Milestone ${itemId} is a prerequisite of ${dependents.map((m) => m.id).join(', ')}`
+        );
+      }
+    }
+    this.recordChange(`${ITEM_ACTIONS[collection]}_REMOVED`, user, () => {
+      items.splice(index, 1);
+    });
+    return true;
+  }
+  
+  /**
+   * Appends an approval-step decision to a pending expenditure. A rejection,
+   * or approval of the final step, settles it. Step order, roles and
+   * allowability are enforced by ExpenditureApprovalWorkflow.decide().
+   */
+  recordExpenditureDecision(
+    expenditureId: string,
+    approval: ExpenditureApproval,
+    finalStep: boolean
+  ): Expenditure {
+    const expenditure = this.expenditures.find((e) => e.id === expenditureId);
+    if (!expenditure) {
+      throw new NotFoundError(`Expenditure ${expenditureId} not found`);
+    }
+    if (expenditure.status !== 'pending') {
+      throw new ConflictError(`Expenditure ${expenditureId} is already ${expenditure.status}`);
+    }
+    
+    let action = 'EXPENDITURE_STEP_APPROVED';
+    if (approval.decision === 'rejected') {
+      action = 'EXPENDITURE_REJECTED';
+    } else if (finalStep) {
+      action = 'EXPENDITURE_APPROVED';
+    }
+    
+    this.recordChange(action, approval.user, () => {
+      expenditure.approvals = [...(expenditure.approvals || []), approval];
+      if (approval.decision === 'rejected') {
+        expenditure.status = 'rejected';
+        expenditure.rejectedBy = approval.user;
+        expenditure.rejectionReason = approval.notes;
+      } else if (finalStep) {
+        expenditure.status = 'approved';
+        expenditure.approvedBy = approval.user;
+        expenditure.approvedDate = approval.date;
+      }
+    });
+    return expenditure;
+  }
+  
+  getKPI(kpiId: string): KPI {
+    const kpi = this.kpis.find((k) => k.id === kpiId);
+    if (!kpi) {
+      throw new NotFoundError(`KPI ${kpiId} not found`);
+    }
+    return kpi;
+  }
+  
+  /**
+   * Adds a measurement to a KPI's history and refreshes its current value and
+   * status from the latest measurement, which need not be the one added.
+   */
+  recordKPIMeasurement(kpiId: string, measurement: KPIMeasurement, user: string): KPI {
+    const kpi = this.getKPI(kpiId);
+    this.recordChange(
+      'KPI_MEASUREMENT_RECORDED',
+      user,
+      () => {
+        kpi.measurements.push(measurement);
+        this.refreshKPI(kpi);
+      },
+      { kpiId, value: measurement.value, date: measurement.date }
+    );
+    return kpi;
+  }
+  
+  /** Records the verification outcome of a measurement; disputed values stop counting. */
+  verifyKPIMeasurement(
+    kpiId: string,
+    measurementId: string,
+    verificationStatus: 'verified' | 'disputed',
+    user: string,
+    notes?: string
+  ): KPIMeasurement {
+    const kpi = this.getKPI(kpiId);
+    const measurement = kpi.measurements.find((m) => m.id === measurementId);
+    if (!measurement) {
+      throw new NotFoundError(`Measurement ${measurementId} not found in KPI ${kpiId}`);
+    }
+    this.recordChange(`KPI_MEASUREMENT_${verificationStatus.toUpperCase()}`, user, () => {
+      measurement.verificationStatus = verificationStatus;
+      measurement.verifiedBy = user;
+      measurement.verifiedDate = new Date();
+      measurement.notes = notes ?? measurement.notes;
+      this.refreshKPI(kpi);
+    });
+    return measurement;
+  }
+  
+  /**
+   * Records the verification decision on a matching contribution. Only
+   * verified contributions count towards the matching requirement.
+   */
+  verifyMatchingContribution(
+    contributionId: string,
+    status: 'verified' | 'rejected',
+    user: string
+  ): MatchingContribution {
+    const contribution = this.matchingContributions.find((c) => c.id === contributionId);
+    if (!contribution) {
+      throw new NotFoundError(`Matching contribution ${contributionId} not found`);
+    }
+    this.recordChange(`MATCHING_CONTRIBUTION_${status.toUpperCase()}`, user, () => {
+      contribution.status = status;
+      contribution.verifiedBy = user;
+      contribution.verifiedDate = new Date();
+    });
+    return contribution;
+  }
+  
+  private refreshKPI(kpi: KPI): void {
+    kpi.currentValue = latestMeasurement(kpi)?.value ?? kpi.currentValue;
+    kpi.status = kpiAchievement(kpi).status;
+  }
+  
+  getDocument(documentId: string): Document {
+    const document = this.documents.find((d) => d.id === documentId);
+    if (!document) {
+      throw new NotFoundError(`Document ${documentId} not found`);
+    }
+    return document;
+  }
+  
+  /**
+   * Files uploaded content. Content of a type the grant already has a
+   * document of becomes that document's next version: the current version is
+   * kept in `previousVersions` and the document goes back to pending review.
+   * `id` is only used for a new document.
+   */
+  storeDocument(
+    { id, ...upload }: DocumentContent & { id: string; type: string; name: string; url: string },
+    user: string
+  ): Document {
+    const now = new Date();
+    const existing = this.documents.find((d) => d.type === upload.type);
+    if (!existing) {
+      const document: Document = {
+        ...upload,
+        id,
+        uploadDate: now,
+        uploadedBy: user,
+        status: 'pending',
+        version: 1,
+        previousVersions: [],
+        reviews: [],
+      };
+      this.recordChange(
+        'DOCUMENT_UPLOADED',
+        user,
+        () => {
+          this.documents.push(document);
+        },
+        { documentId: document.id, checksum: upload.checksum }
+      );
+      return document;
+    }
+    
+    const version = (existing.version || 1) + 1;
+    this.recordChange(
+      'DOCUMENT_VERSION_ADDED',
+      user,
+      () => {
+        existing.previousVersions = [
+          ...(existing.previousVersions || []),
+          {
+            version: existing.version || 1,
+            name: existing.name,
+            url: existing.url,
+            uploadDate: existing.uploadDate,
+            uploadedBy: existing.uploadedBy,
+            status: existing.status,
+            reviewNotes: existing.reviewNotes,
+            storageKey: existing.storageKey,
+            checksum: existing.checksum,
+            size: existing.size,
+            contentType: existing.contentType,
+          },
+        ];
+        Object.assign(existing, upload, {
+          uploadDate: now,
+          uploadedBy: user,
+          status: 'pending',
+          reviewNotes: undefined,
+          version,
+        });
+      },
+      { documentId: existing.id, version, checksum: upload.checksum }
+    );
+    return existing;
+  }
+  
+  /** Records a review decision; who may decide what is enforced by DocumentReviewWorkflow. */
+  recordDocumentReview(documentId: string, review: DocumentReview): Document {
+    const document = this.getDocument(documentId);
+    this.recordChange(`DOCUMENT_${review.status.toUpperCase()}`, review.reviewer, () => {
+      document.status = review.status;
+      document.reviewNotes = review.notes;
+      document.reviews = [...(document.reviews || []), review];
+    });
+    return document;
+  }
+  
+  /** Places a legal hold on the document, or releases it when `hold` is undefined. */
+  setDocumentLegalHold(documentId: string, hold: LegalHold | undefined, user: string): Document {
+    const document = this.getDocument(documentId);
+    this.recordChange(`DOCUMENT_LEGAL_HOLD_${hold ? 'PLACED' : 'RELEASED'}`, user, () => {
+      document.legalHold = hold;
+    });
+    return document;
+  }
+  
+  openCorrectiveAction(action: CorrectiveAction, user: string): void {
+    this.recordChange(
+      'CORRECTIVE_ACTION_OPENED',
+      user,
+      () => {
+        this.correctiveActions.push(action);
+      },
+      { requirementId: action.requirementId }
+    );
+  }
+  
+  getCorrectiveAction(actionId: string): CorrectiveAction {
+    const action = this.correctiveActions.find((a) => a.id === actionId);
+    if (!action) {
+      throw new NotFoundError(`Corrective action ${actionId} not found`);
+    }
+    return action;
+  }
+  
+  /** Edits an unresolved corrective action; verified and closed actions are final. */
+  updateCorrectiveAction(
+    actionId: string,
+    changes: Partial<Pick<CorrectiveAction, 'title' | 'description' | 'owner' | 'dueDate' | 'steps'>>,
+    user: string
+  ): CorrectiveAction {
+    const action = this.unresolvedCorrectiveAction(actionId);
+    this.recordChange('CORRECTIVE_ACTION_UPDATED', user, () => {
+      Object.assign(action, changes);
+    });
+    return action;
+  }
+  
+  completeCorrectiveActionStep(
+    actionId: string,
+    stepId: string,
+    completed: boolean,
+    user: string
+  ): CorrectiveAction {
+    const action = this.unresolvedCorrectiveAction(actionId);
+    const step = action.steps.find((st) => st.id === stepId);
+    if (!step) {
+      throw new NotFoundError(`Step ${stepId} not found in corrective action ${actionId}`);
+    }
+    this.recordChange(`CORRECTIVE_ACTION_STEP_${completed ? 'COMPLETED' : 'REOPENED'}`, user, () => {
+      step.completed = completed;
+      step.completedBy = completed ? user : undefined;
+      step.completedDate = completed ? new Date() : undefined;
+    });
+    return action;
+  }
+  
+  addCorrectiveActionEvidence(
+    actionId: string,
+    evidence: CorrectiveActionEvidence,
+    user: string
+  ): CorrectiveAction {
+    const action = this.unresolvedCorrectiveAction(actionId);
+    this.recordChange('CORRECTIVE_ACTION_EVIDENCE_ADDED', user, () => {
+      action.evidence.push(evidence);
+    });
+    return action;
+  }
+  
+  /**
+   * Moves a corrective action to a new status. Allowed transitions, roles and
+   * verification of the requirement are enforced by CorrectiveActionWorkflow.
+   */
+  recordCorrectiveActionTransition(
+    actionId: string,
+    transition: CorrectiveActionTransition,
+    verification?: CorrectiveActionVerification
+  ): CorrectiveAction {
+    const action = this.getCorrectiveAction(actionId);
+    this.recordChange(
+      `CORRECTIVE_ACTION_${transition.to.replace('-', '_').toUpperCase()}`,
+      transition.user,
+      () => {
+        action.status = transition.to;
+        action.transitions.push(transition);
+        if (verification) {
+          action.verification = verification;
+        }
+        if (transition.to === 'verified' || transition.to === 'closed') {
+          action.closedDate = action.closedDate || transition.date;
+        }
+      },
+      { status: { from: transition.from, to: transition.to } }
+    );
+    return action;
+  }
+  
+  private unresolvedCorrectiveAction(actionId: string): CorrectiveAction {
+    const action = this.getCorrectiveAction(actionId);
+    if (action.status === 'verified' || action.status === 'closed') {
+      throw new ConflictError(`Corrective action ${actionId} is already ${action.status}`);
+    }
+    return action;
+  }
+  
+  /**
+   * Replaces the approved budget. The given amounts become the original award
+   * amounts that later revisions are measured against.
+   */
+  setBudget(categories: Omit<BudgetCategory, 'originalAmount'>[], user: string): void {
+    this.recordChange('BUDGET_SET', user, () => {
+      this.budget = {
+        categories: categories.map((c) => ({
+          ...c,
+          originalAmount: c.amount,
+          lineItems: c.lineItems || [],
+          allocations: c.allocations || [],
+        })),
+        revisions: [],
+      };
+    });
+  }
+  
+  requestBudgetRevision(revision: BudgetRevision, user: string): void {
+    if (!this.budget) {
+      throw new ConflictError('Grant has no budget to revise');
+    }
+    const budget = this.budget;
+    this.recordChange('BUDGET_REVISION_REQUESTED', user, () => {
+      budget.revisions.push(revision);
+    });
+  }
+  
+  /**
+   * Approves or rejects a pending budget revision. Approval moves the
+   * transferred amounts between categories.
+   */
+  decideBudgetRevision(
+    revisionId: string,
+    decision: 'approved' | 'rejected',
+    user: string,
+    options: { grantorApproved?: boolean; notes?: string } = {}
+  ): BudgetRevision {
+    const revision = this.budget?.revisions.find((r) => r.id === revisionId);
+    if (!this.budget || !revision) {
+      throw new NotFoundError(`Budget revision ${revisionId} not found`);
+    }
+    if (revision.status !== 'pending') {
+      throw new ConflictError(`Budget revision ${revisionId} is already ${revision.status}`);
+    }
+    const budget = this.budget;
+    
+    this.recordChange(`BUDGET_REVISION_${decision.toUpperCase()}`, user, () => {
+      if (decision === 'approved') {
+        applyBudgetTransfers(budget, revision.transfers);
+      }
+      revision.status = decision;
+      revision.decidedBy = user;
+      revision.decidedDate = new Date();
+      revision.decisionNotes = options.notes;
+      revision.grantorApproved = decision === 'approved' && Boolean(options.grantorApproved);
+    });
+    return revision;
+  }
+  
+  /**
+   * Replaces the objectives and the logic model built on them as one change,
+   * so outcomes never point at objectives that are not there.
+   */
+  setLogicModel(objectives: Objective[], logicModel: LogicModel, user: string): void {
+    assertValidLogicModel(logicModel, objectives, this);
+    this.recordChange('LOGIC_MODEL_SET', user, () => {
+      this.objectives = objectives;
+      this.logicModel = logicModel;
+    });
+  }
+  
+  /**
+   * Records a status change. Only transitions defined by the grant lifecycle
+   * are accepted; role and guard checks live in GrantLifecycle.transition().
+   */
+  updateStatus(newStatus: GrantStatus, user: string, reason?: string): void {
+    if (!findTransition(this.status, newStatus)) {
+      throw new TransitionRejectedError(this.status, newStatus, [
+        { guard: 'valid-transition', message: `Cannot move from ${this.status} to ${newStatus}` },
+      ]);
+    }
+    
     const oldStatus = this.status;
-    this.status = newStatus;
+    this.recordChange(
+      'STATUS_CHANGE',
+      user,
+      () => {
+        this.status = newStatus;
+      },
+      { status: { from: oldStatus, to: newStatus }, ...(reason ? { reason } : {}) }
+    );
+  }
+  
+  /**
+   * Applies a mutation and appends a history entry holding the field-level diff
+   * it produced, attributed to `user` and stamped with the resulting version.
+   */
+  private recordChange(
+    action: string,
+    user: string,
+    mutate: () => void,
+    changes: Record<string, unknown> = {}
+  ): void {
+    const before = this.auditSnapshot();
+    mutate();
+    const now = new Date();
     this.updatedBy = user;
-    this.updatedAt = new Date();
+    this.updatedAt = now;
     this.version++;
     
     this.history.push({
-      date: new Date(),
-      action: 'STATUS_CHANGE',
+      date: now,
+      action,
       user,
-      changes: { status: { from: oldStatus, to: newStatus } },
+      version: this.version,
+      changes,
+      diff: diffValues(before, this.auditSnapshot()),
+    });
+  }
+  
+  private auditSnapshot(): Record<string, unknown> {
+    const snapshot = JSON.parse(JSON.stringify(this)) as Record<string, unknown>;
+    for (const field of AUDIT_EXCLUDED_FIELDS) {
+      delete snapshot[field];
+    }
+    return snapshot;
+  }
+  
+  /**
+   * Reconstructs the grant as it stood at a point in time or version by undoing
+   * later history entries. Entries recorded before field-level diffs existed
+   * can only have their status change undone.
+   */
+  asOf(point: { date?: Date; version?: number }): Grant {
+    const state = this.auditSnapshot();
+    const isLater = (entry: GrantHistoryEntry): boolean =>
+      (point.date !== undefined && new Date(entry.date) > point.date) ||
+      (point.version !== undefined && entry.version !== undefined && entry.version > point.version);
+    
+    const retained = [...this.history];
+    while (retained.length > 0 && isLater(retained[retained.length - 1])) {
+      const entry = retained.pop() as GrantHistoryEntry;
+      const status = objectOf(entry.changes?.status);
+      if (entry.diff) {
+        applyChanges(state, entry.diff, 'backward');
+      } else if (typeof status?.from === 'string') {
+        state.status = status.from;
+      }
+    }
+    
+    const last = retained[retained.length - 1];
+    const undone = this.history.length - retained.length;
+    return Grant.fromJSON({
+      ...state,
+      history: retained,
+      version: last?.version ?? this.version - undone,
+      updatedAt: last?.date ?? this.createdAt,
+      updatedBy: last?.user ?? this.createdBy,
     });
   }
   
-  getProgress(): number {
-    if (this.milestones.length === 0) return 0;
-    const completed = this.milestones.filter(m => m.status === 'completed').length;
-    return completed / this.milestones.length;
+  /**
+   * Share of the milestone work done: weighted by milestone weight and
+   * counting partial completion, or the simple share of milestones completed.
+   */
+  getProgress(method: MilestoneProgressMethod = 'weighted'): number {
+    return milestoneProgress(this.milestones, this.startDate, method);
+  }
+  
+  /**
+   * Amount of an expenditure in the grant currency. Foreign-currency
+   * expenditures must carry the exchange rate fixed when they were recorded.
+   */
+  getAmountInGrantCurrency(expenditure: Expenditure): number {
+    if (!expenditure.currency || expenditure.currency === this.currency) {
+      return expenditure.amount;
+    }
+    if (!expenditure.exchangeRate) {
+      throw new ValidationError(
+        `Expenditure ${expenditure.id} in ${expenditure.currency} has no exchange rate to ${this.currency}`
+      );
+    }
+    return expenditure.amount * expenditure.exchangeRate;
   }
   
   getFinancialUtilization(): number {
     if (this.totalFunding === 0) return 0;
     const spent = this.expenditures
       .filter(e => e.status === 'approved')
-      .reduce((sum, exp) => sum + exp.amount, 0);
+      .reduce((sum, exp) => sum + this.getAmountInGrantCurrency(exp), 0);
     return spent / this.totalFunding;
   }
   
@@ -244,20 +1211,4 @@ export class Grant {
     const diff = end.getTime() - now.getTime();
     return Math.ceil(diff / (1000 * 60 * 60 * 24));
   }
-  
-  isAtRisk(): boolean {
-    const progress = this.getProgress();
-    const utilization = this.getFinancialUtilization();
-    const daysRemaining = this.getDaysRemaining();
-    const totalDays = Math.ceil(
-      (new Date(this.endDate).getTime() - new Date(this.startDate).getTime()) / 
-      (1000 * 60 * 60 * 24)
-    );
-    
-    const timelineProgress = 1 - (daysRemaining / totalDays);
-    
-    // Risk if progress lags significantly behind timeline or financial utilization
-    return Math.abs(progress - timelineProgress) > 0.3 || 
-           Math.abs(utilization - timelineProgress) > 0.3;
-  }
       }
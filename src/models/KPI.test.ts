@@ -0,0 +1,127 @@
+import {
+  achievementRatio,
+  KPI,
+  kpiAchievement,
+  kpiFromJSON,
+  KPIMeasurement,
+  latestMeasurement,
+  statusFor,
+  targetFor,
+} from './KPI';
+
+function measurement(
+  id: string,
+  value: number,
+  date: string,
+  verificationStatus: KPIMeasurement['verificationStatus'] = 'verified'
+): KPIMeasurement {
+  return {
+    id,
+    value,
+    date: new Date(date),
+    dataSource: 'Hospital records',
+    recordedBy: 'chen',
+    recordedDate: new Date(date),
+    verificationStatus,
+  };
+}
+
+/** Preventable ER visits per 100 participants, falling from a baseline of 40 towards 30. */
+function erVisits(measurements: KPIMeasurement[] = []): KPI {
+  return kpiFromJSON({
+    id: 'KPI-ER',
+    name: 'ER visits',
+    description: '',
+    unit: 'visits per 100',
+    measurementFrequency: 'quarterly',
+    dataSource: 'Hospital records',
+    direction: 'lower-is-better',
+    baseline: { value: 40, date: new Date('2023-03-31') },
+    targetValue: 30,
+    interimTargets: [
+      { period: 'Q3 2023', start: new Date('2023-07-01'), end: new Date('2023-09-30'), value: 38 },
+      { period: 'Q4 2023', start: new Date('2023-10-01'), end: new Date('2023-12-31'), value: 36 },
+    ],
+    measurements,
+  });
+}
+
+describe('kpiFromJSON', () => {
+  it('revives dates and defaults KPIs stored before measurements were tracked', () => {
+    const kpi = kpiFromJSON({
+      id: 'KPI-1',
+      name: 'Screened',
+      description: '',
+      unit: 'people',
+      measurementFrequency: 'monthly',
+      dataSource: 'Screening database',
+      targetValue: 500,
+      currentValue: 525,
+      baseline: { value: 0, date: '2023-01-01' as unknown as Date },
+    });
+
+    expect(kpi).toMatchObject({
+      direction: 'higher-is-better',
+      interimTargets: [],
+      measurements: [],
+    });
+    expect(kpi.baseline?.date).toEqual(new Date('2023-01-01'));
+    expect(kpiAchievement(kpi)).toMatchObject({ current: 525, status: 'exceeding' });
+  });
+});
+
+describe('achievementRatio and statusFor', () => {
+  it('measures the share of the planned change from the baseline in either direction', () => {
+    expect(achievementRatio(34, 30, 'lower-is-better', 40)).toBeCloseTo(0.6);
+    expect(achievementRatio(75, 100, 'higher-is-better', 50)).toBeCloseTo(0.5);
+  });
+
+  it('compares with the target itself without a baseline', () => {
+    expect(achievementRatio(450, 500, 'higher-is-better')).toBeCloseTo(0.9);
+    expect(achievementRatio(40, 30, 'lower-is-better')).toBeCloseTo(0.75);
+    expect(achievementRatio(0, 0, 'lower-is-better')).toBe(1);
+    expect(achievementRatio(0, 10, 'higher-is-better')).toBe(0);
+  });
+
+  it('bands achievement into statuses', () => {
+    expect([1.05, 0.9, 0.75, 0.74, null].map(statusFor)).toEqual([
+      'exceeding',
+      'on-track',
+      'at-risk',
+      'off-track',
+      'no-data',
+    ]);
+  });
+});
+
+describe('kpiAchievement', () => {
+  it('judges the latest counted measurement against the target of its period', () => {
+    const kpi = erVisits([
+      measurement('M1', 37, '2023-09-30'),
+      measurement('M2', 39, '2023-11-30'),
+      measurement('M3', 30, '2023-12-15', 'disputed'),
+    ]);
+
+    expect(latestMeasurement(kpi)?.id).toBe('M2');
+    expect(targetFor(kpi, new Date('2024-02-01'))).toEqual({ period: 'end-of-grant', value: 30 });
+    expect(kpiAchievement(kpi)).toMatchObject({
+      current: 39,
+      target: 36,
+      targetPeriod: 'Q4 2023',
+      status: 'off-track',
+    });
+    expect(kpiAchievement(kpi).achievement).toBeCloseTo(0.25);
+    expect(kpiAchievement(kpi, new Date('2023-10-31'))).toMatchObject({
+      current: 37,
+      targetPeriod: 'Q3 2023',
+      status: 'exceeding',
+    });
+  });
+
+  it('reports no data once there are measurements but none counts yet', () => {
+    const kpi = erVisits([measurement('M1', 37, '2023-09-30', 'disputed')]);
+    kpi.currentValue = 37;
+
+    expect(kpiAchievement(kpi)).toMatchObject({ current: undefined, status: 'no-data' });
+  });
+});
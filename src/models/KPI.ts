@@ -0,0 +1,198 @@
+export type KPIDirection = 'higher-is-better' | 'lower-is-better';
+
+export type MeasurementVerification = 'unverified' | 'verified' | 'disputed';
+
+export type KPIStatus = 'exceeding' | 'on-track' | 'at-risk' | 'off-track' | 'no-data';
+
+export interface KPIMeasurement {
+  id: string;
+  value: number;
+  /** Date the value describes, not when it was entered */
+  date: Date;
+  dataSource: string;
+  recordedBy: string;
+  recordedDate: Date;
+  verificationStatus: MeasurementVerification;
+  verifiedBy?: string;
+  verifiedDate?: Date;
+  notes?: string;
+}
+
+export interface KPIBaseline {
+  value: number;
+  date: Date;
+  source?: string;
+}
+
+/** Target to reach by the end of one reporting period. */
+export interface KPIPeriodTarget {
+  /** Period label, e.g. "Q3 FY2023" */
+  period: string;
+  start: Date;
+  end: Date;
+  value: number;
+}
+
+export interface KPI {
+  id: string;
+  name: string;
+  description: string;
+  unit: string;
+  measurementFrequency: string;
+  dataSource: string;
+  /** Catalog KPI this indicator supplies values or a target for, e.g. `beneficiary-reach` */
+  indicator?: string;
+  direction: KPIDirection;
+  baseline?: KPIBaseline;
+  /** End-of-grant target */
+  targetValue: number;
+  interimTargets: KPIPeriodTarget[];
+  measurements: KPIMeasurement[];
+  /**
+   * Value of the latest measurement, kept for consumers that only show a
+   * current value. Absent until the first measurement.
+   */
+  currentValue?: number;
+  /** Status as of the latest measurement */
+  status?: KPIStatus;
+}
+
+export interface KPIAchievement {
+  kpiId: string;
+  name: string;
+  unit: string;
+  direction: KPIDirection;
+  baseline?: number;
+  current?: number;
+  measuredAt?: Date;
+  target: number;
+  /** Interim target period the measurement falls in, or `end-of-grant` */
+  targetPeriod: string;
+  /**
+   * Share of the way from baseline to target (or of the target itself when
+   * there is no baseline) achieved; 1 means the target is met. Null without
+   * measurements.
+   */
+  achievement: number | null;
+  status: KPIStatus;
+}
+
+// Achievement at or above which a KPI has this status; below the last it is off-track
+const STATUS_THRESHOLDS: [KPIStatus, number][] = [
+  ['exceeding', 1.05],
+  ['on-track', 0.9],
+  ['at-risk', 0.75],
+];
+
+function toDate(value: Date | string): Date;
+function toDate(value: Date | string | undefined): Date | undefined;
+function toDate(value: Date | string | undefined): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Revives a KPI from JSON. KPIs stored before measurements were tracked keep
+ * their `currentValue` and start with an empty history.
+ */
+export function kpiFromJSON(
+  data: Omit<KPI, 'direction' | 'interimTargets' | 'measurements'> & Partial<KPI>
+): KPI {
+  return {
+    ...data,
+    direction: data.direction || 'higher-is-better',
+    baseline: data.baseline && { ...data.baseline, date: toDate(data.baseline.date) },
+    interimTargets: (data.interimTargets || []).map((t) => ({
+      ...t,
+      start: toDate(t.start),
+      end: toDate(t.end),
+    })),
+    measurements: (data.measurements || []).map((m) => ({
+      ...m,
+      date: toDate(m.date),
+      recordedDate: toDate(m.recordedDate),
+      verifiedDate: toDate(m.verifiedDate),
+    })),
+  };
+}
+
+/** Latest measurement on or before `asOf`; disputed measurements do not count. */
+export function latestMeasurement(kpi: KPI, asOf: Date = new Date()): KPIMeasurement | undefined {
+  return kpi.measurements
+    .filter((m) => m.verificationStatus !== 'disputed' && m.date <= asOf)
+    .reduce<KPIMeasurement | undefined>(
+      (latest, m) => (!latest || m.date >= latest.date ? m : latest),
+      undefined
+    );
+}
+
+/** Interim target of the period containing `date`, falling back to the end-of-grant target. */
+export function targetFor(kpi: KPI, date: Date): { period: string; value: number } {
+  const interim = kpi.interimTargets.find((t) => t.start <= date && date <= t.end);
+  return interim
+    ? { period: interim.period, value: interim.value }
+    : { period: 'end-of-grant', value: kpi.targetValue };
+}
+
+/**
+ * Progress towards a target in the KPI's direction. With a baseline this is
+ * the share of the planned change achieved, so a lower-is-better KPI that
+ * fell from 40 to 34 against a target of 30 is 60% of the way there.
+ */
+export function achievementRatio(
+  current: number,
+  target: number,
+  direction: KPIDirection,
+  baseline?: number
+): number {
+  if (baseline !== undefined && baseline !== target) {
+    return (current - baseline) / (target - baseline);
+  }
+  const met = direction === 'higher-is-better' ? current >= target : current <= target;
+  if (target === 0 || current === 0) {
+    return met ? 1 : 0;
+  }
+  return direction === 'higher-is-better' ? current / target : target / current;
+}
+
+export function statusFor(achievement: number | null): KPIStatus {
+  if (achievement === null) {
+    return 'no-data';
+  }
+  const match = STATUS_THRESHOLDS.find(([, threshold]) => achievement >= threshold);
+  return match ? match[0] : 'off-track';
+}
+
+/**
+ * Achievement of the latest measurement as of `asOf`, measured against the
+ * target of the period the measurement falls in. A KPI without measurements
+ * is judged on its `currentValue`, if any, against the end-of-grant target.
+ */
+export function kpiAchievement(kpi: KPI, asOf: Date = new Date()): KPIAchievement {
+  const measurement = latestMeasurement(kpi, asOf);
+  const current =
+    measurement?.value ?? (kpi.measurements.length === 0 ? kpi.currentValue : undefined);
+  const target = measurement
+    ? targetFor(kpi, measurement.date)
+    : { period: 'end-of-grant', value: kpi.targetValue };
+
+  const achievement =
+    current === undefined
+      ? null
+      : achievementRatio(current, target.value, kpi.direction, kpi.baseline?.value);
+  return {
+    kpiId: kpi.id,
+    name: kpi.name,
+    unit: kpi.unit,
+    direction: kpi.direction,
+    baseline: kpi.baseline?.value,
+    current,
+    measuredAt: measurement?.date,
+    target: target.value,
+    targetPeriod: target.period,
+    achievement,
+    status: statusFor(achievement),
+  };
+}
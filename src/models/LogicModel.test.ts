@@ -0,0 +1,104 @@
+import { ValidationError } from '../utils/errors';
+import {
+  assertValidLogicModel,
+  LogicModel,
+  logicModelFromJSON,
+  logicModelProblems,
+  Objective,
+  objectiveFromJSON,
+} from './LogicModel';
+
+const grant = { kpis: [{ id: 'KPI-1' }], milestones: [{ id: 'MIL-1' }] };
+
+const objectives: Objective[] = [
+  { id: 'OBJ-1', description: 'Screen residents', kpiIds: ['KPI-1'], milestoneIds: ['MIL-1'] },
+];
+
+function model(overrides: Partial<LogicModel> = {}): LogicModel {
+  return logicModelFromJSON({
+    inputs: [{ id: 'IN-1', description: 'Funding', leadsTo: ['ACT-1'] }],
+    activities: [{ id: 'ACT-1', description: 'Screening events', leadsTo: ['OUT-1'] }],
+    outputs: [{ id: 'OUT-1', description: 'Residents screened', leadsTo: ['ST-1'] }],
+    outcomes: [
+      {
+        id: 'ST-1',
+        description: 'Earlier diagnosis',
+        term: 'short-term',
+        objectiveIds: ['OBJ-1'],
+        leadsTo: ['LT-1'],
+      },
+      {
+        id: 'LT-1',
+        description: 'Fewer ER visits',
+        term: 'long-term',
+        objectiveIds: [],
+        leadsTo: [],
+      },
+    ],
+    ...overrides,
+  });
+}
+
+describe('objectiveFromJSON', () => {
+  it('gives objectives stored as plain strings a positional ID', () => {
+    expect(objectiveFromJSON('Train workers', 1)).toEqual({
+      id: 'OBJ-002',
+      description: 'Train workers',
+      kpiIds: [],
+      milestoneIds: [],
+    });
+    expect(objectiveFromJSON({ id: 'OBJ-9', description: 'Reach', weight: 2 }, 0)).toEqual({
+      id: 'OBJ-9',
+      description: 'Reach',
+      weight: 2,
+      kpiIds: [],
+      milestoneIds: [],
+    });
+  });
+});
+
+describe('logicModelProblems', () => {
+  it('accepts a model whose links run stage by stage', () => {
+    expect(logicModelProblems(model(), objectives, grant)).toEqual([]);
+    expect(() => assertValidLogicModel(model(), objectives, grant)).not.toThrow();
+  });
+
+  it('reports links that skip or reverse a stage and duplicate IDs', () => {
+    const problems = logicModelProblems(
+      model({
+        inputs: [{ id: 'IN-1', description: 'Funding', leadsTo: ['OUT-1'] }],
+        outputs: [
+          { id: 'OUT-1', description: 'Screened', leadsTo: ['LT-1'] },
+          { id: 'OUT-1', description: 'Again', leadsTo: [] },
+        ],
+      }),
+      objectives,
+      grant
+    );
+
+    expect(problems).toEqual([
+      'Duplicate output ID OUT-1',
+      'Input IN-1 links to unknown activity OUT-1',
+      'Output OUT-1 links to unknown short-term outcome LT-1',
+    ]);
+  });
+
+  it('reports long-term outcomes leading on and references the grant does not have', () => {
+    const broken = model();
+    broken.outcomes[1].leadsTo = ['ST-1'];
+    broken.outcomes[1].objectiveIds = ['OBJ-X'];
+    const problems = logicModelProblems(
+      broken,
+      [{ ...objectives[0], kpiIds: ['KPI-9'], milestoneIds: ['MIL-9'] }],
+      grant
+    );
+
+    expect(problems).toEqual([
+      'Long-term outcome LT-1 cannot lead to further outcomes',
+      'Outcome LT-1 links to unknown objective OBJ-X',
+      'Objective OBJ-1 refers to unknown KPI KPI-9',
+      'Objective OBJ-1 refers to unknown milestone MIL-9',
+    ]);
+    expect(() => assertValidLogicModel(broken, objectives, grant)).toThrow(ValidationError);
+  });
+});
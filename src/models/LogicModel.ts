@@ -0,0 +1,169 @@
+import { ValidationError } from '../utils/errors';
+
+/** A grant objective, measured by the KPIs and milestones linked to it. */
+export interface Objective {
+  id: string;
+  description: string;
+  kpiIds: string[];
+  milestoneIds: string[];
+  /** Relative weight in the outcomes the objective contributes to; defaults to 1 */
+  weight?: number;
+}
+
+export type OutcomeTerm = 'short-term' | 'long-term';
+
+/** An input, activity or output, linked to the elements of the next stage it leads to. */
+export interface LogicModelElement {
+  id: string;
+  description: string;
+  leadsTo: string[];
+}
+
+export interface Outcome {
+  id: string;
+  description: string;
+  term: OutcomeTerm;
+  /** Objectives whose progress evidences the outcome */
+  objectiveIds: string[];
+  /** Long-term outcomes a short-term outcome leads to; empty for long-term outcomes */
+  leadsTo: string[];
+}
+
+/** Theory of change of a grant: inputs → activities → outputs → short/long-term outcomes. */
+export interface LogicModel {
+  inputs: LogicModelElement[];
+  activities: LogicModelElement[];
+  outputs: LogicModelElement[];
+  outcomes: Outcome[];
+}
+
+/**
+ * Revives an objective from JSON. Objectives stored as plain strings, before
+ * they could be linked to KPIs and milestones, get a positional ID.
+ */
+export function objectiveFromJSON(data: string | Partial<Objective>, index: number): Objective {
+  if (typeof data === 'string') {
+    return {
+      id: `OBJ-${String(index + 1).padStart(3, '0')}`,
+      description: data,
+      kpiIds: [],
+      milestoneIds: [],
+    };
+  }
+  return {
+    ...data,
+    id: data.id || `OBJ-${String(index + 1).padStart(3, '0')}`,
+    description: data.description || '',
+    kpiIds: data.kpiIds || [],
+    milestoneIds: data.milestoneIds || [],
+  };
+}
+
+export function logicModelFromJSON(data: Partial<LogicModel>): LogicModel {
+  const elements = (list: Partial<LogicModelElement>[] | undefined): LogicModelElement[] =>
+    (list || []).map((e) => ({
+      id: e.id || '',
+      description: e.description || '',
+      leadsTo: e.leadsTo || [],
+    }));
+  return {
+    inputs: elements(data.inputs),
+    activities: elements(data.activities),
+    outputs: elements(data.outputs),
+    outcomes: (data.outcomes || []).map((o) => ({
+      ...o,
+      objectiveIds: o.objectiveIds || [],
+      leadsTo: o.leadsTo || [],
+    })),
+  };
+}
+
+/**
+ * Problems with a logic model and the objectives it refers to: duplicate IDs,
+ * links that skip or reverse a stage, and references to objectives, KPIs or
+ * milestones the grant does not have. Empty when the model is sound.
+ */
+export function logicModelProblems(
+  model: LogicModel,
+  objectives: Objective[],
+  grant: { kpis: { id: string }[]; milestones: { id: string }[] }
+): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const checkUnique = (kind: string, id: string): void => {
+    if (seen.has(id)) {
+      problems.push(`Duplicate ${kind} ID ${id}`);
+    }
+    seen.add(id);
+  };
+  const checkLinks = (
+    kind: string,
+    id: string,
+    links: string[],
+    targets: Set<string>,
+    targetKind: string
+  ): void => {
+    for (const link of links) {
+      if (!targets.has(link)) {
+        problems.push(`${kind} ${id} links to unknown ${targetKind} ${link}`);
+      }
+    }
+  };
+
+  objectives.forEach((o) => checkUnique('objective', o.id));
+  seen.clear();
+  const stages: [string, LogicModelElement[]][] = [
+    ['input', model.inputs],
+    ['activity', model.activities],
+    ['output', model.outputs],
+  ];
+  stages.forEach(([kind, elements]) => elements.forEach((e) => checkUnique(kind, e.id)));
+  model.outcomes.forEach((o) => checkUnique('outcome', o.id));
+
+  const ids = (elements: { id: string }[]): Set<string> => new Set(elements.map((e) => e.id));
+  const shortTerm = ids(model.outcomes.filter((o) => o.term === 'short-term'));
+  const longTerm = ids(model.outcomes.filter((o) => o.term === 'long-term'));
+  const objectiveIds = ids(objectives);
+  const kpiIds = ids(grant.kpis);
+  const milestoneIds = ids(grant.milestones);
+
+  model.inputs.forEach((e) =>
+    checkLinks('Input', e.id, e.leadsTo, ids(model.activities), 'activity')
+  );
+  model.activities.forEach((e) =>
+    checkLinks('Activity', e.id, e.leadsTo, ids(model.outputs), 'output')
+  );
+  model.outputs.forEach((e) =>
+    checkLinks('Output', e.id, e.leadsTo, shortTerm, 'short-term outcome')
+  );
+  for (const outcome of model.outcomes) {
+    if (outcome.term === 'long-term' && outcome.leadsTo.length > 0) {
+      problems.push(`Long-term outcome ${outcome.id} cannot lead to further outcomes`);
+    } else {
+      checkLinks('Outcome', outcome.id, outcome.leadsTo, longTerm, 'long-term outcome');
+    }
+    checkLinks('Outcome', outcome.id, outcome.objectiveIds, objectiveIds, 'objective');
+  }
+  for (const objective of objectives) {
+    objective.kpiIds
+      .filter((id) => !kpiIds.has(id))
+      .forEach((id) => problems.push(`Objective ${objective.id} refers to unknown KPI ${id}`));
+    objective.milestoneIds
+      .filter((id) => !milestoneIds.has(id))
+      .forEach((id) =>
+        problems.push(`Objective ${objective.id} refers to unknown milestone ${id}`)
+      );
+  }
+  return problems;
+}
+
+export function assertValidLogicModel(
+  model: LogicModel,
+  objectives: Objective[],
+  grant: { kpis: { id: string }[]; milestones: { id: string }[] }
+): void {
+  const problems = logicModelProblems(model, objectives, grant);
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid logic model: ${problems.join('; ')}`);
+  }
+}
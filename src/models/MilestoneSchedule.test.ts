@@ -0,0 +1,153 @@
+import { toISODate } from '../utils/dates';
+import { ConflictError, ValidationError } from '../utils/errors';
+import { Grant, Milestone } from './Grant';
+import {
+  MilestoneSchedule,
+  milestoneGraphProblems,
+  scheduleMilestones,
+  topologicalOrder,
+} from './MilestoneSchedule';
+
+const span = { startDate: new Date('2024-01-01'), endDate: new Date('2024-12-31') };
+
+function milestone(
+  id: string,
+  dueDate: string,
+  dependencies: string[] = [],
+  completionDate?: string
+): Milestone {
+  return {
+    id,
+    name: id,
+    description: '',
+    dueDate: new Date(dueDate),
+    completionDate: completionDate ? new Date(completionDate) : undefined,
+    status: completionDate ? 'completed' : 'pending',
+    deliverables: [],
+    dependencies,
+  };
+}
+
+/** A finished nine days late; B and D follow one chain, C another. */
+function plan(): Milestone[] {
+  return [
+    milestone('D', '2024-04-01', ['B']),
+    milestone('C', '2024-06-01', ['A']),
+    milestone('B', '2024-03-01', ['A']),
+    milestone('A', '2024-02-01', [], '2024-02-10'),
+  ];
+}
+
+function entry(schedule: MilestoneSchedule, id: string): Record<string, unknown> {
+  const found = schedule.milestones.find((m) => m.milestoneId === id);
+  if (!found) {
+    throw new Error(`${id} not scheduled`);
+  }
+  return {
+    projected: toISODate(found.projectedDate),
+    slip: found.slipDays,
+    float: found.totalFloatDays,
+    drivenBy: found.drivenBy,
+    critical: found.critical,
+  };
+}
+
+describe('milestoneGraphProblems', () => {
+  it('reports self-dependencies, unknown prerequisites and cycles', () => {
+    expect(milestoneGraphProblems(plan())).toEqual([]);
+    expect(
+      milestoneGraphProblems([
+        milestone('A', '2024-02-01', ['A', 'Z']),
+        milestone('B', '2024-03-01', ['C']),
+        milestone('C', '2024-04-01', ['B']),
+      ])
+    ).toEqual([
+      'Milestone A cannot depend on itself',
+      'Milestone A depends on unknown milestone Z',
+      'Milestone dependencies form a cycle: B → C → B',
+    ]);
+  });
+});
+
+describe('topologicalOrder', () => {
+  it('puts prerequisites first and breaks ties by due date', () => {
+    expect(topologicalOrder(plan()).map((m) => m.id)).toEqual(['A', 'B', 'D', 'C']);
+  });
+
+  it('refuses cyclic dependencies', () => {
+    expect(() =>
+      topologicalOrder([milestone('A', '2024-02-01', ['B']), milestone('B', '2024-03-01', ['A'])])
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('scheduleMilestones', () => {
+  it('carries a late prerequisite over to its dependents and finds the critical path', () => {
+    const schedule = scheduleMilestones(plan(), span, new Date('2024-02-15'));
+
+    expect(entry(schedule, 'A')).toMatchObject({ projected: '2024-02-10', slip: 9 });
+    expect(entry(schedule, 'B')).toEqual({
+      projected: '2024-03-10',
+      slip: 9,
+      float: 61,
+      drivenBy: 'A',
+      critical: false,
+    });
+    expect(entry(schedule, 'D')).toMatchObject({ projected: '2024-04-10', slip: 9, float: 61 });
+    expect(entry(schedule, 'C')).toMatchObject({
+      projected: '2024-06-10',
+      float: 0,
+      critical: true,
+    });
+    expect(schedule.criticalPath).toEqual(['A', 'C']);
+    expect(toISODate(schedule.projectedFinish as Date)).toBe('2024-06-10');
+    expect(schedule.daysToGrantEnd).toBe(204);
+  });
+
+  it('projects overdue open milestones to today at the earliest', () => {
+    const schedule = scheduleMilestones(
+      [milestone('A', '2024-02-01')],
+      span,
+      new Date('2024-02-15T13:00:00Z')
+    );
+
+    expect(entry(schedule, 'A')).toMatchObject({ projected: '2024-02-15', slip: 14 });
+  });
+
+  it('returns an empty schedule without milestones', () => {
+    expect(scheduleMilestones([], span)).toMatchObject({
+      milestones: [],
+      criticalPath: [],
+      projectedFinish: null,
+      daysToGrantEnd: null,
+    });
+  });
+});
+
+describe('Grant milestone dependencies', () => {
+  const grant = (): Grant => new Grant({ id: 'GR-1', ...span, milestones: plan() });
+
+  it('rejects milestones that would form a cycle', () => {
+    const g = grant();
+    expect(() => g.addItem('milestones', milestone('E', '2024-05-01', ['E']), 'sam')).toThrow(
+      ValidationError
+    );
+    expect(() => g.updateItem('milestones', 'A', { dependencies: ['D'] }, 'sam')).toThrow(
+      ValidationError
+    );
+  });
+
+  it('pins the start of dependents when a prerequisite is rescheduled', () => {
+    const g = grant();
+    g.updateItem('milestones', 'B', { dueDate: new Date('2024-03-15') }, 'sam');
+
+    const d = g.milestones.find((m) => m.id === 'D');
+    expect(d?.startDate).toEqual(new Date('2024-03-01'));
+    const schedule = scheduleMilestones(g.milestones, g, new Date('2024-02-15'));
+    expect(entry(schedule, 'D')).toMatchObject({ projected: '2024-04-24', slip: 23 });
+  });
+
+  it('keeps milestones other milestones depend on', () => {
+    expect(() => grant().removeItem('milestones', 'A', 'sam')).toThrow(ConflictError);
+  });
+});
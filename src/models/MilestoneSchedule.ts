@@ -0,0 +1,297 @@
+import { addDays, DAY_MS, startOfDay } from '../utils/dates';
+import { ValidationError } from '../utils/errors';
+import type { Milestone } from './Grant';
+
+/** A milestone placed on the schedule by the critical path method. */
+export interface ScheduledMilestone {
+  milestoneId: string;
+  name: string;
+  status: Milestone['status'];
+  dependencies: string[];
+  /** Start of the work leading to the milestone as planned */
+  plannedStart: Date;
+  dueDate: Date;
+  /** Days of work between the planned start and the due date */
+  durationDays: number;
+  /** When the work can start given the projected dates of the prerequisites */
+  earliestStart: Date;
+  /**
+   * Completion date of a completed milestone; otherwise the earliest finish
+   * given its prerequisites, never before the due date or today
+   */
+  projectedDate: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  /** Days the milestone can slip without delaying the last milestone */
+  totalFloatDays: number;
+  /** Days the projected date lies past the due date */
+  slipDays: number;
+  /** The prerequisite whose projected date holds up the start, if any */
+  drivenBy?: string;
+  critical: boolean;
+}
+
+export interface MilestoneSchedule {
+  asOf: Date;
+  /** Prerequisites before the milestones depending on them */
+  milestones: ScheduledMilestone[];
+  /** Chain of milestones, first to last, that determines the projected finish */
+  criticalPath: string[];
+  projectedFinish: Date | null;
+  /** Days from the projected finish to the grant end date; negative when past it */
+  daysToGrantEnd: number | null;
+}
+
+const days = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+const latest = (dates: Date[]): Date =>
+  dates.reduce((max, date) => (date > max ? date : max), dates[0]);
+
+/**
+ * Dependencies on unknown milestones, on the milestone itself, and cycles.
+ * Empty when the milestones form a valid dependency graph.
+ */
+export function milestoneGraphProblems(milestones: Milestone[]): string[] {
+  const problems: string[] = [];
+  const byId = new Map(milestones.map((m) => [m.id, m]));
+  for (const milestone of milestones) {
+    for (const id of milestone.dependencies || []) {
+      if (id === milestone.id) {
+        problems.push(`Milestone ${milestone.id} cannot depend on itself`);
+      } else if (!byId.has(id)) {
+        problems.push(`Milestone ${milestone.id} depends on unknown milestone ${id}`);
+      }
+    }
+  }
+
+  // Depth-first search; a dependency already on the stack closes a cycle
+  const done = new Set<string>();
+  const stack: string[] = [];
+  const visit = (milestone: Milestone): void => {
+    if (done.has(milestone.id)) {
+      return;
+    }
+    const at = stack.indexOf(milestone.id);
+    if (at !== -1) {
+      problems.push(
+        `Milestone dependencies form a cycle: ${[...stack.slice(at), milestone.id].join(' → ')}`
+      );
+      return;
+    }
+    stack.push(milestone.id);
+    for (const id of milestone.dependencies || []) {
+      const dependency = byId.get(id);
+      if (dependency && id !== milestone.id) {
+        visit(dependency);
+      }
+    }
+    stack.pop();
+    done.add(milestone.id);
+  };
+  milestones.forEach(visit);
+  return problems;
+}
+
+export function assertValidMilestoneGraph(milestones: Milestone[]): void {
+  const problems = milestoneGraphProblems(milestones);
+  if (problems.length > 0) {
+    throw new ValidationError(`Invalid milestone dependencies: ${problems.join('; ')}`);
+  }
+}
+
+/** Milestones with every prerequisite before its dependents, otherwise by due date. */
+export function topologicalOrder(milestones: Milestone[]): Milestone[] {
+  const remaining = [...milestones].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  const placed = new Set<string>();
+  const ordered: Milestone[] = [];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((m) =>
+      (m.dependencies || []).every((id) => placed.has(id) || !milestones.some((o) => o.id === id))
+    );
+    if (index === -1) {
+      assertValidMilestoneGraph(milestones);
+    }
+    const [next] = remaining.splice(index, 1);
+    placed.add(next.id);
+    ordered.push(next);
+  }
+  return ordered;
+}
+
+/**
+ * Planned start of the work leading to a milestone: its own start date, or
+ * else the latest due date of its prerequisites, or else the grant start.
+ */
+export function plannedStart(
+  milestone: Milestone,
+  milestones: Milestone[],
+  grantStart: Date
+): Date {
+  if (milestone.startDate) {
+    return milestone.startDate;
+  }
+  const prerequisites = milestones.filter((m) => milestone.dependencies?.includes(m.id));
+  return prerequisites.length > 0 ? latest(prerequisites.map((m) => m.dueDate)) : grantStart;
+}
+
+/**
+ * Gives the milestones depending on `milestoneId` an explicit start date
+ * where they derive it from their prerequisites. Called before the due date
+ * of `milestoneId` changes, so dependents keep their planned duration and
+ * a slip carries over to their projected dates instead of eating into it.
+ */
+export function pinDependentStarts(
+  milestones: Milestone[],
+  milestoneId: string,
+  grantStart: Date
+): void {
+  for (const dependent of milestones.filter((m) => m.dependencies?.includes(milestoneId))) {
+    dependent.startDate = plannedStart(dependent, milestones, grantStart);
+  }
+}
+
+/**
+ * Schedules the milestones with the critical path method. Completed
+ * milestones are fixed at their completion date; open ones finish no
+ * earlier than their due date, the projected dates of their prerequisites
+ * plus their duration, or `asOf` when already overdue. The milestones must
+ * form a valid dependency graph.
+ */
+export function scheduleMilestones(
+  milestones: Milestone[],
+  grant: { startDate: Date; endDate: Date },
+  asOf: Date = new Date()
+): MilestoneSchedule {
+  const today = startOfDay(asOf);
+  const ordered = topologicalOrder(milestones);
+  const scheduled = new Map<string, ScheduledMilestone>();
+
+  // Forward pass: earliest start and projected finish
+  for (const milestone of ordered) {
+    const start = plannedStart(milestone, milestones, grant.startDate);
+    const durationDays = Math.max(days(start, milestone.dueDate), 0);
+    const prerequisites = (milestone.dependencies || [])
+      .map((id) => scheduled.get(id))
+      .filter((s): s is ScheduledMilestone => s !== undefined);
+    const driver = prerequisites.reduce<ScheduledMilestone | undefined>(
+      (max, p) => (!max || p.projectedDate > max.projectedDate ? p : max),
+      undefined
+    );
+    const earliestStart = driver && driver.projectedDate > start ? driver.projectedDate : start;
+
+    let projectedDate: Date;
+    if (milestone.status === 'completed') {
+      projectedDate = milestone.completionDate || milestone.dueDate;
+    } else {
+      projectedDate = latest([addDays(earliestStart, durationDays), milestone.dueDate, today]);
+    }
+
+    scheduled.set(milestone.id, {
+      milestoneId: milestone.id,
+      name: milestone.name,
+      status: milestone.status,
+      dependencies: milestone.dependencies || [],
+      plannedStart: start,
+      dueDate: milestone.dueDate,
+      durationDays,
+      earliestStart,
+      projectedDate,
+      latestStart: earliestStart,
+      latestFinish: projectedDate,
+      totalFloatDays: 0,
+      slipDays: Math.max(days(milestone.dueDate, projectedDate), 0),
+      drivenBy: driver && driver.projectedDate >= start ? driver.milestoneId : undefined,
+      critical: false,
+    });
+  }
+
+  const all = [...scheduled.values()];
+  if (all.length === 0) {
+    return { asOf, milestones: [], criticalPath: [], projectedFinish: null, daysToGrantEnd: null };
+  }
+  const projectedFinish = latest(all.map((s) => s.projectedDate));
+
+  // Backward pass: latest finish without delaying the last milestone
+  for (const entry of [...all].reverse()) {
+    const successors = all.filter((s) => s.dependencies.includes(entry.milestoneId));
+    if (entry.status !== 'completed') {
+      entry.latestFinish =
+        successors.length > 0
+          ? successors.reduce(
+              (min, s) => (s.latestStart < min ? s.latestStart : min),
+              successors[0].latestStart
+            )
+          : projectedFinish;
+      entry.latestStart = addDays(entry.latestFinish, -entry.durationDays);
+      entry.totalFloatDays = days(entry.projectedDate, entry.latestFinish);
+    }
+  }
+
+  const criticalPath: string[] = [];
+  // Walk back from the last milestone to finish along the prerequisites holding each up
+  let current: ScheduledMilestone | undefined = [...all]
+    .reverse()
+    .find((s) => s.projectedDate.getTime() === projectedFinish.getTime());
+  while (current) {
+    current.critical = true;
+    criticalPath.unshift(current.milestoneId);
+    current = current.drivenBy ? scheduled.get(current.drivenBy) : undefined;
+  }
+
+  return {
+    asOf,
+    milestones: all,
+    criticalPath,
+    projectedFinish,
+    daysToGrantEnd: days(projectedFinish, grant.endDate),
+  };
+}
+
+/** `simple` counts completed milestones; `weighted` sums milestone weights times percent complete. */
+export type MilestoneProgressMethod = 'simple' | 'weighted';
+
+/** Share of a milestone done: all of it once completed, else its percent complete. */
+export function fractionComplete(milestone: Milestone): number {
+  if (milestone.status === 'completed') {
+    return 1;
+  }
+  return Math.min(Math.max((milestone.percentComplete ?? 0) / 100, 0), 1);
+}
+
+/** Relative size of a milestone: its weight, or else its planned duration in days. */
+export function milestoneWeight(
+  milestone: Milestone,
+  milestones: Milestone[],
+  grantStart: Date
+): number {
+  return (
+    milestone.weight ??
+    Math.max(days(plannedStart(milestone, milestones, grantStart), milestone.dueDate), 0)
+  );
+}
+
+/**
+ * Share of the milestone work done. The weighted measure falls back to an
+ * unweighted mean of percent complete when all weights are zero.
+ */
+export function milestoneProgress(
+  milestones: Milestone[],
+  grantStart: Date,
+  method: MilestoneProgressMethod = 'weighted'
+): number {
+  if (milestones.length === 0) {
+    return 0;
+  }
+  if (method === 'simple') {
+    return milestones.filter((m) => m.status === 'completed').length / milestones.length;
+  }
+  const parts = milestones.map((m) => ({
+    done: fractionComplete(m),
+    weight: milestoneWeight(m, milestones, grantStart),
+  }));
+  const total = parts.reduce((sum, p) => sum + p.weight, 0);
+  if (total === 0) {
+    return parts.reduce((sum, p) => sum + p.done, 0) / parts.length;
+  }
+  return parts.reduce((sum, p) => sum + p.done * p.weight, 0) / total;
+}
@@ -0,0 +1,48 @@
+import { Grant } from './Grant';
+import { grantsOf, isSameOrganization, normalizeTaxId, organizationFromJSON } from './Organization';
+
+describe('isSameOrganization', () => {
+  it('matches on the ID or on the tax ID ignoring punctuation', () => {
+    expect(normalizeTaxId(' 12-345 6789 ')).toBe('123456789');
+    expect(normalizeTaxId('--')).toBeUndefined();
+
+    expect(isSameOrganization({ id: 'ORG-1' }, { id: 'ORG-1', taxId: '1' })).toBe(true);
+    expect(isSameOrganization({ id: 'ORG-1', taxId: '12-3456789' }, { taxId: '123456789' })).toBe(
+      true
+    );
+    expect(isSameOrganization({ id: 'ORG-1' }, { id: 'ORG-2' })).toBe(false);
+    expect(isSameOrganization({ taxId: '' }, { taxId: '' })).toBe(false);
+  });
+});
+
+describe('grantsOf', () => {
+  it("finds the organization's grants by the recipient embedded in each", () => {
+    const grant = (id: string, recipient: Record<string, string>): Grant =>
+      Grant.fromJSON({ id, recipient });
+    const grants = [
+      grant('GR-1', { id: 'ORG-1' }),
+      grant('GR-2', { id: 'legacy-7', taxId: '12 3456789' }),
+      grant('GR-3', { id: 'ORG-2', taxId: '99-0000000' }),
+    ];
+
+    expect(grantsOf({ id: 'ORG-1', taxId: '12-3456789' }, grants).map((g) => g.id)).toEqual([
+      'GR-1',
+      'GR-2',
+    ]);
+  });
+});
+
+describe('organizationFromJSON', () => {
+  it('revives the dates of the organization and its audit findings', () => {
+    const organization = organizationFromJSON({
+      id: 'ORG-1',
+      registrationDate: '2015-06-10',
+      auditFindings: [{ id: 'AF-1', reportedDate: '2023-02-28', resolvedDate: '2023-09-30' }],
+      createdAt: '2020-05-15T16:00:00Z',
+    });
+
+    expect(organization.registrationDate).toEqual(new Date('2015-06-10'));
+    expect(organization.auditFindings[0].resolvedDate).toEqual(new Date('2023-09-30'));
+    expect(organization.createdAt).toEqual(new Date('2020-05-15T16:00:00Z'));
+  });
+});
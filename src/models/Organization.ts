@@ -0,0 +1,84 @@
+import type { Grant, Organization } from './Grant';
+
+export type AuditFindingType =
+  'material-weakness' | 'significant-deficiency' | 'questioned-costs' | 'noncompliance';
+
+/** Weight of an audit finding by its type when an organization's record is scored, 0-1. */
+export const AUDIT_FINDING_WEIGHTS: Record<AuditFindingType, number> = {
+  'material-weakness': 1,
+  'questioned-costs': 0.75,
+  'significant-deficiency': 0.5,
+  noncompliance: 0.5,
+};
+
+/** A finding from an audit of the organization, e.g. a single audit. */
+export interface AuditFinding {
+  id: string;
+  /** Fiscal year audited */
+  auditYear: number;
+  auditor: string;
+  type: AuditFindingType;
+  description: string;
+  /** Grant the finding relates to, when it is specific to one */
+  grantId?: string;
+  questionedCosts?: number;
+  reportedDate: Date;
+  status: 'open' | 'resolved';
+  resolvedDate?: Date;
+}
+
+/**
+ * An organization as a first-class entity. Grants embed a copy of their
+ * recipient's details; this record carries what belongs to the organization
+ * across all of them.
+ */
+export interface RecipientOrganization extends Organization {
+  auditFindings: AuditFinding[];
+  /** Incremented by every save, for optimistic concurrency control */
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Tax IDs compared by their letters and digits, so `12-3456789` matches `123456789`. */
+export function normalizeTaxId(taxId: string | undefined): string | undefined {
+  const normalized = taxId?.replace(/[^0-9a-z]/gi, '').toUpperCase();
+  return normalized || undefined;
+}
+
+/** Whether two organization records refer to the same organization: same ID or same tax ID. */
+export function isSameOrganization(a: Partial<Organization>, b: Partial<Organization>): boolean {
+  if (a.id && b.id && a.id === b.id) {
+    return true;
+  }
+  const taxId = normalizeTaxId(a.taxId);
+  return taxId !== undefined && taxId === normalizeTaxId(b.taxId);
+}
+
+/** Grants awarded to the organization, matched on the recipient's ID or tax ID. */
+export function grantsOf(organization: Partial<Organization>, grants: Grant[]): Grant[] {
+  return grants.filter((g) => isSameOrganization(g.recipient, organization));
+}
+
+/** The organization details grants embed as their recipient. */
+export function recipientDetails(organization: RecipientOrganization): Organization {
+  const { id, name, type, taxId, address, contact, registrationDate } = organization;
+  return { id, name, type, taxId, address, contact, registrationDate };
+}
+
+export function organizationFromJSON(data: Record<string, unknown>): RecipientOrganization {
+  const organization = data as unknown as RecipientOrganization;
+  const findings = (data.auditFindings as AuditFinding[] | undefined) || [];
+  return {
+    ...organization,
+    registrationDate: organization.registrationDate && new Date(organization.registrationDate),
+    auditFindings: findings.map((f) => ({
+      ...f,
+      reportedDate: new Date(f.reportedDate),
+      resolvedDate: f.resolvedDate ? new Date(f.resolvedDate) : undefined,
+    })),
+    version: organization.version || 1,
+    createdAt: new Date(organization.createdAt || Date.now()),
+    updatedAt: new Date(organization.updatedAt || Date.now()),
+  };
+}
@@ -0,0 +1,57 @@
+import { Grant } from './Grant';
+import { managedBy, matchesFilter, Portfolio, portfolioMembers } from './Portfolio';
+
+function grant(id: string, overrides: Record<string, unknown> = {}): Grant {
+  return Grant.fromJSON({
+    id,
+    type: 'federal',
+    status: 'active',
+    tags: ['health'],
+    grantor: { id: 'GOV-1', name: 'Department of Health' },
+    grantManager: 'Sarah Johnson',
+    ...overrides,
+  });
+}
+
+describe('matchesFilter', () => {
+  it('requires every criterion given and any value of each', () => {
+    const g = grant('GR-1');
+
+    expect(matchesFilter(g, {})).toBe(true);
+    expect(matchesFilter(g, { types: ['state', 'federal'], tags: ['health'] })).toBe(true);
+    expect(matchesFilter(g, { types: ['federal'], statuses: ['closed'] })).toBe(false);
+    expect(matchesFilter(g, { tags: [] })).toBe(true);
+  });
+
+  it('matches grantors by ID or name and managers by name or user ID', () => {
+    const g = grant('GR-1');
+
+    expect(matchesFilter(g, { grantors: ['GOV-1'] })).toBe(true);
+    expect(matchesFilter(g, { grantors: ['Department of Health'] })).toBe(true);
+    expect(matchesFilter(g, { grantors: ['FDN-1'] })).toBe(false);
+    expect(managedBy(g, 'sarah.johnson')).toBe(true);
+    expect(matchesFilter(g, { managers: ['SARAH_JOHNSON'] })).toBe(true);
+    expect(matchesFilter(g, { managers: ['sam.lee'] })).toBe(false);
+  });
+});
+
+describe('portfolioMembers', () => {
+  it('holds the listed grants plus those matching the filter', () => {
+    const grants = [
+      grant('GR-1'),
+      grant('GR-2', { status: 'closed' }),
+      grant('GR-3', { type: 'foundation', tags: [] }),
+    ];
+    const portfolio: Portfolio = {
+      id: 'watch',
+      name: 'Watchlist',
+      grantIds: ['GR-3'],
+      filter: { statuses: ['active'] },
+    };
+
+    expect(portfolioMembers(portfolio, grants).map((g) => g.id)).toEqual(['GR-1', 'GR-3']);
+    expect(portfolioMembers({ ...portfolio, filter: undefined }, grants).map((g) => g.id)).toEqual([
+      'GR-3',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import type { Grant, GrantStatus, GrantType } from './Grant';
+
+/**
+ * Saved filter selecting a portfolio's grants. A grant matches when it meets
+ * every criterion given, and a criterion when it matches any of its values.
+ */
+export interface PortfolioFilter {
+  types?: GrantType[];
+  statuses?: GrantStatus[];
+  tags?: string[];
+  /** Grantor IDs or names */
+  grantors?: string[];
+  /** Grant managers, compared ignoring case, spaces and punctuation */
+  managers?: string[];
+}
+
+/**
+ * A named group of grants reported on together: the grants listed by ID
+ * plus those matching the saved filter, if any.
+ */
+export interface Portfolio {
+  id: string;
+  name: string;
+  description?: string;
+  grantIds: string[];
+  filter?: PortfolioFilter;
+  /** Currency financial totals are restated in; USD when not set */
+  reportingCurrency?: string;
+  createdBy?: string;
+  updatedAt?: Date;
+}
+
+/** Grant managers are recorded by name ("Sarah Johnson") or user ID ("sarah.johnson"). */
+export function managedBy(grant: Grant, userId: string): boolean {
+  const normalize = (value: string): string => value.toLowerCase().replace(/[\s._-]+/g, '');
+  return normalize(grant.grantManager) === normalize(userId);
+}
+
+export function matchesFilter(grant: Grant, filter: PortfolioFilter): boolean {
+  const matches = <T>(values: T[] | undefined, test: (value: T) => boolean): boolean =>
+    !values || values.length === 0 || values.some(test);
+  return (
+    matches(filter.types, (type) => grant.type === type) &&
+    matches(filter.statuses, (status) => grant.status === status) &&
+    matches(filter.tags, (tag) => grant.tags.includes(tag)) &&
+    matches(filter.grantors, (g) => grant.grantor.id === g || grant.grantor.name === g) &&
+    matches(filter.managers, (manager) => managedBy(grant, manager))
+  );
+}
+
+export function isPortfolioMember(portfolio: Portfolio, grant: Grant): boolean {
+  return (
+    portfolio.grantIds.includes(grant.id) ||
+    (portfolio.filter !== undefined && matchesFilter(grant, portfolio.filter))
+  );
+}
+
+export function portfolioMembers(portfolio: Portfolio, grants: Grant[]): Grant[] {
+  return grants.filter((grant) => isPortfolioMember(portfolio, grant));
+}
+
+export function portfolioFromJSON(data: Record<string, unknown>): Portfolio {
+  const portfolio = data as unknown as Portfolio;
+  return {
+    ...portfolio,
+    grantIds: portfolio.grantIds || [],
+    updatedAt: portfolio.updatedAt ? new Date(portfolio.updatedAt) : undefined,
+  };
+}
@@ -0,0 +1,18 @@
+import { ComplianceSnapshot } from '../metrics/ComplianceHistory';
+
+export interface SnapshotRange {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Persistence boundary for compliance assessment snapshots. Snapshots are
+ * append-only and returned oldest first.
+ */
+export interface ComplianceSnapshotRepository {
+  findByGrant(grantId: string, range?: SnapshotRange): Promise<ComplianceSnapshot[]>;
+  /** Snapshots of every grant */
+  findAll(range?: SnapshotRange): Promise<ComplianceSnapshot[]>;
+  findLatest(grantId: string): Promise<ComplianceSnapshot | null>;
+  save(snapshot: ComplianceSnapshot): Promise<ComplianceSnapshot>;
+}
@@ -0,0 +1,17 @@
+import { Grant } from '../models/Grant';
+
+/**
+ * Persistence boundary for grants. Implementations return fully hydrated Grant
+ * instances (milestones, expenditures, KPIs, documents, reports and compliance
+ * requirements included) so metrics can be computed without further lookups.
+ *
+ * `save` performs an optimistic concurrency check when `expectedVersion` is
+ * given: if the stored grant's version differs, it throws VersionConflictError
+ * and nothing is written. `delete` performs the same check.
+ */
+export interface GrantRepository {
+  findById(id: string): Promise<Grant | null>;
+  findAll(): Promise<Grant[]>;
+  save(grant: Grant, expectedVersion?: number): Promise<Grant>;
+  delete(id: string, expectedVersion?: number): Promise<boolean>;
+}
@@ -0,0 +1,36 @@
+import { ComplianceSnapshot } from '../metrics/ComplianceHistory';
+import { ComplianceSnapshotRepository, SnapshotRange } from './ComplianceSnapshotRepository';
+
+export class InMemoryComplianceSnapshotRepository implements ComplianceSnapshotRepository {
+  private snapshots: ComplianceSnapshot[] = [];
+
+  findByGrant(grantId: string, range: SnapshotRange = {}): Promise<ComplianceSnapshot[]> {
+    return Promise.resolve(this.inRange(range).filter((s) => s.grantId === grantId));
+  }
+
+  findAll(range: SnapshotRange = {}): Promise<ComplianceSnapshot[]> {
+    return Promise.resolve(this.inRange(range));
+  }
+
+  findLatest(grantId: string): Promise<ComplianceSnapshot | null> {
+    const latest = this.snapshots.filter((s) => s.grantId === grantId).pop();
+    return Promise.resolve(latest ? this.copy(latest) : null);
+  }
+
+  save(snapshot: ComplianceSnapshot): Promise<ComplianceSnapshot> {
+    this.snapshots.push(this.copy(snapshot));
+    this.snapshots.sort((a, b) => a.takenAt.getTime() - b.takenAt.getTime());
+    return Promise.resolve(snapshot);
+  }
+
+  private inRange({ from, to }: SnapshotRange): ComplianceSnapshot[] {
+    return this.snapshots
+      .filter((s) => (!from || s.takenAt >= from) && (!to || s.takenAt <= to))
+      .map((s) => this.copy(s));
+  }
+
+  // Snapshots are never updated, so sharing the requirement statuses is safe
+  private copy(snapshot: ComplianceSnapshot): ComplianceSnapshot {
+    return { ...snapshot, summary: { ...snapshot.summary } };
+  }
+}
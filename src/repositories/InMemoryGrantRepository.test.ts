@@ -0,0 +1,61 @@
+import { VersionConflictError } from '../utils/errors';
+import { InMemoryGrantRepository } from './InMemoryGrantRepository';
+
+describe('InMemoryGrantRepository', () => {
+  let repository: InMemoryGrantRepository;
+
+  beforeEach(() => {
+    repository = InMemoryGrantRepository.fromSampleData();
+  });
+
+  it('loads the sample grants', async () => {
+    const grants = await repository.findAll();
+
+    expect(grants.map((g) => g.id)).toEqual(['GR-2023-001', 'GR-2020-007']);
+    expect(await repository.findById('GR-UNKNOWN')).toBeNull();
+  });
+
+  it('returns copies that do not change the stored grant', async () => {
+    const grant = await repository.findById('GR-2023-001');
+    grant!.title = 'Changed without saving';
+
+    expect((await repository.findById('GR-2023-001'))!.title).not.toBe('Changed without saving');
+  });
+
+  it('saves when the expected version matches the stored one', async () => {
+    const grant = (await repository.findById('GR-2023-001'))!;
+    const expectedVersion = grant.version;
+    grant.update({ title: 'Renamed' }, 'tester');
+
+    await repository.save(grant, expectedVersion);
+
+    const stored = (await repository.findById('GR-2023-001'))!;
+    expect(stored.title).toBe('Renamed');
+    expect(stored.version).toBe(expectedVersion + 1);
+  });
+
+  it('rejects a save against a stale version', async () => {
+    const first = (await repository.findById('GR-2023-001'))!;
+    const second = (await repository.findById('GR-2023-001'))!;
+    const expectedVersion = first.version;
+    first.update({ title: 'First writer' }, 'alice');
+    second.update({ title: 'Second writer' }, 'bob');
+    await repository.save(first, expectedVersion);
+
+    await expect(repository.save(second, expectedVersion)).rejects.toBeInstanceOf(
+      VersionConflictError
+    );
+    expect((await repository.findById('GR-2023-001'))!.title).toBe('First writer');
+  });
+
+  it('deletes grants', async () => {
+    expect(await repository.delete('GR-2020-007')).toBe(true);
+    expect(await repository.delete('GR-2020-007')).toBe(false);
+    expect(await repository.findAll()).toHaveLength(1);
+  });
+
+  it('deletes only at the expected version when one is given', async () => {
+    await expect(repository.delete('GR-2023-001', 2)).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await repository.delete('GR-2023-001', 3)).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { Grant } from '../models/Grant';
+import { VersionConflictError } from '../utils/errors';
+import { GrantRepository } from './GrantRepository';
+
+const SAMPLE_GRANTS_PATH = path.resolve(__dirname, '../../sample-data/grants.json');
+
+export class InMemoryGrantRepository implements GrantRepository {
+  private grants = new Map<string, Grant>();
+
+  constructor(grants: Grant[] = []) {
+    for (const grant of grants) {
+      this.grants.set(grant.id, this.copy(grant));
+    }
+  }
+
+  /**
+   * Creates a repository seeded from the sample data set, used for local
+   * development and demos when no database is configured.
+   */
+  static fromSampleData(filePath: string = SAMPLE_GRANTS_PATH): InMemoryGrantRepository {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+      grants: Record<string, unknown>[];
+    };
+    return new InMemoryGrantRepository(raw.grants.map((g) => Grant.fromJSON(g)));
+  }
+
+  findById(id: string): Promise<Grant | null> {
+    const grant = this.grants.get(id);
+    return Promise.resolve(grant ? this.copy(grant) : null);
+  }
+
+  findAll(): Promise<Grant[]> {
+    return Promise.resolve(Array.from(this.grants.values()).map((g) => this.copy(g)));
+  }
+
+  save(grant: Grant, expectedVersion?: number): Promise<Grant> {
+    const stored = this.grants.get(grant.id);
+    if (expectedVersion !== undefined && stored?.version !== expectedVersion) {
+      return Promise.reject(
+        new VersionConflictError(grant.id, expectedVersion, stored?.version ?? 0)
+      );
+    }
+    this.grants.set(grant.id, this.copy(grant));
+    return Promise.resolve(this.copy(grant));
+  }
+
+  delete(id: string, expectedVersion?: number): Promise<boolean> {
+    const stored = this.grants.get(id);
+    if (stored && expectedVersion !== undefined && stored.version !== expectedVersion) {
+      return Promise.reject(new VersionConflictError(id, expectedVersion, stored.version));
+    }
+    return Promise.resolve(this.grants.delete(id));
+  }
+
+  // Callers must not be able to mutate stored state without going through save()
+  private copy(grant: Grant): Grant {
+    return Grant.fromJSON(JSON.parse(JSON.stringify(grant)) as Record<string, unknown>);
+  }
+}
@@ -0,0 +1,34 @@
+import { BUILT_IN_PROFILES, MappingProfile } from '../imports/MappingProfile';
+import { MappingProfileRepository } from './MappingProfileRepository';
+
+export class InMemoryMappingProfileRepository implements MappingProfileRepository {
+  private profiles = new Map<string, MappingProfile>();
+
+  constructor(profiles: MappingProfile[] = []) {
+    for (const profile of [...BUILT_IN_PROFILES, ...profiles]) {
+      this.profiles.set(profile.id, this.copy(profile));
+    }
+  }
+
+  findById(id: string): Promise<MappingProfile | null> {
+    const profile = this.profiles.get(id);
+    return Promise.resolve(profile ? this.copy(profile) : null);
+  }
+
+  findAll(): Promise<MappingProfile[]> {
+    return Promise.resolve(Array.from(this.profiles.values()).map((p) => this.copy(p)));
+  }
+
+  save(profile: MappingProfile): Promise<MappingProfile> {
+    this.profiles.set(profile.id, this.copy(profile));
+    return Promise.resolve(this.copy(profile));
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.profiles.delete(id));
+  }
+
+  private copy(profile: MappingProfile): MappingProfile {
+    return { ...profile, columns: { ...profile.columns }, categoryMap: { ...profile.categoryMap } };
+  }
+}
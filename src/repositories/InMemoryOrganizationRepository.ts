@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  normalizeTaxId,
+  organizationFromJSON,
+  RecipientOrganization,
+} from '../models/Organization';
+import { VersionConflictError } from '../utils/errors';
+import { OrganizationRepository } from './OrganizationRepository';
+
+const SAMPLE_ORGANIZATIONS_PATH = path.resolve(__dirname, '../../sample-data/organizations.json');
+
+export class InMemoryOrganizationRepository implements OrganizationRepository {
+  private organizations = new Map<string, RecipientOrganization>();
+
+  constructor(organizations: RecipientOrganization[] = []) {
+    for (const organization of organizations) {
+      this.organizations.set(organization.id, this.copy(organization));
+    }
+  }
+
+  /** Creates a repository seeded from the sample data set, alongside the sample grants. */
+  static fromSampleData(
+    filePath: string = SAMPLE_ORGANIZATIONS_PATH
+  ): InMemoryOrganizationRepository {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+      organizations: Record<string, unknown>[];
+    };
+    return new InMemoryOrganizationRepository(raw.organizations.map(organizationFromJSON));
+  }
+
+  findById(id: string): Promise<RecipientOrganization | null> {
+    const organization = this.organizations.get(id);
+    return Promise.resolve(organization ? this.copy(organization) : null);
+  }
+
+  findByTaxId(taxId: string): Promise<RecipientOrganization | null> {
+    const normalized = normalizeTaxId(taxId);
+    const organization = Array.from(this.organizations.values()).find(
+      (o) => normalized !== undefined && normalizeTaxId(o.taxId) === normalized
+    );
+    return Promise.resolve(organization ? this.copy(organization) : null);
+  }
+
+  findAll(): Promise<RecipientOrganization[]> {
+    return Promise.resolve(Array.from(this.organizations.values()).map((o) => this.copy(o)));
+  }
+
+  save(
+    organization: RecipientOrganization,
+    expectedVersion?: number
+  ): Promise<RecipientOrganization> {
+    const stored = this.organizations.get(organization.id);
+    if (expectedVersion !== undefined && stored?.version !== expectedVersion) {
+      return Promise.reject(
+        new VersionConflictError(organization.id, expectedVersion, stored?.version ?? 0)
+      );
+    }
+    const saved = { ...organization, version: (stored?.version ?? 0) + 1 };
+    this.organizations.set(organization.id, this.copy(saved));
+    return Promise.resolve(this.copy(saved));
+  }
+
+  private copy(organization: RecipientOrganization): RecipientOrganization {
+    return organizationFromJSON(
+      JSON.parse(JSON.stringify(organization)) as Record<string, unknown>
+    );
+  }
+}
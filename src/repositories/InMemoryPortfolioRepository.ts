@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import { Portfolio, portfolioFromJSON } from '../models/Portfolio';
+import { PortfolioRepository } from './PortfolioRepository';
+
+const SAMPLE_PORTFOLIOS_PATH = path.resolve(__dirname, '../../sample-data/portfolios.json');
+
+export class InMemoryPortfolioRepository implements PortfolioRepository {
+  private portfolios = new Map<string, Portfolio>();
+
+  constructor(portfolios: Portfolio[] = []) {
+    for (const portfolio of portfolios) {
+      this.portfolios.set(portfolio.id, this.copy(portfolio));
+    }
+  }
+
+  /** Creates a repository seeded from the sample data set, alongside the sample grants. */
+  static fromSampleData(filePath: string = SAMPLE_PORTFOLIOS_PATH): InMemoryPortfolioRepository {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+      portfolios: Record<string, unknown>[];
+    };
+    return new InMemoryPortfolioRepository(raw.portfolios.map(portfolioFromJSON));
+  }
+
+  findById(id: string): Promise<Portfolio | null> {
+    const portfolio = this.portfolios.get(id);
+    return Promise.resolve(portfolio ? this.copy(portfolio) : null);
+  }
+
+  findAll(): Promise<Portfolio[]> {
+    return Promise.resolve(Array.from(this.portfolios.values()).map((p) => this.copy(p)));
+  }
+
+  save(portfolio: Portfolio): Promise<Portfolio> {
+    this.portfolios.set(portfolio.id, this.copy(portfolio));
+    return Promise.resolve(this.copy(portfolio));
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.portfolios.delete(id));
+  }
+
+  private copy(portfolio: Portfolio): Portfolio {
+    return portfolioFromJSON(JSON.parse(JSON.stringify(portfolio)) as Record<string, unknown>);
+  }
+}
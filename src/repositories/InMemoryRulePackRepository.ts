@@ -0,0 +1,43 @@
+import { compareVersions, RulePack, shippedRulePacks } from '../compliance/RulePack';
+import { RulePackRepository } from './RulePackRepository';
+
+export class InMemoryRulePackRepository implements RulePackRepository {
+  private packs = new Map<string, RulePack>();
+
+  constructor(packs: RulePack[] = []) {
+    for (const pack of [...shippedRulePacks(), ...packs]) {
+      this.packs.set(this.key(pack.id, pack.version), this.copy(pack));
+    }
+  }
+
+  findAll(): Promise<RulePack[]> {
+    return Promise.resolve(Array.from(this.packs.values()).map((p) => this.copy(p)));
+  }
+
+  findVersions(id: string): Promise<RulePack[]> {
+    return Promise.resolve(
+      Array.from(this.packs.values())
+        .filter((p) => p.id === id)
+        .sort((a, b) => compareVersions(b.version, a.version))
+        .map((p) => this.copy(p))
+    );
+  }
+
+  findVersion(id: string, version: string): Promise<RulePack | null> {
+    const pack = this.packs.get(this.key(id, version));
+    return Promise.resolve(pack ? this.copy(pack) : null);
+  }
+
+  save(pack: RulePack): Promise<RulePack> {
+    this.packs.set(this.key(pack.id, pack.version), this.copy(pack));
+    return Promise.resolve(this.copy(pack));
+  }
+
+  private key(id: string, version: string): string {
+    return `${id}@${version}`;
+  }
+
+  private copy(pack: RulePack): RulePack {
+    return { ...pack, requirements: pack.requirements.map((r) => ({ ...r })) };
+  }
+}
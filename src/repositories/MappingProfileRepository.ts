@@ -0,0 +1,12 @@
+import { MappingProfile } from '../imports/MappingProfile';
+
+/**
+ * Persistence boundary for saved import mapping profiles. Built-in profiles
+ * are always listed and cannot be overwritten or deleted.
+ */
+export interface MappingProfileRepository {
+  findById(id: string): Promise<MappingProfile | null>;
+  findAll(): Promise<MappingProfile[]>;
+  save(profile: MappingProfile): Promise<MappingProfile>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+import { RecipientOrganization } from '../models/Organization';
+
+/**
+ * Persistence boundary for organizations. Organizations are keyed by ID and
+ * can also be found by tax ID, compared ignoring punctuation.
+ *
+ * `save` stores the organization as its next version. When `expectedVersion`
+ * is given it is a compare-and-set, rejecting with `VersionConflictError`
+ * unless the stored organization is at that version.
+ */
+export interface OrganizationRepository {
+  findById(id: string): Promise<RecipientOrganization | null>;
+  findByTaxId(taxId: string): Promise<RecipientOrganization | null>;
+  findAll(): Promise<RecipientOrganization[]>;
+  save(
+    organization: RecipientOrganization,
+    expectedVersion?: number
+  ): Promise<RecipientOrganization>;
+}
@@ -0,0 +1,9 @@
+import { Portfolio } from '../models/Portfolio';
+
+/** Persistence boundary for portfolios. Membership is resolved against the grants when read. */
+export interface PortfolioRepository {
+  findById(id: string): Promise<Portfolio | null>;
+  findAll(): Promise<Portfolio[]>;
+  save(portfolio: Portfolio): Promise<Portfolio>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,15 @@
+import { RulePack } from '../compliance/RulePack';
+
+/**
+ * Persistence boundary for compliance rule packs. Every version of a pack is
+ * kept, since grants can stay pinned to an older one; shipped packs are always
+ * listed.
+ */
+export interface RulePackRepository {
+  /** All versions of all packs */
+  findAll(): Promise<RulePack[]>;
+  /** Versions of one pack, newest first */
+  findVersions(id: string): Promise<RulePack[]>;
+  findVersion(id: string, version: string): Promise<RulePack | null>;
+  save(pack: RulePack): Promise<RulePack>;
+}
@@ -0,0 +1,88 @@
+import {
+  Between,
+  DataSource,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { ComplianceSnapshot } from '../metrics/ComplianceHistory';
+import { ComplianceSummary } from '../metrics/ComplianceMetrics';
+import { ComplianceSnapshotEntity, ComplianceSnapshotRecord } from '../database/schemas';
+import { ComplianceSnapshotRepository, SnapshotRange } from './ComplianceSnapshotRepository';
+
+export class TypeOrmComplianceSnapshotRepository implements ComplianceSnapshotRepository {
+  private repository: Repository<ComplianceSnapshotRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(ComplianceSnapshotEntity);
+  }
+
+  async findByGrant(grantId: string, range: SnapshotRange = {}): Promise<ComplianceSnapshot[]> {
+    const records = await this.repository.find({
+      where: { ...this.takenAt(range), grantId },
+      order: { takenAt: 'ASC' },
+    });
+    return records.map((record) => this.toSnapshot(record));
+  }
+
+  async findAll(range: SnapshotRange = {}): Promise<ComplianceSnapshot[]> {
+    const records = await this.repository.find({
+      where: this.takenAt(range),
+      order: { takenAt: 'ASC' },
+    });
+    return records.map((record) => this.toSnapshot(record));
+  }
+
+  async findLatest(grantId: string): Promise<ComplianceSnapshot | null> {
+    const record = await this.repository.findOne({
+      where: { grantId },
+      order: { takenAt: 'DESC' },
+    });
+    return record ? this.toSnapshot(record) : null;
+  }
+
+  async save(snapshot: ComplianceSnapshot): Promise<ComplianceSnapshot> {
+    await this.repository.save({
+      id: snapshot.id,
+      grantId: snapshot.grantId,
+      grantVersion: snapshot.grantVersion,
+      takenAt: snapshot.takenAt,
+      complianceRate: snapshot.complianceRate,
+      status: snapshot.status,
+      data: JSON.parse(JSON.stringify(snapshot.summary)) as Record<string, unknown>,
+    });
+    return snapshot;
+  }
+
+  private takenAt({ from, to }: SnapshotRange): FindOptionsWhere<ComplianceSnapshotRecord> {
+    if (from && to) {
+      return { takenAt: Between(from, to) };
+    }
+    if (from) {
+      return { takenAt: MoreThanOrEqual(from) };
+    }
+    return to ? { takenAt: LessThanOrEqual(to) } : {};
+  }
+
+  private toSnapshot(record: ComplianceSnapshotRecord): ComplianceSnapshot {
+    const summary = record.data as unknown as ComplianceSummary;
+    return {
+      id: record.id,
+      grantId: record.grantId,
+      grantVersion: record.grantVersion,
+      takenAt: new Date(record.takenAt),
+      complianceRate: record.complianceRate,
+      status: record.status as ComplianceSnapshot['status'],
+      summary: {
+        ...summary,
+        lastAssessment: new Date(summary.lastAssessment),
+        requirements: summary.requirements.map((r) => ({
+          ...r,
+          lastChecked: new Date(r.lastChecked),
+          dueDate: r.dueDate ? new Date(r.dueDate) : undefined,
+        })),
+      },
+    };
+  }
+}
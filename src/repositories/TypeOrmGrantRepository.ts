@@ -0,0 +1,78 @@
+import { DataSource, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { Grant } from '../models/Grant';
+import { GrantEntity, GrantRecord } from '../database/schemas';
+import { VersionConflictError } from '../utils/errors';
+import { GrantRepository } from './GrantRepository';
+
+export class TypeOrmGrantRepository implements GrantRepository {
+  private repository: Repository<GrantRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(GrantEntity);
+  }
+
+  async findById(id: string): Promise<Grant | null> {
+    const record = await this.repository.findOneBy({ id });
+    return record ? this.toGrant(record) : null;
+  }
+
+  async findAll(): Promise<Grant[]> {
+    const records = await this.repository.find({ order: { grantNumber: 'ASC' } });
+    return records.map((record) => this.toGrant(record));
+  }
+
+  async save(grant: Grant, expectedVersion?: number): Promise<Grant> {
+    if (expectedVersion === undefined) {
+      const record = await this.repository.save(this.toRecord(grant));
+      return this.toGrant(record);
+    }
+
+    // Compare-and-set on version so concurrent writers cannot overwrite each other
+    const { id, ...columns } = this.toRecord(grant);
+    const result = await this.repository.update(
+      { id, version: expectedVersion },
+      columns as QueryDeepPartialEntity<GrantRecord>
+    );
+    if (!result.affected) {
+      const current = await this.repository.findOneBy({ id });
+      throw new VersionConflictError(id, expectedVersion, current?.version ?? 0);
+    }
+    return grant;
+  }
+
+  async delete(id: string, expectedVersion?: number): Promise<boolean> {
+    if (expectedVersion === undefined) {
+      const result = await this.repository.delete({ id });
+      return (result.affected ?? 0) > 0;
+    }
+
+    // Same compare-and-set as save: a concurrent update makes the delete miss
+    const result = await this.repository.delete({ id, version: expectedVersion });
+    if (!result.affected) {
+      const current = await this.repository.findOneBy({ id });
+      if (!current) {
+        return false;
+      }
+      throw new VersionConflictError(id, expectedVersion, current.version);
+    }
+    return true;
+  }
+
+  private toGrant(record: GrantRecord): Grant {
+    return Grant.fromJSON({ ...record.data, id: record.id, version: record.version });
+  }
+
+  private toRecord(grant: Grant): GrantRecord {
+    return {
+      id: grant.id,
+      grantNumber: grant.grantNumber,
+      title: grant.title,
+      type: grant.type,
+      status: grant.status,
+      version: grant.version,
+      data: JSON.parse(JSON.stringify(grant)) as Record<string, unknown>,
+      updatedAt: grant.updatedAt,
+    };
+  }
+}
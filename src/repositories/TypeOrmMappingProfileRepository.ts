@@ -0,0 +1,49 @@
+import { DataSource, Repository } from 'typeorm';
+import { BUILT_IN_PROFILES, MappingProfile } from '../imports/MappingProfile';
+import { MappingProfileEntity, MappingProfileRecord } from '../database/schemas';
+import { MappingProfileRepository } from './MappingProfileRepository';
+
+export class TypeOrmMappingProfileRepository implements MappingProfileRepository {
+  private repository: Repository<MappingProfileRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(MappingProfileEntity);
+  }
+
+  async findById(id: string): Promise<MappingProfile | null> {
+    const builtIn = BUILT_IN_PROFILES.find((p) => p.id === id);
+    if (builtIn) {
+      return builtIn;
+    }
+    const record = await this.repository.findOneBy({ id });
+    return record ? this.toProfile(record) : null;
+  }
+
+  async findAll(): Promise<MappingProfile[]> {
+    const records = await this.repository.find({ order: { name: 'ASC' } });
+    return [...BUILT_IN_PROFILES, ...records.map((record) => this.toProfile(record))];
+  }
+
+  async save(profile: MappingProfile): Promise<MappingProfile> {
+    const record = await this.repository.save({
+      id: profile.id,
+      name: profile.name,
+      data: JSON.parse(JSON.stringify(profile)) as Record<string, unknown>,
+      updatedAt: profile.updatedAt || new Date(),
+    });
+    return this.toProfile(record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  private toProfile(record: MappingProfileRecord): MappingProfile {
+    return {
+      ...(record.data as unknown as MappingProfile),
+      id: record.id,
+      updatedAt: new Date(record.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { DataSource, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { OrganizationEntity, OrganizationRecord } from '../database/schemas';
+import {
+  normalizeTaxId,
+  organizationFromJSON,
+  RecipientOrganization,
+} from '../models/Organization';
+import { VersionConflictError } from '../utils/errors';
+import { OrganizationRepository } from './OrganizationRepository';
+
+export class TypeOrmOrganizationRepository implements OrganizationRepository {
+  private repository: Repository<OrganizationRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(OrganizationEntity);
+  }
+
+  async findById(id: string): Promise<RecipientOrganization | null> {
+    const record = await this.repository.findOneBy({ id });
+    return record ? this.toOrganization(record) : null;
+  }
+
+  async findByTaxId(taxId: string): Promise<RecipientOrganization | null> {
+    const normalized = normalizeTaxId(taxId);
+    if (!normalized) {
+      return null;
+    }
+    const record = await this.repository.findOneBy({ taxId: normalized });
+    return record ? this.toOrganization(record) : null;
+  }
+
+  async findAll(): Promise<RecipientOrganization[]> {
+    const records = await this.repository.find({ order: { name: 'ASC' } });
+    return records.map((record) => this.toOrganization(record));
+  }
+
+  async save(
+    organization: RecipientOrganization,
+    expectedVersion?: number
+  ): Promise<RecipientOrganization> {
+    if (expectedVersion === undefined) {
+      const current = await this.repository.findOneBy({ id: organization.id });
+      const record = await this.repository.save(
+        this.toRecord(organization, (current?.version ?? 0) + 1)
+      );
+      return this.toOrganization(record);
+    }
+
+    // Compare-and-set on version so concurrent writers cannot overwrite each other
+    const { id, ...columns } = this.toRecord(organization, expectedVersion + 1);
+    const result = await this.repository.update(
+      { id, version: expectedVersion },
+      columns as QueryDeepPartialEntity<OrganizationRecord>
+    );
+    if (!result.affected) {
+      const current = await this.repository.findOneBy({ id });
+      throw new VersionConflictError(id, expectedVersion, current?.version ?? 0);
+    }
+    return { ...organization, version: expectedVersion + 1 };
+  }
+
+  private toRecord(organization: RecipientOrganization, version: number): OrganizationRecord {
+    return {
+      id: organization.id,
+      name: organization.name,
+      taxId: normalizeTaxId(organization.taxId) ?? null,
+      version,
+      data: JSON.parse(JSON.stringify({ ...organization, version })) as Record<string, unknown>,
+      updatedAt: organization.updatedAt,
+    };
+  }
+
+  private toOrganization(record: OrganizationRecord): RecipientOrganization {
+    return organizationFromJSON({ ...record.data, id: record.id, version: record.version });
+  }
+}
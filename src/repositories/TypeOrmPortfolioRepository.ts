@@ -0,0 +1,41 @@
+import { DataSource, Repository } from 'typeorm';
+import { PortfolioEntity, PortfolioRecord } from '../database/schemas';
+import { Portfolio, portfolioFromJSON } from '../models/Portfolio';
+import { PortfolioRepository } from './PortfolioRepository';
+
+export class TypeOrmPortfolioRepository implements PortfolioRepository {
+  private repository: Repository<PortfolioRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(PortfolioEntity);
+  }
+
+  async findById(id: string): Promise<Portfolio | null> {
+    const record = await this.repository.findOneBy({ id });
+    return record ? this.toPortfolio(record) : null;
+  }
+
+  async findAll(): Promise<Portfolio[]> {
+    const records = await this.repository.find({ order: { name: 'ASC' } });
+    return records.map((record) => this.toPortfolio(record));
+  }
+
+  async save(portfolio: Portfolio): Promise<Portfolio> {
+    const record = await this.repository.save({
+      id: portfolio.id,
+      name: portfolio.name,
+      data: JSON.parse(JSON.stringify(portfolio)) as Record<string, unknown>,
+      updatedAt: portfolio.updatedAt || new Date(),
+    });
+    return this.toPortfolio(record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  private toPortfolio(record: PortfolioRecord): Portfolio {
+    return portfolioFromJSON({ ...record.data, id: record.id, updatedAt: record.updatedAt });
+  }
+}
@@ -0,0 +1,60 @@
+import { DataSource, Repository } from 'typeorm';
+import { compareVersions, RulePack, shippedRulePacks } from '../compliance/RulePack';
+import { RulePackEntity, RulePackRecord } from '../database/schemas';
+import { RulePackRepository } from './RulePackRepository';
+
+export class TypeOrmRulePackRepository implements RulePackRepository {
+  private repository: Repository<RulePackRecord>;
+
+  constructor(dataSource: DataSource) {
+    this.repository = dataSource.getRepository(RulePackEntity);
+  }
+
+  async findAll(): Promise<RulePack[]> {
+    const records = await this.repository.find({ order: { id: 'ASC' } });
+    return [...shippedRulePacks(), ...records.map((record) => this.toPack(record))];
+  }
+
+  async findVersions(id: string): Promise<RulePack[]> {
+    const records = await this.repository.findBy({ id });
+    return [
+      ...shippedRulePacks().filter((p) => p.id === id),
+      ...records.map((r) => this.toPack(r)),
+    ].sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  async findVersion(id: string, version: string): Promise<RulePack | null> {
+    const shipped = shippedRulePacks().find((p) => p.id === id && p.version === version);
+    if (shipped) {
+      return shipped;
+    }
+    const record = await this.repository.findOneBy({ id, version });
+    return record ? this.toPack(record) : null;
+  }
+
+  async save(pack: RulePack): Promise<RulePack> {
+    const record = await this.repository.save({
+      id: pack.id,
+      version: pack.version,
+      name: pack.name,
+      data: JSON.parse(JSON.stringify(pack)) as Record<string, unknown>,
+      publishedAt: pack.publishedAt || new Date(),
+    });
+    return this.toPack(record);
+  }
+
+  private toPack(record: RulePackRecord): RulePack {
+    const pack = record.data as unknown as RulePack;
+    return {
+      ...pack,
+      id: record.id,
+      version: record.version,
+      requirements: pack.requirements.map((r) => ({
+        ...r,
+        applicableFrom: r.applicableFrom ? new Date(r.applicableFrom) : undefined,
+        dueDate: r.dueDate ? new Date(r.dueDate) : undefined,
+      })),
+      publishedAt: new Date(record.publishedAt),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import type { Grant, Organization } from '../models/Grant';
+import type { RecipientOrganization } from '../models/Organization';
+import { isPortfolioMember, Portfolio } from '../models/Portfolio';
+import { GrantRepository } from './GrantRepository';
+import { InMemoryGrantRepository } from './InMemoryGrantRepository';
+import { InMemoryMappingProfileRepository } from './InMemoryMappingProfileRepository';
+import { MappingProfileRepository } from './MappingProfileRepository';
+import { InMemoryRulePackRepository } from './InMemoryRulePackRepository';
+import { RulePackRepository } from './RulePackRepository';
+import { ComplianceSnapshotRepository } from './ComplianceSnapshotRepository';
+import { InMemoryComplianceSnapshotRepository } from './InMemoryComplianceSnapshotRepository';
+import { OrganizationRepository } from './OrganizationRepository';
+import { InMemoryOrganizationRepository } from './InMemoryOrganizationRepository';
+import { PortfolioRepository } from './PortfolioRepository';
+import { InMemoryPortfolioRepository } from './InMemoryPortfolioRepository';
+
+export { GrantRepository } from './GrantRepository';
+export { InMemoryGrantRepository } from './InMemoryGrantRepository';
+export { TypeOrmGrantRepository } from './TypeOrmGrantRepository';
+export { MappingProfileRepository } from './MappingProfileRepository';
+export { InMemoryMappingProfileRepository } from './InMemoryMappingProfileRepository';
+export { TypeOrmMappingProfileRepository } from './TypeOrmMappingProfileRepository';
+export { RulePackRepository } from './RulePackRepository';
+export { InMemoryRulePackRepository } from './InMemoryRulePackRepository';
+export { TypeOrmRulePackRepository } from './TypeOrmRulePackRepository';
+export { ComplianceSnapshotRepository, SnapshotRange } from './ComplianceSnapshotRepository';
+export { InMemoryComplianceSnapshotRepository } from './InMemoryComplianceSnapshotRepository';
+export { TypeOrmComplianceSnapshotRepository } from './TypeOrmComplianceSnapshotRepository';
+export { OrganizationRepository } from './OrganizationRepository';
+export { InMemoryOrganizationRepository } from './InMemoryOrganizationRepository';
+export { TypeOrmOrganizationRepository } from './TypeOrmOrganizationRepository';
+export { PortfolioRepository } from './PortfolioRepository';
+export { InMemoryPortfolioRepository } from './InMemoryPortfolioRepository';
+export { TypeOrmPortfolioRepository } from './TypeOrmPortfolioRepository';
+
+let grantRepository: GrantRepository | null = null;
+let mappingProfileRepository: MappingProfileRepository | null = null;
+let rulePackRepository: RulePackRepository | null = null;
+let complianceSnapshotRepository: ComplianceSnapshotRepository | null = null;
+let organizationRepository: OrganizationRepository | null = null;
+let portfolioRepository: PortfolioRepository | null = null;
+
+/**
+ * Returns the active grant repository. Until database initialization registers
+ * a TypeORM-backed repository via setGrantRepository(), the in-memory
+ * repository seeded from sample-data/grants.json is used.
+ */
+export function getGrantRepository(): GrantRepository {
+  if (!grantRepository) {
+    grantRepository = InMemoryGrantRepository.fromSampleData();
+  }
+  return grantRepository;
+}
+
+export function setGrantRepository(repository: GrantRepository): void {
+  grantRepository = repository;
+}
+
+/** Returns the active mapping profile repository; in-memory with the built-in profiles by default. */
+export function getMappingProfileRepository(): MappingProfileRepository {
+  if (!mappingProfileRepository) {
+    mappingProfileRepository = new InMemoryMappingProfileRepository();
+  }
+  return mappingProfileRepository;
+}
+
+export function setMappingProfileRepository(repository: MappingProfileRepository): void {
+  mappingProfileRepository = repository;
+}
+
+/** Returns the active rule pack repository; in-memory with the shipped packs by default. */
+export function getRulePackRepository(): RulePackRepository {
+  if (!rulePackRepository) {
+    rulePackRepository = new InMemoryRulePackRepository();
+  }
+  return rulePackRepository;
+}
+
+export function setRulePackRepository(repository: RulePackRepository): void {
+  rulePackRepository = repository;
+}
+
+/** Returns the active compliance snapshot repository; in-memory and empty by default. */
+export function getComplianceSnapshotRepository(): ComplianceSnapshotRepository {
+  if (!complianceSnapshotRepository) {
+    complianceSnapshotRepository = new InMemoryComplianceSnapshotRepository();
+  }
+  return complianceSnapshotRepository;
+}
+
+export function setComplianceSnapshotRepository(repository: ComplianceSnapshotRepository): void {
+  complianceSnapshotRepository = repository;
+}
+
+/**
+ * Returns the active organization repository; in-memory and seeded from
+ * sample-data/organizations.json, like the grant repository, by default.
+ */
+export function getOrganizationRepository(): OrganizationRepository {
+  if (!organizationRepository) {
+    organizationRepository = InMemoryOrganizationRepository.fromSampleData();
+  }
+  return organizationRepository;
+}
+
+export function setOrganizationRepository(repository: OrganizationRepository): void {
+  organizationRepository = repository;
+}
+
+/** The registered organization embedded details refer to: by ID, else by tax ID. */
+export async function findOrganization(
+  details: Partial<Organization>
+): Promise<RecipientOrganization | null> {
+  const repository = getOrganizationRepository();
+  return (
+    (details.id ? await repository.findById(details.id) : null) ||
+    (details.taxId ? await repository.findByTaxId(details.taxId) : null)
+  );
+}
+
+/**
+ * Returns the active portfolio repository; in-memory and seeded from
+ * sample-data/portfolios.json by default.
+ */
+export function getPortfolioRepository(): PortfolioRepository {
+  if (!portfolioRepository) {
+    portfolioRepository = InMemoryPortfolioRepository.fromSampleData();
+  }
+  return portfolioRepository;
+}
+
+export function setPortfolioRepository(repository: PortfolioRepository): void {
+  portfolioRepository = repository;
+}
+
+/** Portfolios the grant belongs to, listed by ID or matching their saved filter. */
+export async function portfoliosOf(grant: Grant): Promise<Portfolio[]> {
+  return (await getPortfolioRepository().findAll()).filter((p) => isPortfolioMember(p, grant));
+}
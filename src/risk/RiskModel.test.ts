@@ -0,0 +1,89 @@
+import { ValidationError } from '../utils/errors';
+import { RiskFactor, RiskModel } from './RiskModel';
+
+type Context = { asOf: Date; scores: Record<string, number | undefined> };
+
+/** Factor scoring whatever the context holds for it, times its `scale` parameter. */
+function factor(id: string): RiskFactor<Context> {
+  return {
+    id,
+    name: id,
+    description: '',
+    parameters: { scale: 1 },
+    evaluate: ({ scores }, { scale }) =>
+      scores[id] === undefined
+        ? undefined
+        : { score: (scores[id] as number) * scale, value: scores[id] as number, explanation: id },
+  };
+}
+
+function model(): RiskModel<Context> {
+  return new RiskModel<Context>().register(factor('a'), 0.5).register(factor('b'), 0.25);
+}
+
+const asOf = new Date('2024-06-30');
+
+describe('RiskModel.assess', () => {
+  it('weighs the assessed factors and explains the largest contributions first', async () => {
+    const score = await model().assess({ asOf, scores: { a: 0.2, b: 1 } });
+
+    expect(score.score).toBeCloseTo((0.5 * 0.2 + 0.25 * 1) / 0.75);
+    expect(score.level).toBe('medium');
+    expect(score.factors.map((f) => [f.factorId, f.contribution])).toEqual([
+      ['b', 0.25 / 0.75],
+      ['a', 0.1 / 0.75],
+    ]);
+    expect(score.drivers).toEqual(['b', 'a']);
+  });
+
+  it('leaves factors without data out of the weighting and clamps scores', async () => {
+    const score = await model().assess({ asOf, scores: { a: 3, b: undefined } });
+
+    expect(score).toMatchObject({ score: 1, level: 'high', profile: 'default' });
+    expect(score.factors[1]).toMatchObject({
+      factorId: 'b',
+      assessed: false,
+      score: null,
+      contribution: 0,
+    });
+  });
+
+  it('applies the portfolio profile over the default', async () => {
+    const configured = model().configure({
+      default: { thresholds: { medium: 0.1 } },
+      portfolios: { health: { weights: { b: 0 }, parameters: { a: { scale: 0.5 } } } },
+    });
+
+    const health = await configured.assess({ asOf, scores: { a: 0.4, b: 1 } }, 'health');
+    expect(health).toMatchObject({ profile: 'health', level: 'medium' });
+    expect(health.score).toBeCloseTo(0.2);
+    expect(health.thresholds).toEqual({ medium: 0.1, high: 0.5 });
+
+    const other = await configured.assess({ asOf, scores: { a: 0.4, b: 1 } }, 'education');
+    expect(other.profile).toBe('default');
+  });
+});
+
+describe('RiskModel configuration', () => {
+  it('refuses duplicate factors and profiles naming unknown factors or bad values', () => {
+    expect(() => model().register(factor('a'), 1)).toThrow(ValidationError);
+    expect(() =>
+      model().configure({
+        default: { weights: { c: 1, a: -1 }, parameters: { d: {} } },
+        portfolios: { health: { thresholds: { medium: 0.6 } } },
+      })
+    ).toThrow(
+      'Invalid risk model configuration: default weighs unknown factor c; ' +
+        'default weight of a must be a number of at least 0; ' +
+        'default sets parameters of unknown factor d; ' +
+        'portfolio health thresholds must satisfy 0 <= medium <= high <= 1'
+    );
+  });
+
+  it('lists the factors with their default weights', () => {
+    expect(model().listFactors()).toEqual([
+      { id: 'a', name: 'a', description: '', parameters: { scale: 1 }, defaultWeight: 0.5 },
+      { id: 'b', name: 'b', description: '', parameters: { scale: 1 }, defaultWeight: 0.25 },
+    ]);
+  });
+});
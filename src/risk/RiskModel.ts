@@ -0,0 +1,276 @@
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import type { RecipientOrganization } from '../models/Organization';
+import { ValidationError } from '../utils/errors';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/** What a grant risk factor is assessed against. */
+export interface RiskContext {
+  grant: Grant;
+  asOf: Date;
+  /** The grant's compliance requirements, including those of its rule packs */
+  requirements: ComplianceRequirement[];
+  /** The recipient's record, when it is a registered organization */
+  organization: RecipientOrganization | null;
+  /** The recipient's other grants */
+  recipientGrants: Grant[];
+}
+
+/** What a pre-award risk factor is assessed against. */
+export interface PreAwardRiskContext {
+  organization: RecipientOrganization;
+  asOf: Date;
+  /** The organization's grants, each with its compliance requirements */
+  grants: { grant: Grant; requirements: ComplianceRequirement[] }[];
+  /** The award under consideration */
+  proposal: AwardProposal;
+}
+
+export interface AwardProposal {
+  amount: number;
+  /** Defaults to the currency of the organization's largest award */
+  currency?: string;
+  /** The pending grant, when the proposal is already on file */
+  grantId?: string;
+}
+
+export interface RiskFactorScore {
+  /** 0 (no risk) to 1 (full risk) */
+  score: number;
+  /** The measure the score is derived from, e.g. how far progress lags the timeline */
+  value: number;
+  /** Why the factor scored as it did, in terms a program officer can act on */
+  explanation: string;
+  recommendation?: string;
+}
+
+export interface RiskFactor<C = RiskContext> {
+  id: string;
+  name: string;
+  description: string;
+  /** Tuning values, overridable per profile */
+  parameters?: Record<string, number>;
+  /** Undefined when there is nothing to assess yet, e.g. no measured KPIs */
+  evaluate(
+    context: C,
+    parameters: Record<string, number>
+  ): RiskFactorScore | undefined | Promise<RiskFactorScore | undefined>;
+}
+
+/** Overall score at or above which a grant is at medium or high risk. */
+export interface RiskThresholds {
+  medium: number;
+  high: number;
+}
+
+/** Weights, thresholds and factor parameters, as a whole or as overrides for a portfolio. */
+export interface RiskProfile {
+  weights?: Record<string, number>;
+  thresholds?: Partial<RiskThresholds>;
+  parameters?: Record<string, Record<string, number>>;
+}
+
+export interface RiskModelConfig {
+  default?: RiskProfile;
+  /** Profiles by portfolio ID, applied over the default */
+  portfolios?: Record<string, RiskProfile>;
+}
+
+export interface RiskFactorContribution {
+  factorId: string;
+  name: string;
+  weight: number;
+  assessed: boolean;
+  score: number | null;
+  /** Share of the overall score the factor accounts for: weight × score over the assessed weight */
+  contribution: number;
+  value: number | null;
+  explanation: string;
+  recommendation?: string;
+}
+
+/** Outcome of scoring a subject, such as a grant, on a risk model. */
+export interface RiskScore {
+  asOf: Date;
+  /** `default`, or the portfolio whose profile applied */
+  profile: string;
+  /** Weighted mean of the assessed factors' scores, 0-1 */
+  score: number;
+  level: RiskLevel;
+  thresholds: RiskThresholds;
+  /** Every factor, by contribution, largest first */
+  factors: RiskFactorContribution[];
+  /** Explanations of the factors adding to the score, largest first */
+  drivers: string[];
+}
+
+export interface RiskAssessment extends RiskScore {
+  grantId: string;
+}
+
+export interface PreAwardRiskAssessment extends RiskScore {
+  organizationId: string;
+  proposal: AwardProposal;
+}
+
+const DEFAULT_THRESHOLDS: RiskThresholds = { medium: 0.25, high: 0.5 };
+
+/**
+ * Scores a subject, by default a grant, on a set of registered factors. Each
+ * factor scores 0-1; the overall score is their weighted mean over the
+ * factors that could be assessed, and each factor's contribution to it is
+ * reported so the level can be explained. Weights, thresholds and factor
+ * parameters come from the default profile, overridden by the profile of the
+ * subject's portfolio.
+ */
+export class RiskModel<C extends { asOf: Date } = RiskContext> {
+  private factors = new Map<string, RiskFactor<C>>();
+  private defaultWeights: Record<string, number> = {};
+  private config: RiskModelConfig = {};
+
+  register(factor: RiskFactor<C>, defaultWeight: number): this {
+    if (this.factors.has(factor.id)) {
+      throw new ValidationError(`Risk factor ${factor.id} is already registered`);
+    }
+    this.factors.set(factor.id, factor);
+    this.defaultWeights[factor.id] = defaultWeight;
+    return this;
+  }
+
+  /** Replaces the profiles. Throws when they refer to unknown factors or hold invalid values. */
+  configure(config: RiskModelConfig): this {
+    const base = { ...DEFAULT_THRESHOLDS, ...config.default?.thresholds };
+    const problems = [
+      ...this.profileProblems('default', config.default || {}, DEFAULT_THRESHOLDS),
+      ...Object.entries(config.portfolios || {}).flatMap(([id, profile]) =>
+        this.profileProblems(`portfolio ${id}`, profile, base)
+      ),
+    ];
+    if (problems.length > 0) {
+      throw new ValidationError(`Invalid risk model configuration: ${problems.join('; ')}`);
+    }
+    this.config = config;
+    return this;
+  }
+
+  listFactors(): (Omit<RiskFactor<C>, 'evaluate'> & { defaultWeight: number })[] {
+    return [...this.factors.values()].map(({ id, name, description, parameters }) => ({
+      id,
+      name,
+      description,
+      parameters,
+      defaultWeight: this.defaultWeights[id],
+    }));
+  }
+
+  getConfig(): RiskModelConfig {
+    return this.config;
+  }
+
+  /**
+   * The profile for a portfolio: the default profile with the portfolio's
+   * overrides applied, or the default alone when `portfolioId` has none.
+   */
+  profileFor(portfolioId?: string): {
+    name: string;
+    weights: Record<string, number>;
+    thresholds: RiskThresholds;
+    parameters: Record<string, Record<string, number>>;
+  } {
+    const base = this.config.default || {};
+    const override = portfolioId ? this.config.portfolios?.[portfolioId] : undefined;
+    const parameters: Record<string, Record<string, number>> = {};
+    for (const factor of this.factors.values()) {
+      parameters[factor.id] = {
+        ...factor.parameters,
+        ...base.parameters?.[factor.id],
+        ...override?.parameters?.[factor.id],
+      };
+    }
+    return {
+      name: override ? (portfolioId as string) : 'default',
+      weights: { ...this.defaultWeights, ...base.weights, ...override?.weights },
+      thresholds: { ...DEFAULT_THRESHOLDS, ...base.thresholds, ...override?.thresholds },
+      parameters,
+    };
+  }
+
+  hasProfile(portfolioId: string): boolean {
+    return Boolean(this.config.portfolios?.[portfolioId]);
+  }
+
+  /** Scores the subject with the profile of `portfolioId`, or the default profile. */
+  async assess(context: C, portfolioId?: string): Promise<RiskScore> {
+    const profile = this.profileFor(portfolioId);
+
+    const results: (Omit<RiskFactorContribution, 'contribution'> & { score: number | null })[] = [];
+    for (const factor of this.factors.values()) {
+      const weight = profile.weights[factor.id] ?? 0;
+      const result = await factor.evaluate(context, profile.parameters[factor.id]);
+      results.push({
+        factorId: factor.id,
+        name: factor.name,
+        weight,
+        assessed: result !== undefined,
+        score: result ? Math.min(Math.max(result.score, 0), 1) : null,
+        value: result ? result.value : null,
+        explanation: result ? result.explanation : 'Not assessed: no data yet',
+        recommendation: result?.recommendation,
+      });
+    }
+
+    const assessedWeight = results
+      .filter((r) => r.score !== null)
+      .reduce((sum, r) => sum + r.weight, 0);
+    const factors = results
+      .map((r) => ({
+        ...r,
+        contribution:
+          r.score !== null && assessedWeight > 0 ? (r.weight * r.score) / assessedWeight : 0,
+      }))
+      .sort((a, b) => b.contribution - a.contribution);
+    const score = factors.reduce((sum, f) => sum + f.contribution, 0);
+
+    let level: RiskLevel = 'low';
+    if (score >= profile.thresholds.high) {
+      level = 'high';
+    } else if (score >= profile.thresholds.medium) {
+      level = 'medium';
+    }
+
+    return {
+      asOf: context.asOf,
+      profile: profile.name,
+      score,
+      level,
+      thresholds: profile.thresholds,
+      factors,
+      drivers: factors.filter((f) => f.contribution > 0).map((f) => f.explanation),
+    };
+  }
+
+  private profileProblems(
+    label: string,
+    profile: RiskProfile,
+    baseThresholds: RiskThresholds
+  ): string[] {
+    const problems: string[] = [];
+    for (const [id, weight] of Object.entries(profile.weights || {})) {
+      if (!this.factors.has(id)) {
+        problems.push(`${label} weighs unknown factor ${id}`);
+      } else if (typeof weight !== 'number' || !(weight >= 0)) {
+        problems.push(`${label} weight of ${id} must be a number of at least 0`);
+      }
+    }
+    for (const id of Object.keys(profile.parameters || {})) {
+      if (!this.factors.has(id)) {
+        problems.push(`${label} sets parameters of unknown factor ${id}`);
+      }
+    }
+    const { medium, high } = { ...baseThresholds, ...profile.thresholds };
+    if (!(medium >= 0 && medium <= high && high <= 1)) {
+      problems.push(`${label} thresholds must satisfy 0 <= medium <= high <= 1`);
+    }
+    return problems;
+  }
+}
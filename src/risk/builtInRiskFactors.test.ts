@@ -0,0 +1,170 @@
+import { Expenditure, Grant } from '../models/Grant';
+import type { KPI } from '../models/KPI';
+import type { RecipientOrganization } from '../models/Organization';
+import {
+  budgetVarianceFactor,
+  kpiAchievementFactor,
+  recipientHistoryFactor,
+  timelineVarianceFactor,
+} from './builtInRiskFactors';
+import type { RiskContext, RiskFactor, RiskFactorScore } from './RiskModel';
+
+const asOf = new Date('2024-07-01T00:00:00Z');
+const elapsed = 182 / 366;
+
+function grant(percentComplete: number, spent = 0, kpis: KPI[] = []): Grant {
+  const expenditures: Expenditure[] = spent
+    ? [
+        {
+          id: 'EXP-1',
+          date: new Date('2024-03-01'),
+          category: 'Personnel',
+          description: '',
+          amount: spent,
+          status: 'approved',
+        },
+      ]
+    : [];
+  return new Grant({
+    id: 'GR-1',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2025-01-01T00:00:00Z'),
+    milestones: [
+      {
+        id: 'MIL-1',
+        name: 'Clinics open',
+        description: '',
+        dueDate: new Date('2024-12-01'),
+        status: 'in-progress',
+        deliverables: [],
+        percentComplete,
+      },
+    ],
+    expenditures,
+    kpis,
+  });
+}
+
+function context(g: Grant, overrides: Partial<RiskContext> = {}): RiskContext {
+  return {
+    grant: g,
+    asOf,
+    requirements: [],
+    organization: null,
+    recipientGrants: [],
+    ...overrides,
+  };
+}
+
+async function evaluate(
+  riskFactor: RiskFactor,
+  ctx: RiskContext
+): Promise<RiskFactorScore | undefined> {
+  return riskFactor.evaluate(ctx, riskFactor.parameters || {});
+}
+
+describe('timelineVarianceFactor', () => {
+  it('ramps the lag of progress behind the timeline and ignores progress ahead of it', async () => {
+    const behind = await evaluate(timelineVarianceFactor, context(grant(20)));
+    expect(behind?.value).toBeCloseTo(elapsed - 0.2);
+    expect(behind?.score).toBeCloseTo((elapsed - 0.2 - 0.1) / 0.3);
+    expect(behind?.recommendation).toBeDefined();
+
+    const ahead = await evaluate(timelineVarianceFactor, context(grant(80)));
+    expect(ahead).toMatchObject({ score: 0 });
+    expect(ahead?.explanation).toMatch(/^Ahead of schedule/);
+  });
+
+  it('is not assessed without milestones', async () => {
+    const g = grant(0);
+    g.milestones = [];
+    expect(await evaluate(timelineVarianceFactor, context(g))).toBeUndefined();
+  });
+});
+
+describe('budgetVarianceFactor', () => {
+  it('scores spending ahead of progress in full', async () => {
+    const over = await evaluate(budgetVarianceFactor, context(grant(20, 70000)));
+    expect(over).toMatchObject({ score: 1 });
+    expect(over?.value).toBeCloseTo(0.5);
+  });
+
+  it('scores spending behind the timeline at the underspend factor', async () => {
+    const under = await evaluate(budgetVarianceFactor, context(grant(80)));
+    expect(under?.score).toBeCloseTo(0.5);
+    expect(under?.value).toBeCloseTo(-elapsed);
+  });
+});
+
+describe('kpiAchievementFactor', () => {
+  const kpi = (value: number): KPI => ({
+    id: 'KPI-1',
+    name: 'Residents screened',
+    description: '',
+    unit: 'people',
+    measurementFrequency: 'monthly',
+    dataSource: 'Records',
+    direction: 'higher-is-better',
+    targetValue: 400,
+    interimTargets: [],
+    measurements: [
+      {
+        id: 'M-1',
+        value,
+        date: new Date('2024-05-31'),
+        dataSource: 'Records',
+        recordedBy: 'sam',
+        recordedDate: new Date('2024-06-01'),
+        verificationStatus: 'verified',
+      },
+    ],
+  });
+
+  it('ramps the mean shortfall of measured KPIs', async () => {
+    const result = await evaluate(kpiAchievementFactor, context(grant(50, 0, [kpi(300)])));
+    expect(result).toMatchObject({ score: 0.5, value: 0.25 });
+    expect(await evaluate(kpiAchievementFactor, context(grant(50)))).toBeUndefined();
+  });
+});
+
+describe('recipientHistoryFactor', () => {
+  it('averages suspended grants and open audit findings into the record', async () => {
+    const suspended = new Grant({ id: 'GR-0', status: 'suspended' });
+    const organization = {
+      id: 'ORG-1',
+      name: 'Health Partners',
+      auditFindings: [
+        {
+          id: 'AF-1',
+          auditYear: 2023,
+          auditor: 'Audit LLP',
+          type: 'significant-deficiency',
+          description: '',
+          reportedDate: new Date('2024-02-01'),
+          status: 'open',
+        },
+        {
+          id: 'AF-2',
+          auditYear: 2024,
+          auditor: 'Audit LLP',
+          type: 'material-weakness',
+          description: '',
+          reportedDate: new Date('2024-09-01'),
+          status: 'open',
+        },
+      ],
+    } as RecipientOrganization;
+
+    const result = await evaluate(
+      recipientHistoryFactor,
+      context(grant(50), { organization, recipientGrants: [suspended] })
+    );
+    expect(result).toMatchObject({ value: 0.75, score: 1 });
+    expect(result?.explanation).toBe(
+      'Recipient record across 1 other grants shows grant GR-0 suspended; ' +
+        'open significant-deficiency audit finding AF-1'
+    );
+    expect(await evaluate(recipientHistoryFactor, context(grant(50)))).toBeUndefined();
+  });
+});
@@ -0,0 +1,236 @@
+import { kpiAchievement } from '../models/KPI';
+import { AUDIT_FINDING_WEIGHTS } from '../models/Organization';
+import {
+  approvedSpend,
+  complianceShortfall,
+  percent,
+  progressAsOf,
+  ramp,
+  reportingLateness,
+  timelineProgress,
+} from './measures';
+import type { RiskFactor, RiskContext } from './RiskModel';
+
+export const timelineVarianceFactor: RiskFactor = {
+  id: 'timeline-variance',
+  name: 'Timeline Variance',
+  description:
+    'How far weighted milestone progress lags the share of the grant period elapsed. Progress ahead of the timeline carries no risk.',
+  parameters: { tolerance: 0.1, fullRiskAt: 0.4 },
+  evaluate({ grant, asOf }: RiskContext, parameters) {
+    if (grant.milestones.length === 0) {
+      return undefined;
+    }
+    const progress = progressAsOf(grant, asOf);
+    const elapsed = timelineProgress(grant, asOf);
+    const behind = elapsed - progress;
+    if (behind <= 0) {
+      return {
+        score: 0,
+        value: behind,
+        explanation: `Ahead of schedule: ${percent(progress)} of milestone work done with ${percent(elapsed)} of the grant period elapsed`,
+      };
+    }
+    const score = ramp(behind, parameters);
+    return {
+      score,
+      value: behind,
+      explanation: `Progress lags the timeline by ${percent(behind)}: ${percent(progress)} of milestone work done with ${percent(elapsed)} of the grant period elapsed`,
+      recommendation:
+        score > 0
+          ? 'Review the critical path with the recipient and agree a recovery plan for late milestones'
+          : undefined,
+    };
+  },
+};
+
+export const budgetVarianceFactor: RiskFactor = {
+  id: 'budget-variance',
+  name: 'Budget Variance',
+  description:
+    'Spending ahead of milestone progress, or, weighted down by underspendFactor, spending behind the timeline.',
+  parameters: { tolerance: 0.1, fullRiskAt: 0.4, underspendFactor: 0.5 },
+  evaluate({ grant, asOf }: RiskContext, parameters) {
+    if (grant.totalFunding <= 0) {
+      return undefined;
+    }
+    const utilization = approvedSpend(grant, asOf) / grant.totalFunding;
+    const progress = progressAsOf(grant, asOf);
+    const elapsed = timelineProgress(grant, asOf);
+    const overspend = utilization - progress;
+    const underspend = elapsed - utilization;
+
+    if (overspend > 0 && overspend >= underspend) {
+      const score = ramp(overspend, parameters);
+      return {
+        score,
+        value: overspend,
+        explanation: `${percent(utilization)} of funding spent for ${percent(progress)} of milestone work done`,
+        recommendation:
+          score > 0
+            ? 'Review expenditures against deliverables and consider a budget revision'
+            : undefined,
+      };
+    }
+    if (underspend > 0) {
+      const score = ramp(underspend, parameters) * (parameters.underspendFactor ?? 1);
+      return {
+        score,
+        value: -underspend,
+        explanation: `${percent(utilization)} of funding spent with ${percent(elapsed)} of the grant period elapsed`,
+        recommendation:
+          score > 0
+            ? 'Confirm the recipient can still spend the remaining funds within the grant period'
+            : undefined,
+      };
+    }
+    return {
+      score: 0,
+      value: 0,
+      explanation: `Spending of ${percent(utilization)} is in line with progress and the timeline`,
+    };
+  },
+};
+
+export const complianceIssuesFactor: RiskFactor = {
+  id: 'compliance-issues',
+  name: 'Compliance Issues',
+  description: 'Share of assessed compliance requirements not met, weighted by severity.',
+  parameters: { fullRiskAt: 0.5 },
+  async evaluate({ grant, asOf, requirements }: RiskContext, parameters) {
+    const { assessed, failing, share } = await complianceShortfall(grant, requirements, asOf);
+    if (assessed.length === 0) {
+      return undefined;
+    }
+    if (failing.length === 0) {
+      return {
+        score: 0,
+        value: 0,
+        explanation: `All ${assessed.length} assessed compliance requirements are met`,
+      };
+    }
+    return {
+      score: ramp(share, parameters),
+      value: share,
+      explanation: `${failing.length} of ${assessed.length} compliance requirements not met (${failing
+        .map((r) => `${r.requirementId}, ${r.severity}`)
+        .join('; ')})`,
+      recommendation: 'Open corrective actions for the unmet requirements',
+    };
+  },
+};
+
+export const kpiAchievementFactor: RiskFactor = {
+  id: 'kpi-achievement',
+  name: 'KPI Achievement',
+  description: 'Mean shortfall of measured KPIs against their current targets.',
+  parameters: { tolerance: 0, fullRiskAt: 0.5 },
+  evaluate({ grant, asOf }: RiskContext, parameters) {
+    const measured = grant.kpis
+      .map((k) => kpiAchievement(k, asOf))
+      .filter((k) => k.achievement !== null);
+    if (measured.length === 0) {
+      return undefined;
+    }
+    const shortfalls = measured.map((k) => 1 - Math.min(Math.max(k.achievement as number, 0), 1));
+    const shortfall = shortfalls.reduce((sum, s) => sum + s, 0) / shortfalls.length;
+    const lagging = measured.filter((k) => k.status === 'at-risk' || k.status === 'off-track');
+    const score = ramp(shortfall, parameters);
+    return {
+      score,
+      value: shortfall,
+      explanation:
+        lagging.length > 0
+          ? `KPIs fall ${percent(shortfall)} short of target on average; behind: ${lagging
+              .map((k) => k.name)
+              .join(', ')}`
+          : `${measured.length} measured KPIs are on track or better`,
+      recommendation:
+        score > 0 ? 'Discuss the lagging KPIs at the next progress review' : undefined,
+    };
+  },
+};
+
+export const reportingLatenessFactor: RiskFactor = {
+  id: 'reporting-lateness',
+  name: 'Reporting Lateness',
+  description:
+    'Share of scheduled reports due so far that were submitted late (counting half) or are overdue.',
+  parameters: { tolerance: 0, fullRiskAt: 0.5 },
+  evaluate({ grant, asOf }: RiskContext, parameters) {
+    const { due, late, overdue } = reportingLateness(grant, asOf);
+    if (due === 0) {
+      return undefined;
+    }
+    const share = (late * 0.5 + overdue) / due;
+    const score = ramp(share, parameters);
+    return {
+      score,
+      value: share,
+      explanation:
+        late + overdue > 0
+          ? `Of ${due} reports due, ${late} submitted late and ${overdue} overdue`
+          : `All ${due} reports due were submitted on time`,
+      recommendation:
+        overdue > 0
+          ? 'Follow up on the overdue reports'
+          : score > 0
+            ? 'Remind the recipient of upcoming reporting deadlines'
+            : undefined,
+    };
+  },
+};
+
+export const recipientHistoryFactor: RiskFactor = {
+  id: 'recipient-history',
+  name: 'Recipient History',
+  description:
+    "The recipient's record on its other grants and in audits: suspended or terminated grants count in full, others by their share of late or overdue reports, and each open audit finding by its type.",
+  parameters: { tolerance: 0, fullRiskAt: 0.5 },
+  evaluate({ asOf, organization, recipientGrants }: RiskContext, parameters) {
+    const findings = (organization?.auditFindings || []).filter(
+      (f) => f.status === 'open' && f.reportedDate <= asOf
+    );
+    if (recipientGrants.length === 0 && findings.length === 0) {
+      return undefined;
+    }
+    const issues: string[] = [];
+    const scores = recipientGrants.map((other) => {
+      if (other.status === 'suspended' || other.status === 'terminated') {
+        issues.push(`grant ${other.id} ${other.status}`);
+        return 1;
+      }
+      const { due, late, overdue } = reportingLateness(other, asOf);
+      if (late + overdue > 0) {
+        issues.push(`grant ${other.id} with ${late + overdue} of ${due} reports late or overdue`);
+      }
+      return due > 0 ? (late * 0.5 + overdue) / due : 0;
+    });
+    for (const finding of findings) {
+      issues.push(`open ${finding.type} audit finding ${finding.id}`);
+      scores.push(AUDIT_FINDING_WEIGHTS[finding.type]);
+    }
+    const value = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+    const score = ramp(value, parameters);
+    return {
+      score,
+      value,
+      explanation:
+        issues.length > 0
+          ? `Recipient record across ${recipientGrants.length} other grants shows ${issues.join('; ')}`
+          : `Recipient has a clean record on ${recipientGrants.length} other grants`,
+      recommendation:
+        score > 0 ? 'Consider closer monitoring or more frequent reporting' : undefined,
+    };
+  },
+};
+
+/** Built-in factors with their default weights. */
+export const BUILT_IN_RISK_FACTORS: [RiskFactor, number][] = [
+  [timelineVarianceFactor, 0.25],
+  [budgetVarianceFactor, 0.25],
+  [complianceIssuesFactor, 0.2],
+  [kpiAchievementFactor, 0.15],
+  [reportingLatenessFactor, 0.1],
+  [recipientHistoryFactor, 0.05],
+];
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import { complianceRequirementsFor } from '../compliance';
+import type { Grant, GrantStatus } from '../models/Grant';
+import { grantsOf, RecipientOrganization } from '../models/Organization';
+import { findOrganization, getGrantRepository, portfoliosOf } from '../repositories';
+import { BUILT_IN_RISK_FACTORS } from './builtInRiskFactors';
+import { PRE_AWARD_RISK_FACTORS } from './preAwardRiskFactors';
+import {
+  AwardProposal,
+  PreAwardRiskAssessment,
+  PreAwardRiskContext,
+  RiskAssessment,
+  RiskModel,
+  RiskModelConfig,
+} from './RiskModel';
+
+export {
+  AwardProposal,
+  PreAwardRiskAssessment,
+  PreAwardRiskContext,
+  RiskAssessment,
+  RiskContext,
+  RiskFactor,
+  RiskFactorContribution,
+  RiskFactorScore,
+  RiskLevel,
+  RiskModel,
+  RiskModelConfig,
+  RiskProfile,
+  RiskScore,
+  RiskThresholds,
+} from './RiskModel';
+export { BUILT_IN_RISK_FACTORS } from './builtInRiskFactors';
+export { PRE_AWARD_RISK_FACTORS } from './preAwardRiskFactors';
+
+/** Grants not yet awarded, which have no record to assess */
+const PRE_AWARD_STATUSES: GrantStatus[] = ['draft', 'submitted', 'under-review'];
+
+let riskModel: RiskModel | null = null;
+let preAwardRiskModel: RiskModel<PreAwardRiskContext> | null = null;
+
+/** Reads risk profiles from a YAML or JSON file of the form `{ default?, portfolios? }`. */
+export function loadRiskModelConfig(filePath: string): RiskModelConfig {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const parsed: unknown = /\.ya?ml$/i.test(filePath) ? yaml.load(text) : JSON.parse(text);
+  return (parsed || {}) as RiskModelConfig;
+}
+
+/**
+ * Returns the active risk model: the built-in factors, with the profiles in
+ * the file named by RISK_MODEL_PATH, unless another model is registered via
+ * setRiskModel().
+ */
+export function getRiskModel(): RiskModel {
+  if (!riskModel) {
+    riskModel = new RiskModel();
+    for (const [factor, weight] of BUILT_IN_RISK_FACTORS) {
+      riskModel.register(factor, weight);
+    }
+    if (process.env.RISK_MODEL_PATH) {
+      riskModel.configure(loadRiskModelConfig(process.env.RISK_MODEL_PATH));
+    }
+  }
+  return riskModel;
+}
+
+export function setRiskModel(model: RiskModel): void {
+  riskModel = model;
+}
+
+/**
+ * Assesses a grant with the active risk model, against its compliance
+ * requirements and the record of its recipient: its audit findings and its
+ * other grants, matched on the organization's ID or tax ID. The profile is
+ * that of `portfolioId`, else of the first portfolio the grant belongs to
+ * that has one.
+ */
+export async function assessGrantRisk(
+  grant: Grant,
+  options: { asOf?: Date; portfolioId?: string } = {}
+): Promise<RiskAssessment> {
+  const model = getRiskModel();
+  const organization = await findOrganization(grant.recipient);
+  const recipientGrants = grantsOf(
+    organization || grant.recipient,
+    await getGrantRepository().findAll()
+  ).filter((g) => g.id !== grant.id);
+  const portfolioId =
+    options.portfolioId ??
+    (await portfoliosOf(grant)).map((p) => p.id).find((id) => model.hasProfile(id));
+  const score = await model.assess(
+    {
+      grant,
+      asOf: options.asOf || new Date(),
+      requirements: await complianceRequirementsFor(grant),
+      organization,
+      recipientGrants,
+    },
+    portfolioId
+  );
+  return { grantId: grant.id, ...score };
+}
+
+/**
+ * Returns the active pre-award risk model: the built-in pre-award factors,
+ * with the profiles in the file named by PRE_AWARD_RISK_MODEL_PATH, unless
+ * another model is registered via setPreAwardRiskModel().
+ */
+export function getPreAwardRiskModel(): RiskModel<PreAwardRiskContext> {
+  if (!preAwardRiskModel) {
+    preAwardRiskModel = new RiskModel<PreAwardRiskContext>();
+    for (const [factor, weight] of PRE_AWARD_RISK_FACTORS) {
+      preAwardRiskModel.register(factor, weight);
+    }
+    if (process.env.PRE_AWARD_RISK_MODEL_PATH) {
+      preAwardRiskModel.configure(loadRiskModelConfig(process.env.PRE_AWARD_RISK_MODEL_PATH));
+    }
+  }
+  return preAwardRiskModel;
+}
+
+export function setPreAwardRiskModel(model: RiskModel<PreAwardRiskContext>): void {
+  preAwardRiskModel = model;
+}
+
+/**
+ * Scores an organization before a proposed award, on its record across the
+ * grants awarded to it so far. The proposal's own grant, if already on file,
+ * is left out of the record.
+ */
+export async function assessPreAwardRisk(
+  organization: RecipientOrganization,
+  proposal: AwardProposal,
+  options: { asOf?: Date; portfolioId?: string } = {}
+): Promise<PreAwardRiskAssessment> {
+  const awarded = grantsOf(organization, await getGrantRepository().findAll()).filter(
+    (g) => g.id !== proposal.grantId && !PRE_AWARD_STATUSES.includes(g.status)
+  );
+  const grants = [];
+  for (const grant of awarded) {
+    grants.push({ grant, requirements: await complianceRequirementsFor(grant) });
+  }
+  const score = await getPreAwardRiskModel().assess(
+    { organization, asOf: options.asOf || new Date(), grants, proposal },
+    options.portfolioId
+  );
+  return { organizationId: organization.id, proposal, ...score };
+}
@@ -0,0 +1,87 @@
+import { reportingStatus } from '../compliance';
+import {
+  ComplianceMetrics,
+  ComplianceStatus,
+  SEVERITY_WEIGHTS,
+} from '../metrics/ComplianceMetrics';
+import type { ComplianceRequirement, Grant } from '../models/Grant';
+import { milestoneProgress } from '../models/MilestoneSchedule';
+import { DAY_MS } from '../utils/dates';
+
+// Measures shared by the grant and pre-award risk factors
+
+export const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+/**
+ * Scales a measure to a 0-1 score: 0 up to `tolerance`, rising linearly to
+ * 1 at `fullRiskAt`.
+ */
+export const ramp = (
+  value: number,
+  { tolerance = 0, fullRiskAt = 1 }: Record<string, number>
+): number =>
+  fullRiskAt > tolerance
+    ? Math.min(Math.max((value - tolerance) / (fullRiskAt - tolerance), 0), 1)
+    : value > tolerance
+      ? 1
+      : 0;
+
+/** Share of the grant period elapsed by `asOf`, 0-1. */
+export function timelineProgress(grant: Grant, asOf: Date): number {
+  const start = grant.startDate.getTime();
+  const totalDays = (grant.endDate.getTime() - start) / DAY_MS;
+  const elapsedDays = (asOf.getTime() - start) / DAY_MS;
+  return totalDays > 0 ? Math.min(Math.max(elapsedDays / totalDays, 0), 1) : 0;
+}
+
+/** Weighted milestone progress, not counting milestones completed after `asOf`. */
+export function progressAsOf(grant: Grant, asOf: Date): number {
+  const milestones = grant.milestones.map((m) =>
+    m.status === 'completed' && m.completionDate && m.completionDate > asOf
+      ? { ...m, status: 'in-progress' as const }
+      : m
+  );
+  return milestoneProgress(milestones, grant.startDate);
+}
+
+export function approvedSpend(grant: Grant, asOf: Date): number {
+  return grant.expenditures
+    .filter((e) => e.status === 'approved' && e.date <= asOf)
+    .reduce((sum, e) => sum + grant.getAmountInGrantCurrency(e), 0);
+}
+
+/** Scheduled reports due by `asOf`, and how many of them were late or are overdue. */
+export function reportingLateness(
+  grant: Grant,
+  asOf: Date
+): { due: number; late: number; overdue: number } {
+  const reports = reportingStatus(grant, asOf).filter((r) => r.status !== 'upcoming');
+  return {
+    due: reports.length,
+    late: reports.filter((r) => r.status === 'late').length,
+    overdue: reports.filter((r) => r.status === 'overdue').length,
+  };
+}
+
+/**
+ * Requirements assessed compliant or non-compliant as of `asOf`, those not
+ * met, and the severity-weighted share not met.
+ */
+export async function complianceShortfall(
+  grant: Grant,
+  requirements: ComplianceRequirement[],
+  asOf: Date
+): Promise<{ assessed: ComplianceStatus[]; failing: ComplianceStatus[]; share: number }> {
+  const summary = await new ComplianceMetrics().assessCompliance(grant, requirements, asOf);
+  const assessed = summary.requirements.filter(
+    (r) => r.status === 'compliant' || r.status === 'non-compliant'
+  );
+  const failing = assessed.filter((r) => r.status === 'non-compliant');
+  const weight = (list: ComplianceStatus[]): number =>
+    list.reduce((sum, r) => sum + SEVERITY_WEIGHTS[r.severity], 0);
+  return {
+    assessed,
+    failing,
+    share: assessed.length > 0 ? weight(failing) / weight(assessed) : 0,
+  };
+}
@@ -0,0 +1,110 @@
+import { Grant } from '../models/Grant';
+import { organizationFromJSON, RecipientOrganization } from '../models/Organization';
+import {
+  auditFindingsFactor,
+  awardSizeFactor,
+  financialManagementFactor,
+  organizationAgeFactor,
+} from './preAwardRiskFactors';
+import type { PreAwardRiskContext, RiskFactor, RiskFactorScore } from './RiskModel';
+
+const asOf = new Date('2024-06-30T00:00:00Z');
+
+function organization(auditFindings: Record<string, unknown>[] = []): RecipientOrganization {
+  return organizationFromJSON({
+    id: 'ORG-1',
+    name: 'Health Partners',
+    registrationDate: '2023-06-30T00:00:00Z',
+    auditFindings,
+  });
+}
+
+function grant(id: string, status: string, totalFunding: number, spent: number): Grant {
+  return Grant.fromJSON({
+    id,
+    status,
+    currency: 'USD',
+    totalFunding,
+    startDate: '2022-01-01T00:00:00Z',
+    endDate: '2023-12-31T00:00:00Z',
+    expenditures: [
+      { id: `${id}-E1`, date: '2023-06-01', category: 'Staff', amount: spent, status: 'approved' },
+    ],
+  });
+}
+
+async function evaluate(
+  factor: RiskFactor<PreAwardRiskContext>,
+  context: Partial<PreAwardRiskContext>
+): Promise<RiskFactorScore | undefined> {
+  return factor.evaluate(
+    { organization: organization(), asOf, grants: [], proposal: { amount: 100000 }, ...context },
+    factor.parameters || {}
+  );
+}
+
+describe('auditFindingsFactor', () => {
+  it('weighs findings by type, resolved ones at half, within the lookback', async () => {
+    const result = await evaluate(auditFindingsFactor, {
+      organization: organization([
+        { id: 'AF-1', type: 'material-weakness', reportedDate: '2024-01-15', status: 'open' },
+        {
+          id: 'AF-2',
+          type: 'questioned-costs',
+          reportedDate: '2023-02-28',
+          status: 'resolved',
+          resolvedDate: '2023-09-30',
+        },
+        { id: 'AF-3', type: 'noncompliance', reportedDate: '2020-03-01', status: 'open' },
+      ]),
+    });
+
+    expect(result?.value).toBeCloseTo(1 + 0.75 / 2);
+    expect(result?.score).toBeCloseTo(1.375 / 1.5);
+    expect(result?.explanation).toBe(
+      '2 audit findings in the last 3 years, 1 open: AF-1 material-weakness (open); AF-2 questioned-costs'
+    );
+  });
+});
+
+describe('awardSizeFactor', () => {
+  it('compares the proposal with the largest prior award in its currency', async () => {
+    const grants = [
+      { grant: grant('GR-1', 'closed', 50000, 50000), requirements: [] },
+      { grant: grant('GR-2', 'closed', 20000, 20000), requirements: [] },
+    ];
+
+    const large = await evaluate(awardSizeFactor, { grants, proposal: { amount: 150000 } });
+    expect(large).toMatchObject({ value: 3 });
+    expect(large?.score).toBeCloseTo(1.5 / 2.5);
+
+    const first = await evaluate(awardSizeFactor, {
+      grants,
+      proposal: { amount: 150000, currency: 'EUR' },
+    });
+    expect(first).toMatchObject({ score: 0.5, value: 0 });
+  });
+});
+
+describe('financialManagementFactor', () => {
+  it('measures unspent or overspent funds on closed grants', async () => {
+    const result = await evaluate(financialManagementFactor, {
+      grants: [
+        { grant: grant('GR-1', 'closed', 100000, 70000), requirements: [] },
+        { grant: grant('GR-2', 'closed', 100000, 110000), requirements: [] },
+      ],
+    });
+
+    expect(result?.value).toBeCloseTo(0.2);
+    expect(result?.score).toBeCloseTo(0.1 / 0.3);
+    expect(await evaluate(financialManagementFactor, {})).toBeUndefined();
+  });
+});
+
+describe('organizationAgeFactor', () => {
+  it('scores newly registered organizations higher until they mature', async () => {
+    const result = await evaluate(organizationAgeFactor, {});
+    expect(result?.value).toBeCloseTo(1, 2);
+    expect(result?.score).toBeCloseTo(2 / 3, 2);
+  });
+});
@@ -0,0 +1,228 @@
+import { AUDIT_FINDING_WEIGHTS } from '../models/Organization';
+import { DAY_MS } from '../utils/dates';
+import {
+  approvedSpend,
+  complianceShortfall,
+  percent,
+  progressAsOf,
+  ramp,
+  reportingLateness,
+} from './measures';
+import type { PreAwardRiskContext, RiskFactor } from './RiskModel';
+
+const CLOSED_STATUSES = ['completed', 'terminated', 'closed'];
+
+export const complianceHistoryFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'compliance-history',
+  name: 'Compliance History',
+  description:
+    "Mean severity-weighted share of compliance requirements not met across the organization's grants; suspended or terminated grants count in full.",
+  parameters: { tolerance: 0, fullRiskAt: 0.5 },
+  async evaluate({ asOf, grants }: PreAwardRiskContext, parameters) {
+    const shares: number[] = [];
+    const issues: string[] = [];
+    for (const { grant, requirements } of grants) {
+      if (grant.status === 'suspended' || grant.status === 'terminated') {
+        shares.push(1);
+        issues.push(`${grant.id} ${grant.status}`);
+        continue;
+      }
+      const { assessed, failing, share } = await complianceShortfall(grant, requirements, asOf);
+      if (assessed.length > 0) {
+        shares.push(share);
+      }
+      if (failing.length > 0) {
+        issues.push(`${grant.id} meets ${assessed.length - failing.length} of ${assessed.length}`);
+      }
+    }
+    if (shares.length === 0) {
+      return undefined;
+    }
+    const value = shares.reduce((sum, s) => sum + s, 0) / shares.length;
+    const score = ramp(value, parameters);
+    return {
+      score,
+      value,
+      explanation:
+        issues.length > 0
+          ? `Compliance issues on ${issues.length} of ${grants.length} grants: ${issues.join('; ')}`
+          : `All assessed requirements met on ${shares.length} grants`,
+      recommendation:
+        score > 0 ? 'Make resolving the open compliance issues a condition of award' : undefined,
+    };
+  },
+};
+
+export const reportingHistoryFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'reporting-history',
+  name: 'Reporting History',
+  description:
+    "Share of reports due across the organization's grants that were submitted late (counting half) or are overdue.",
+  parameters: { tolerance: 0, fullRiskAt: 0.5 },
+  evaluate({ asOf, grants }: PreAwardRiskContext, parameters) {
+    let due = 0;
+    let late = 0;
+    let overdue = 0;
+    const affected: string[] = [];
+    for (const { grant } of grants) {
+      const lateness = reportingLateness(grant, asOf);
+      due += lateness.due;
+      late += lateness.late;
+      overdue += lateness.overdue;
+      if (lateness.late + lateness.overdue > 0) {
+        affected.push(grant.id);
+      }
+    }
+    if (due === 0) {
+      return undefined;
+    }
+    const value = (late * 0.5 + overdue) / due;
+    const score = ramp(value, parameters);
+    return {
+      score,
+      value,
+      explanation:
+        late + overdue > 0
+          ? `Of ${due} reports due across ${grants.length} grants, ${late} submitted late and ${overdue} overdue (${affected.join(', ')})`
+          : `All ${due} reports due across ${grants.length} grants were submitted on time`,
+      recommendation: score > 0 ? 'Require more frequent reporting in the award terms' : undefined,
+    };
+  },
+};
+
+export const auditFindingsFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'audit-findings',
+  name: 'Audit Findings',
+  description:
+    'Audit findings reported within lookbackYears, weighted by type; resolved findings count half.',
+  parameters: { lookbackYears: 3, tolerance: 0, fullRiskAt: 1.5 },
+  evaluate({ organization, asOf }: PreAwardRiskContext, parameters) {
+    const since = new Date(asOf.getTime() - (parameters.lookbackYears ?? 3) * 365.25 * DAY_MS);
+    const findings = organization.auditFindings.filter(
+      (f) => f.reportedDate <= asOf && f.reportedDate >= since
+    );
+    const isOpen = (f: (typeof findings)[number]): boolean =>
+      f.status === 'open' || (f.resolvedDate !== undefined && f.resolvedDate > asOf);
+    const value = findings.reduce(
+      (sum, f) => sum + AUDIT_FINDING_WEIGHTS[f.type] * (isOpen(f) ? 1 : 0.5),
+      0
+    );
+    const open = findings.filter(isOpen);
+    const score = ramp(value, parameters);
+    return {
+      score,
+      value,
+      explanation:
+        findings.length > 0
+          ? `${findings.length} audit findings in the last ${parameters.lookbackYears ?? 3} years, ${open.length} open: ${findings
+              .map((f) => `${f.id} ${f.type}${isOpen(f) ? ' (open)' : ''}`)
+              .join('; ')}`
+          : `No audit findings in the last ${parameters.lookbackYears ?? 3} years`,
+      recommendation:
+        open.length > 0 ? 'Obtain the corrective action plan for the open findings' : undefined,
+    };
+  },
+};
+
+export const financialManagementFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'financial-management',
+  name: 'Financial Management',
+  description:
+    'Mean spending deviation across grants: funds left unspent or overspent on closed grants, and spending ahead of progress on open ones.',
+  parameters: { tolerance: 0.1, fullRiskAt: 0.4 },
+  evaluate({ asOf, grants }: PreAwardRiskContext, parameters) {
+    const deviations = grants
+      .filter(({ grant }) => grant.totalFunding > 0 && grant.startDate <= asOf)
+      .map(({ grant }) => {
+        const utilization = approvedSpend(grant, asOf) / grant.totalFunding;
+        const deviation = CLOSED_STATUSES.includes(grant.status)
+          ? Math.abs(1 - utilization)
+          : Math.max(utilization - progressAsOf(grant, asOf), 0);
+        return { grantId: grant.id, utilization, deviation };
+      });
+    if (deviations.length === 0) {
+      return undefined;
+    }
+    const value = deviations.reduce((sum, d) => sum + d.deviation, 0) / deviations.length;
+    const score = ramp(value, parameters);
+    return {
+      score,
+      value,
+      explanation: `Spending deviates ${percent(value)} from plan on average (${deviations
+        .map((d) => `${d.grantId} ${percent(d.utilization)} spent`)
+        .join('; ')})`,
+      recommendation: score > 0 ? 'Review the financial management system before award' : undefined,
+    };
+  },
+};
+
+export const awardSizeFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'award-size',
+  name: 'Award Size',
+  description:
+    "The proposed amount relative to the organization's largest award in the same currency; a first award scores firstAwardScore.",
+  parameters: { tolerance: 1.5, fullRiskAt: 4, firstAwardScore: 0.5 },
+  evaluate({ grants, proposal }: PreAwardRiskContext, parameters) {
+    const largestOverall = grants.reduce<(typeof grants)[number]['grant'] | undefined>(
+      (max, { grant }) => (!max || grant.totalFunding > max.totalFunding ? grant : max),
+      undefined
+    );
+    const currency = proposal.currency || largestOverall?.currency;
+    const largest = grants
+      .map(({ grant }) => grant)
+      .filter((g) => g.currency === currency)
+      .reduce((max, g) => Math.max(max, g.totalFunding), 0);
+    if (largest === 0) {
+      return {
+        score: parameters.firstAwardScore ?? 0.5,
+        value: 0,
+        explanation: `First award${currency ? ` in ${currency}` : ''}: no prior grants to compare against`,
+        recommendation: 'Consider a smaller initial award or milestone-based payments',
+      };
+    }
+    const ratio = proposal.amount / largest;
+    const score = ramp(ratio, parameters);
+    return {
+      score,
+      value: ratio,
+      explanation: `Proposed ${proposal.amount} ${currency} is ${ratio.toFixed(1)}× the largest prior award of ${largest} ${currency}`,
+      recommendation:
+        score > 0
+          ? 'Confirm the organization has capacity to manage an award this size'
+          : undefined,
+    };
+  },
+};
+
+export const organizationAgeFactor: RiskFactor<PreAwardRiskContext> = {
+  id: 'organization-age',
+  name: 'Organization Age',
+  description:
+    'Years since registration; newly registered organizations score higher until matureAfterYears.',
+  parameters: { matureAfterYears: 3 },
+  evaluate({ organization, asOf }: PreAwardRiskContext, parameters) {
+    if (!organization.registrationDate) {
+      return undefined;
+    }
+    const years = (asOf.getTime() - organization.registrationDate.getTime()) / (365.25 * DAY_MS);
+    const mature = parameters.matureAfterYears ?? 3;
+    const score = mature > 0 ? Math.min(Math.max(1 - years / mature, 0), 1) : 0;
+    return {
+      score,
+      value: years,
+      explanation: `Registered ${years.toFixed(1)} years ago`,
+      recommendation:
+        score > 0 ? 'Verify governance and financial controls of the new organization' : undefined,
+    };
+  },
+};
+
+/** Built-in pre-award factors with their default weights. */
+export const PRE_AWARD_RISK_FACTORS: [RiskFactor<PreAwardRiskContext>, number][] = [
+  [complianceHistoryFactor, 0.25],
+  [auditFindingsFactor, 0.25],
+  [reportingHistoryFactor, 0.15],
+  [financialManagementFactor, 0.15],
+  [awardSizeFactor, 0.1],
+  [organizationAgeFactor, 0.1],
+];
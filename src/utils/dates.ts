@@ -0,0 +1,172 @@
+/**
+ * Calendar helpers shared by the metrics engines. All arithmetic is done in
+ * UTC so period boundaries do not shift with the server time zone.
+ */
+export const DAY_MS = 1000 * 60 * 60 * 24;
+
+export type PeriodType = 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
+
+const PERIOD_MONTHS: Record<PeriodType, number> = {
+  monthly: 1,
+  quarterly: 3,
+  'semi-annual': 6,
+  annual: 12,
+};
+
+export function monthsInPeriod(period: PeriodType): number {
+  return PERIOD_MONTHS[period];
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.ceil((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+/** Fractional number of months between two dates, using 30.4375-day months. */
+export function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (DAY_MS * 30.4375);
+}
+
+/**
+ * Start of the calendar period containing `date`. `fiscalYearStartMonth`
+ * (1-12) shifts quarter, half and year boundaries for fiscal calendars.
+ */
+export function startOfPeriod(date: Date, period: PeriodType, fiscalYearStartMonth = 1): Date {
+  const length = PERIOD_MONTHS[period];
+  const offset = fiscalYearStartMonth - 1;
+  const monthIndex = date.getUTCFullYear() * 12 + date.getUTCMonth() - offset;
+  const start = Math.floor(monthIndex / length) * length + offset;
+  return new Date(Date.UTC(Math.floor(start / 12), start % 12, 1));
+}
+
+/** Last instant of the period beginning at `start`. */
+export function endOfPeriod(start: Date, period: PeriodType): Date {
+  return new Date(addMonths(start, PERIOD_MONTHS[period]).getTime() - 1);
+}
+
+/**
+ * Human label for the period beginning at `start`, e.g. `2023-05`, `Q3 2023`,
+ * `H1 2024` or `2023`. Fiscal periods are labelled by the fiscal year they end in.
+ */
+export function periodLabel(start: Date, period: PeriodType, fiscalYearStartMonth = 1): string {
+  const month = start.getUTCMonth();
+  const year = start.getUTCFullYear();
+  if (period === 'monthly') {
+    return `${year}-${String(month + 1).padStart(2, '0')}`;
+  }
+
+  const fiscalMonth = (month - (fiscalYearStartMonth - 1) + 12) % 12;
+  const fiscalYear =
+    fiscalYearStartMonth === 1 || month < fiscalYearStartMonth - 1 ? year : year + 1;
+  const prefix = fiscalYearStartMonth === 1 ? '' : 'FY';
+  switch (period) {
+    case 'quarterly':
+      return `Q${Math.floor(fiscalMonth / 3) + 1} ${prefix}${fiscalYear}`;
+    case 'semi-annual':
+      return `H${Math.floor(fiscalMonth / 6) + 1} ${prefix}${fiscalYear}`;
+    default:
+      return `${prefix}${fiscalYear}`;
+  }
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Monday to Friday. */
+export function isBusinessDay(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * Moves `days` business days forward from `date`, keeping the time of day.
+ * Weekends are skipped unless another `isWorkingDay` test is given.
+ */
+export function addBusinessDays(
+  date: Date,
+  days: number,
+  isWorkingDay: (date: Date) => boolean = isBusinessDay
+): Date {
+  let result = new Date(date);
+  for (let remaining = days; remaining > 0;) {
+    result = addDays(result, 1);
+    if (isWorkingDay(result)) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/** Midnight UTC of the calendar day `date` falls on in UTC. */
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** Milliseconds that wall-clock time in `timeZone` is ahead of UTC at `instant`. */
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return wallClock - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * Last instant of the calendar day `date` falls on (in UTC) as observed in
+ * the IANA `timeZone`, e.g. 2024-01-31 in America/New_York is 2024-02-01T04:59:59.999Z.
+ */
+export function endOfDayIn(date: Date, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    23,
+    59,
+    59,
+    999
+  );
+  // Correct the first guess once so days that change daylight saving time land right
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffset(new Date(guess), timeZone));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
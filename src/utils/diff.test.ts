@@ -0,0 +1,82 @@
+import { applyChanges, diffValues, setAtPath } from './diff';
+
+describe('diffValues', () => {
+  it('records changed fields by dotted path', () => {
+    expect(
+      diffValues(
+        { title: 'Old', recipient: { name: 'A', city: 'X' } },
+        { title: 'New', recipient: { name: 'A' }, tags: ['x'] }
+      )
+    ).toEqual([
+      { path: 'title', before: 'Old', after: 'New' },
+      { path: 'recipient.city', before: 'X' },
+      { path: 'tags', after: ['x'] },
+    ]);
+  });
+
+  it('addresses identified list items by ID and records where items were added or removed', () => {
+    const before = { milestones: [{ id: 'M1', status: 'pending' }, { id: 'M2' }, { id: 'M3' }] };
+    const after = { milestones: [{ id: 'M1', status: 'completed' }, { id: 'M3' }, { id: 'M4' }] };
+
+    expect(diffValues(before, after)).toEqual([
+      { path: 'milestones[M1].status', before: 'pending', after: 'completed' },
+      { path: 'milestones[M2]', before: { id: 'M2' }, index: 1 },
+      { path: 'milestones[M4]', after: { id: 'M4' }, index: 2 },
+    ]);
+  });
+
+  it('compares lists without IDs as a whole', () => {
+    expect(diffValues({ tags: ['a', 'b'] }, { tags: ['b', 'a'] })).toEqual([
+      { path: 'tags', before: ['a', 'b'], after: ['b', 'a'] },
+    ]);
+  });
+});
+
+describe('setAtPath', () => {
+  it('creates missing containers on the way', () => {
+    const target = {};
+    setAtPath(target, 'recipient.address.city', 'Springfield');
+    expect(target).toEqual({ recipient: { address: { city: 'Springfield' } } });
+  });
+
+  it('inserts new list items at the given index, else at the end', () => {
+    const target = { items: [{ id: 'a' }, { id: 'c' }] };
+    setAtPath(target, 'items[b]', { id: 'b' }, 1);
+    setAtPath(target, 'items[d]', { id: 'd' });
+    expect(target.items.map((i) => i.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('applyChanges', () => {
+  const cases: [string, string[], string[]][] = [
+    ['removals from the middle', ['a', 'b', 'c', 'd'], ['c']],
+    ['removals next to additions', ['a', 'b', 'c'], ['x', 'b']],
+    ['additions at the front', ['a', 'b'], ['x', 'y', 'a', 'b']],
+    ['a replaced list', ['a', 'b'], ['c', 'd']],
+  ];
+
+  it.each(cases)('replays %s in both directions with items in place', (_name, from, to) => {
+    const list = (ids: string[]): { items: { id: string }[] } => ({
+      items: ids.map((id) => ({ id })),
+    });
+    const changes = diffValues(list(from), list(to));
+
+    const backward = list(to);
+    applyChanges(backward, changes, 'backward');
+    expect(backward).toEqual(list(from));
+
+    const forward = list(from);
+    applyChanges(forward, changes, 'forward');
+    expect(forward).toEqual(list(to));
+  });
+
+  it('does not share values with the diff', () => {
+    const changes = diffValues({}, { budget: { total: 1 } });
+    const target: Record<string, unknown> = {};
+
+    applyChanges(target, changes, 'forward');
+    (target.budget as { total: number }).total = 2;
+
+    expect(changes[0].after).toEqual({ total: 1 });
+  });
+});
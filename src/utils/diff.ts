@@ -0,0 +1,141 @@
+/**
+ * Structural diffing of JSON-shaped values, used for the grant audit trail.
+ *
+ * Paths use dots for object keys and `[id]` for items of arrays whose elements
+ * carry an `id` (e.g. `milestones[MIL-002].status`). Other arrays are compared
+ * and recorded as a whole. A missing `before` or `after` means the value was
+ * added or removed; an added or removed array item also records its `index`
+ * in the array holding it, so replaying puts it back in place.
+ */
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  index?: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIdentifiedList(value: unknown): value is { id: string }[] {
+  return (
+    Array.isArray(value) && value.every((item) => isObject(item) && typeof item.id === 'string')
+  );
+}
+
+function join(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+export function diffValues(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap((key) => diffValues(before[key], after[key], join(path, key)));
+  }
+
+  if (isIdentifiedList(before) && isIdentifiedList(after) && (before.length || after.length)) {
+    const ids = new Set([...before.map((i) => i.id), ...after.map((i) => i.id)]);
+    return Array.from(ids).flatMap((id) => {
+      const beforeIndex = before.findIndex((i) => i.id === id);
+      const afterIndex = after.findIndex((i) => i.id === id);
+      const changes = diffValues(before[beforeIndex], after[afterIndex], `${path}[${id}]`);
+      if (beforeIndex !== -1 && afterIndex !== -1) {
+        return changes;
+      }
+      return changes.map((change) => ({ ...change, index: Math.max(beforeIndex, afterIndex) }));
+    });
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  const change: FieldChange = { path };
+  if (before !== undefined) {
+    change.before = before;
+  }
+  if (after !== undefined) {
+    change.after = after;
+  }
+  return [change];
+}
+
+function parsePath(path: string): { key: string; byId: boolean }[] {
+  return Array.from(path.matchAll(/([^.[\]]+)|\[([^\]]+)\]/g)).map((m) =>
+    m[2] !== undefined ? { key: m[2], byId: true } : { key: m[1], byId: false }
+  );
+}
+
+/**
+ * Writes `value` at `path` inside `target`, creating or removing the property or
+ * identified array item when `value` is undefined. A new array item is inserted
+ * at `insertAt` when given, else appended.
+ */
+export function setAtPath(
+  target: JsonObject,
+  path: string,
+  value: unknown,
+  insertAt?: number
+): void {
+  const segments = parsePath(path);
+  let container: unknown = target;
+
+  segments.forEach((segment, index) => {
+    const last = index === segments.length - 1;
+
+    if (segment.byId) {
+      const list = container as JsonObject[];
+      const position = list.findIndex((item) => item.id === segment.key);
+      if (!last) {
+        container = list[position];
+      } else if (value === undefined) {
+        if (position !== -1) {
+          list.splice(position, 1);
+        }
+      } else if (position === -1) {
+        list.splice(insertAt ?? list.length, 0, value as JsonObject);
+      } else {
+        list[position] = value as JsonObject;
+      }
+      return;
+    }
+
+    const object = container as JsonObject;
+    if (!last) {
+      if (object[segment.key] === undefined) {
+        object[segment.key] = segments[index + 1].byId ? [] : {};
+      }
+      container = object[segment.key];
+    } else if (value === undefined) {
+      delete object[segment.key];
+    } else {
+      object[segment.key] = value;
+    }
+  });
+}
+
+/**
+ * Replays a diff onto `target`, forward to the `after` values or backward to
+ * the `before` values. Array items are removed before any are inserted, and
+ * inserted in order of position, so each lands at the index it had.
+ */
+export function applyChanges(
+  target: JsonObject,
+  changes: FieldChange[],
+  direction: 'forward' | 'backward'
+): void {
+  const valueOf = (change: FieldChange): unknown =>
+    direction === 'forward' ? change.after : change.before;
+  const ordered = [
+    ...changes.filter((change) => valueOf(change) === undefined),
+    ...changes
+      .filter((change) => valueOf(change) !== undefined)
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+  ];
+  for (const change of ordered) {
+    setAtPath(target, change.path, structuredClone(valueOf(change)), change.index);
+  }
+}
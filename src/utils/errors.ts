@@ -0,0 +1,109 @@
+import type { GuardFailure } from '../workflows/GrantLifecycle';
+import { toISODate } from './dates';
+
+/**
+ * Domain errors raised by repositories and services. Each carries the HTTP
+ * status it maps to; route handlers report anything else as a 500.
+ */
+export abstract class AppError extends Error {
+  abstract readonly statusCode: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /** Extra fields merged into the JSON error response. */
+  details(): Record<string, unknown> {
+    return {};
+  }
+}
+
+export class NotFoundError extends AppError {
+  readonly statusCode = 404;
+}
+
+export class ValidationError extends AppError {
+  readonly statusCode = 422;
+}
+
+export class UnauthorizedError extends AppError {
+  readonly statusCode = 401;
+}
+
+export class ForbiddenError extends AppError {
+  readonly statusCode = 403;
+}
+
+export class PreconditionRequiredError extends AppError {
+  readonly statusCode = 428;
+}
+
+export class ConflictError extends AppError {
+  readonly statusCode = 409;
+}
+
+export class VersionConflictError extends ConflictError {
+  constructor(
+    readonly entityId: string,
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(
+      `Version conflict on ${entityId}: expected version ${expectedVersion}, current version is ${currentVersion}`
+    );
+  }
+
+  details(): Record<string, unknown> {
+    return { expectedVersion: this.expectedVersion, currentVersion: this.currentVersion };
+  }
+}
+
+export class TransitionRejectedError extends AppError {
+  readonly statusCode = 422;
+
+  constructor(
+    readonly from: string,
+    readonly to: string,
+    readonly failedGuards: GuardFailure[]
+  ) {
+    super(`Transition ${from} -> ${to} rejected: ${failedGuards.map((f) => f.guard).join(', ')}`);
+  }
+
+  details(): Record<string, unknown> {
+    return { from: this.from, to: this.to, failedGuards: this.failedGuards };
+  }
+}
+
+export class ExchangeRateUnavailableError extends AppError {
+  readonly statusCode = 422;
+
+  constructor(
+    readonly from: string,
+    readonly to: string,
+    readonly date: Date
+  ) {
+    super(`No ${from}/${to} exchange rate available for ${toISODate(date)}`);
+  }
+
+  details(): Record<string, unknown> {
+    return { from: this.from, to: this.to, date: toISODate(this.date) };
+  }
+}
+
+/** Stored content no longer matches the checksum recorded when it was uploaded. */
+export class IntegrityError extends AppError {
+  readonly statusCode = 500;
+
+  constructor(
+    readonly key: string,
+    readonly expected: string,
+    readonly actual: string
+  ) {
+    super(`Checksum mismatch for ${key}: content has been altered or corrupted`);
+  }
+
+  details(): Record<string, unknown> {
+    return { expectedChecksum: this.expected, actualChecksum: this.actual };
+  }
+}
@@ -0,0 +1,22 @@
+import winston from 'winston';
+
+/**
+ * Application logger. Writes JSON lines to the console, where the container
+ * runtime collects them; silent under test unless LOG_LEVEL is set.
+ */
+const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.splat(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.Console({
+      silent: process.env.NODE_ENV === 'test' && !process.env.LOG_LEVEL,
+    }),
+  ],
+});
+
+export default logger;
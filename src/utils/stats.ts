@@ -0,0 +1,20 @@
+/** Least-squares line through the points; undefined for fewer than two distinct x values. */
+export function linearFit(points: [number, number][]): { slope: number; r2: number } | undefined {
+  const n = points.length;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (n < 2 || sxx === 0) {
+    return undefined;
+  }
+  const slope = sxy / sxx;
+  // A flat series is perfectly explained by a flat line
+  return { slope, r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy) };
+}
@@ -0,0 +1,201 @@
+import { ComplianceRequirement, Grant } from '../models/Grant';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TransitionRejectedError,
+} from '../utils/errors';
+import { CorrectiveActionContext, CorrectiveActionWorkflow } from './CorrectiveActionWorkflow';
+
+const workflow = new CorrectiveActionWorkflow();
+
+const requirements: ComplianceRequirement[] = [
+  {
+    id: 'REQ-AUDIT',
+    name: 'Single audit filed',
+    description: 'The single audit report is on file',
+    type: 'custom',
+    severity: 'high',
+    condition: { fact: { path: 'grant.tags' }, operator: 'contains', value: 'audited' },
+  },
+];
+
+const manager: CorrectiveActionContext = { user: 'maria', roles: ['grant-manager'] };
+const officer: CorrectiveActionContext = { user: 'otto', roles: ['program-officer'] };
+const owner: CorrectiveActionContext = { user: 'olga', roles: ['finance'] };
+
+function grant(tags: string[] = []): Grant {
+  return new Grant({
+    id: 'GR-1',
+    title: 'Clinic outreach',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    tags,
+  });
+}
+
+function openAction(g: Grant): string {
+  return workflow.open(
+    g,
+    {
+      requirementId: 'REQ-AUDIT',
+      description: 'File the audit',
+      owner: 'olga',
+      dueDate: new Date('2024-09-30'),
+      steps: [{ description: 'Engage auditor' }],
+    },
+    requirements,
+    manager
+  ).id;
+}
+
+/** Takes an open action through to submitted: step completed, evidence attached. */
+function submit(g: Grant, actionId: string): void {
+  workflow.transition(g, actionId, 'in-progress', requirements, owner);
+  const action = g.getCorrectiveAction(actionId);
+  g.completeCorrectiveActionStep(actionId, action.steps[0].id, true, 'olga');
+  g.addCorrectiveActionEvidence(
+    actionId,
+    {
+      id: 'EV-1',
+      name: 'Audit report',
+      url: 'https://example.org/audit.pdf',
+      uploadedBy: 'olga',
+      uploadDate: new Date(),
+    },
+    'olga'
+  );
+  workflow.transition(g, actionId, 'submitted', requirements, owner);
+}
+
+/** Guards a rejected transition failed; fails the test when the transition goes through. */
+function rejectedGuards(move: () => unknown): string[] {
+  try {
+    move();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TransitionRejectedError);
+    return (error as TransitionRejectedError).failedGuards.map((f) => f.guard);
+  }
+  throw new Error('expected the transition to be rejected');
+}
+
+describe('CorrectiveActionWorkflow.open', () => {
+  it('opens an action against a non-compliant requirement with the finding', () => {
+    const g = grant();
+    const action = g.getCorrectiveAction(openAction(g));
+
+    expect(action).toMatchObject({
+      status: 'open',
+      title: 'Remedy: Single audit filed',
+      openedBy: 'maria',
+    });
+    expect(action.steps[0]).toMatchObject({ description: 'Engage auditor', completed: false });
+    expect(action.finding.length).toBeGreaterThan(0);
+    expect(g.history.map((h) => h.action)).toEqual(['CORRECTIVE_ACTION_OPENED']);
+  });
+
+  it('refuses callers without an opener role, compliant requirements and duplicates', () => {
+    const plan = {
+      requirementId: 'REQ-AUDIT',
+      description: 'File the audit',
+      owner: 'olga',
+      dueDate: new Date('2024-09-30'),
+    };
+
+    expect(() => workflow.open(grant(), plan, requirements, owner)).toThrow(ForbiddenError);
+    expect(() => workflow.open(grant(['audited']), plan, requirements, manager)).toThrow(
+      ConflictError
+    );
+    expect(() =>
+      workflow.open(grant(), { ...plan, requirementId: 'REQ-NONE' }, requirements, manager)
+    ).toThrow(NotFoundError);
+
+    const g = grant();
+    openAction(g);
+    expect(() => workflow.open(g, plan, requirements, manager)).toThrow(ConflictError);
+  });
+});
+
+describe('CorrectiveActionWorkflow.transition', () => {
+  it('lets the owner work the action and submit it once steps and evidence are done', () => {
+    const g = grant();
+    const actionId = openAction(g);
+
+    expect(workflow.availableTransitions(g.getCorrectiveAction(actionId), owner)).toEqual([
+      'in-progress',
+    ]);
+    workflow.transition(g, actionId, 'in-progress', requirements, owner);
+
+    expect(
+      rejectedGuards(() => workflow.transition(g, actionId, 'submitted', requirements, owner))
+    ).toEqual(['steps-complete', 'evidence-provided']);
+  });
+
+  it('rejects transitions outside the table and callers without the role', () => {
+    const g = grant();
+    const actionId = openAction(g);
+
+    expect(() => workflow.transition(g, actionId, 'verified', requirements, officer)).toThrow(
+      TransitionRejectedError
+    );
+    expect(() =>
+      workflow.transition(g, actionId, 'in-progress', requirements, {
+        user: 'someone',
+        roles: ['viewer'],
+      })
+    ).toThrow(ForbiddenError);
+  });
+
+  it('verifies only once the requirement passes again, and never by the owner', () => {
+    const g = grant();
+    const actionId = openAction(g);
+    submit(g, actionId);
+
+    expect(
+      rejectedGuards(() =>
+        workflow.transition(g, actionId, 'verified', requirements, {
+          user: 'olga',
+          roles: ['program-officer'],
+        })
+      )
+    ).toEqual(['independent-reviewer']);
+    expect(
+      rejectedGuards(() => workflow.transition(g, actionId, 'verified', requirements, officer))
+    ).toEqual(['requirement-compliant']);
+
+    g.tags.push('audited');
+    const action = workflow.transition(g, actionId, 'verified', requirements, officer);
+    expect(action.status).toBe('verified');
+    expect(action.verification).toMatchObject({ status: 'compliant', checkedBy: 'otto' });
+    expect(action.closedDate).toBeDefined();
+    expect(() => g.updateCorrectiveAction(actionId, { description: 'Too late' }, 'maria')).toThrow(
+      ConflictError
+    );
+  });
+
+  it('requires notes to send a submission back or to close an unresolved action', () => {
+    const g = grant();
+    const actionId = openAction(g);
+    submit(g, actionId);
+
+    expect(() => workflow.transition(g, actionId, 'in-progress', requirements, officer)).toThrow(
+      TransitionRejectedError
+    );
+    workflow.transition(g, actionId, 'in-progress', requirements, {
+      ...officer,
+      notes: 'Evidence is for the wrong fiscal year',
+    });
+    workflow.transition(g, actionId, 'closed', requirements, {
+      ...officer,
+      notes: 'Requirement waived by the grantor',
+    });
+
+    expect(g.getCorrectiveAction(actionId).transitions.map((t) => t.to)).toEqual([
+      'in-progress',
+      'submitted',
+      'in-progress',
+      'closed',
+    ]);
+  });
+});
@@ -0,0 +1,290 @@
+import { randomUUID } from 'crypto';
+import { getComplianceRuleEngine, RuleEvaluation } from '../compliance';
+import type {
+  ComplianceRequirement,
+  CorrectiveAction,
+  CorrectiveActionStatus,
+  Grant,
+} from '../models/Grant';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TransitionRejectedError,
+} from '../utils/errors';
+import type { GrantRole, GuardFailure } from './GrantLifecycle';
+
+export interface CorrectiveActionContext {
+  user: string;
+  roles: string[];
+  notes?: string;
+  now?: Date;
+}
+
+export interface CorrectiveActionPlan {
+  requirementId: string;
+  title?: string;
+  description: string;
+  owner: string;
+  dueDate: Date;
+  steps?: { description: string; dueDate?: Date }[];
+}
+
+interface ActionGuard {
+  name: string;
+  /** Returns a failure message, or null when the guard passes. */
+  check(action: CorrectiveAction, context: CorrectiveActionContext): string | null;
+}
+
+export interface CorrectiveActionRule {
+  from: CorrectiveActionStatus;
+  to: CorrectiveActionStatus;
+  roles: GrantRole[];
+  /** The action's owner may make this transition whatever their roles */
+  allowOwner?: boolean;
+  guards: ActionGuard[];
+}
+
+const UNRESOLVED: CorrectiveActionStatus[] = ['open', 'in-progress', 'submitted'];
+const OPENER_ROLES = ['admin', 'grant-manager', 'program-officer'];
+
+const stepsComplete: ActionGuard = {
+  name: 'steps-complete',
+  check: (action) => {
+    const open = action.steps.filter((st) => !st.completed);
+    return open.length > 0
+      ? `Steps not completed: ${open.map((st) => st.description).join('; ')}`
+      : null;
+  },
+};
+
+const evidenceProvided: ActionGuard = {
+  name: 'evidence-provided',
+  check: (action) =>
+    action.evidence.length > 0 ? null : 'Evidence must be uploaded before submitting the action',
+};
+
+const notesProvided: ActionGuard = {
+  name: 'notes-provided',
+  check: (_action, context) =>
+    context.notes && context.notes.trim() ? null : 'Notes explaining the decision are required',
+};
+
+const independentReviewer: ActionGuard = {
+  name: 'independent-reviewer',
+  check: (action, context) =>
+    action.owner === context.user ? 'Corrective actions cannot be verified by their owner' : null,
+};
+
+/**
+ * Open -> in-progress -> submitted -> verified, with submitted actions
+ * returned to in-progress when the fix falls short. Closing without
+ * verification (e.g. the grantor waived the requirement) needs notes.
+ */
+export const CORRECTIVE_ACTION_TRANSITIONS: CorrectiveActionRule[] = [
+  { from: 'open', to: 'in-progress', roles: ['grant-manager'], allowOwner: true, guards: [] },
+  {
+    from: 'in-progress',
+    to: 'submitted',
+    roles: ['grant-manager'],
+    allowOwner: true,
+    guards: [stepsComplete, evidenceProvided],
+  },
+  { from: 'submitted', to: 'in-progress', roles: ['program-officer'], guards: [notesProvided] },
+  { from: 'submitted', to: 'verified', roles: ['program-officer'], guards: [independentReviewer] },
+  { from: 'verified', to: 'closed', roles: ['program-officer'], guards: [] },
+  ...UNRESOLVED.map((from): CorrectiveActionRule => ({
+    from,
+    to: 'closed',
+    roles: ['program-officer'],
+    guards: [notesProvided],
+  })),
+];
+
+export function isUnresolved(action: CorrectiveAction): boolean {
+  return UNRESOLVED.includes(action.status);
+}
+
+export class CorrectiveActionWorkflow {
+  constructor(private readonly rules: CorrectiveActionRule[] = CORRECTIVE_ACTION_TRANSITIONS) {}
+
+  /**
+   * Opens a corrective action against a requirement that currently evaluates
+   * to non-compliant; a requirement has at most one unresolved action.
+   */
+  open(
+    grant: Grant,
+    plan: CorrectiveActionPlan,
+    requirements: ComplianceRequirement[],
+    context: CorrectiveActionContext
+  ): CorrectiveAction {
+    if (!context.roles.some((role) => OPENER_ROLES.includes(role))) {
+      throw new ForbiddenError(
+        `Opening corrective actions requires one of the roles: ${OPENER_ROLES.join(', ')}`
+      );
+    }
+    const requirement = this.findRequirement(requirements, plan.requirementId);
+    const existing = grant.correctiveActions.find(
+      (a) => a.requirementId === requirement.id && isUnresolved(a)
+    );
+    if (existing) {
+      throw new ConflictError(
+        `Requirement ${requirement.id} already has corrective action ${existing.id} (${existing.status})`
+      );
+    }
+
+    const now = context.now || new Date();
+    const evaluation = this.evaluate(grant, requirement, now);
+    if (evaluation.status !== 'non-compliant') {
+      throw new ConflictError(
+        `Requirement ${requirement.id} is ${evaluation.status}; corrective actions are for non-compliant requirements`
+      );
+    }
+
+    const action: CorrectiveAction = {
+      id: randomUUID(),
+      requirementId: requirement.id,
+      requirementName: requirement.name,
+      title: plan.title || `Remedy: ${requirement.name}`,
+      description: plan.description,
+      owner: plan.owner,
+      dueDate: plan.dueDate,
+      status: 'open',
+      steps: (plan.steps || []).map((step) => ({ ...step, id: randomUUID(), completed: false })),
+      evidence: [],
+      finding: evaluation.evidence,
+      openedBy: context.user,
+      openedDate: now,
+      transitions: [],
+    };
+    grant.openCorrectiveAction(action, context.user);
+    return action;
+  }
+
+  /**
+   * Throws unless the caller may edit the plan, complete steps or attach
+   * evidence: the action's owner or anyone who may open actions.
+   */
+  assertCanWork(action: CorrectiveAction, context: CorrectiveActionContext): void {
+    if (
+      action.owner !== context.user &&
+      !context.roles.some((role) => OPENER_ROLES.includes(role))
+    ) {
+      throw new ForbiddenError(
+        `Only the owner or one of the roles ${OPENER_ROLES.join(', ')} may work on corrective action ${action.id}`
+      );
+    }
+  }
+
+  /** Statuses the caller could move the action to, ignoring guard conditions. */
+  availableTransitions(
+    action: CorrectiveAction,
+    context: CorrectiveActionContext
+  ): CorrectiveActionStatus[] {
+    return this.rules
+      .filter((rule) => rule.from === action.status && this.isPermitted(rule, action, context))
+      .map((rule) => rule.to);
+  }
+
+  /**
+   * Moves the action to `to` after checking roles and guards. Verification
+   * re-runs the requirement's check and is rejected while it still fails.
+   */
+  transition(
+    grant: Grant,
+    actionId: string,
+    to: CorrectiveActionStatus,
+    requirements: ComplianceRequirement[],
+    context: CorrectiveActionContext
+  ): CorrectiveAction {
+    const action = grant.getCorrectiveAction(actionId);
+    const rule = this.rules.find((r) => r.from === action.status && r.to === to);
+    if (!rule) {
+      const allowed = this.rules.filter((r) => r.from === action.status).map((r) => r.to);
+      throw new TransitionRejectedError(action.status, to, [
+        {
+          guard: 'valid-transition',
+          message: `Cannot move from ${action.status} to ${to}; allowed: ${allowed.join(', ') || 'none'}`,
+        },
+      ]);
+    }
+    if (!this.isPermitted(rule, action, context)) {
+      throw new ForbiddenError(
+        `Corrective action ${action.status} -> ${to} requires one of the roles: ${rule.roles.join(', ')}`
+      );
+    }
+
+    const failures: GuardFailure[] = [];
+    for (const guard of rule.guards) {
+      const message = guard.check(action, context);
+      if (message) {
+        failures.push({ guard: guard.name, message });
+      }
+    }
+
+    const now = context.now || new Date();
+    let evaluation: RuleEvaluation | undefined;
+    if (to === 'verified' && failures.length === 0) {
+      evaluation = this.evaluate(
+        grant,
+        this.findRequirement(requirements, action.requirementId),
+        now
+      );
+      if (evaluation.status === 'non-compliant' || evaluation.status === 'pending') {
+        failures.push({
+          guard: 'requirement-compliant',
+          message: `Requirement ${action.requirementId} is still ${evaluation.status}: ${evaluation.evidence.join('; ')}`,
+        });
+      }
+    }
+    if (failures.length > 0) {
+      throw new TransitionRejectedError(action.status, to, failures);
+    }
+
+    return grant.recordCorrectiveActionTransition(
+      actionId,
+      { from: action.status, to, user: context.user, date: now, notes: context.notes },
+      evaluation && {
+        status: evaluation.status,
+        evidence: evaluation.evidence,
+        checkedBy: context.user,
+        checkedAt: now,
+      }
+    );
+  }
+
+  private findRequirement(
+    requirements: ComplianceRequirement[],
+    requirementId: string
+  ): ComplianceRequirement {
+    const requirement = requirements.find((r) => r.id === requirementId);
+    if (!requirement) {
+      throw new NotFoundError(`Compliance requirement ${requirementId} not found`);
+    }
+    return requirement;
+  }
+
+  private evaluate(grant: Grant, requirement: ComplianceRequirement, now: Date): RuleEvaluation {
+    if (requirement.applicableFrom && requirement.applicableFrom > now) {
+      return {
+        ruleType: requirement.type,
+        status: 'not-applicable',
+        evidence: [],
+        trace: { description: 'Requirement not yet applicable', outcome: 'skipped' },
+      };
+    }
+    return getComplianceRuleEngine().evaluate(requirement, grant, now);
+  }
+
+  private isPermitted(
+    rule: CorrectiveActionRule,
+    action: CorrectiveAction,
+    context: CorrectiveActionContext
+  ): boolean {
+    return (
+      context.roles.includes('admin') ||
+      rule.roles.some((role) => context.roles.includes(role)) ||
+      (Boolean(rule.allowOwner) && action.owner === context.user)
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalDocumentStore, setDocumentStore, uploadDocument } from '../documents';
+import { Grant } from '../models/Grant';
+import { ForbiddenError, TransitionRejectedError } from '../utils/errors';
+import { DocumentReviewContext, DocumentReviewWorkflow } from './DocumentReview';
+
+const workflow = new DocumentReviewWorkflow();
+const officer: DocumentReviewContext = { user: 'otto', roles: ['program-officer'] };
+
+describe('DocumentReviewWorkflow', () => {
+  let root: string;
+  let grant: Grant;
+  let documentId: string;
+  let storageKey: string;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    setDocumentStore(new LocalDocumentStore(root));
+    grant = new Grant({
+      id: 'GR-1',
+      title: 'Clinic outreach',
+      totalFunding: 100000,
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-12-31'),
+    });
+    const uploaded = await uploadDocument(
+      grant,
+      {
+        type: 'Financial Statement',
+        name: 'statement.pdf',
+        contentType: 'application/pdf',
+        content: Buffer.from('statement'),
+      },
+      'sam'
+    );
+    documentId = uploaded.document.id;
+    storageKey = uploaded.storageKey;
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const rejectedGuards = async (review: Promise<unknown>): Promise<string[]> => {
+    const error = await review.then(
+      () => undefined,
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(TransitionRejectedError);
+    return (error as TransitionRejectedError).failedGuards.map((f) => f.guard);
+  };
+
+  it('offers decisions by status to reviewers only', () => {
+    const document = grant.getDocument(documentId);
+
+    expect(workflow.availableDecisions(document, officer)).toEqual([
+      'reviewed',
+      'approved',
+      'rejected',
+    ]);
+    expect(
+      workflow.availableDecisions(document, { user: 'sam', roles: ['grant-manager'] })
+    ).toEqual([]);
+  });
+
+  it('records the decision on the current version and allows revoking an approval', async () => {
+    await workflow.review(grant, documentId, 'approved', officer);
+    expect(grant.getDocument(documentId)).toMatchObject({ status: 'approved' });
+
+    await expect(
+      rejectedGuards(workflow.review(grant, documentId, 'rejected', officer))
+    ).resolves.toEqual(['notes-provided']);
+    const document = await workflow.review(grant, documentId, 'rejected', {
+      ...officer,
+      notes: 'Wrong fiscal year',
+    });
+
+    expect(document.status).toBe('rejected');
+    expect(document.reviews?.map((r) => [r.status, r.version])).toEqual([
+      ['approved', 1],
+      ['rejected', 1],
+    ]);
+    await expect(
+      rejectedGuards(workflow.review(grant, documentId, 'approved', officer))
+    ).resolves.toEqual(['valid-transition']);
+  });
+
+  it('refuses callers without the reviewer role and reviews of their own uploads', async () => {
+    await expect(
+      workflow.review(grant, documentId, 'approved', { user: 'lee', roles: ['finance'] })
+    ).rejects.toThrow(ForbiddenError);
+    await expect(
+      rejectedGuards(
+        workflow.review(grant, documentId, 'approved', { user: 'sam', roles: ['admin'] })
+      )
+    ).resolves.toEqual(['independent-reviewer']);
+  });
+
+  it('will not approve content that no longer matches its checksum', async () => {
+    fs.writeFileSync(path.join(root, storageKey), 'tampered');
+
+    await expect(
+      rejectedGuards(workflow.review(grant, documentId, 'approved', officer))
+    ).resolves.toEqual(['content-intact']);
+    await workflow.review(grant, documentId, 'reviewed', officer);
+  });
+});
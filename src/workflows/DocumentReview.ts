@@ -0,0 +1,99 @@
+import { readDocumentContent } from '../documents';
+import type { Document, DocumentReview, DocumentStatus, Grant } from '../models/Grant';
+import { ForbiddenError, IntegrityError, TransitionRejectedError } from '../utils/errors';
+import type { GuardFailure } from './GrantLifecycle';
+
+export type ReviewDecision = DocumentReview['status'];
+
+export interface DocumentReviewContext {
+  user: string;
+  roles: string[];
+  notes?: string;
+  now?: Date;
+}
+
+const REVIEWER_ROLES = ['admin', 'program-officer'];
+
+/**
+ * Decisions open to a reviewer in each status. An approval can be revoked by
+ * rejecting the document; otherwise a decided document goes back to pending
+ * only when a new version is uploaded.
+ */
+export const DOCUMENT_REVIEW_TRANSITIONS: Record<DocumentStatus, ReviewDecision[]> = {
+  pending: ['reviewed', 'approved', 'rejected'],
+  reviewed: ['approved', 'rejected'],
+  approved: ['rejected'],
+  rejected: [],
+};
+
+export class DocumentReviewWorkflow {
+  /** Decisions the caller could make on the document, ignoring guard conditions. */
+  availableDecisions(document: Document, context: DocumentReviewContext): ReviewDecision[] {
+    return this.canReview(context) ? DOCUMENT_REVIEW_TRANSITIONS[document.status] : [];
+  }
+
+  /**
+   * Records a review decision on the document's current version. Reviewers
+   * cannot decide on their own uploads, rejections need notes, and approving
+   * stored content first checks it against its upload checksum.
+   */
+  async review(
+    grant: Grant,
+    documentId: string,
+    decision: ReviewDecision,
+    context: DocumentReviewContext
+  ): Promise<Document> {
+    const document = grant.getDocument(documentId);
+    if (!this.canReview(context)) {
+      throw new ForbiddenError(
+        `Reviewing documents requires one of the roles: ${REVIEWER_ROLES.join(', ')}`
+      );
+    }
+
+    const allowed = DOCUMENT_REVIEW_TRANSITIONS[document.status];
+    if (!allowed.includes(decision)) {
+      throw new TransitionRejectedError(document.status, decision, [
+        {
+          guard: 'valid-transition',
+          message: `Cannot move from ${document.status} to ${decision}; allowed: ${allowed.join(', ') || 'none'}`,
+        },
+      ]);
+    }
+
+    const failures: GuardFailure[] = [];
+    if (document.uploadedBy === context.user) {
+      failures.push({
+        guard: 'independent-reviewer',
+        message: 'Documents cannot be reviewed by the person who uploaded them',
+      });
+    }
+    if (decision === 'rejected' && !context.notes?.trim()) {
+      failures.push({ guard: 'notes-provided', message: 'Rejections require review notes' });
+    }
+    if (decision === 'approved' && document.storageKey && failures.length === 0) {
+      try {
+        await readDocumentContent(document);
+      } catch (error) {
+        if (!(error instanceof IntegrityError)) {
+          throw error;
+        }
+        failures.push({ guard: 'content-intact', message: error.message });
+      }
+    }
+    if (failures.length > 0) {
+      throw new TransitionRejectedError(document.status, decision, failures);
+    }
+
+    return grant.recordDocumentReview(documentId, {
+      status: decision,
+      reviewer: context.user,
+      date: context.now || new Date(),
+      version: document.version || 1,
+      notes: context.notes,
+    });
+  }
+
+  private canReview(context: DocumentReviewContext): boolean {
+    return context.roles.some((role) => REVIEWER_ROLES.includes(role));
+  }
+}
@@ -0,0 +1,141 @@
+import { Expenditure, Grant } from '../models/Grant';
+import { ConflictError, ForbiddenError, TransitionRejectedError } from '../utils/errors';
+import { ExpenditureApprovalWorkflow, ExpenditurePolicy } from './ExpenditureApproval';
+
+const workflow = new ExpenditureApprovalWorkflow();
+
+function expenditure(overrides: Partial<Expenditure> = {}): Expenditure {
+  return {
+    id: 'EXP-1',
+    date: new Date('2024-03-01'),
+    category: 'Supplies',
+    description: 'Test kits',
+    amount: 1000,
+    status: 'pending',
+    submittedBy: 'sam',
+    approvals: [],
+    ...overrides,
+  };
+}
+
+function grantWith(items: Expenditure[], policy?: Partial<ExpenditurePolicy>): Grant {
+  return new Grant({
+    id: 'GR-1',
+    title: 'Clinic outreach',
+    totalFunding: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    expenditures: items,
+    expenditurePolicy: policy as ExpenditurePolicy | undefined,
+  });
+}
+
+const manager = { user: 'maria', roles: ['grant-manager'] };
+const finance = { user: 'fred', roles: ['finance'] };
+const admin = { user: 'ada', roles: ['admin'] };
+
+describe('ExpenditureApprovalWorkflow', () => {
+  it('escalates expenditures over the threshold to an executive step', () => {
+    const grant = grantWith([expenditure(), expenditure({ id: 'EXP-2', amount: 30000 })]);
+
+    const steps = (e: Expenditure): string[] =>
+      workflow.requiredSteps(grant, e).map((step) => step.name);
+    expect(steps(grant.expenditures[0])).toEqual(['program-manager', 'finance']);
+    expect(steps(grant.expenditures[1])).toEqual(['program-manager', 'finance', 'executive']);
+  });
+
+  it('approves the expenditure once its last required step is approved', () => {
+    const grant = grantWith([expenditure()]);
+
+    workflow.decide(grant, 'EXP-1', 'approved', manager);
+    expect(grant.expenditures[0].status).toBe('pending');
+    expect(workflow.nextStep(grant, grant.expenditures[0])?.name).toBe('finance');
+
+    workflow.decide(grant, 'EXP-1', 'approved', finance);
+    expect(grant.expenditures[0]).toMatchObject({ status: 'approved', approvedBy: 'fred' });
+    expect(grant.history.map((h) => h.action)).toEqual([
+      'EXPENDITURE_STEP_APPROVED',
+      'EXPENDITURE_APPROVED',
+    ]);
+    expect(() => workflow.decide(grant, 'EXP-1', 'approved', admin)).toThrow(ConflictError);
+  });
+
+  it('rejects the expenditure at any step', () => {
+    const grant = grantWith([expenditure()]);
+
+    workflow.decide(grant, 'EXP-1', 'rejected', { ...manager, notes: 'No quote attached' });
+
+    expect(grant.expenditures[0]).toMatchObject({
+      status: 'rejected',
+      rejectedBy: 'maria',
+      rejectionReason: 'No quote attached',
+    });
+  });
+
+  it('enforces step roles, separation from the submitter and distinct approvers', () => {
+    const grant = grantWith([expenditure()]);
+
+    expect(() => workflow.decide(grant, 'EXP-1', 'approved', finance)).toThrow(ForbiddenError);
+    expect(() =>
+      workflow.decide(grant, 'EXP-1', 'approved', { user: 'sam', roles: ['grant-manager'] })
+    ).toThrow('Expenditures cannot be approved by their submitter');
+
+    workflow.decide(grant, 'EXP-1', 'approved', { user: 'ada', roles: ['admin'] });
+    expect(() => workflow.decide(grant, 'EXP-1', 'approved', admin)).toThrow(
+      'Each approval step must be decided by a different user'
+    );
+  });
+
+  it('blocks approval, but not rejection, of unallowable expenditures', () => {
+    const grant = grantWith(
+      [
+        expenditure({ category: 'Alcohol' }),
+        expenditure({ id: 'EXP-2', amount: 600 }),
+        expenditure({ id: 'EXP-3', date: new Date('2025-02-01') }),
+      ],
+      {
+        allowability: {
+          disallowedCategories: ['alcohol'],
+          categoryItemCaps: { supplies: 500 },
+          receiptRequiredOver: 100,
+        },
+      }
+    );
+
+    expect(workflow.checkAllowability(grant, grant.expenditures[0]).map((f) => f.guard)).toEqual([
+      'disallowed-category',
+      'receipt-required',
+    ]);
+    expect(workflow.checkAllowability(grant, grant.expenditures[1]).map((f) => f.guard)).toEqual([
+      'item-cap',
+      'receipt-required',
+    ]);
+    expect(workflow.checkAllowability(grant, grant.expenditures[2]).map((f) => f.guard)).toContain(
+      'within-grant-period'
+    );
+    expect(() => workflow.decide(grant, 'EXP-1', 'approved', manager)).toThrow(
+      TransitionRejectedError
+    );
+    expect(workflow.decide(grant, 'EXP-1', 'rejected', manager).status).toBe('rejected');
+  });
+
+  it('queues the expenditures awaiting a step the caller may decide, oldest first', () => {
+    const grant = grantWith([
+      expenditure({ submittedDate: new Date('2024-03-05') }),
+      expenditure({ id: 'EXP-2', submittedDate: new Date('2024-03-02') }),
+      expenditure({ id: 'EXP-3', status: 'approved' }),
+    ]);
+    workflow.decide(grant, 'EXP-1', 'approved', manager);
+
+    expect(workflow.queue([grant], ['grant-manager']).map((i) => i.expenditure.id)).toEqual([
+      'EXP-2',
+    ]);
+    expect(workflow.queue([grant], ['finance'])).toMatchObject([
+      { expenditure: { id: 'EXP-1' }, nextStep: { name: 'finance' }, remainingSteps: ['finance'] },
+    ]);
+    expect(workflow.queue([grant], ['admin']).map((i) => i.expenditure.id)).toEqual([
+      'EXP-2',
+      'EXP-1',
+    ]);
+  });
+});
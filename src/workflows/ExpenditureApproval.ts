@@ -0,0 +1,225 @@
+import type { Expenditure, Grant } from '../models/Grant';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TransitionRejectedError,
+} from '../utils/errors';
+import type { GuardFailure } from './GrantLifecycle';
+
+export interface ApprovalStep {
+  name: string;
+  roles: string[];
+  /** The step applies only to expenditures of at least this amount, in the grant currency */
+  minAmount?: number;
+}
+
+export interface AllowabilityRules {
+  disallowedCategories: string[];
+  /** Cap on a single expenditure, in the grant currency */
+  maxItemAmount?: number;
+  /** Per-category caps on a single expenditure, keyed by category name */
+  categoryItemCaps: Record<string, number>;
+  /** Expenditures above this amount need a receipt */
+  receiptRequiredOver?: number;
+}
+
+export interface ExpenditurePolicy {
+  allowability: AllowabilityRules;
+  approvalSteps: ApprovalStep[];
+}
+
+export interface ApprovalContext {
+  user: string;
+  roles: string[];
+  notes?: string;
+  now?: Date;
+}
+
+export interface QueueItem {
+  grantId: string;
+  grantTitle: string;
+  expenditure: Expenditure;
+  amountInGrantCurrency: number;
+  currency: string;
+  nextStep: ApprovalStep;
+  remainingSteps: string[];
+  allowabilityIssues: GuardFailure[];
+}
+
+/**
+ * Submitter, then program manager, then finance; large expenditures escalate
+ * to an admin sign-off.
+ */
+export const DEFAULT_EXPENDITURE_POLICY: ExpenditurePolicy = {
+  allowability: { disallowedCategories: [], categoryItemCaps: {} },
+  approvalSteps: [
+    { name: 'program-manager', roles: ['grant-manager'] },
+    { name: 'finance', roles: ['finance'] },
+    { name: 'executive', roles: ['admin'], minAmount: 25000 },
+  ],
+};
+
+/** The grant's policy, with defaults filled in for anything it leaves out. */
+export function expenditurePolicyFor(grant: Grant): ExpenditurePolicy {
+  const policy = grant.expenditurePolicy;
+  return {
+    allowability: { ...DEFAULT_EXPENDITURE_POLICY.allowability, ...policy?.allowability },
+    approvalSteps: policy?.approvalSteps?.length
+      ? policy.approvalSteps
+      : DEFAULT_EXPENDITURE_POLICY.approvalSteps,
+  };
+}
+
+export class ExpenditureApprovalWorkflow {
+  /** Rule violations that block approval of the expenditure. */
+  checkAllowability(grant: Grant, expenditure: Expenditure): GuardFailure[] {
+    const rules = expenditurePolicyFor(grant).allowability;
+    const amount = grant.getAmountInGrantCurrency(expenditure);
+    const category = expenditure.category.trim().toLowerCase();
+    const failures: GuardFailure[] = [];
+
+    if (rules.disallowedCategories.some((c) => c.trim().toLowerCase() === category)) {
+      failures.push({
+        guard: 'disallowed-category',
+        message: `Category ${expenditure.category} is not allowable under this grant`,
+      });
+    }
+
+    const categoryCap = Object.entries(rules.categoryItemCaps).find(
+      ([name]) => name.trim().toLowerCase() === category
+    )?.[1];
+    for (const cap of [rules.maxItemAmount, categoryCap]) {
+      if (cap !== undefined && amount > cap) {
+        failures.push({
+          guard: 'item-cap',
+          message: `Amount ${amount} ${grant.currency} exceeds the per-item cap of ${cap}`,
+        });
+        break;
+      }
+    }
+
+    if (
+      rules.receiptRequiredOver !== undefined &&
+      amount > rules.receiptRequiredOver &&
+      !expenditure.receiptUrl
+    ) {
+      failures.push({
+        guard: 'receipt-required',
+        message: `A receipt is required for expenditures over ${rules.receiptRequiredOver}`,
+      });
+    }
+
+    const date = new Date(expenditure.date);
+    if (date < new Date(grant.startDate) || date > new Date(grant.endDate)) {
+      failures.push({
+        guard: 'within-grant-period',
+        message: 'Expenditure date falls outside the grant period',
+      });
+    }
+
+    return failures;
+  }
+
+  /** Steps this expenditure must pass, after amount-based escalation. */
+  requiredSteps(grant: Grant, expenditure: Expenditure): ApprovalStep[] {
+    const amount = grant.getAmountInGrantCurrency(expenditure);
+    return expenditurePolicyFor(grant).approvalSteps.filter(
+      (step) => step.minAmount === undefined || amount >= step.minAmount
+    );
+  }
+
+  /** The next step awaiting a decision, or null once the expenditure is settled. */
+  nextStep(grant: Grant, expenditure: Expenditure): ApprovalStep | null {
+    if (expenditure.status !== 'pending') {
+      return null;
+    }
+    const done = new Set((expenditure.approvals || []).map((a) => a.step));
+    return this.requiredSteps(grant, expenditure).find((step) => !done.has(step.name)) || null;
+  }
+
+  /** Pending expenditures whose next step the caller may decide, oldest first. */
+  queue(grants: Grant[], roles: string[]): QueueItem[] {
+    const items: QueueItem[] = [];
+    for (const grant of grants) {
+      for (const expenditure of grant.expenditures) {
+        const nextStep = this.nextStep(grant, expenditure);
+        if (!nextStep || !this.canDecide(nextStep, roles)) {
+          continue;
+        }
+        const steps = this.requiredSteps(grant, expenditure);
+        items.push({
+          grantId: grant.id,
+          grantTitle: grant.title,
+          expenditure,
+          amountInGrantCurrency: grant.getAmountInGrantCurrency(expenditure),
+          currency: grant.currency,
+          nextStep,
+          remainingSteps: steps.slice(steps.indexOf(nextStep)).map((s) => s.name),
+          allowabilityIssues: this.checkAllowability(grant, expenditure),
+        });
+      }
+    }
+    return items.sort(
+      (a, b) =>
+        new Date(a.expenditure.submittedDate || a.expenditure.date).getTime() -
+        new Date(b.expenditure.submittedDate || b.expenditure.date).getTime()
+    );
+  }
+
+  /**
+   * Records the caller's decision on the expenditure's current step. Approval
+   * requires the expenditure to be allowable; approving the last required step
+   * approves the expenditure, while a rejection at any step rejects it.
+   */
+  decide(
+    grant: Grant,
+    expenditureId: string,
+    decision: 'approved' | 'rejected',
+    context: ApprovalContext
+  ): Expenditure {
+    const expenditure = grant.expenditures.find((e) => e.id === expenditureId);
+    if (!expenditure) {
+      throw new NotFoundError(`Expenditure ${expenditureId} not found`);
+    }
+    const step = this.nextStep(grant, expenditure);
+    if (!step) {
+      throw new ConflictError(`Expenditure ${expenditureId} is already ${expenditure.status}`);
+    }
+    if (!this.canDecide(step, context.roles)) {
+      throw new ForbiddenError(
+        `The ${step.name} step requires one of the roles: ${step.roles.join(', ')}`
+      );
+    }
+    if (expenditure.submittedBy === context.user) {
+      throw new ForbiddenError('Expenditures cannot be approved by their submitter');
+    }
+    if ((expenditure.approvals || []).some((a) => a.user === context.user)) {
+      throw new ForbiddenError('Each approval step must be decided by a different user');
+    }
+
+    if (decision === 'approved') {
+      const failures = this.checkAllowability(grant, expenditure);
+      if (failures.length > 0) {
+        throw new TransitionRejectedError('pending', 'approved', failures);
+      }
+    }
+
+    const steps = this.requiredSteps(grant, expenditure);
+    return grant.recordExpenditureDecision(
+      expenditureId,
+      {
+        step: step.name,
+        user: context.user,
+        decision,
+        date: context.now || new Date(),
+        notes: context.notes,
+      },
+      steps[steps.length - 1] === step
+    );
+  }
+
+  private canDecide(step: ApprovalStep, roles: string[]): boolean {
+    return roles.includes('admin') || step.roles.some((role) => roles.includes(role));
+  }
+}
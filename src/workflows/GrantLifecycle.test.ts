@@ -0,0 +1,137 @@
+import { Expenditure, Grant, Milestone } from '../models/Grant';
+import { ForbiddenError, TransitionRejectedError } from '../utils/errors';
+import { GrantLifecycle } from './GrantLifecycle';
+
+const lifecycle = new GrantLifecycle();
+
+function draftGrant(overrides: Partial<Grant> = {}): Grant {
+  return new Grant({
+    id: 'GR-1',
+    grantNumber: 'G-1',
+    title: 'Clinic outreach',
+    fundingSource: 'Federal',
+    totalFunding: 100000,
+    awardedAmount: 100000,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2025-12-31'),
+    ...overrides,
+  });
+}
+
+function rejection(action: () => void): TransitionRejectedError {
+  try {
+    action();
+  } catch (error) {
+    if (error instanceof TransitionRejectedError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Transition was not rejected');
+}
+
+describe('GrantLifecycle', () => {
+  it('moves a complete draft to submitted and records the change', () => {
+    const grant = draftGrant();
+
+    lifecycle.transition(grant, 'submitted', { user: 'ana', roles: ['applicant'] });
+
+    expect(grant.status).toBe('submitted');
+    expect(grant.version).toBe(2);
+    expect(grant.history[0]).toMatchObject({
+      action: 'STATUS_CHANGE',
+      user: 'ana',
+      changes: { status: { from: 'draft', to: 'submitted' } },
+    });
+  });
+
+  it('rejects a submission missing required fields without changing the grant', () => {
+    const grant = draftGrant({ title: '', totalFunding: 0, endDate: new Date('2023-01-01') });
+
+    const error = rejection(() =>
+      lifecycle.transition(grant, 'submitted', { user: 'ana', roles: ['applicant'] })
+    );
+
+    expect(error.failedGuards.map((f) => f.guard)).toEqual(['required-fields', 'valid-timeline']);
+    expect(error.failedGuards[0].message).toBe('Missing required fields: title, totalFunding');
+    expect(grant.status).toBe('draft');
+    expect(grant.history).toHaveLength(0);
+  });
+
+  it('requires one of the roles on the transition, or admin', () => {
+    const grant = draftGrant({ status: 'submitted' });
+
+    expect(() =>
+      lifecycle.transition(grant, 'under-review', { user: 'ana', roles: ['applicant'] })
+    ).toThrow(ForbiddenError);
+
+    lifecycle.transition(grant, 'under-review', { user: 'root', roles: ['admin'] });
+    expect(grant.status).toBe('under-review');
+  });
+
+  it('rejects transitions the lifecycle does not define', () => {
+    const error = rejection(() =>
+      lifecycle.transition(draftGrant(), 'active', { user: 'root', roles: ['admin'] })
+    );
+
+    expect(error.failedGuards).toEqual([
+      {
+        guard: 'valid-transition',
+        message: 'Cannot move from draft to active; allowed: submitted',
+      },
+    ]);
+  });
+
+  it('does not activate a grant before its start date', () => {
+    const grant = draftGrant({ status: 'approved', startDate: new Date('2024-06-01') });
+    const context = { user: 'po', roles: ['program-officer'] };
+
+    const error = rejection(() =>
+      lifecycle.transition(grant, 'active', { ...context, now: new Date('2024-05-31') })
+    );
+    expect(error.failedGuards[0].guard).toBe('start-date-reached');
+
+    lifecycle.transition(grant, 'active', { ...context, now: new Date('2024-06-01') });
+    expect(grant.status).toBe('active');
+  });
+
+  it('completes a grant only when milestones are done and expenditures settled', () => {
+    const grant = draftGrant({
+      status: 'active',
+      milestones: [{ id: 'MIL-1', status: 'in-progress' } as Milestone],
+      expenditures: [{ id: 'EXP-1', status: 'pending' } as Expenditure],
+    });
+
+    const error = rejection(() =>
+      lifecycle.transition(grant, 'completed', { user: 'po', roles: ['program-officer'] })
+    );
+
+    expect(error.failedGuards).toEqual([
+      { guard: 'milestones-complete', message: 'Milestones not completed: MIL-1' },
+      { guard: 'expenditures-settled', message: 'Expenditures awaiting approval: EXP-1' },
+    ]);
+  });
+
+  it('requires a reason to suspend or terminate', () => {
+    const grant = draftGrant({ status: 'active' });
+    const context = { user: 'po', roles: ['program-officer'] };
+
+    expect(rejection(() => lifecycle.transition(grant, 'suspended', context)).failedGuards).toEqual(
+      [{ guard: 'reason-provided', message: 'A reason is required for this transition' }]
+    );
+
+    lifecycle.transition(grant, 'suspended', { ...context, reason: 'Audit pending' });
+    expect(grant.history[0].changes).toMatchObject({ reason: 'Audit pending' });
+  });
+
+  it('lists the transitions open to the caller', () => {
+    const grant = draftGrant({ status: 'active' });
+
+    expect(lifecycle.availableTransitions(grant, ['program-officer'])).toEqual([
+      'suspended',
+      'completed',
+      'terminated',
+    ]);
+    expect(lifecycle.availableTransitions(grant, ['finance'])).toEqual([]);
+  });
+});
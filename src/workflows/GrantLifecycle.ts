@@ -0,0 +1,199 @@
+import type { Grant, GrantStatus } from '../models/Grant';
+import { ForbiddenError, TransitionRejectedError } from '../utils/errors';
+
+export type GrantRole = 'admin' | 'grant-manager' | 'program-officer' | 'finance' | 'applicant';
+
+export interface TransitionContext {
+  user: string;
+  roles: string[];
+  reason?: string;
+  now?: Date;
+}
+
+export interface TransitionGuard {
+  name: string;
+  /** Returns a failure message, or null when the guard passes. */
+  check(grant: Grant, context: TransitionContext): string | null;
+}
+
+export interface TransitionRule {
+  from: GrantStatus;
+  to: GrantStatus;
+  roles: GrantRole[];
+  guards: TransitionGuard[];
+}
+
+export interface GuardFailure {
+  guard: string;
+  message: string;
+}
+
+const hasRequiredFields: TransitionGuard = {
+  name: 'required-fields',
+  check: (grant) => {
+    const missing: string[] = (['title', 'grantNumber', 'fundingSource'] as const).filter(
+      (field) => !grant[field]
+    );
+    if (grant.totalFunding <= 0) {
+      missing.push('totalFunding');
+    }
+    return missing.length > 0 ? `Missing required fields: ${missing.join(', ')}` : null;
+  },
+};
+
+const validTimeline: TransitionGuard = {
+  name: 'valid-timeline',
+  check: (grant) =>
+    new Date(grant.startDate) < new Date(grant.endDate)
+      ? null
+      : 'Grant start date must be before end date',
+};
+
+const hasAwardAmount: TransitionGuard = {
+  name: 'award-amount',
+  check: (grant) => (grant.awardedAmount > 0 ? null : 'Awarded amount must be set before approval'),
+};
+
+const startDateReached: TransitionGuard = {
+  name: 'start-date-reached',
+  check: (grant, context) =>
+    new Date(grant.startDate) <= (context.now || new Date())
+      ? null
+      : `Grant cannot be activated before its start date (${new Date(grant.startDate).toISOString().slice(0, 10)})`,
+};
+
+const milestonesComplete: TransitionGuard = {
+  name: 'milestones-complete',
+  check: (grant) => {
+    const open = grant.milestones.filter((m) => m.status !== 'completed');
+    return open.length > 0 ? `Milestones not completed: ${open.map((m) => m.id).join(', ')}` : null;
+  },
+};
+
+const expendituresSettled: TransitionGuard = {
+  name: 'expenditures-settled',
+  check: (grant) => {
+    const pending = grant.expenditures.filter((e) => e.status === 'pending');
+    return pending.length > 0
+      ? `Expenditures awaiting approval: ${pending.map((e) => e.id).join(', ')}`
+      : null;
+  },
+};
+
+const finalReportSubmitted: TransitionGuard = {
+  name: 'final-report-submitted',
+  check: (grant) =>
+    grant.reports.some((r) => /final/i.test(r.type) && r.status !== 'draft')
+      ? null
+      : 'A final report must be submitted before the grant can be closed',
+};
+
+const reasonProvided: TransitionGuard = {
+  name: 'reason-provided',
+  check: (_grant, context) =>
+    context.reason && context.reason.trim() ? null : 'A reason is required for this transition',
+};
+
+/**
+ * The grant lifecycle. Admins may perform any listed transition; everyone
+ * else needs one of the roles on the rule.
+ */
+export const GRANT_TRANSITIONS: TransitionRule[] = [
+  {
+    from: 'draft',
+    to: 'submitted',
+    roles: ['applicant', 'grant-manager'],
+    guards: [hasRequiredFields, validTimeline],
+  },
+  { from: 'submitted', to: 'under-review', roles: ['program-officer'], guards: [] },
+  { from: 'under-review', to: 'approved', roles: ['program-officer'], guards: [hasAwardAmount] },
+  {
+    from: 'approved',
+    to: 'active',
+    roles: ['grant-manager', 'program-officer'],
+    guards: [startDateReached],
+  },
+  { from: 'active', to: 'suspended', roles: ['program-officer'], guards: [reasonProvided] },
+  { from: 'suspended', to: 'active', roles: ['program-officer'], guards: [] },
+  {
+    from: 'active',
+    to: 'completed',
+    roles: ['program-officer'],
+    guards: [milestonesComplete, expendituresSettled],
+  },
+  { from: 'active', to: 'terminated', roles: ['program-officer'], guards: [reasonProvided] },
+  { from: 'suspended', to: 'terminated', roles: ['program-officer'], guards: [reasonProvided] },
+  {
+    from: 'completed',
+    to: 'closed',
+    roles: ['program-officer', 'finance'],
+    guards: [finalReportSubmitted, expendituresSettled],
+  },
+  {
+    from: 'terminated',
+    to: 'closed',
+    roles: ['program-officer', 'finance'],
+    guards: [finalReportSubmitted, expendituresSettled],
+  },
+];
+
+export function findTransition(from: GrantStatus, to: GrantStatus): TransitionRule | undefined {
+  return GRANT_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
+
+export class GrantLifecycle {
+  constructor(private readonly rules: TransitionRule[] = GRANT_TRANSITIONS) {}
+
+  /** Statuses the caller could move the grant to, ignoring guard conditions. */
+  availableTransitions(grant: Grant, roles: string[]): GrantStatus[] {
+    return this.rules
+      .filter((rule) => rule.from === grant.status && this.isPermitted(rule, roles))
+      .map((rule) => rule.to);
+  }
+
+  evaluateGuards(grant: Grant, to: GrantStatus, context: TransitionContext): GuardFailure[] {
+    const rule = this.rules.find((t) => t.from === grant.status && t.to === to);
+    if (!rule) {
+      const allowed = this.rules.filter((t) => t.from === grant.status).map((t) => t.to);
+      return [
+        {
+          guard: 'valid-transition',
+          message: `Cannot move from ${grant.status} to ${to}; allowed: ${allowed.join(', ') || 'none'}`,
+        },
+      ];
+    }
+
+    const failures: GuardFailure[] = [];
+    for (const guard of rule.guards) {
+      const message = guard.check(grant, context);
+      if (message) {
+        failures.push({ guard: guard.name, message });
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Moves the grant to `to` after checking role permissions and guards.
+   * Throws ForbiddenError or TransitionRejectedError without modifying the grant.
+   */
+  transition(grant: Grant, to: GrantStatus, context: TransitionContext): void {
+    const rule = this.rules.find((t) => t.from === grant.status && t.to === to);
+    if (rule && !this.isPermitted(rule, context.roles)) {
+      throw new ForbiddenError(
+        `Transition ${grant.status} -> ${to} requires one of the roles: ${rule.roles.join(', ')}`
+      );
+    }
+
+    const failures = this.evaluateGuards(grant, to, context);
+    if (failures.length > 0) {
+      throw new TransitionRejectedError(grant.status, to, failures);
+    }
+
+    grant.updateStatus(to, context.user, context.reason);
+  }
+
+  private isPermitted(rule: TransitionRule, roles: string[]): boolean {
+    return roles.includes('admin') || rule.roles.some((role) => roles.includes(role));
+  }
+}